@@ -12,18 +12,34 @@ import Reports from './pages/Reports';
 import Notifications from './pages/Notifications';
 import Settings from './pages/Settings';
 import Properties from './pages/Properties';
+import AuditLog from './pages/AuditLog';
 import BackofficeDashboard from './pages/backoffice/Dashboard';
 import BackofficeUsers from './pages/backoffice/Users';
 import BackofficeNotifications from './pages/backoffice/Notifications';
 import BackofficeProperties from './pages/backoffice/Properties';
 import BackofficeSubscriptionPlans from './pages/backoffice/SubscriptionPlans';
 import BackofficeSubscriptions from './pages/backoffice/Subscriptions';
+import BackofficePromoCodes from './pages/backoffice/PromoCodes';
 import RolePermissions from './pages/backoffice/RolePermissions';
+import BackofficeAuditLogs from './pages/backoffice/AuditLogs';
+import PortalLayout from './components/layout/PortalLayout';
+import PortalLogin from './pages/portal/Login';
+import PortalDashboard from './pages/portal/Dashboard';
+import PortalPayments from './pages/portal/Payments';
+import PortalMaintenance from './pages/portal/Maintenance';
 import { PropertyProvider, useProperty } from './contexts/PropertyContext';
 import { BackofficeProvider, useBackoffice } from './contexts/BackofficeContext';
 import { NotificationProvider } from './contexts/NotificationContext';
+import { EntitlementProvider } from './contexts/EntitlementContext';
+import { PermissionProvider } from './contexts/PermissionContext';
+import FeatureGuard from './components/ui/FeatureGuard';
+import FeatureUnavailable from './components/ui/FeatureUnavailable';
+import PermissionGuard from './components/ui/PermissionGuard';
+import PermissionDenied from './components/ui/PermissionDenied';
 import BackofficeSwitch from './components/ui/BackofficeSwitch';
 import { supabase } from './lib/supabase';
+import { mfaService } from './services/supabase';
+import { TenantPortalProvider } from './contexts/TenantPortalContext';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const navigate = useNavigate();
@@ -34,9 +50,11 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
   useEffect(() => {
     const checkAuth = async () => {
       const { data: { session } } = await supabase.auth.getSession();
-      setIsAuthenticated(!!session);
+      // Enrolled users must finish the second factor on the login page first
+      const needsChallenge = !!session && await mfaService.needsChallenge();
+      setIsAuthenticated(!!session && !needsChallenge);
       
-      if (!session) {
+      if (!session || needsChallenge) {
         // Save the intended destination
         navigate('/login', { state: { from: location.pathname } });
       }
@@ -88,6 +106,7 @@ const AppContent: React.FC = () => {
     payments: 'Catatan Pembayaran',
     maintenance: 'Pemeliharaan',
     reports: 'Laporan Keuangan',
+    audit: 'Riwayat Perubahan',
     notifications: 'Notifikasi',
     settings: 'Pengaturan',
     properties: 'Properti'
@@ -125,7 +144,13 @@ const AppContent: React.FC = () => {
           path="/tenants" 
           element={
             <ProtectedRoute>
-              <Tenants />
+              <PermissionGuard
+                resource="tenants"
+                action="view"
+                fallback={<PermissionDenied title="Manajemen Penyewa" />}
+              >
+                <Tenants />
+              </PermissionGuard>
             </ProtectedRoute>
           } 
         />
@@ -133,7 +158,13 @@ const AppContent: React.FC = () => {
           path="/rooms" 
           element={
             <ProtectedRoute>
-              <Rooms />
+              <PermissionGuard
+                resource="rooms"
+                action="view"
+                fallback={<PermissionDenied title="Manajemen Kamar" />}
+              >
+                <Rooms />
+              </PermissionGuard>
             </ProtectedRoute>
           } 
         />
@@ -141,7 +172,13 @@ const AppContent: React.FC = () => {
           path="/payments" 
           element={
             <ProtectedRoute>
-              <Payments />
+              <PermissionGuard
+                resource="payments"
+                action="view"
+                fallback={<PermissionDenied title="Catatan Pembayaran" />}
+              >
+                <Payments />
+              </PermissionGuard>
             </ProtectedRoute>
           } 
         />
@@ -149,7 +186,13 @@ const AppContent: React.FC = () => {
           path="/maintenance" 
           element={
             <ProtectedRoute>
-              <Maintenance />
+              <PermissionGuard
+                resource="maintenance"
+                action="view"
+                fallback={<PermissionDenied title="Pemeliharaan" />}
+              >
+                <Maintenance />
+              </PermissionGuard>
             </ProtectedRoute>
           } 
         />
@@ -157,7 +200,32 @@ const AppContent: React.FC = () => {
           path="/reports" 
           element={
             <ProtectedRoute>
-              <Reports />
+              <PermissionGuard
+                resource="reports"
+                action="view"
+                fallback={<PermissionDenied title="Laporan Keuangan" />}
+              >
+                <FeatureGuard
+                  feature="financial_reports"
+                  fallback={<FeatureUnavailable title="Laporan Keuangan" />}
+                >
+                  <Reports />
+                </FeatureGuard>
+              </PermissionGuard>
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/audit" 
+          element={
+            <ProtectedRoute>
+              <PermissionGuard
+                resource="audit"
+                action="view"
+                fallback={<PermissionDenied title="Riwayat Perubahan" />}
+              >
+                <AuditLog />
+              </PermissionGuard>
             </ProtectedRoute>
           } 
         />
@@ -200,26 +268,86 @@ const BackofficeContent: React.FC = () => {
         <Route path="/properties" element={<BackofficeProperties />} />
         <Route path="/subscriptions" element={<BackofficeSubscriptions />} />
         <Route path="/subscription-plans" element={<BackofficeSubscriptionPlans />} />
+        <Route path="/promo-codes" element={<BackofficePromoCodes />} />
         <Route path="/role-permissions" element={<RolePermissions />} />
+        <Route path="/audit-logs" element={<BackofficeAuditLogs />} />
         <Route path="/settings" element={<div>Backoffice Settings</div>} />
       </Routes>
     </BackofficeLayout>
   );
 };
 
+// Tenants sign in separately, so the portal has its own login page
+const PortalRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const navigate = useNavigate();
+  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      setIsAuthenticated(!!session);
+      if (!session) {
+        navigate('/portal/login');
+      }
+    };
+
+    checkAuth();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setIsAuthenticated(!!session);
+      if (!session) {
+        navigate('/portal/login');
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [navigate]);
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return <>{children}</>;
+};
+
+const PortalContent: React.FC = () => {
+  return (
+    <PortalRoute>
+      <TenantPortalProvider>
+        <PortalLayout>
+          <Routes>
+            <Route path="/" element={<PortalDashboard />} />
+            <Route path="/payments" element={<PortalPayments />} />
+            <Route path="/maintenance" element={<PortalMaintenance />} />
+            <Route path="*" element={<Navigate to="/portal" replace />} />
+          </Routes>
+        </PortalLayout>
+      </TenantPortalProvider>
+    </PortalRoute>
+  );
+};
+
 function App() {
   return (
     <Router>
       <BackofficeProvider>
         <PropertyProvider>
-          <NotificationProvider>
-            <Routes>
-              <Route path="/login" element={<Login />} />
-              <Route path="/backoffice/*" element={<BackofficeContent />} />
-              <Route path="/*" element={<AppContent />} />
-            </Routes>
-            <BackofficeSwitch />
-          </NotificationProvider>
+          <EntitlementProvider>
+            <PermissionProvider>
+              <NotificationProvider>
+                <Routes>
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/backoffice/*" element={<BackofficeContent />} />
+                  <Route path="/portal/login" element={<PortalLogin />} />
+                  <Route path="/portal/*" element={<PortalContent />} />
+                  <Route path="/*" element={<AppContent />} />
+                </Routes>
+                <BackofficeSwitch />
+              </NotificationProvider>
+            </PermissionProvider>
+          </EntitlementProvider>
         </PropertyProvider>
       </BackofficeProvider>
     </Router>
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import Button from '../ui/Button';
+import { AlertCircle, KeyRound, ShieldCheck } from 'lucide-react';
+import { mfaService } from '../../services/supabase';
+
+interface MfaChallengeProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+const MfaChallenge: React.FC<MfaChallengeProps> = ({ onVerified, onCancel }) => {
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFactor = async () => {
+      try {
+        const factor = await mfaService.getTotpFactor();
+        setFactorId(factor?.id ?? null);
+      } catch (err) {
+        console.error('Error loading MFA factor:', err);
+        setError('Gagal memuat autentikasi dua faktor');
+      }
+    };
+
+    loadFactor();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      if (useRecoveryCode) {
+        const redeemed = await mfaService.redeemRecoveryCode(code);
+        if (!redeemed) {
+          setError('Kode pemulihan salah atau sudah pernah digunakan');
+          return;
+        }
+      } else {
+        if (!factorId) throw new Error('No TOTP factor');
+        await mfaService.verify(factorId, code.replace(/\s/g, ''));
+      }
+      onVerified();
+    } catch (err) {
+      console.error('Error verifying second factor:', err);
+      setError(useRecoveryCode
+        ? 'Gagal menggunakan kode pemulihan'
+        : 'Kode verifikasi salah atau sudah kedaluwarsa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      <div className="text-center">
+        <ShieldCheck className="h-10 w-10 text-blue-600 mx-auto" />
+        <h3 className="mt-2 text-lg font-medium text-gray-900">Verifikasi Dua Langkah</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          {useRecoveryCode
+            ? 'Masukkan salah satu kode pemulihan Anda. Autentikasi dua faktor akan dinonaktifkan dan dapat diaktifkan kembali di Pengaturan.'
+            : 'Masukkan kode 6 digit dari aplikasi autentikator Anda.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 rounded-md p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 mr-2 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700">
+          {useRecoveryCode ? 'Kode Pemulihan' : 'Kode Verifikasi'}
+        </label>
+        <div className="mt-1 relative">
+          <input
+            id="mfa-code"
+            name="mfa-code"
+            type="text"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            required
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 tracking-widest focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <KeyRound className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full flex justify-center"
+        disabled={loading || (!useRecoveryCode && !factorId)}
+      >
+        {loading ? 'Memverifikasi...' : 'Verifikasi'}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError(null);
+          }}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          {useRecoveryCode ? 'Gunakan aplikasi autentikator' : 'Gunakan kode pemulihan'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-gray-600 hover:text-gray-800"
+        >
+          Batal
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MfaChallenge;
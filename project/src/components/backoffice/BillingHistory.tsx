@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { SubscriptionInvoice } from '../../types/subscription';
+import Badge from '../ui/Badge';
+import { X, Loader2 } from 'lucide-react';
+import { subscriptionService } from '../../services/supabase';
+import { formatCurrency } from '../../utils/formatters';
+import { format } from 'date-fns';
+import { id } from 'date-fns/locale';
+
+interface BillingHistoryProps {
+  userId: string;
+  userEmail?: string;
+  onClose: () => void;
+}
+
+const statusClassNames: Record<SubscriptionInvoice['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800',
+  void: 'bg-gray-100 text-gray-800'
+};
+
+const formatDay = (value: string | null) =>
+  value ? format(new Date(value), 'dd MMM yyyy', { locale: id }) : '-';
+
+const BillingHistory: React.FC<BillingHistoryProps> = ({
+  userId,
+  userEmail,
+  onClose
+}) => {
+  const [invoices, setInvoices] = useState<SubscriptionInvoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setInvoices(await subscriptionService.getInvoices(userId));
+    } catch (err) {
+      console.error('Error loading invoices:', err);
+      setError('Failed to load billing history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  const totalPaid = invoices
+    .filter(invoice => invoice.status === 'paid')
+    .reduce((sum, invoice) => sum + Number(invoice.amount), 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Billing History</h2>
+            {userEmail && <p className="text-sm text-gray-500">{userEmail}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 text-red-700 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="p-6 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center">
+              <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <p className="text-center text-gray-500">No invoices yet</p>
+          ) : (
+            <>
+              <p className="mb-4 text-sm text-gray-600">
+                Total paid: <span className="font-semibold text-gray-900">{formatCurrency(totalPaid)}</span>
+              </p>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plan</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {invoices.map(invoice => (
+                    <tr key={invoice.id}>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{invoice.invoice_number}</div>
+                        <div className="text-xs text-gray-500">{invoice.provider}</div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{invoice.plan_name}</div>
+                        <div className="text-xs text-gray-500">{invoice.kind}</div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {invoice.period_start
+                          ? `${formatDay(invoice.period_start)} - ${formatDay(invoice.period_end)}`
+                          : formatDay(invoice.created_at)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatCurrency(invoice.amount)}
+                        {Number(invoice.discount_amount) > 0 && (
+                          <div className="text-xs text-green-600">promo -{formatCurrency(invoice.discount_amount)}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <Badge className={statusClassNames[invoice.status]}>
+                          {invoice.status}
+                        </Badge>
+                        {invoice.paid_at && (
+                          <div className="text-xs text-gray-500 mt-1">{formatDay(invoice.paid_at)}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BillingHistory;
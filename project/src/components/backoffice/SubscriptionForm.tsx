@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { SubscriptionPlan } from '../../types/subscription';
+import { PromoCode, SubscriptionPlan } from '../../types/subscription';
 import Button from '../ui/Button';
-import { X, CheckCircle, Loader2 } from 'lucide-react';
+import { X, CheckCircle, Loader2, Tag } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { formatCurrency } from '../../utils/formatters';
+import { calculatePromoDiscount, describePromoDiscount, getPromoCodeError, PROMO_CODE_ERROR_MESSAGES } from '../../utils/promo';
+import { isSubscriptionExistsError } from '../../utils/subscription';
 
 interface SubscriptionFormProps {
   userId: string;
@@ -20,6 +23,10 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
 
   useEffect(() => {
     loadPlans();
@@ -43,6 +50,41 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
     }
   };
 
+  const handleSelectPlan = (planId: string) => {
+    setSelectedPlan(planId);
+    // Plan restrictions are checked per plan, so the code has to be applied again
+    setAppliedPromo(null);
+    setPromoError(null);
+  };
+
+  const handleApplyPromo = async () => {
+    if (!selectedPlan) {
+      setPromoError('Select a plan before applying a promo code');
+      return;
+    }
+
+    try {
+      setIsCheckingPromo(true);
+      setPromoError(null);
+
+      const { data, error: promoCheckError } = await supabase.rpc('validate_promo_code', {
+        p_code: promoInput,
+        p_user_id: userId,
+        p_plan_id: selectedPlan
+      });
+
+      if (promoCheckError) throw promoCheckError;
+      setAppliedPromo(data as PromoCode);
+    } catch (err) {
+      console.error('Error checking promo code:', err);
+      const reason = getPromoCodeError(err);
+      setAppliedPromo(null);
+      setPromoError(reason ? PROMO_CODE_ERROR_MESSAGES[reason] : 'Failed to check promo code');
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedPlan) {
@@ -50,17 +92,21 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
       return;
     }
 
+    if (promoInput.trim() && !appliedPromo) {
+      setError('Apply the promo code or clear it before adding the subscription');
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       setError(null);
 
-      const { error: subscriptionError } = await supabase
-        .from('subscriptions')
-        .insert([{
-          user_id: userId,
-          plan_id: selectedPlan,
-          status: 'active'
-        }]);
+      // Redeems the promo code in the same transaction, so max_redemptions holds
+      const { error: subscriptionError } = await supabase.rpc('create_backoffice_subscription', {
+        p_user_id: userId,
+        p_plan_id: selectedPlan,
+        p_promo_code: appliedPromo?.code ?? null
+      });
 
       if (subscriptionError) throw subscriptionError;
 
@@ -68,7 +114,16 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
       onClose();
     } catch (err) {
       console.error('Error creating subscription:', err);
-      setError('Failed to create subscription');
+      const reason = getPromoCodeError(err);
+      if (reason) {
+        setAppliedPromo(null);
+        setPromoError(PROMO_CODE_ERROR_MESSAGES[reason]);
+        setError('The promo code can no longer be redeemed');
+      } else if (isSubscriptionExistsError(err)) {
+        setError('This user already has a trialing, active or past due subscription');
+      } else {
+        setError('Failed to create subscription');
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -115,7 +170,7 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
                     ? 'border-blue-500 bg-blue-50'
                     : 'border-gray-200 hover:border-blue-200'
                 }`}
-                onClick={() => setSelectedPlan(plan.id)}
+                onClick={() => handleSelectPlan(plan.id)}
               >
                 <div className="flex justify-between items-start mb-2">
                   <div>
@@ -123,12 +178,21 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
                     <p className="text-sm text-gray-500">{plan.description}</p>
                   </div>
                   <div className="text-right">
-                    <p className="text-lg font-bold text-gray-900">
-                      {new Intl.NumberFormat('id-ID', {
-                        style: 'currency',
-                        currency: 'IDR'
-                      }).format(plan.price)}
-                    </p>
+                    {appliedPromo && selectedPlan === plan.id ? (
+                      <>
+                        <p className="text-sm text-gray-500 line-through">{formatCurrency(plan.price)}</p>
+                        <p className="text-lg font-bold text-green-700">
+                          {formatCurrency(plan.price - calculatePromoDiscount(appliedPromo, plan.price))}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-lg font-bold text-gray-900">
+                        {new Intl.NumberFormat('id-ID', {
+                          style: 'currency',
+                          currency: 'IDR'
+                        }).format(plan.price)}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-500">/month</p>
                   </div>
                 </div>
@@ -157,6 +221,42 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             ))}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Promo Code
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={promoInput}
+                onChange={(e) => {
+                  setPromoInput(e.target.value.toUpperCase());
+                  setAppliedPromo(null);
+                  setPromoError(null);
+                }}
+                placeholder="Optional"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleApplyPromo}
+                disabled={!promoInput.trim() || isCheckingPromo || isSubmitting}
+                icon={isCheckingPromo ? <Loader2 className="animate-spin" size={16} /> : <Tag size={16} />}
+              >
+                Apply
+              </Button>
+            </div>
+            {promoError && (
+              <p className="mt-1 text-sm text-red-600">{promoError}</p>
+            )}
+            {appliedPromo && (
+              <p className="mt-1 text-sm text-green-700">
+                {appliedPromo.code}: {describePromoDiscount(appliedPromo, formatCurrency)}
+              </p>
+            )}
+          </div>
+
           <div className="flex justify-end gap-3 mt-6">
             <Button
               variant="outline"
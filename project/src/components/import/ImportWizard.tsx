@@ -0,0 +1,299 @@
+import React, { useState } from 'react';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, Upload, CheckCircle } from 'lucide-react';
+import { importService, tenantService } from '../../services/supabase';
+import { useEntitlements } from '../../contexts/EntitlementContext';
+import { readSpreadsheet, SheetData } from '../../utils/spreadsheet';
+import { getPlanQuotaError } from '../../utils/planQuota';
+import {
+  ExistingRoom,
+  IMPORT_FIELDS,
+  ImportKind,
+  ImportRow,
+  RoomImportData,
+  TenantImportData,
+  autoMapColumns,
+  validateRoomRows,
+  validateTenantRows
+} from '../../utils/importer';
+
+interface ImportWizardProps {
+  kind: ImportKind;
+  propertyId: string;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const titles: Record<ImportKind, string> = {
+  rooms: 'Impor Kamar',
+  tenants: 'Impor Penyewa'
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ kind, propertyId, onImported, onClose }) => {
+  const { limits } = useEntitlements();
+  const fields = IMPORT_FIELDS[kind];
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [rooms, setRooms] = useState<ExistingRoom[]>([]);
+  const [preview, setPreview] = useState<ImportRow<RoomImportData | TenantImportData>[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const validRows = preview.filter(row => row.data);
+  const missingFields = fields.filter(field => field.required && mapping[field.key] < 0);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) throw new Error('Berkas hanya berisi baris judul');
+
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(autoMapColumns(data.headers, fields));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? err.message : 'Gagal membaca berkas');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!sheet) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const existingRooms = await importService.getExistingRooms(propertyId);
+      setRooms(existingRooms);
+
+      if (kind === 'rooms') {
+        setPreview(validateRoomRows(sheet.rows, mapping, existingRooms, limits.max_rooms_per_property));
+      } else {
+        const tenants = await tenantService.getByPropertyId(propertyId);
+        setPreview(validateTenantRows(sheet.rows, mapping, tenants.map(t => t.email), existingRooms));
+      }
+      setStep('preview');
+    } catch (err) {
+      console.error('Error validating import:', err);
+      setError('Gagal memvalidasi data impor');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (kind === 'rooms') {
+        await importService.importRooms(propertyId, validRows.map(row => row.data as RoomImportData));
+      } else {
+        await importService.importTenants(propertyId, validRows.map(row => row.data as TenantImportData), rooms);
+      }
+      setImportedCount(validRows.length);
+      setStep('done');
+      onImported();
+    } catch (err) {
+      console.error('Error importing data:', err);
+      const quota = getPlanQuotaError(err);
+      setError(quota
+        ? `Impor ditolak: paket Anda mencakup maksimal ${quota.limit} kamar per properti`
+        : 'Gagal mengimpor data');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const previewValue = (row: ImportRow<RoomImportData | TenantImportData>, key: string) => {
+    if (!sheet || mapping[key] < 0) return '-';
+    return sheet.rows[row.line - 2][mapping[key]] || '-';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">{titles[kind]}</h2>
+            {fileName && <p className="text-sm text-gray-500">{fileName}</p>}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Unggah berkas CSV atau Excel (.xlsx). Baris pertama harus berisi judul kolom, misalnya:{' '}
+                <span className="font-medium">{fields.map(field => field.label).join(', ')}</span>.
+              </p>
+              {kind === 'tenants' && (
+                <p className="text-sm text-gray-600">
+                  Kolom nomor kamar bersifat opsional dan harus merujuk ke kamar kosong yang sudah ada.
+                </p>
+              )}
+              <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 cursor-pointer">
+                {isSubmitting ? (
+                  <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+                ) : (
+                  <Upload size={24} />
+                )}
+                <span>Pilih berkas .csv atau .xlsx</span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  className="hidden"
+                  disabled={isSubmitting}
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </label>
+            </div>
+          )}
+
+          {step === 'mapping' && sheet && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Cocokkan kolom pada berkas dengan data {kind === 'rooms' ? 'kamar' : 'penyewa'}. Ditemukan {sheet.rows.length} baris data.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {fields.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {field.label}{field.required ? ' *' : ''}
+                    </label>
+                    <select
+                      value={mapping[field.key]}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value={-1}>- Tidak digunakan -</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Kolom ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setStep('upload')}
+                  disabled={isSubmitting}
+                >
+                  Kembali
+                </Button>
+                <Button
+                  onClick={handlePreview}
+                  disabled={isSubmitting || missingFields.length > 0}
+                >
+                  {isSubmitting ? 'Memvalidasi...' : 'Pratinjau'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-100 text-green-800">{validRows.length} baris siap diimpor</Badge>
+                {preview.length > validRows.length && (
+                  <Badge className="bg-red-100 text-red-800">{preview.length - validRows.length} baris bermasalah</Badge>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Baris</th>
+                      {fields.map(field => (
+                        <th key={field.key} className="px-3 py-2 text-left font-medium text-gray-500">{field.label}</th>
+                      ))}
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.map(row => (
+                      <tr key={row.line} className={row.data ? '' : 'bg-red-50'}>
+                        <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                        {fields.map(field => (
+                          <td key={field.key} className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                            {previewValue(row, field.key)}
+                          </td>
+                        ))}
+                        <td className="px-3 py-2">
+                          {row.data ? (
+                            <span className="text-green-700">OK</span>
+                          ) : (
+                            <ul className="text-red-600 list-disc list-inside">
+                              {row.errors.map(message => (
+                                <li key={message}>{message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setStep('mapping')}
+                  disabled={isSubmitting}
+                >
+                  Kembali
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={isSubmitting || validRows.length === 0}
+                >
+                  {isSubmitting ? 'Mengimpor...' : `Impor ${validRows.length} Baris`}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="flex flex-col items-center gap-3 py-8">
+              <CheckCircle className="h-10 w-10 text-green-600" />
+              <p className="text-gray-800">
+                {importedCount} {kind === 'rooms' ? 'kamar' : 'penyewa'} berhasil diimpor.
+              </p>
+              {preview.length > importedCount && (
+                <p className="text-sm text-gray-500">
+                  {preview.length - importedCount} baris bermasalah dilewati.
+                </p>
+              )}
+              <Button onClick={onClose}>Selesai</Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
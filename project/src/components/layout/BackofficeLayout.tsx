@@ -1,7 +1,8 @@
 import React from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Users, Building2, Bell, LayoutDashboard, Settings, LogOut, CreditCard, Shield } from 'lucide-react';
+import { Users, Building2, Bell, LayoutDashboard, Settings, LogOut, CreditCard, Shield, Tag, History } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import SessionTimeout from './SessionTimeout';
 
 interface BackofficeLayoutProps {
   children: React.ReactNode;
@@ -17,7 +18,9 @@ const BackofficeLayout: React.FC<BackofficeLayoutProps> = ({ children }) => {
     { id: 'properties', label: 'Properties', icon: <Building2 size={20} />, path: '/backoffice/properties' },
     { id: 'notifications', label: 'Notifications', icon: <Bell size={20} />, path: '/backoffice/notifications' },
     { id: 'subscription-plans', label: 'Subscription Plans', icon: <CreditCard size={20} />, path: '/backoffice/subscription-plans' },
+    { id: 'promo-codes', label: 'Promo Codes', icon: <Tag size={20} />, path: '/backoffice/promo-codes' },
     { id: 'role-permissions', label: 'Role & Permissions', icon: <Shield size={20} />, path: '/backoffice/role-permissions' },
+    { id: 'audit-logs', label: 'Audit Logs', icon: <History size={20} />, path: '/backoffice/audit-logs' },
     { id: 'settings', label: 'Settings', icon: <Settings size={20} />, path: '/backoffice/settings' }
   ];
 
@@ -73,6 +76,8 @@ const BackofficeLayout: React.FC<BackofficeLayoutProps> = ({ children }) => {
       <div className="ml-64 p-8">
         {children}
       </div>
+
+      <SessionTimeout />
     </div>
   );
 };
@@ -3,6 +3,8 @@ import Sidebar from './Sidebar';
 import Header from './Header';
 import MobileNav from './MobileNav';
 import MobileMenu from './MobileMenu';
+import SubscriptionBanner from './SubscriptionBanner';
+import SessionTimeout from './SessionTimeout';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -46,7 +48,10 @@ const Layout: React.FC<LayoutProps> = ({ children, title, activeItem, onNavigate
 
       {/* Main content */}
       <main className="lg:ml-64 pt-16 pb-20 lg:pb-8 min-h-screen">
-        <div className="p-6">{children}</div>
+        <div className="p-6">
+          <SubscriptionBanner />
+          {children}
+        </div>
       </main>
 
       {/* Mobile navigation */}
@@ -55,6 +60,8 @@ const Layout: React.FC<LayoutProps> = ({ children, title, activeItem, onNavigate
         onItemClick={onNavigate} 
         onMenuClick={toggleMobileMenu} 
       />
+
+      <SessionTimeout />
     </div>
   );
 };
@@ -1,7 +1,9 @@
 import React from 'react';
-import { X, Home, Users, DoorClosed, CreditCard, ClipboardList, BarChart, Settings, Bell, LogOut } from 'lucide-react';
+import { X, Home, Users, DoorClosed, CreditCard, ClipboardList, BarChart, History, Settings, Bell, LogOut } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useNavigate } from 'react-router-dom';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { PAGE_RESOURCES } from '../../utils/permissions';
 
 interface MobileMenuProps {
   activeItem: string;
@@ -10,6 +12,7 @@ interface MobileMenuProps {
 }
 
 const MobileMenu: React.FC<MobileMenuProps> = ({ activeItem, onItemClick, onClose }) => {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const menuItems = [
     { id: 'dashboard', label: 'Beranda', icon: <Home size={20} /> },
@@ -18,10 +21,13 @@ const MobileMenu: React.FC<MobileMenuProps> = ({ activeItem, onItemClick, onClos
     { id: 'payments', label: 'Pembayaran', icon: <CreditCard size={20} /> },
     { id: 'maintenance', label: 'Pemeliharaan', icon: <ClipboardList size={20} /> },
     { id: 'reports', label: 'Laporan', icon: <BarChart size={20} /> },
+    { id: 'audit', label: 'Riwayat Perubahan', icon: <History size={20} /> },
     { id: 'notifications', label: 'Notifikasi', icon: <Bell size={20} /> },
     { id: 'settings', label: 'Pengaturan', icon: <Settings size={20} /> }
   ];
 
+  const visibleItems = menuItems.filter(item => !PAGE_RESOURCES[item.id] || can(PAGE_RESOURCES[item.id], 'view'));
+
   const handleLogout = async () => {
     try {
       await supabase.auth.signOut();
@@ -45,7 +51,7 @@ const MobileMenu: React.FC<MobileMenuProps> = ({ activeItem, onItemClick, onClos
         
         <div className="py-4">
           <ul>
-            {menuItems.map((item) => (
+            {visibleItems.map((item) => (
               <li key={item.id}>
                 <button
                   onClick={() => onItemClick(item.id)}
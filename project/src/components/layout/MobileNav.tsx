@@ -1,5 +1,7 @@
 import React from 'react';
 import { Home, Users, DoorClosed, CreditCard, Menu } from 'lucide-react';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { PAGE_RESOURCES } from '../../utils/permissions';
 
 interface MobileNavProps {
   activeItem: string;
@@ -8,6 +10,7 @@ interface MobileNavProps {
 }
 
 const MobileNav: React.FC<MobileNavProps> = ({ activeItem, onItemClick, onMenuClick }) => {
+  const { can } = usePermissions();
   const navItems = [
     { id: 'dashboard', label: 'Beranda', icon: <Home size={20} /> },
     { id: 'tenants', label: 'Penyewa', icon: <Users size={20} /> },
@@ -15,10 +18,12 @@ const MobileNav: React.FC<MobileNavProps> = ({ activeItem, onItemClick, onMenuCl
     { id: 'payments', label: 'Pembayaran', icon: <CreditCard size={20} /> }
   ];
 
+  const visibleItems = navItems.filter(item => !PAGE_RESOURCES[item.id] || can(PAGE_RESOURCES[item.id], 'view'));
+
   return (
     <div className="lg:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-30">
       <div className="grid grid-cols-5">
-        {navItems.map((item) => (
+        {visibleItems.map((item) => (
           <button
             key={item.id}
             onClick={() => onItemClick(item.id)}
@@ -0,0 +1,130 @@
+import React from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { Home, CreditCard, Wrench, LogOut, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+
+interface PortalLayoutProps {
+  children: React.ReactNode;
+}
+
+const PortalLayout: React.FC<PortalLayoutProps> = ({ children }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { tenancies, tenancy, setTenancy, isLoading, error } = useTenantPortal();
+
+  const menuItems = [
+    { id: 'home', label: 'Beranda', icon: <Home size={18} />, path: '/portal' },
+    { id: 'payments', label: 'Pembayaran', icon: <CreditCard size={18} />, path: '/portal/payments' },
+    { id: 'maintenance', label: 'Pemeliharaan', icon: <Wrench size={18} />, path: '/portal/maintenance' }
+  ];
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut();
+      navigate('/portal/login');
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex flex-col items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+          <p className="mt-2 text-gray-600">Memuat data...</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      );
+    }
+
+    if (!tenancy) {
+      return (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <h2 className="text-lg font-semibold text-gray-800">Data penyewa tidak ditemukan</h2>
+          <p className="mt-2 text-gray-600">
+            Email atau nomor telepon ini belum terdaftar sebagai penyewa. Hubungi pengelola kos Anda
+            untuk memastikan data kontak Anda sudah benar.
+          </p>
+        </div>
+      );
+    }
+
+    return children;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-blue-600">KostManager</h1>
+            {tenancy && (
+              <p className="text-sm text-gray-600 truncate">
+                {tenancy.name}{tenancy.property ? ` · ${tenancy.property.name}` : ''}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {tenancies.length > 1 && (
+              <select
+                value={tenancy?.id || ''}
+                onChange={(e) => {
+                  const next = tenancies.find(item => item.id === e.target.value);
+                  if (next) setTenancy(next);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {tenancies.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.property?.name || 'Properti'}{item.room ? ` - Kamar ${item.room.number}` : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleLogout}
+              className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+            >
+              <LogOut size={18} className="mr-1" />
+              Keluar
+            </button>
+          </div>
+        </div>
+
+        {tenancy && (
+          <nav className="max-w-4xl mx-auto px-4 flex gap-2 overflow-x-auto">
+            {menuItems.map(item => (
+              <button
+                key={item.id}
+                onClick={() => navigate(item.path)}
+                className={`flex items-center px-3 py-2 text-sm font-medium border-b-2 whitespace-nowrap ${
+                  location.pathname === item.path
+                    ? 'text-blue-700 border-blue-700'
+                    : 'text-gray-600 border-transparent hover:text-gray-900'
+                }`}
+              >
+                <span className="mr-2">{item.icon}</span>
+                {item.label}
+              </button>
+            ))}
+          </nav>
+        )}
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default PortalLayout;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import Button from '../ui/Button';
+import { Clock } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { settingsService } from '../../services/supabase';
+import { getLastActivity, setLastActivity } from '../../utils/session';
+
+// How long before the logout the warning is shown
+const WARNING_SECONDS = 60;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart', 'mousemove'] as const;
+
+/**
+ * Signs the user out after the idle time from their session_timeout setting,
+ * with a countdown warning during the last minute
+ */
+const SessionTimeout: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [timeoutMinutes, setTimeoutMinutes] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const signedInAt = useRef(Date.now());
+  const warningShown = useRef(false);
+  const lastWrite = useRef(0);
+
+  useEffect(() => {
+    let settingsSubscription: ReturnType<typeof supabase.channel> | null = null;
+
+    const loadTimeout = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      signedInAt.current = session.user.last_sign_in_at
+        ? new Date(session.user.last_sign_in_at).getTime()
+        : Date.now();
+
+      try {
+        const settings = await settingsService.get();
+        setTimeoutMinutes(settings.session_timeout || null);
+      } catch (err) {
+        console.error('Error loading session timeout:', err);
+      }
+
+      // Follow changes saved on the settings page
+      settingsSubscription = supabase
+        .channel('session_timeout_changes')
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'user_settings', filter: `user_id=eq.${session.user.id}` },
+          (payload) => {
+            setTimeoutMinutes((payload.new as { session_timeout?: number }).session_timeout || null);
+          }
+        )
+        .subscribe();
+    };
+
+    loadTimeout();
+
+    return () => {
+      settingsSubscription?.unsubscribe();
+    };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    warningShown.current = false;
+    setSecondsLeft(null);
+    await supabase.auth.signOut();
+    navigate('/login', { state: { from: location.pathname, sessionExpired: true } });
+  }, [navigate, location.pathname]);
+
+  const stayActive = () => {
+    warningShown.current = false;
+    setLastActivity();
+    setSecondsLeft(null);
+  };
+
+  useEffect(() => {
+    if (!timeoutMinutes) return;
+
+    const handleActivity = () => {
+      // The warning has to be dismissed explicitly
+      if (warningShown.current) return;
+      const now = Date.now();
+      if (now - lastWrite.current < 5000) return;
+      lastWrite.current = now;
+      setLastActivity(now);
+    };
+
+    const tick = () => {
+      const expiresAt = getLastActivity(signedInAt.current) + timeoutMinutes * 60 * 1000;
+      const remaining = Math.ceil((expiresAt - Date.now()) / 1000);
+
+      if (remaining <= 0) {
+        signOut();
+      } else if (remaining <= WARNING_SECONDS) {
+        warningShown.current = true;
+        setSecondsLeft(remaining);
+      } else if (warningShown.current) {
+        // Another tab kept the session alive
+        warningShown.current = false;
+        setSecondsLeft(null);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const interval = setInterval(tick, 1000);
+    tick();
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      clearInterval(interval);
+    };
+  }, [timeoutMinutes, signOut]);
+
+  if (secondsLeft === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm p-6 text-center">
+        <Clock className="h-10 w-10 text-yellow-500 mx-auto" />
+        <h2 className="mt-3 text-lg font-semibold text-gray-800">Sesi Akan Berakhir</h2>
+        <p className="mt-2 text-sm text-gray-600">
+          Anda tidak aktif selama beberapa waktu. Anda akan keluar otomatis dalam{' '}
+          <span className="font-semibold text-gray-900">{secondsLeft} detik</span>.
+        </p>
+        <div className="mt-6 flex justify-center gap-2">
+          <Button variant="outline" onClick={signOut}>
+            Keluar Sekarang
+          </Button>
+          <Button onClick={stayActive}>
+            Tetap Masuk
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeout;
@@ -6,12 +6,15 @@ import {
   CreditCard, 
   ClipboardList, 
   BarChart, 
+  History, 
   Settings, 
   Bell, 
   LogOut 
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useNavigate } from 'react-router-dom';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { PAGE_RESOURCES } from '../../utils/permissions';
 
 interface SidebarProps {
   activeItem: string;
@@ -19,6 +22,7 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ activeItem, onItemClick }) => {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const menuItems = [
     { id: 'dashboard', label: 'Beranda', icon: <Home size={20} /> },
@@ -27,10 +31,14 @@ const Sidebar: React.FC<SidebarProps> = ({ activeItem, onItemClick }) => {
     { id: 'payments', label: 'Pembayaran', icon: <CreditCard size={20} /> },
     { id: 'maintenance', label: 'Pemeliharaan', icon: <ClipboardList size={20} /> },
     { id: 'reports', label: 'Laporan', icon: <BarChart size={20} /> },
+    { id: 'audit', label: 'Riwayat Perubahan', icon: <History size={20} /> },
     { id: 'notifications', label: 'Notifikasi', icon: <Bell size={20} /> },
     { id: 'settings', label: 'Pengaturan', icon: <Settings size={20} /> }
   ];
 
+  // Pages the role on the selected property cannot view are left out
+  const visibleItems = menuItems.filter(item => !PAGE_RESOURCES[item.id] || can(PAGE_RESOURCES[item.id], 'view'));
+
   const handleLogout = async () => {
     try {
       await supabase.auth.signOut();
@@ -48,7 +56,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeItem, onItemClick }) => {
       
       <div className="py-4">
         <ul>
-          {menuItems.map((item) => (
+          {visibleItems.map((item) => (
             <li key={item.id}>
               <button
                 onClick={() => onItemClick(item.id)}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Clock, Lock } from 'lucide-react';
+import { useEntitlements } from '../../contexts/EntitlementContext';
+import { formatDateTime } from '../../utils/formatters';
+
+const SubscriptionBanner: React.FC = () => {
+  const { subscription, access } = useEntitlements();
+  const planName = subscription?.plan?.name;
+
+  if (access.state === 'trialing' && access.until) {
+    return (
+      <div className="flex items-start gap-3 p-3 mb-4 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-md">
+        <Clock size={18} className="flex-shrink-0 mt-0.5" />
+        <p className="flex-1">
+          Masa uji coba paket {planName} berakhir pada {formatDateTime(access.until)}.
+          {subscription?.cancel_at_period_end
+            ? ' Langganan tidak dilanjutkan setelah itu.'
+            : ' Setelah itu tagihan pertama diterbitkan dan harus dibayar dalam masa tenggang agar data tetap dapat diubah.'}
+        </p>
+        <Link to="/settings?tab=subscription" className="font-medium underline whitespace-nowrap">
+          Kelola langganan
+        </Link>
+      </div>
+    );
+  }
+
+  if (access.state === 'grace' && access.until) {
+    return (
+      <div className="flex items-start gap-3 p-3 mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+        <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+        <p className="flex-1">
+          Pembayaran langganan {planName} belum diterima. Bayar sebelum {formatDateTime(access.until)};
+          setelah itu data Anda hanya dapat dilihat dan tidak dapat ditambah, diubah, atau dihapus.
+        </p>
+        <Link to="/settings?tab=subscription" className="font-medium underline whitespace-nowrap">
+          Bayar tagihan
+        </Link>
+      </div>
+    );
+  }
+
+  if (access.state === 'read_only' && access.until) {
+    return (
+      <div className="flex items-start gap-3 p-3 mb-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">
+        <Lock size={18} className="flex-shrink-0 mt-0.5" />
+        <p className="flex-1">
+          Akun Anda dalam mode hanya-baca sejak {formatDateTime(access.until)} karena tagihan langganan belum dibayar.
+          Data tetap dapat dilihat; bayar tagihan untuk mengubah data lagi.
+        </p>
+        <Link to="/settings?tab=subscription" className="font-medium underline whitespace-nowrap">
+          Bayar tagihan
+        </Link>
+      </div>
+    );
+  }
+
+  if (access.state === 'active' && subscription?.cancel_at_period_end) {
+    return (
+      <div className="flex items-start gap-3 p-3 mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+        <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+        <p className="flex-1">
+          Langganan {planName} berakhir pada {formatDateTime(subscription.current_period_end)}.
+          Setelah itu batas properti dan kamar kembali ke paket gratis.
+        </p>
+        <Link to="/settings?tab=subscription" className="font-medium underline whitespace-nowrap">
+          Lanjutkan langganan
+        </Link>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default SubscriptionBanner;
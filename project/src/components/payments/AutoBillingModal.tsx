@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, FileText } from 'lucide-react';
+import { billingService } from '../../services/supabase';
+import { InvoiceDraft, toBillingPeriod } from '../../utils/billing';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+
+interface AutoBillingModalProps {
+  propertyId: string;
+  onGenerated: () => void;
+  onClose: () => void;
+}
+
+const AutoBillingModal: React.FC<AutoBillingModalProps> = ({
+  propertyId,
+  onGenerated,
+  onClose
+}) => {
+  const [period, setPeriod] = useState(toBillingPeriod(new Date()));
+  const [drafts, setDrafts] = useState<InvoiceDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createdCount, setCreatedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await billingService.preview(propertyId, period);
+        setDrafts(data);
+      } catch (err) {
+        console.error('Error loading billing preview:', err);
+        setError('Gagal memuat pratinjau tagihan');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (period) {
+      setCreatedCount(null);
+      loadPreview();
+    }
+  }, [propertyId, period]);
+
+  const billable = drafts.filter(d => !d.skip_reason);
+  const totalAmount = billable.reduce((sum, d) => sum + d.amount, 0);
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+      setError(null);
+      const created = await billingService.generate(propertyId, period);
+      setCreatedCount(created.length);
+      setDrafts(await billingService.preview(propertyId, period));
+      onGenerated();
+    } catch (err) {
+      console.error('Error generating invoices:', err);
+      setError('Gagal membuat tagihan');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">
+            Tagihan Otomatis
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {createdCount !== null && (
+            <div className="p-3 text-sm text-green-700 bg-green-50 rounded-md">
+              {createdCount} tagihan berhasil dibuat untuk periode {period}.
+            </div>
+          )}
+
+          <div className="flex items-end justify-between gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Periode
+              </label>
+              <input
+                type="month"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-600">{billable.length} tagihan akan dibuat</p>
+              <p className="text-lg font-semibold text-gray-900">{formatCurrency(totalAmount)}</p>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+                <span className="text-gray-500">Memuat pratinjau...</span>
+              </div>
+            ) : drafts.length > 0 ? (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Penyewa</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jatuh Tempo</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Jumlah</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keterangan</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {drafts.map(draft => (
+                    <tr key={draft.tenant.id} className={draft.skip_reason ? 'text-gray-400' : ''}>
+                      <td className="px-4 py-2">
+                        <div className="font-medium">{draft.tenant.name}</div>
+                        {draft.room && <div className="text-sm text-gray-500">Kamar {draft.room.number}</div>}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">{formatDate(draft.due_date)}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">{formatCurrency(draft.amount)}</td>
+                      <td className="px-4 py-2">
+                        {draft.skip_reason ? (
+                          <span className="text-sm">{draft.skip_reason}</span>
+                        ) : (
+                          <Badge className="bg-blue-100 text-blue-800">Akan ditagih</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-500 text-center py-8">
+                Tidak ada penyewa aktif.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={isGenerating}>
+            Tutup
+          </Button>
+          <Button
+            icon={<FileText size={16} />}
+            onClick={handleGenerate}
+            disabled={isLoading || isGenerating || billable.length === 0}
+          >
+            {isGenerating ? 'Membuat Tagihan...' : 'Buat Tagihan'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoBillingModal;
@@ -0,0 +1,359 @@
+import React, { useMemo, useState } from 'react';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, Upload, CheckCircle } from 'lucide-react';
+import { Payment, Room, Tenant } from '../../types';
+import { reconciliationService } from '../../services/supabase';
+import { readSpreadsheetRows } from '../../utils/spreadsheet';
+import { formatPaymentCode, getOutstandingAmount } from '../../utils/billing';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../../utils/permissions';
+import {
+  BankStatement,
+  CreditMatch,
+  DATE_WINDOW_OPTIONS,
+  DEFAULT_DATE_WINDOW_DAYS,
+  ReconciliationInvoice,
+  getReceiptAmount,
+  matchCredits,
+  parseBankStatement
+} from '../../utils/reconciliation';
+
+interface BankReconciliationModalProps {
+  propertyId: string;
+  payments: Payment[];
+  tenants: Tenant[];
+  rooms: Room[];
+  onReconciled: () => void;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'review' | 'done';
+
+interface ReviewRow extends CreditMatch {
+  confirmed: boolean;
+}
+
+const BankReconciliationModal: React.FC<BankReconciliationModalProps> = ({
+  propertyId,
+  payments,
+  tenants,
+  rooms,
+  onReconciled,
+  onClose
+}) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [windowDays, setWindowDays] = useState(DEFAULT_DATE_WINDOW_DAYS);
+  const [statement, setStatement] = useState<BankStatement | null>(null);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [confirmedCount, setConfirmedCount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const invoices = useMemo<ReconciliationInvoice[]>(() => payments
+    .filter(payment => payment.status !== 'paid')
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))
+    .map(payment => ({
+      payment,
+      tenantName: tenants.find(tenant => tenant.id === payment.tenant_id)?.name || 'Penyewa',
+      roomNumber: rooms.find(room => room.id === payment.room_id)?.number
+    })), [payments, tenants, rooms]);
+
+  const codeLabel = (payment: Payment) =>
+    payment.payment_code ? ` · kode ${formatPaymentCode(payment.payment_code)}` : '';
+
+  const invoiceLabel = (invoice: ReconciliationInvoice) =>
+    `${invoice.tenantName}${invoice.roomNumber ? ` · Kamar ${invoice.roomNumber}` : ''} · ${formatDate(invoice.payment.due_date)} · ${formatCurrency(getOutstandingAmount(invoice.payment))}${codeLabel(invoice.payment)}`;
+
+  const rowProblem = (row: ReviewRow): string | null => {
+    const invoice = invoices.find(item => item.payment.id === row.paymentId);
+    if (!invoice) return null;
+    if (getReceiptAmount(row.credit, invoice.payment) > getOutstandingAmount(invoice.payment) + 0.005) return 'Melebihi sisa tagihan';
+    if (rows.some(other => other !== row && other.confirmed && other.paymentId === row.paymentId)) {
+      return 'Tagihan dipilih untuk lebih dari satu mutasi';
+    }
+    return null;
+  };
+
+  const matchedRows = rows.filter(row => row.paymentId);
+  const unmatchedRows = rows.filter(row => !row.paymentId);
+  const unpaidInvoices = invoices.filter(invoice => !rows.some(row => row.paymentId === invoice.payment.id));
+  const readyRows = rows.filter(row => row.confirmed && row.paymentId && !rowProblem(row));
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const parsed = parseBankStatement(await readSpreadsheetRows(file));
+      if (parsed.credits.length === 0) throw new Error('Tidak ada dana masuk pada mutasi rekening ini');
+
+      const recorded = new Set(await reconciliationService.getRecordedReferences(propertyId, parsed.credits));
+      const credits = parsed.credits.filter(credit => !recorded.has(credit.reference));
+
+      setFileName(file.name);
+      setStatement(parsed);
+      setRecordedCount(parsed.credits.length - credits.length);
+      setRows(matchCredits(credits, invoices, windowDays).map(match => ({
+        ...match,
+        confirmed: match.matchedBy === 'code' || match.matchedBy === 'name'
+      })));
+      setStep('review');
+    } catch (err) {
+      console.error('Error reading bank statement:', err);
+      setError(err instanceof Error ? err.message : 'Gagal membaca mutasi rekening');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateRow = (reference: string, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev.map(row => (row.credit.reference === reference ? { ...row, ...changes } : row)));
+  };
+
+  const handleSelectInvoice = (reference: string, paymentId: string) => {
+    updateRow(reference, { paymentId: paymentId || null, matchedBy: null, confirmed: !!paymentId });
+  };
+
+  const handleConfirm = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await reconciliationService.confirmMatches(
+        propertyId,
+        statement?.bank || null,
+        readyRows.map(row => {
+          const invoice = invoices.find(item => item.payment.id === row.paymentId) as ReconciliationInvoice;
+          return { paymentId: invoice.payment.id, credit: row.credit, amount: getReceiptAmount(row.credit, invoice.payment) };
+        })
+      );
+      setConfirmedCount(readyRows.length);
+      setStep('done');
+      onReconciled();
+    } catch (err) {
+      console.error('Error confirming bank matches:', err);
+      setError(
+        isPermissionDeniedError(err) ? PERMISSION_DENIED_MESSAGE
+        : (err as { code?: string }).code === '23505' ? 'Sebagian mutasi sudah pernah dicatat. Unggah ulang berkas untuk memperbarui daftar.'
+        : 'Gagal mencatat pembayaran'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderCreditRow = (row: ReviewRow) => {
+    const invoice = invoices.find(item => item.payment.id === row.paymentId);
+    const problem = rowProblem(row);
+    const isPartial = !!invoice && !problem &&
+      getReceiptAmount(row.credit, invoice.payment) < getOutstandingAmount(invoice.payment) - 0.005;
+
+    return (
+      <tr key={row.credit.reference} className={problem ? 'bg-red-50' : ''}>
+        <td className="px-3 py-2">
+          <input
+            type="checkbox"
+            checked={row.confirmed && !problem}
+            disabled={!row.paymentId || !!problem}
+            onChange={(e) => updateRow(row.credit.reference, { confirmed: e.target.checked })}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+          />
+        </td>
+        <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{formatDate(row.credit.date)}</td>
+        <td className="px-3 py-2 text-gray-600 max-w-xs truncate" title={row.credit.description}>
+          {row.credit.description || '-'}
+        </td>
+        <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{formatCurrency(row.credit.amount)}</td>
+        <td className="px-3 py-2 space-y-1">
+          <select
+            value={row.paymentId || ''}
+            onChange={(e) => handleSelectInvoice(row.credit.reference, e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">- Tidak dicocokkan -</option>
+            {invoices.map(item => (
+              <option key={item.payment.id} value={item.payment.id}>{invoiceLabel(item)}</option>
+            ))}
+          </select>
+          <div className="flex flex-wrap gap-1">
+            {row.matchedBy === 'code' && <Badge className="bg-green-100 text-green-800">Kode unik cocok</Badge>}
+            {row.matchedBy === 'name' && <Badge className="bg-green-100 text-green-800">Nama cocok</Badge>}
+            {row.matchedBy === 'amount' && <Badge className="bg-yellow-100 text-yellow-800">Hanya jumlah &amp; tanggal</Badge>}
+            {problem && <span className="text-xs text-red-600">{problem}</span>}
+            {isPartial && <span className="text-xs text-yellow-700">Dicatat sebagai pembayaran sebagian</span>}
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  const renderCreditTable = (tableRows: ReviewRow[]) => (
+    <div className="overflow-x-auto border border-gray-200 rounded-md">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-500">Catat</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-500">Tanggal</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-500">Keterangan</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-500">Jumlah</th>
+            <th className="px-3 py-2 text-left font-medium text-gray-500">Tagihan</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {tableRows.map(renderCreditRow)}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Rekonsiliasi Mutasi Bank</h2>
+            {fileName && (
+              <p className="text-sm text-gray-500">
+                {fileName}{statement?.bank ? ` · ${statement.bank}` : ''}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Unggah mutasi rekening BCA atau Mandiri dalam format CSV. Setiap dana masuk dicocokkan dengan tagihan
+                yang belum lunas berdasarkan kode unik pada jumlah transfer, atau jumlah, tanggal, dan nama penyewa
+                atau catatan tagihan. Anda dapat memeriksa dan mengubah setiap pasangan sebelum dicatat.
+              </p>
+              <div className="max-w-xs">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Selisih dari tanggal jatuh tempo
+                </label>
+                <select
+                  value={windowDays}
+                  onChange={(e) => setWindowDays(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {DATE_WINDOW_OPTIONS.map(days => (
+                    <option key={days} value={days}>Maksimal {days} hari</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 cursor-pointer">
+                {isSubmitting ? (
+                  <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+                ) : (
+                  <Upload size={24} />
+                )}
+                <span>Pilih berkas mutasi .csv</span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  className="hidden"
+                  disabled={isSubmitting}
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </label>
+            </div>
+          )}
+
+          {step === 'review' && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-100 text-green-800">{matchedRows.length} dana masuk cocok</Badge>
+                <Badge className="bg-yellow-100 text-yellow-800">{unmatchedRows.length} tanpa pasangan</Badge>
+                {recordedCount > 0 && (
+                  <Badge className="bg-gray-100 text-gray-700">{recordedCount} sudah pernah dicatat</Badge>
+                )}
+                {statement && statement.skipped > 0 && (
+                  <Badge className="bg-gray-100 text-gray-700">{statement.skipped} belum dibukukan bank</Badge>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">Dana Masuk yang Cocok</h3>
+                {matchedRows.length > 0 ? (
+                  renderCreditTable(matchedRows)
+                ) : (
+                  <p className="text-sm text-gray-500">Tidak ada dana masuk yang cocok dengan tagihan.</p>
+                )}
+              </div>
+
+              {unmatchedRows.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-700">Dana Masuk Tanpa Pasangan</h3>
+                  <p className="text-xs text-gray-500">Pilih tagihan untuk mencocokkan secara manual.</p>
+                  {renderCreditTable(unmatchedRows)}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">Tagihan Belum Terbayar</h3>
+                {unpaidInvoices.length > 0 ? (
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md text-sm">
+                    {unpaidInvoices.map(invoice => (
+                      <li key={invoice.payment.id} className="flex items-center justify-between px-3 py-2">
+                        <span className="text-gray-900">
+                          {invoice.tenantName}{invoice.roomNumber ? ` · Kamar ${invoice.roomNumber}` : ''}
+                        </span>
+                        <span className="text-gray-500">
+                          Jatuh tempo {formatDate(invoice.payment.due_date)} · {formatCurrency(getOutstandingAmount(invoice.payment))}{codeLabel(invoice.payment)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">Semua tagihan memiliki pasangan dana masuk.</p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setStep('upload')}
+                  disabled={isSubmitting}
+                >
+                  Kembali
+                </Button>
+                <Button
+                  variant="success"
+                  onClick={handleConfirm}
+                  disabled={isSubmitting || readyRows.length === 0}
+                >
+                  {isSubmitting ? 'Mencatat...' : `Konfirmasi ${readyRows.length} Pembayaran`}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="flex flex-col items-center gap-3 py-8">
+              <CheckCircle className="h-10 w-10 text-green-600" />
+              <p className="text-gray-800">
+                {confirmedCount} pembayaran berhasil dicatat dari mutasi rekening.
+              </p>
+              <Button onClick={onClose}>Selesai</Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BankReconciliationModal;
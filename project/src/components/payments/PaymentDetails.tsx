@@ -1,26 +1,139 @@
-import React from 'react';
-import { Payment } from '../../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Payment, PaymentTransaction } from '../../types';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
-import { X, Receipt, User, DoorClosed, Calendar, CreditCard, FileText } from 'lucide-react';
-import { formatCurrency, formatDate, getPaymentStatusColor } from '../../utils/formatters';
+import { X, Receipt, User, DoorClosed, Calendar, CreditCard, FileText, Plus, Trash, Loader2, Download } from 'lucide-react';
+import { formatCurrency, formatDate, getPaymentStatusColor, translatePaymentStatus, translatePaymentMethod } from '../../utils/formatters';
+import { formatPaymentCode, getOutstandingAmount, getPaidAmount, getTransferAmount } from '../../utils/billing';
+import { paymentService, paymentTransactionService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { downloadReceipt } from '../../utils/receipt';
+import PaymentProofs from './PaymentProofs';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../../utils/permissions';
 
 interface PaymentDetailsProps {
   payment: Payment;
   tenantName?: string;
   roomNumber?: string;
+  onPaymentUpdated?: () => void;
   onClose: () => void;
 }
 
 const PaymentDetails: React.FC<PaymentDetailsProps> = ({
-  payment,
+  payment: initialPayment,
   tenantName,
   roomNumber,
+  onPaymentUpdated,
   onClose
 }) => {
+  const { selectedProperty } = useProperty();
+  const { can } = usePermissions();
+  const [payment, setPayment] = useState<Payment>(initialPayment);
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showReceiptForm, setShowReceiptForm] = useState(false);
+  const [receiptForm, setReceiptForm] = useState({
+    amount: getOutstandingAmount(initialPayment),
+    date: new Date().toISOString().split('T')[0],
+    payment_method: 'transfer',
+    notes: ''
+  });
+
+  const loadTransactions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await paymentTransactionService.getByPaymentId(payment.id);
+      setTransactions(data);
+    } catch (err) {
+      console.error('Error loading payment transactions:', err);
+      setError('Gagal memuat riwayat pembayaran');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [payment.id]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const refreshPayment = async () => {
+    const updated = await paymentService.getById(payment.id);
+    setPayment(updated);
+    setReceiptForm(prev => ({ ...prev, amount: getOutstandingAmount(updated) }));
+    await loadTransactions();
+    onPaymentUpdated?.();
+  };
+
+  const outstanding = getOutstandingAmount(payment);
+  const canDownloadReceipt = payment.status === 'paid' && !!payment.receipt_number && !!selectedProperty;
+
+  const handleDownloadReceipt = () => {
+    if (!selectedProperty) return;
+    downloadReceipt({
+      payment,
+      property: selectedProperty,
+      tenantName: tenantName || '-',
+      roomNumber
+    });
+  };
+
+  const handleAddReceipt = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (receiptForm.amount <= 0) {
+      setError('Jumlah pembayaran harus lebih dari 0');
+      return;
+    }
+
+    if (receiptForm.amount > outstanding) {
+      setError(`Jumlah pembayaran melebihi sisa tagihan (${formatCurrency(outstanding)})`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await paymentTransactionService.create({
+        payment_id: payment.id,
+        property_id: payment.property_id,
+        amount: receiptForm.amount,
+        date: receiptForm.date,
+        payment_method: receiptForm.payment_method,
+        notes: receiptForm.notes || null
+      });
+      setShowReceiptForm(false);
+      setReceiptForm(prev => ({ ...prev, notes: '' }));
+      await refreshPayment();
+    } catch (err) {
+      console.error('Error recording payment transaction:', err);
+      setError(isPermissionDeniedError(err) ? PERMISSION_DENIED_MESSAGE : 'Gagal mencatat pembayaran');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteReceipt = async (id: string) => {
+    if (!window.confirm('Hapus catatan penerimaan ini?')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await paymentTransactionService.delete(id);
+      await refreshPayment();
+    } catch (err) {
+      console.error('Error deleting payment transaction:', err);
+      setError(isPermissionDeniedError(err) ? PERMISSION_DENIED_MESSAGE : 'Gagal menghapus catatan penerimaan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-800">
             Detail Pembayaran
@@ -31,22 +144,56 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
         </div>
 
         <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
           {/* Payment Status */}
           <div className="flex items-center justify-between">
             <span className="text-gray-600">Status</span>
             <Badge className={getPaymentStatusColor(payment.status)}>
-              {payment.status === 'paid' ? 'Lunas' : 
-               payment.status === 'pending' ? 'Menunggu' : 'Terlambat'}
+              {translatePaymentStatus(payment.status)}
             </Badge>
           </div>
 
+          {payment.receipt_number && (
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">No. Kwitansi</span>
+              <span className="font-medium text-gray-900">{payment.receipt_number}</span>
+            </div>
+          )}
+
           {/* Amount */}
           <div className="bg-gray-50 p-4 rounded-lg">
             <div className="flex items-center gap-2 text-gray-600 mb-1">
               <Receipt size={20} />
-              <span>Jumlah</span>
+              <span>Jumlah Tagihan</span>
             </div>
             <p className="text-2xl font-bold text-gray-900">{formatCurrency(payment.amount)}</p>
+            <div className="mt-3 grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">Sudah Dibayar</p>
+                <p className="font-medium text-green-700">{formatCurrency(getPaidAmount(payment))}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Sisa Tagihan</p>
+                <p className="font-medium text-red-700">{formatCurrency(outstanding)}</p>
+              </div>
+            </div>
+            {outstanding > 0 && payment.payment_code && (
+              <div className="mt-3 pt-3 border-t border-gray-200 grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Kode Unik</p>
+                  <p className="font-medium text-gray-900">{formatPaymentCode(payment.payment_code)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Jumlah Transfer</p>
+                  <p className="font-medium text-gray-900">{formatCurrency(getTransferAmount(payment))}</p>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Tenant Info */}
@@ -71,7 +218,7 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
               <Calendar size={20} className="text-gray-400 mt-1" />
               <div>
                 <p className="text-sm text-gray-600">Jatuh Tempo</p>
-                <p className="font-medium text-gray-900">{formatDate(payment.dueDate)}</p>
+                <p className="font-medium text-gray-900">{formatDate(payment.due_date)}</p>
               </div>
             </div>
 
@@ -79,13 +226,11 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
               <div className="flex items-start gap-3">
                 <CreditCard size={20} className="text-gray-400 mt-1" />
                 <div>
-                  <p className="text-sm text-gray-600">Tanggal Pembayaran</p>
+                  <p className="text-sm text-gray-600">Tanggal Pelunasan</p>
                   <p className="font-medium text-gray-900">{formatDate(payment.date)}</p>
-                  {payment.paymentMethod && (
+                  {payment.payment_method && (
                     <p className="text-sm text-gray-500">
-                      via {payment.paymentMethod === 'transfer' ? 'Transfer Bank' :
-                           payment.paymentMethod === 'cash' ? 'Tunai' :
-                           payment.paymentMethod === 'card' ? 'Kartu Kredit/Debit' : 'E-Wallet'}
+                      via {translatePaymentMethod(payment.payment_method)}
                     </p>
                   )}
                 </div>
@@ -102,10 +247,144 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
               </div>
             )}
           </div>
+
+          {/* Receipts */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Riwayat Penerimaan</h3>
+              {outstanding > 0 && !showReceiptForm && can('payments', 'edit') && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  icon={<Plus size={14} />}
+                  onClick={() => setShowReceiptForm(true)}
+                  disabled={isSubmitting}
+                >
+                  Catat Pembayaran
+                </Button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-5 w-5 text-blue-600 animate-spin mr-2" />
+                <span className="text-sm text-gray-500">Memuat riwayat...</span>
+              </div>
+            ) : transactions.length > 0 ? (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {transactions.map(transaction => (
+                  <li key={transaction.id} className="flex items-center justify-between px-3 py-2">
+                    <div>
+                      <p className="font-medium text-gray-900">{formatCurrency(transaction.amount)}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(transaction.date)} · {translatePaymentMethod(transaction.payment_method)}
+                        {transaction.notes ? ` · ${transaction.notes}` : ''}
+                      </p>
+                    </div>
+                    {can('payments', 'delete') && (
+                      <button
+                        onClick={() => handleDeleteReceipt(transaction.id)}
+                        className="text-gray-400 hover:text-red-600"
+                        disabled={isSubmitting}
+                      >
+                        <Trash size={16} />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">Belum ada pembayaran yang diterima.</p>
+            )}
+
+            {showReceiptForm && (
+              <form onSubmit={handleAddReceipt} className="mt-4 space-y-3 p-4 bg-gray-50 rounded-md">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Jumlah
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={outstanding}
+                      value={receiptForm.amount}
+                      onChange={(e) => setReceiptForm(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tanggal
+                    </label>
+                    <input
+                      type="date"
+                      value={receiptForm.date}
+                      onChange={(e) => setReceiptForm(prev => ({ ...prev, date: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Metode Pembayaran
+                  </label>
+                  <select
+                    value={receiptForm.payment_method}
+                    onChange={(e) => setReceiptForm(prev => ({ ...prev, payment_method: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="transfer">Transfer Bank</option>
+                    <option value="cash">Tunai</option>
+                    <option value="card">Kartu Kredit/Debit</option>
+                    <option value="ewallet">E-Wallet</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Catatan
+                  </label>
+                  <input
+                    type="text"
+                    value={receiptForm.notes}
+                    onChange={(e) => setReceiptForm(prev => ({ ...prev, notes: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowReceiptForm(false)}
+                    disabled={isSubmitting}
+                  >
+                    Batal
+                  </Button>
+                  <Button type="submit" size="sm" variant="success" disabled={isSubmitting}>
+                    {isSubmitting ? 'Menyimpan...' : 'Simpan'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+
+          <PaymentProofs payment={payment} onChanged={refreshPayment} />
         </div>
 
-        <div className="bg-gray-50 px-6 py-4 rounded-b-lg">
-          <Button variant="outline" className="w-full" onClick={onClose}>
+        <div className="bg-gray-50 px-6 py-4 rounded-b-lg flex gap-3">
+          {canDownloadReceipt && (
+            <Button
+              className="flex-1"
+              icon={<Download size={16} />}
+              onClick={handleDownloadReceipt}
+            >
+              Unduh Kwitansi
+            </Button>
+          )}
+          <Button variant="outline" className="flex-1" onClick={onClose}>
             Tutup
           </Button>
         </div>
@@ -114,4 +393,4 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
   );
 };
 
-export default PaymentDetails;
\ No newline at end of file
+export default PaymentDetails;
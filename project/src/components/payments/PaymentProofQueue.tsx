@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Card, { CardHeader, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Check, ExternalLink, FileText, X } from 'lucide-react';
+import { Payment, PaymentProof, Room, Tenant } from '../../types';
+import { paymentProofService } from '../../services/supabase';
+import { getOutstandingAmount } from '../../utils/billing';
+import { formatCurrency, formatDate, formatDateTime } from '../../utils/formatters';
+import { isProofAlreadyReviewedError } from '../../utils/paymentProof';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../../utils/permissions';
+
+interface PaymentProofQueueProps {
+  propertyId: string;
+  payments: Payment[];
+  tenants: Tenant[];
+  rooms: Room[];
+  onReviewed: () => void;
+}
+
+interface Review {
+  proofId: string;
+  mode: 'approve' | 'reject';
+}
+
+const PaymentProofQueue: React.FC<PaymentProofQueueProps> = ({
+  propertyId,
+  payments,
+  tenants,
+  rooms,
+  onReviewed
+}) => {
+  const [proofs, setProofs] = useState<PaymentProof[]>([]);
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const [review, setReview] = useState<Review | null>(null);
+  const [approveForm, setApproveForm] = useState({
+    date: new Date().toISOString().split('T')[0],
+    payment_method: 'transfer'
+  });
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProofs = useCallback(async () => {
+    try {
+      const data = await paymentProofService.getPending(propertyId);
+      setProofs(data);
+
+      const urls = await Promise.all(
+        data.map(async proof => [proof.id, await paymentProofService.getViewUrl(proof.file_path)] as const)
+      );
+      setPreviewUrls(Object.fromEntries(urls));
+    } catch (err) {
+      console.error('Error loading payment proofs:', err);
+      setError('Gagal memuat bukti transfer');
+    }
+  }, [propertyId]);
+
+  // Payments are reloaded after every change on the page, including attached proofs
+  useEffect(() => {
+    loadProofs();
+  }, [loadProofs, payments]);
+
+  const startReview = (proofId: string, mode: Review['mode']) => {
+    setReview({ proofId, mode });
+    setRejectionReason('');
+    setError(null);
+  };
+
+  const handleReview = async (e: React.FormEvent, proof: PaymentProof) => {
+    e.preventDefault();
+    if (!review) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (review.mode === 'approve') {
+        await paymentProofService.approve(proof, approveForm.date, approveForm.payment_method);
+      } else {
+        await paymentProofService.reject(proof, rejectionReason.trim());
+      }
+      setReview(null);
+      onReviewed();
+    } catch (err) {
+      console.error('Error reviewing payment proof:', err);
+      setError(
+        isPermissionDeniedError(err) ? PERMISSION_DENIED_MESSAGE
+        : isProofAlreadyReviewedError(err) ? 'Bukti transfer ini sudah diperiksa oleh pengguna lain'
+        : 'Gagal memproses bukti transfer'
+      );
+      if (isProofAlreadyReviewedError(err)) await loadProofs();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (proofs.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center gap-2">
+        <h2 className="text-lg font-semibold text-gray-800">Perlu Verifikasi</h2>
+        <Badge className="bg-yellow-100 text-yellow-800">{proofs.length}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {proofs.map(proof => {
+            const payment = payments.find(item => item.id === proof.payment_id);
+            const tenant = tenants.find(item => item.id === payment?.tenant_id);
+            const room = rooms.find(item => item.id === payment?.room_id);
+            const previewUrl = previewUrls[proof.id];
+            const isPdf = proof.file_path.toLowerCase().endsWith('.pdf');
+
+            return (
+              <li key={proof.id} className="p-4 flex flex-col sm:flex-row gap-4">
+                <a
+                  href={previewUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-shrink-0 w-full sm:w-28 h-28 bg-gray-100 rounded-md overflow-hidden flex items-center justify-center"
+                >
+                  {previewUrl && !isPdf
+                    ? <img src={previewUrl} alt="Bukti transfer" className="w-full h-full object-cover" />
+                    : <FileText size={32} className="text-gray-400" />}
+                </a>
+
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {tenant?.name || 'Penyewa'}{room ? ` · Kamar ${room.number}` : ''}
+                    </p>
+                    {payment && (
+                      <p className="text-sm text-gray-600">
+                        Sisa tagihan {formatCurrency(getOutstandingAmount(payment))} · Jatuh tempo {formatDate(payment.due_date)}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">Dikirim {formatDateTime(proof.created_at)}</p>
+                    {proof.note && <p className="text-sm text-gray-700 mt-1">"{proof.note}"</p>}
+                  </div>
+
+                  {review?.proofId === proof.id ? (
+                    <form onSubmit={(e) => handleReview(e, proof)} className="space-y-3 p-3 bg-gray-50 rounded-md">
+                      {review.mode === 'approve' ? (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Tanggal Bayar
+                            </label>
+                            <input
+                              type="date"
+                              value={approveForm.date}
+                              onChange={(e) => setApproveForm(prev => ({ ...prev, date: e.target.value }))}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              required
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Metode
+                            </label>
+                            <select
+                              value={approveForm.payment_method}
+                              onChange={(e) => setApproveForm(prev => ({ ...prev, payment_method: e.target.value }))}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="transfer">Transfer Bank</option>
+                              <option value="ewallet">E-Wallet</option>
+                              <option value="cash">Tunai</option>
+                              <option value="card">Kartu Kredit/Debit</option>
+                            </select>
+                          </div>
+                        </div>
+                      ) : (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Alasan Penolakan
+                          </label>
+                          <input
+                            type="text"
+                            value={rejectionReason}
+                            onChange={(e) => setRejectionReason(e.target.value)}
+                            placeholder="Contoh: nominal tidak sesuai tagihan"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            required
+                          />
+                          <p className="text-xs text-gray-500 mt-1">Alasan ini dikirim ke penyewa.</p>
+                        </div>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setReview(null)}
+                          disabled={isSubmitting}
+                        >
+                          Batal
+                        </Button>
+                        <Button
+                          type="submit"
+                          size="sm"
+                          variant={review.mode === 'approve' ? 'success' : 'danger'}
+                          disabled={isSubmitting}
+                        >
+                          {isSubmitting
+                            ? 'Memproses...'
+                            : review.mode === 'approve' ? 'Tandai Lunas' : 'Tolak Bukti'}
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="success" icon={<Check size={14} />} onClick={() => startReview(proof.id, 'approve')}>
+                        Setujui
+                      </Button>
+                      <Button size="sm" variant="danger" icon={<X size={14} />} onClick={() => startReview(proof.id, 'reject')}>
+                        Tolak
+                      </Button>
+                      {previewUrl && (
+                        <a
+                          href={previewUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          <ExternalLink size={14} className="mr-1" />
+                          Buka
+                        </a>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentProofQueue;
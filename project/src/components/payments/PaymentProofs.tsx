@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { ExternalLink, Loader2, Paperclip } from 'lucide-react';
+import { Payment, PaymentProof } from '../../types';
+import { paymentProofService } from '../../services/supabase';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { formatDateTime } from '../../utils/formatters';
+import { MAX_PROOF_SIZE, PROOF_ACCEPT, PROOF_STATUS_LABELS } from '../../utils/paymentProof';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../../utils/permissions';
+
+interface PaymentProofsProps {
+  payment: Payment;
+  onChanged: () => void;
+}
+
+const PaymentProofs: React.FC<PaymentProofsProps> = ({ payment, onChanged }) => {
+  const { can } = usePermissions();
+  const [proofs, setProofs] = useState<PaymentProof[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [proofNote, setProofNote] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProofs = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setProofs(await paymentProofService.getByPaymentId(payment.id));
+    } catch (err) {
+      console.error('Error loading payment proofs:', err);
+      setError('Gagal memuat bukti transfer');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [payment.id]);
+
+  // Reload when the payment changes, e.g. after a proof is approved elsewhere
+  useEffect(() => {
+    loadProofs();
+  }, [loadProofs, payment.status]);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setProofFile(null);
+    setProofNote('');
+  };
+
+  const handleView = async (proof: PaymentProof) => {
+    try {
+      window.open(await paymentProofService.getViewUrl(proof.file_path), '_blank', 'noopener');
+    } catch (err) {
+      console.error('Error opening payment proof:', err);
+      setError('Gagal membuka bukti transfer');
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!proofFile) return;
+
+    if (proofFile.size > MAX_PROOF_SIZE) {
+      setError('Ukuran file maksimal 5 MB');
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      setError(null);
+      await paymentProofService.upload(payment, proofFile, proofNote);
+      closeForm();
+      await loadProofs();
+      onChanged();
+    } catch (err) {
+      console.error('Error uploading payment proof:', err);
+      setError(isPermissionDeniedError(err) ? PERMISSION_DENIED_MESSAGE : 'Gagal mengunggah bukti transfer');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Bukti Transfer</h3>
+        {!showForm && can('payments', 'edit') && (
+          <Button
+            size="sm"
+            variant="outline"
+            icon={<Paperclip size={14} />}
+            onClick={() => setShowForm(true)}
+          >
+            Lampirkan
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-2 p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 text-blue-600 animate-spin mr-2" />
+          <span className="text-sm text-gray-500">Memuat bukti...</span>
+        </div>
+      ) : proofs.length > 0 ? (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {proofs.map(proof => (
+            <li key={proof.id} className="flex items-start justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <Badge className={PROOF_STATUS_LABELS[proof.status].className}>
+                    {PROOF_STATUS_LABELS[proof.status].label}
+                  </Badge>
+                  <span className="text-xs text-gray-500">{formatDateTime(proof.created_at)}</span>
+                </div>
+                {proof.note && <p className="text-sm text-gray-700 mt-1">{proof.note}</p>}
+                {proof.rejection_reason && (
+                  <p className="text-sm text-red-700 mt-1">Alasan: {proof.rejection_reason}</p>
+                )}
+              </div>
+              <button
+                onClick={() => handleView(proof)}
+                className="text-blue-600 hover:text-blue-800 flex-shrink-0"
+                title="Lihat bukti"
+              >
+                <ExternalLink size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">Belum ada bukti transfer.</p>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleUpload} className="mt-4 space-y-3 p-4 bg-gray-50 rounded-md">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              File Bukti
+            </label>
+            <input
+              type="file"
+              accept={PROOF_ACCEPT}
+              required
+              onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+              className="w-full text-sm text-gray-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Catatan
+            </label>
+            <input
+              type="text"
+              value={proofNote}
+              onChange={(e) => setProofNote(e.target.value)}
+              placeholder="Contoh: dikirim lewat WhatsApp"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={closeForm} disabled={isUploading}>
+              Batal
+            </Button>
+            <Button type="submit" size="sm" disabled={isUploading || !proofFile}>
+              {isUploading ? 'Mengunggah...' : 'Unggah'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PaymentProofs;
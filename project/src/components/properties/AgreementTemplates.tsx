@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AgreementTemplate, Property } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, Plus, Edit, Trash } from 'lucide-react';
+import { agreementTemplateService } from '../../services/supabase';
+import { AGREEMENT_PLACEHOLDERS, DEFAULT_AGREEMENT_BODY } from '../../utils/agreement';
+
+interface AgreementTemplatesProps {
+  property: Property;
+  onClose: () => void;
+}
+
+const emptyForm = {
+  name: 'Perjanjian Sewa Standar',
+  body: DEFAULT_AGREEMENT_BODY,
+  house_rules: '',
+  is_default: false
+};
+
+const AgreementTemplates: React.FC<AgreementTemplatesProps> = ({ property, onClose }) => {
+  const [templates, setTemplates] = useState<AgreementTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await agreementTemplateService.getByPropertyId(property.id);
+      setTemplates(data);
+    } catch (err) {
+      console.error('Error loading agreement templates:', err);
+      setError('Gagal memuat template perjanjian');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property.id]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setForm({ ...emptyForm, is_default: templates.length === 0 });
+    setShowForm(true);
+  };
+
+  const handleEdit = (template: AgreementTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      name: template.name,
+      body: template.body,
+      house_rules: template.house_rules || '',
+      is_default: template.is_default
+    });
+    setShowForm(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Hapus template perjanjian ini?')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await agreementTemplateService.delete(id);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error deleting agreement template:', err);
+      setError('Gagal menghapus template perjanjian');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const template = {
+      property_id: property.id,
+      name: form.name,
+      body: form.body,
+      house_rules: form.house_rules || null,
+      is_default: form.is_default
+    };
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (editingId) {
+        await agreementTemplateService.update(editingId, template);
+      } else {
+        await agreementTemplateService.create(template);
+      }
+      setShowForm(false);
+      setEditingId(null);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error saving agreement template:', err);
+      setError('Gagal menyimpan template perjanjian');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Template Perjanjian Sewa
+            </h2>
+            <p className="text-sm text-gray-500">{property.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {showForm ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nama Template
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Isi Perjanjian
+                </label>
+                <textarea
+                  value={form.body}
+                  onChange={(e) => setForm(prev => ({ ...prev, body: e.target.value }))}
+                  rows={12}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {AGREEMENT_PLACEHOLDERS.map(placeholder => (
+                    <button
+                      key={placeholder.key}
+                      type="button"
+                      title={placeholder.label}
+                      onClick={() => setForm(prev => ({ ...prev, body: `${prev.body}{{${placeholder.key}}}` }))}
+                      className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                    >
+                      {`{{${placeholder.key}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tata Tertib
+                </label>
+                <textarea
+                  value={form.house_rules}
+                  onChange={(e) => setForm(prev => ({ ...prev, house_rules: e.target.value }))}
+                  rows={5}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Contoh: Tamu wajib lapor, jam malam pukul 22.00"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_default}
+                  onChange={(e) => setForm(prev => ({ ...prev, is_default: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                Jadikan template utama properti ini
+              </label>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowForm(false)}
+                  disabled={isSubmitting}
+                >
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Menyimpan...' : 'Simpan'}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="flex justify-end">
+                <Button size="sm" icon={<Plus size={16} />} onClick={handleAdd}>
+                  Tambah Template
+                </Button>
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+                  <span className="text-gray-500">Memuat template...</span>
+                </div>
+              ) : templates.length > 0 ? (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {templates.map(template => (
+                    <li key={template.id} className="flex items-center justify-between px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{template.name}</span>
+                        {template.is_default && (
+                          <Badge className="bg-blue-100 text-blue-800">Utama</Badge>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          icon={<Edit size={14} />}
+                          onClick={() => handleEdit(template)}
+                          disabled={isSubmitting}
+                        >
+                          Ubah
+                        </Button>
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          icon={<Trash size={14} />}
+                          onClick={() => handleDelete(template.id)}
+                          disabled={isSubmitting}
+                        >
+                          Hapus
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-500 text-center py-8">
+                  Belum ada template perjanjian untuk properti ini.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgreementTemplates;
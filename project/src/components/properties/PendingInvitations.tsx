@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PropertyInvitation } from '../../types';
+import Button from '../ui/Button';
+import { Building2, Check, X } from 'lucide-react';
+import { teamService } from '../../services/supabase';
+import { isFeatureNotAvailableError } from '../../utils/entitlements';
+import { getInvitationError, INVITATION_ERROR_MESSAGES, MEMBER_ROLE_LABELS } from '../../utils/team';
+
+interface PendingInvitationsProps {
+  // Called after an invitation is accepted, to reload the property list
+  onAccepted: () => void;
+}
+
+const PendingInvitations: React.FC<PendingInvitationsProps> = ({ onAccepted }) => {
+  const [invitations, setInvitations] = useState<PropertyInvitation[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setInvitations(await teamService.getMyInvitations());
+    } catch (err) {
+      console.error('Error loading invitations:', err);
+      setError('Gagal memuat undangan');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleRespond = async (invitation: PropertyInvitation, accept: boolean) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (accept) {
+        await teamService.acceptInvitation(invitation.id);
+      } else {
+        await teamService.declineInvitation(invitation.id);
+      }
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+      if (accept) onAccepted();
+    } catch (err) {
+      console.error('Error responding to invitation:', err);
+      const invitationError = getInvitationError(err);
+      if (invitationError) {
+        setError(INVITATION_ERROR_MESSAGES[invitationError]);
+        await loadInvitations();
+      } else if (isFeatureNotAvailableError(err)) {
+        setError('Paket langganan pemilik properti tidak lagi mencakup fitur multi pengguna. Hubungi pemilik properti.');
+      } else {
+        setError('Gagal menjawab undangan');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (invitations.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+      <h2 className="text-sm font-semibold text-blue-900">Undangan Bergabung ke Properti</h2>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {invitations.map(invitation => (
+        <div
+          key={invitation.id}
+          className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-white border border-blue-100 rounded-md px-4 py-3"
+        >
+          <div className="flex items-start gap-3">
+            <Building2 size={20} className="text-blue-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">{invitation.property?.name || 'Properti'}</p>
+              <p className="text-sm text-gray-600">
+                {invitation.property?.city && `${invitation.property.city} · `}
+                Sebagai {MEMBER_ROLE_LABELS[invitation.role]}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<X size={14} />}
+              onClick={() => handleRespond(invitation, false)}
+              disabled={isSubmitting}
+            >
+              Tolak
+            </Button>
+            <Button
+              size="sm"
+              icon={<Check size={14} />}
+              onClick={() => handleRespond(invitation, true)}
+              disabled={isSubmitting}
+            >
+              Terima
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PendingInvitations;
@@ -18,7 +18,10 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onSubmit, onClose
     address: property?.address || '',
     city: property?.city || '',
     phone: property?.phone || '',
-    email: property?.email || ''
+    email: property?.email || '',
+    late_fee_type: property?.late_fee_type || 'none',
+    late_fee_amount: property?.late_fee_amount || 0,
+    late_fee_max: property?.late_fee_max || 0
   });
 
   const [isLoading, setIsLoading] = React.useState(false);
@@ -62,15 +65,19 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onSubmit, onClose
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+    if (name === 'late_fee_amount' || name === 'late_fee_max') {
+      setFormData(prev => ({ ...prev, [name]: parseFloat(value) || 0 }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
     setError(null);
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-800">
             {property ? 'Edit Properti' : 'Tambah Properti Baru'}
@@ -162,6 +169,69 @@ const PropertyForm: React.FC<PropertyFormProps> = ({ property, onSubmit, onClose
             />
           </div>
 
+          <div className="pt-4 border-t border-gray-200">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Denda Keterlambatan</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Jenis Denda
+                </label>
+                <select
+                  name="late_fee_type"
+                  value={formData.late_fee_type}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={isLoading}
+                >
+                  <option value="none">Tidak ada denda</option>
+                  <option value="flat">Nominal tetap per hari</option>
+                  <option value="percentage">Persentase tagihan per hari</option>
+                </select>
+              </div>
+
+              {formData.late_fee_type !== 'none' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {formData.late_fee_type === 'flat' ? 'Denda per Hari (Rp)' : 'Denda per Hari (%)'}
+                    </label>
+                    <input
+                      type="number"
+                      name="late_fee_amount"
+                      min="0"
+                      step={formData.late_fee_type === 'flat' ? '1000' : '0.1'}
+                      value={formData.late_fee_amount}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Batas Maksimal (Rp)
+                    </label>
+                    <input
+                      type="number"
+                      name="late_fee_max"
+                      min="0"
+                      step="1000"
+                      value={formData.late_fee_max}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+              )}
+              {formData.late_fee_type !== 'none' && (
+                <p className="text-sm text-gray-500">
+                  Denda dihitung setiap hari sejak jatuh tempo. Isi 0 pada batas maksimal jika tidak dibatasi.
+                </p>
+              )}
+            </div>
+          </div>
+
           <div className="flex justify-end gap-3 mt-6">
             <Button 
               variant="outline" 
@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Property, PropertyInvitation, PropertyMember } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, Send, Trash, UserX } from 'lucide-react';
+import { teamService } from '../../services/supabase';
+import { supabase } from '../../lib/supabase';
+import { formatDate } from '../../utils/formatters';
+import { isFeatureNotAvailableError } from '../../utils/entitlements';
+import { getGrantableRoles, hasPermission, isPermissionDeniedError, MemberRole, PERMISSION_DENIED_MESSAGE, PropertyPermissions } from '../../utils/permissions';
+import { getInvitationError, INVITATION_ERROR_MESSAGES, MEMBER_ROLE_LABELS } from '../../utils/team';
+
+interface PropertyTeamProps {
+  property: Property;
+  permissions: PropertyPermissions;
+  onClose: () => void;
+}
+
+const PropertyTeam: React.FC<PropertyTeamProps> = ({ property, permissions, onClose }) => {
+  const [members, setMembers] = useState<PropertyMember[]>([]);
+  const [invitations, setInvitations] = useState<PropertyInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [featureUnavailable, setFeatureUnavailable] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('staff');
+  const [userId, setUserId] = useState<string | null>(null);
+
+  const isOwner = permissions.role === 'owner';
+  const canInvite = hasPermission(permissions, 'users', 'create');
+  const canEdit = hasPermission(permissions, 'users', 'edit');
+  const canRemove = hasPermission(permissions, 'users', 'delete');
+  const grantableRoles = getGrantableRoles(permissions.role);
+
+  const loadTeam = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [memberData, invitationData, { data: { user } }] = await Promise.all([
+        teamService.getMembers(property.id),
+        teamService.getInvitations(property.id),
+        supabase.auth.getUser()
+      ]);
+      setUserId(user?.id ?? null);
+      setMembers(memberData);
+      setInvitations(invitationData);
+    } catch (err) {
+      console.error('Error loading property team:', err);
+      setError('Gagal memuat tim properti');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property.id]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const handleError = (err: unknown, fallback: string) => {
+    const invitationError = getInvitationError(err);
+    if (isFeatureNotAvailableError(err)) {
+      setFeatureUnavailable(true);
+    } else if (invitationError) {
+      setError(INVITATION_ERROR_MESSAGES[invitationError]);
+    } else if (isPermissionDeniedError(err)) {
+      setError(PERMISSION_DENIED_MESSAGE);
+    } else {
+      setError(fallback);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setFeatureUnavailable(false);
+      const invitation = await teamService.invite(property.id, email, role);
+      setInvitations(prev => [invitation, ...prev]);
+      setEmail('');
+    } catch (err) {
+      console.error('Error inviting team member:', err);
+      handleError(err, 'Gagal mengirim undangan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: PropertyInvitation) => {
+    if (!window.confirm(`Batalkan undangan untuk ${invitation.email}?`)) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await teamService.revokeInvitation(invitation.id);
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+    } catch (err) {
+      console.error('Error revoking invitation:', err);
+      handleError(err, 'Gagal membatalkan undangan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: PropertyMember, newRole: MemberRole) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const updated = await teamService.updateMemberRole(member.id, newRole);
+      setMembers(prev => prev.map(item => item.id === updated.id ? updated : item));
+    } catch (err) {
+      console.error('Error updating member role:', err);
+      handleError(err, 'Gagal mengubah peran anggota');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemoveMember = async (member: PropertyMember) => {
+    if (!window.confirm(`Cabut akses ${member.email || 'anggota ini'} ke ${property.name}?`)) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await teamService.removeMember(member.id);
+      setMembers(prev => prev.filter(item => item.id !== member.id));
+    } catch (err) {
+      console.error('Error removing member:', err);
+      handleError(err, 'Gagal mencabut akses anggota');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Tim Properti
+            </h2>
+            <p className="text-sm text-gray-500">{property.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {featureUnavailable && (
+            <div className="p-3 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md">
+              {isOwner ? (
+                <>
+                  Fitur multi pengguna tidak termasuk dalam paket langganan Anda.{' '}
+                  <Link to="/settings?tab=subscription" className="font-medium underline">
+                    Lihat pilihan paket
+                  </Link>
+                </>
+              ) : (
+                'Fitur multi pengguna tidak termasuk dalam paket langganan pemilik properti.'
+              )}
+            </div>
+          )}
+
+          {canInvite && (
+            <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email anggota tim"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as MemberRole)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {grantableRoles.map(memberRole => (
+                  <option key={memberRole} value={memberRole}>{MEMBER_ROLE_LABELS[memberRole]}</option>
+                ))}
+              </select>
+              <Button type="submit" icon={<Send size={16} />} disabled={isSubmitting}>
+                {isSubmitting ? 'Mengirim...' : 'Undang'}
+              </Button>
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+              <span className="text-gray-500">Memuat tim...</span>
+            </div>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Anggota</h3>
+                {members.length > 0 ? (
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                    {members.map(member => (
+                      <li key={member.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                        <div>
+                          <p className="font-medium text-gray-900">{member.email || member.user_id}</p>
+                          <p className="text-xs text-gray-500">Bergabung {formatDate(member.created_at)}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {canEdit && member.user_id !== userId && grantableRoles.includes(member.role) ? (
+                            <select
+                              value={member.role}
+                              onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                              disabled={isSubmitting}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {grantableRoles.map(memberRole => (
+                                <option key={memberRole} value={memberRole}>{MEMBER_ROLE_LABELS[memberRole]}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <Badge className="bg-gray-100 text-gray-800">{MEMBER_ROLE_LABELS[member.role]}</Badge>
+                          )}
+                          {canRemove && (
+                            <Button
+                              variant="danger"
+                              size="sm"
+                              icon={<UserX size={14} />}
+                              onClick={() => handleRemoveMember(member)}
+                              disabled={isSubmitting}
+                            >
+                              Cabut Akses
+                            </Button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    Belum ada anggota tim di properti ini.
+                  </p>
+                )}
+              </div>
+
+              {invitations.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Undangan Menunggu Jawaban</h3>
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                    {invitations.map(invitation => (
+                      <li key={invitation.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                        <div>
+                          <p className="font-medium text-gray-900">{invitation.email}</p>
+                          <p className="text-xs text-gray-500">
+                            {MEMBER_ROLE_LABELS[invitation.role]} · Diundang {formatDate(invitation.created_at)}
+                          </p>
+                        </div>
+                        {canRemove && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={<Trash size={14} />}
+                            onClick={() => handleRevokeInvitation(invitation)}
+                            disabled={isSubmitting}
+                          >
+                            Batalkan
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyTeam;
@@ -0,0 +1,390 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Room, Tenant, TenantDeposit, DepositDeduction, DepositSettlement } from '../../types';
+import Button from '../ui/Button';
+import { X, Loader2, Plus, Trash, Printer, DoorOpen } from 'lucide-react';
+import { depositService, paymentService, maintenanceService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import { getOutstandingAmount } from '../../utils/billing';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { deductionTypeLabels, downloadSettlementSummary, getSettlementErrorMessage } from '../../utils/settlement';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../../utils/permissions';
+
+interface MoveOutSettlementProps {
+  room: Room;
+  tenant: Tenant;
+  onVacate: () => Promise<void>;
+  onClose: () => void;
+}
+
+interface DeductionLine {
+  key: string;
+  selected: boolean;
+  type: DepositDeduction['type'];
+  description: string;
+  amount: number;
+  max?: number;
+  payment_id?: string;
+  maintenance_request_id?: string;
+}
+
+const MoveOutSettlement: React.FC<MoveOutSettlementProps> = ({ room, tenant, onVacate, onClose }) => {
+  const { selectedProperty } = useProperty();
+  const [deposits, setDeposits] = useState<TenantDeposit[]>([]);
+  const [lines, setLines] = useState<DeductionLine[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    date: new Date().toISOString().split('T')[0],
+    refund_method: 'transfer',
+    notes: ''
+  });
+  const [result, setResult] = useState<{ settlement: DepositSettlement; deductions: DepositDeduction[] } | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!selectedProperty) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [depositsData, paymentsData, maintenanceData] = await Promise.all([
+        depositService.getByTenantId(tenant.id),
+        paymentService.getByTenantId(tenant.id),
+        maintenanceService.getByPropertyId(selectedProperty.id)
+      ]);
+
+      const heldDeposits = depositsData.filter(d => d.status === 'held');
+      setDeposits(heldDeposits);
+
+      // Unpaid invoices are preselected, oldest first, up to what the deposit covers
+      let uncovered = heldDeposits.reduce((sum, d) => sum + Number(d.amount), 0);
+      const rentLines = paymentsData
+        .filter(payment => getOutstandingAmount(payment) > 0)
+        .map(payment => {
+          const outstanding = getOutstandingAmount(payment);
+          const amount = Math.min(outstanding, uncovered);
+          uncovered -= amount;
+          return {
+            key: `payment-${payment.id}`,
+            selected: amount > 0,
+            type: 'unpaid_rent' as const,
+            description: payment.notes || `Tagihan jatuh tempo ${formatDate(payment.due_date)}`,
+            amount,
+            max: outstanding,
+            payment_id: payment.id
+          };
+        });
+
+      setLines([
+        ...rentLines,
+        ...maintenanceData
+          .filter(request => request.tenant_id === tenant.id || request.room_id === room.id)
+          .map(request => ({
+            key: `maintenance-${request.id}`,
+            selected: false,
+            type: 'damage' as const,
+            description: `Perbaikan: ${request.title}`,
+            amount: 0,
+            maintenance_request_id: request.id
+          }))
+      ]);
+    } catch (err) {
+      console.error('Error loading settlement data:', err);
+      setError('Gagal memuat data deposit penyewa');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedProperty, tenant.id, room.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const depositAmount = deposits.reduce((sum, d) => sum + Number(d.amount), 0);
+  const selectedLines = lines.filter(line => line.selected && line.amount > 0);
+  const totalDeductions = selectedLines.reduce((sum, line) => sum + line.amount, 0);
+  const refundAmount = depositAmount - totalDeductions;
+
+  const updateLine = (key: string, changes: Partial<DeductionLine>) => {
+    setLines(prev => prev.map(line => line.key === key ? { ...line, ...changes } : line));
+  };
+
+  const handleAddLine = () => {
+    setLines(prev => [...prev, {
+      key: `other-${Date.now()}`,
+      selected: true,
+      type: 'other',
+      description: '',
+      amount: 0
+    }]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedProperty) return;
+
+    if (refundAmount < 0) {
+      setError('Total potongan melebihi deposit yang ditahan');
+      return;
+    }
+
+    if (selectedLines.some(line => line.max !== undefined && line.amount > line.max)) {
+      setError('Potongan tunggakan melebihi sisa tagihan');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const settled = await depositService.settle({
+        tenant_id: tenant.id,
+        property_id: selectedProperty.id,
+        room_id: room.id,
+        date: form.date,
+        refund_method: form.refund_method,
+        notes: form.notes || null,
+        deductions: selectedLines.map(line => ({
+          type: line.type,
+          description: line.description || deductionTypeLabels[line.type],
+          amount: line.amount,
+          payment_id: line.payment_id || null,
+          maintenance_request_id: line.maintenance_request_id || null
+        }))
+      });
+      await onVacate();
+      setResult(settled);
+    } catch (err) {
+      console.error('Error settling deposit:', err);
+      setError(
+        isPermissionDeniedError(err) ? PERMISSION_DENIED_MESSAGE
+        : getSettlementErrorMessage(err) ?? 'Gagal menyelesaikan deposit'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!result || !selectedProperty) return;
+    downloadSettlementSummary({
+      settlement: result.settlement,
+      deductions: result.deductions,
+      property: selectedProperty,
+      tenantName: tenant.name,
+      roomNumber: room.number
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Penyelesaian Keluar Kamar
+            </h2>
+            <p className="text-sm text-gray-500">
+              {tenant.name} - Kamar {room.number}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" disabled={isSubmitting}>
+            <X size={24} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+            <span className="text-gray-500">Memuat data deposit...</span>
+          </div>
+        ) : result ? (
+          <div className="p-6 space-y-4">
+            <div className="p-3 text-sm text-green-700 bg-green-50 rounded-md">
+              Kamar telah dikosongkan dan deposit penyewa telah diselesaikan.
+            </div>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Deposit ditahan</span>
+                <span className="font-medium text-gray-900">{formatCurrency(result.settlement.deposit_amount)}</span>
+              </div>
+              {result.deductions.map(deduction => (
+                <div key={deduction.id} className="flex justify-between">
+                  <span className="text-gray-600">{deduction.description}</span>
+                  <span className="text-red-700">- {formatCurrency(deduction.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t border-gray-200 pt-2">
+                <span className="font-medium text-gray-900">Dikembalikan</span>
+                <span className="font-semibold text-gray-900">{formatCurrency(result.settlement.refund_amount)}</span>
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" icon={<Printer size={16} />} onClick={handlePrint}>
+                Cetak Ringkasan
+              </Button>
+              <Button onClick={onClose}>
+                Selesai
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+                {error}
+              </div>
+            )}
+
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600">Deposit Ditahan</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(depositAmount)}</p>
+              {deposits.length === 0 && (
+                <p className="text-sm text-gray-500 mt-1">Penyewa ini tidak memiliki deposit yang ditahan.</p>
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-700">Potongan</h3>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  icon={<Plus size={14} />}
+                  onClick={handleAddLine}
+                  disabled={isSubmitting}
+                >
+                  Tambah Potongan
+                </Button>
+              </div>
+
+              {lines.length > 0 ? (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {lines.map(line => (
+                    <li key={line.key} className="flex items-center gap-3 px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={line.selected}
+                        onChange={(e) => updateLine(line.key, { selected: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <div className="flex-1">
+                        {line.type === 'other' ? (
+                          <input
+                            type="text"
+                            value={line.description}
+                            onChange={(e) => updateLine(line.key, { description: e.target.value })}
+                            placeholder="Keterangan potongan"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          <p className="text-sm text-gray-900">{line.description}</p>
+                        )}
+                        <p className="text-xs text-gray-500">{deductionTypeLabels[line.type]}</p>
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        max={line.max}
+                        value={line.amount}
+                        onChange={(e) => updateLine(line.key, { amount: parseFloat(e.target.value) || 0 })}
+                        className="w-36 px-2 py-1 text-sm text-right border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        disabled={!line.selected}
+                      />
+                      {line.type === 'other' && (
+                        <button
+                          type="button"
+                          onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          <Trash size={16} />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">Tidak ada tunggakan atau perbaikan terkait.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tanggal Keluar
+                </label>
+                <input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Metode Pengembalian
+                </label>
+                <select
+                  value={form.refund_method}
+                  onChange={(e) => setForm(prev => ({ ...prev, refund_method: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="transfer">Transfer Bank</option>
+                  <option value="cash">Tunai</option>
+                  <option value="ewallet">E-Wallet</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Catatan
+              </label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="bg-gray-50 p-4 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total Potongan</span>
+                <span className="font-medium text-red-700">{formatCurrency(totalDeductions)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Dikembalikan ke Penyewa</span>
+                <span className={`font-semibold ${refundAmount < 0 ? 'text-red-700' : 'text-gray-900'}`}>
+                  {formatCurrency(Math.max(0, refundAmount))}
+                </span>
+              </div>
+              {refundAmount < 0 && (
+                <p className="text-xs text-red-600">
+                  Potongan melebihi deposit sebesar {formatCurrency(Math.abs(refundAmount))}.
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                Batal
+              </Button>
+              <Button
+                type="submit"
+                variant="danger"
+                icon={<DoorOpen size={16} />}
+                disabled={isSubmitting || refundAmount < 0}
+              >
+                {isSubmitting ? 'Memproses...' : 'Kosongkan Kamar'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MoveOutSettlement;
@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Loader2, Monitor, Smartphone } from 'lucide-react';
+import { ActiveSession, sessionService } from '../../services/supabase';
+import { formatDateTime } from '../../utils/formatters';
+import { describeUserAgent } from '../../utils/session';
+
+const ActiveSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSessions(await sessionService.getActive());
+    } catch (err) {
+      console.error('Error loading sessions:', err);
+      setError('Gagal memuat sesi aktif');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleSignOutOthers = async () => {
+    if (!window.confirm('Keluarkan akun Anda dari semua perangkat lain?')) return;
+
+    try {
+      setIsSigningOut(true);
+      setError(null);
+      await sessionService.signOutOthers();
+      setMessage('Semua sesi lain telah dikeluarkan');
+      await loadSessions();
+    } catch (err) {
+      console.error('Error signing out other sessions:', err);
+      setError('Gagal mengeluarkan sesi lain');
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.is_current);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Sesi Aktif</h3>
+          <p className="text-sm text-gray-500">Perangkat yang saat ini masuk ke akun Anda</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSignOutOthers}
+          disabled={isSigningOut || otherSessions.length === 0}
+        >
+          {isSigningOut ? 'Memproses...' : 'Keluarkan Sesi Lain'}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 rounded-md p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 rounded-md p-3 text-sm">
+          {message}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Memuat sesi...
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {sessions.map(session => (
+            <li key={session.id} className="flex items-center gap-3 px-4 py-3">
+              {/Android|iPhone|iPad|Mobile/.test(session.user_agent || '')
+                ? <Smartphone size={20} className="text-gray-400" />
+                : <Monitor size={20} className="text-gray-400" />}
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">
+                    {describeUserAgent(session.user_agent)}
+                  </span>
+                  {session.is_current && (
+                    <Badge className="bg-green-100 text-green-800">Perangkat ini</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {session.ip || 'IP tidak diketahui'} · Aktif terakhir {formatDateTime(session.last_active_at)}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PropertyBackup, Tenant } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, DatabaseBackup, Download, RotateCcw, Trash } from 'lucide-react';
+import { backupService, tenantService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import { useEntitlements } from '../../contexts/EntitlementContext';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { BackupArchive, backupFrequencyLabels } from '../../utils/backup';
+import { formatDateTime } from '../../utils/formatters';
+import { getPlanQuotaError } from '../../utils/planQuota';
+
+const BackupSettings: React.FC = () => {
+  // Backups belong to the owner's account, so shared properties are not listed
+  const { ownedProperties: properties, selectedProperty, refreshProperties } = useProperty();
+  const { features, isLoading: isLoadingFeatures } = useEntitlements();
+  const { can } = usePermissions();
+  const canManage = can('settings', 'edit');
+  const [backups, setBackups] = useState<PropertyBackup[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Restore dialog
+  const [restoring, setRestoring] = useState<PropertyBackup | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [currentTenants, setCurrentTenants] = useState<Tenant[]>([]);
+  const [restoreScope, setRestoreScope] = useState<'property' | 'tenant'>('property');
+  const [restoreTenantId, setRestoreTenantId] = useState('');
+
+  const frequency = features?.data_backup || false;
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await backupService.getAll();
+      setBackups(data);
+    } catch (err) {
+      console.error('Error loading backups:', err);
+      setError('Gagal memuat daftar cadangan');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  useEffect(() => {
+    setPropertyId(prev => prev || properties.find(p => p.id === selectedProperty?.id)?.id || properties[0]?.id || '');
+  }, [selectedProperty, properties]);
+
+  const handleBackupNow = async () => {
+    const property = properties.find(p => p.id === propertyId);
+    if (!property) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setMessage(null);
+      const backup = await backupService.create(property);
+      setBackups(prev => [backup, ...prev]);
+      setMessage(`Cadangan ${property.name} berhasil dibuat`);
+    } catch (err) {
+      console.error('Error creating backup:', err);
+      setError('Gagal membuat cadangan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownload = async (backup: PropertyBackup) => {
+    try {
+      setError(null);
+      const data = await backupService.download(backup);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `cadangan_${backup.property_name.replace(/\s+/g, '_').toLowerCase()}_${backup.created_at.split('T')[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading backup:', err);
+      setError(err instanceof Error ? err.message : 'Gagal mengunduh cadangan');
+    }
+  };
+
+  const handleDelete = async (backup: PropertyBackup) => {
+    if (!window.confirm('Hapus cadangan ini?')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await backupService.delete(backup);
+      setBackups(prev => prev.filter(b => b.id !== backup.id));
+    } catch (err) {
+      console.error('Error deleting backup:', err);
+      setError('Gagal menghapus cadangan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openRestore = async (backup: PropertyBackup) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setMessage(null);
+      const [data, tenants] = await Promise.all([
+        backupService.download(backup),
+        tenantService.getByPropertyId(backup.property_id)
+      ]);
+      setArchive(data);
+      setCurrentTenants(tenants);
+      setRestoreScope('property');
+      setRestoreTenantId(data.tables.tenants[0]?.id || '');
+      setRestoring(backup);
+    } catch (err) {
+      console.error('Error opening backup:', err);
+      setError(err instanceof Error ? err.message : 'Gagal membuka cadangan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const closeRestore = () => {
+    setRestoring(null);
+    setArchive(null);
+  };
+
+  const handleRestore = async () => {
+    if (!restoring || !archive) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (restoreScope === 'property') {
+        await backupService.restoreProperty(archive);
+        await refreshProperties();
+        setMessage(`Properti ${restoring.property_name} dipulihkan ke kondisi ${formatDateTime(archive.created_at)}`);
+      } else {
+        const tenant = archive.tables.tenants.find(t => t.id === restoreTenantId);
+        const { roomRestored } = await backupService.restoreTenant(archive, restoreTenantId);
+        setMessage(roomRestored
+          ? `Penyewa ${tenant?.name} berhasil dipulihkan`
+          : `Penyewa ${tenant?.name} dipulihkan tanpa kamar karena kamarnya sudah terisi`);
+      }
+      closeRestore();
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      const quota = getPlanQuotaError(err);
+      setError(quota
+        ? `Pemulihan melebihi batas paket Anda (${quota.limit} ${quota.resource === 'properties' ? 'properti' : 'kamar per properti'})`
+        : 'Gagal memulihkan data dari cadangan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isDeletedProperty = (backup: PropertyBackup) => !properties.some(p => p.id === backup.property_id);
+  const isDeletedTenant = (tenant: Tenant) => !currentTenants.some(t => t.id === tenant.id);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 rounded-md">
+          {message}
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-50 rounded-md space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Pencadangan Otomatis</h3>
+          <p className="text-sm text-gray-500">
+            {isLoadingFeatures
+              ? 'Memeriksa paket langganan...'
+              : frequency
+                ? `Properti, kamar, penyewa, pembayaran dan permintaan perbaikan dicadangkan otomatis: ${backupFrequencyLabels[frequency]}.`
+                : 'Paket Anda belum termasuk pencadangan data. Tingkatkan paket untuk mengaktifkannya.'}
+          </p>
+        </div>
+
+        {frequency && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={propertyId}
+              onChange={(e) => setPropertyId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {properties.map(property => (
+                <option key={property.id} value={property.id}>{property.name}</option>
+              ))}
+            </select>
+            <Button
+              icon={<DatabaseBackup size={16} />}
+              onClick={handleBackupNow}
+              disabled={isSubmitting || !propertyId || !canManage}
+            >
+              {isSubmitting ? 'Memproses...' : 'Cadangkan Sekarang'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+          <span className="text-gray-500">Memuat cadangan...</span>
+        </div>
+      ) : backups.length > 0 ? (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {backups.map(backup => (
+            <li key={backup.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{backup.property_name}</span>
+                  <Badge className={backup.trigger === 'scheduled' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}>
+                    {backup.trigger === 'scheduled' ? 'Otomatis' : 'Manual'}
+                  </Badge>
+                  {isDeletedProperty(backup) && (
+                    <Badge className="bg-red-100 text-red-800">Properti dihapus</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {formatDateTime(backup.created_at)} · {backup.row_counts.rooms ?? 0} kamar · {backup.row_counts.tenants ?? 0} penyewa · {backup.row_counts.payments ?? 0} pembayaran
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={<Download size={14} />}
+                  onClick={() => handleDownload(backup)}
+                  disabled={isSubmitting}
+                >
+                  Unduh
+                </Button>
+                {canManage && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={<RotateCcw size={14} />}
+                      onClick={() => openRestore(backup)}
+                      disabled={isSubmitting}
+                    >
+                      Pulihkan
+                    </Button>
+                    <button
+                      onClick={() => handleDelete(backup)}
+                      className="text-gray-400 hover:text-red-600"
+                      disabled={isSubmitting}
+                    >
+                      <Trash size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-center py-8">
+          Belum ada cadangan.
+        </p>
+      )}
+
+      {restoring && archive && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800">Pulihkan Cadangan</h2>
+                <p className="text-sm text-gray-500">
+                  {restoring.property_name} · {formatDateTime(archive.created_at)}
+                </p>
+              </div>
+              <button onClick={closeRestore} className="text-gray-500 hover:text-gray-700">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={restoreScope === 'property'}
+                  onChange={() => setRestoreScope('property')}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">Seluruh properti</span>
+                  <span className="block text-gray-500">
+                    Data properti, kamar, penyewa, pembayaran dan perbaikan dikembalikan ke kondisi saat cadangan dibuat. Data yang ditambahkan setelahnya tetap ada.
+                  </span>
+                </span>
+              </label>
+
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={restoreScope === 'tenant'}
+                  onChange={() => setRestoreScope('tenant')}
+                  disabled={archive.tables.tenants.length === 0}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">Satu penyewa</span>
+                  <span className="block text-gray-500">
+                    Memulihkan penyewa beserta pembayaran dan permintaan perbaikannya.
+                  </span>
+                </span>
+              </label>
+
+              {restoreScope === 'tenant' && (
+                <select
+                  value={restoreTenantId}
+                  onChange={(e) => setRestoreTenantId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {archive.tables.tenants.map(tenant => (
+                    <option key={tenant.id} value={tenant.id}>
+                      {tenant.name}{isDeletedTenant(tenant) ? ' (dihapus)' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={closeRestore}
+                  disabled={isSubmitting}
+                >
+                  Batal
+                </Button>
+                <Button
+                  onClick={handleRestore}
+                  disabled={isSubmitting || (restoreScope === 'tenant' && !restoreTenantId)}
+                >
+                  {isSubmitting ? 'Memulihkan...' : 'Pulihkan'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,408 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Subscription, SubscriptionInvoice, SubscriptionPlan } from '../../types/subscription';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Loader2, CheckCircle, ExternalLink } from 'lucide-react';
+import { subscriptionService } from '../../services/supabase';
+import { useEntitlements } from '../../contexts/EntitlementContext';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+import { getPlanUsageViolations, PlanUsage, previewPlanChange } from '../../utils/subscription';
+
+const invoiceStatusLabels: Record<SubscriptionInvoice['status'], { label: string; className: string }> = {
+  pending: { label: 'Menunggu Pembayaran', className: 'bg-yellow-100 text-yellow-800' },
+  paid: { label: 'Lunas', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Gagal', className: 'bg-red-100 text-red-800' },
+  expired: { label: 'Kedaluwarsa', className: 'bg-gray-100 text-gray-800' },
+  void: { label: 'Dibatalkan', className: 'bg-gray-100 text-gray-800' }
+};
+
+const invoiceKindLabels: Record<SubscriptionInvoice['kind'], string> = {
+  start: 'Langganan baru',
+  upgrade: 'Upgrade paket',
+  renewal: 'Perpanjangan'
+};
+
+const SubscriptionSettings: React.FC = () => {
+  const { refresh: refreshEntitlements } = useEntitlements();
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [invoices, setInvoices] = useState<SubscriptionInvoice[]>([]);
+  const [trialEligible, setTrialEligible] = useState(false);
+  const [usage, setUsage] = useState<PlanUsage>({ properties: 0, rooms: [] });
+  const [selectedPlanId, setSelectedPlanId] = useState('');
+  const [violations, setViolations] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [subscriptionData, plansData, usageData, invoicesData, trialEligibleData] = await Promise.all([
+        subscriptionService.getCurrent(),
+        subscriptionService.getPlans(),
+        subscriptionService.getUsage(),
+        subscriptionService.getInvoices(),
+        subscriptionService.isTrialEligible()
+      ]);
+      setSubscription(subscriptionData);
+      setPlans(plansData);
+      setUsage(usageData);
+      setInvoices(invoicesData);
+      setTrialEligible(trialEligibleData);
+      // The rest of the app reads the plan from the entitlement context
+      await refreshEntitlements();
+    } catch (err) {
+      console.error('Error loading subscription:', err);
+      setError('Gagal memuat data langganan');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [refreshEntitlements]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const currentPlan = subscription?.plan || null;
+  const isPastDue = subscription?.status === 'past_due';
+  const selectedPlan = plans.find(plan => plan.id === selectedPlanId);
+  const startsTrial = !subscription && trialEligible && !!selectedPlan && selectedPlan.trial_days > 0;
+  const preview = selectedPlan ? previewPlanChange(subscription, currentPlan, selectedPlan) : null;
+  const selectedViolations = selectedPlan && preview?.direction === 'downgrade'
+    ? getPlanUsageViolations(selectedPlan, usage)
+    : [];
+  // Server-side violations cover usage that changed since the page loaded
+  const shownViolations = Array.from(new Set([...selectedViolations, ...violations]));
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setMessage(null);
+      await action();
+      setMessage(successMessage);
+      await loadData();
+    } catch (err) {
+      console.error('Error updating subscription:', err);
+      setError('Gagal memperbarui langganan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChangePlan = async () => {
+    if (!selectedPlan || !preview) return;
+
+    const confirmation = startsTrial
+      ? `Mulai uji coba gratis paket ${selectedPlan.name} selama ${selectedPlan.trial_days} hari?`
+      : preview.direction === 'upgrade' && preview.amount === 0
+      ? `Ganti ke paket ${selectedPlan.name} sekarang?`
+      : preview.direction === 'upgrade'
+      ? `Ganti ke paket ${selectedPlan.name} dan bayar ${formatCurrency(preview.amount)}?`
+      : `Ganti ke paket ${selectedPlan.name} mulai ${formatDate(preview.effective_at)}?`;
+    if (!window.confirm(confirmation)) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setMessage(null);
+      setViolations([]);
+      const result = await subscriptionService.changePlan(selectedPlan.id);
+
+      if (result.status === 'rejected') {
+        setViolations(result.violations || []);
+        return;
+      }
+
+      // The plan changes once the payment provider confirms the invoice
+      if (result.status === 'pending_payment') {
+        if (result.payment_url) {
+          window.location.href = result.payment_url;
+          return;
+        }
+        setMessage(`Tagihan ${result.invoice_number} dibuat. Paket berganti setelah pembayaran diterima.`);
+        setSelectedPlanId('');
+        await loadData();
+        return;
+      }
+
+      setMessage(result.status === 'trialing'
+        ? `Uji coba paket ${selectedPlan.name} aktif hingga ${formatDate(result.effective_at || '')}`
+        : result.status === 'scheduled'
+          ? `Paket ${selectedPlan.name} akan berlaku mulai ${formatDate(result.effective_at || '')}`
+          : `Paket berhasil diganti ke ${selectedPlan.name}`);
+      setSelectedPlanId('');
+      await loadData();
+    } catch (err) {
+      console.error('Error changing plan:', err);
+      setError('Gagal mengganti paket');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+        <span className="text-gray-500">Memuat langganan...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 rounded-md">
+          {message}
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-50 rounded-md space-y-2">
+        {subscription && currentPlan ? (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700">Paket Saat Ini</h3>
+                <div className="flex items-center gap-2">
+                  <p className="text-lg font-semibold text-gray-900">{currentPlan.name}</p>
+                  {subscription.status === 'trialing' && (
+                    <Badge className="bg-blue-100 text-blue-800">Uji Coba</Badge>
+                  )}
+                  {isPastDue && (
+                    <Badge className="bg-yellow-100 text-yellow-800">Menunggu Pembayaran</Badge>
+                  )}
+                </div>
+              </div>
+              <p className="text-lg font-bold text-gray-900">
+                {formatCurrency(currentPlan.price)}<span className="text-sm font-normal text-gray-500">/bulan</span>
+              </p>
+            </div>
+            <p className="text-sm text-gray-500">
+              Periode {formatDate(subscription.current_period_start)} - {formatDate(subscription.current_period_end)}
+            </p>
+
+            {isPastDue && subscription.grace_until && (
+              <p className="text-sm text-amber-700">
+                Bayar tagihan perpanjangan sebelum {formatDate(subscription.grace_until)} agar data Anda tetap dapat diubah.
+                Paket tidak dapat diganti sampai tagihan dibayar.
+              </p>
+            )}
+
+            {subscription.scheduled_plan && (
+              <div className="flex items-center justify-between gap-2 text-sm text-amber-700">
+                <span>
+                  Berganti ke paket {subscription.scheduled_plan.name} pada {formatDate(subscription.current_period_end)}.
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runAction(subscriptionService.cancelScheduledChange, 'Perubahan paket dibatalkan')}
+                  disabled={isSubmitting}
+                >
+                  Batalkan Perubahan
+                </Button>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2 text-sm">
+              {subscription.cancel_at_period_end ? (
+                <>
+                  <span className="text-red-600">
+                    Langganan berakhir pada {formatDate(subscription.current_period_end)} dan tidak diperpanjang.
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runAction(subscriptionService.resume, 'Langganan akan diperpanjang otomatis')}
+                    disabled={isSubmitting}
+                  >
+                    Lanjutkan Langganan
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="text-gray-500">Diperpanjang otomatis setiap bulan.</span>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => {
+                      if (window.confirm('Hentikan langganan di akhir periode ini?')) {
+                        runAction(subscriptionService.cancelAtPeriodEnd, 'Langganan akan berakhir di akhir periode');
+                      }
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    Hentikan di Akhir Periode
+                  </Button>
+                </>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">Anda belum berlangganan. Pilih paket di bawah untuk memulai.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {plans.filter(plan => plan.is_active || plan.id === currentPlan?.id).map(plan => {
+          const isCurrent = plan.id === currentPlan?.id;
+          return (
+            <button
+              key={plan.id}
+              type="button"
+              onClick={() => {
+                setSelectedPlanId(plan.id);
+                setViolations([]);
+              }}
+              disabled={isCurrent || isSubmitting || isPastDue}
+              className={`text-left border rounded-lg p-4 transition-colors ${
+                selectedPlanId === plan.id
+                  ? 'border-blue-500 bg-blue-50'
+                  : isCurrent
+                    ? 'border-gray-200 bg-gray-50 cursor-default'
+                    : 'border-gray-200 hover:border-blue-200'
+              }`}
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-gray-900">{plan.name}</h3>
+                    {isCurrent && <Badge className="bg-green-100 text-green-800">Aktif</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500">{plan.description}</p>
+                </div>
+                <p className="text-lg font-bold text-gray-900 whitespace-nowrap">{formatCurrency(plan.price)}</p>
+              </div>
+              <ul className="space-y-1 text-sm text-gray-600">
+                {!subscription && trialEligible && plan.trial_days > 0 && (
+                  <li className="flex items-center text-blue-700">
+                    <CheckCircle size={14} className="text-blue-500 mr-2" />
+                    Uji coba gratis {plan.trial_days} hari
+                  </li>
+                )}
+                <li className="flex items-center">
+                  <CheckCircle size={14} className="text-green-500 mr-2" />
+                  Hingga {plan.max_properties} properti
+                </li>
+                <li className="flex items-center">
+                  <CheckCircle size={14} className="text-green-500 mr-2" />
+                  Hingga {plan.max_rooms_per_property} kamar per properti
+                </li>
+              </ul>
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedPlan && preview && (
+        <div className="p-4 border border-gray-200 rounded-md space-y-3">
+          {startsTrial ? (
+            <p className="text-sm text-gray-700">
+              Uji coba gratis paket {selectedPlan.name} selama {selectedPlan.trial_days} hari dimulai hari ini. Setelah itu tagihan pertama sebesar <span className="font-semibold">{formatCurrency(selectedPlan.price)}</span>/bulan diterbitkan.
+            </p>
+          ) : preview.direction === 'upgrade' ? (
+            <p className="text-sm text-gray-700">
+              {subscription?.status === 'trialing'
+                ? <>Paket {selectedPlan.name} aktif sekarang tanpa biaya selama masa uji coba. Selanjutnya {formatCurrency(selectedPlan.price)}/bulan.</>
+                : subscription
+                ? <>Paket {selectedPlan.name} aktif setelah pembayaran diterima. Biaya prorata untuk sisa {preview.remaining_days} hari periode ini: <span className="font-semibold">{formatCurrency(preview.amount)}</span>. Selanjutnya {formatCurrency(selectedPlan.price)}/bulan.</>
+                : <>Langganan paket {selectedPlan.name} dimulai setelah pembayaran diterima: <span className="font-semibold">{formatCurrency(preview.amount)}</span>/bulan.</>}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-700">
+              Paket {selectedPlan.name} berlaku mulai {formatDate(preview.effective_at)}, setelah periode berjalan berakhir. Tidak ada biaya tambahan; selanjutnya {formatCurrency(selectedPlan.price)}/bulan.
+            </p>
+          )}
+
+          {shownViolations.length > 0 && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              <p className="font-medium">Kurangi data Anda sebelum pindah ke paket ini:</p>
+              <ul className="list-disc list-inside">
+                {shownViolations.map(violation => (
+                  <li key={violation}>{violation}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setSelectedPlanId('')}
+              disabled={isSubmitting}
+            >
+              Batal
+            </Button>
+            <Button
+              onClick={handleChangePlan}
+              disabled={isSubmitting || selectedViolations.length > 0}
+            >
+              {isSubmitting ? 'Memproses...' : 'Ganti Paket'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Riwayat Tagihan</h3>
+        {invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">Belum ada tagihan langganan.</p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">No. Tagihan</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Keterangan</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Tanggal</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Jumlah</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {invoices.map(invoice => (
+                  <tr key={invoice.id}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{invoice.invoice_number}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {invoiceKindLabels[invoice.kind]} - {invoice.plan_name}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{formatDate(invoice.paid_at || invoice.created_at)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(invoice.amount)}</td>
+                    <td className="px-4 py-2">
+                      <Badge className={invoiceStatusLabels[invoice.status].className}>
+                        {invoiceStatusLabels[invoice.status].label}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {invoice.status === 'pending' && invoice.payment_url && (
+                        <a
+                          href={invoice.payment_url}
+                          className="inline-flex items-center text-blue-600 hover:text-blue-800"
+                        >
+                          Bayar
+                          <ExternalLink size={14} className="ml-1" />
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SubscriptionSettings;
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Loader2, X, Copy, Download, CheckCircle, AlertCircle } from 'lucide-react';
+import { mfaService } from '../../services/supabase';
+
+interface TwoFactorSettingsProps {
+  onStatusChange: (enabled: boolean) => void;
+}
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ onStatusChange }) => {
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [codesRemaining, setCodesRemaining] = useState(0);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const factor = await mfaService.getTotpFactor();
+      setFactorId(factor?.id ?? null);
+      setCodesRemaining(factor ? await mfaService.getRecoveryCodesRemaining() : 0);
+    } catch (err) {
+      console.error('Error loading two-factor status:', err);
+      setError('Gagal memuat status autentikasi dua faktor');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleStartEnrollment = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setEnrollment(await mfaService.enroll());
+      setVerificationCode('');
+    } catch (err) {
+      console.error('Error enrolling factor:', err);
+      setError('Gagal memulai pengaturan autentikasi dua faktor');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const codes = await mfaService.activate(enrollment.factorId, verificationCode.replace(/\s/g, ''));
+      setEnrollment(null);
+      setRecoveryCodes(codes);
+      onStatusChange(true);
+      await loadStatus();
+    } catch (err) {
+      console.error('Error activating factor:', err);
+      setError('Kode verifikasi salah atau sudah kedaluwarsa');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    if (!window.confirm('Kode pemulihan lama tidak akan berlaku lagi. Lanjutkan?')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      setRecoveryCodes(await mfaService.regenerateRecoveryCodes());
+      await loadStatus();
+    } catch (err) {
+      console.error('Error regenerating recovery codes:', err);
+      setError('Gagal membuat kode pemulihan baru');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!factorId) return;
+    if (!window.confirm('Nonaktifkan autentikasi dua faktor? Akun Anda hanya akan dilindungi kata sandi.')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await mfaService.disable(factorId);
+      onStatusChange(false);
+      await loadStatus();
+    } catch (err) {
+      console.error('Error disabling factor:', err);
+      setError('Gagal menonaktifkan autentikasi dua faktor');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'kode-pemulihan.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Memuat autentikasi dua faktor...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h3 className="text-sm font-medium text-gray-700">Autentikasi Dua Faktor</h3>
+            {factorId
+              ? <Badge className="bg-green-100 text-green-800">Aktif</Badge>
+              : <Badge className="bg-gray-100 text-gray-800">Tidak Aktif</Badge>}
+          </div>
+          <p className="text-sm text-gray-500">
+            {factorId
+              ? `Kode dari aplikasi autentikator diminta setiap login. Sisa kode pemulihan: ${codesRemaining}`
+              : 'Tambahkan lapisan keamanan ekstra dengan aplikasi autentikator seperti Google Authenticator'}
+          </p>
+        </div>
+        {!factorId && (
+          <Button size="sm" onClick={handleStartEnrollment} disabled={isSubmitting}>
+            Aktifkan
+          </Button>
+        )}
+      </div>
+
+      {factorId && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleRegenerateCodes} disabled={isSubmitting}>
+            Buat Ulang Kode Pemulihan
+          </Button>
+          <Button variant="danger" size="sm" onClick={handleDisable} disabled={isSubmitting}>
+            Nonaktifkan
+          </Button>
+        </div>
+      )}
+
+      {error && !enrollment && (
+        <div className="bg-red-50 border border-red-200 text-red-600 rounded-md p-3 text-sm flex items-start">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {enrollment && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-800">Aktifkan Autentikasi Dua Faktor</h2>
+              <button
+                onClick={() => {
+                  setEnrollment(null);
+                  setError(null);
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X size={24} />
+              </button>
+            </div>
+
+            <form onSubmit={handleActivate} className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Pindai kode QR ini dengan aplikasi autentikator Anda, lalu masukkan kode 6 digit yang muncul.
+              </p>
+              <div className="flex justify-center">
+                <img src={enrollment.qrCode} alt="Kode QR autentikasi dua faktor" className="h-48 w-48" />
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 mb-1">Tidak bisa memindai? Masukkan kunci ini secara manual:</p>
+                <code className="block bg-gray-50 border border-gray-200 rounded px-3 py-2 text-sm break-all">
+                  {enrollment.secret}
+                </code>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-600 rounded-md p-3 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Kode Verifikasi
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  required
+                  value={verificationCode}
+                  onChange={(e) => setVerificationCode(e.target.value)}
+                  placeholder="123456"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setEnrollment(null);
+                    setError(null);
+                  }}
+                >
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Memverifikasi...' : 'Verifikasi & Aktifkan'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-800">Kode Pemulihan</h2>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Simpan kode ini di tempat yang aman. Setiap kode hanya bisa dipakai sekali untuk masuk
+                jika Anda kehilangan akses ke aplikasi autentikator. Kode ini tidak akan ditampilkan lagi.
+              </p>
+              <div className="grid grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-md p-4">
+                {recoveryCodes.map(code => (
+                  <code key={code} className="text-sm text-gray-800 text-center">{code}</code>
+                ))}
+              </div>
+              <div className="flex flex-wrap justify-between gap-2">
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                    {copied ? <CheckCircle size={16} className="mr-1" /> : <Copy size={16} className="mr-1" />}
+                    {copied ? 'Tersalin' : 'Salin'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleDownloadCodes}>
+                    <Download size={16} className="mr-1" />
+                    Unduh
+                  </Button>
+                </div>
+                <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+                  Sudah Saya Simpan
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
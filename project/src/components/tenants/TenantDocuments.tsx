@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Tenant, Room, AgreementTemplate, TenantDocument } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, FilePlus, Download, Upload, Trash } from 'lucide-react';
+import { agreementTemplateService, leaseService, tenantDocumentService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import { generateAgreementPDF } from '../../utils/agreement';
+import { formatDate } from '../../utils/formatters';
+
+interface TenantDocumentsProps {
+  tenant: Tenant;
+  room?: Room;
+  onClose: () => void;
+}
+
+const TenantDocuments: React.FC<TenantDocumentsProps> = ({ tenant, room, onClose }) => {
+  const { selectedProperty } = useProperty();
+  const [templates, setTemplates] = useState<AgreementTemplate[]>([]);
+  const [documents, setDocuments] = useState<TenantDocument[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!selectedProperty) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [templatesData, documentsData] = await Promise.all([
+        agreementTemplateService.getByPropertyId(selectedProperty.id),
+        tenantDocumentService.getByTenantId(tenant.id)
+      ]);
+      setTemplates(templatesData);
+      setDocuments(documentsData);
+      setTemplateId(prev => prev || (templatesData.find(t => t.is_default) || templatesData[0])?.id || '');
+    } catch (err) {
+      console.error('Error loading tenant documents:', err);
+      setError('Gagal memuat dokumen penyewa');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedProperty, tenant.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const downloadFile = async (filePath: string) => {
+    try {
+      const url = await tenantDocumentService.getDownloadUrl(filePath);
+      window.open(url, '_blank');
+    } catch (err) {
+      console.error('Error downloading document:', err);
+      setError('Gagal mengunduh dokumen');
+    }
+  };
+
+  const handleGenerate = async () => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template || !selectedProperty) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const leases = await leaseService.getByTenantId(tenant.id);
+      const lease = leases.find(l => l.status === 'active');
+      const pdf = generateAgreementPDF({
+        template,
+        tenant,
+        room,
+        property: selectedProperty,
+        lease,
+        documentDate: new Date().toISOString().split('T')[0]
+      });
+
+      const document = await tenantDocumentService.create({
+        tenant_id: tenant.id,
+        property_id: selectedProperty.id,
+        template_id: template.id,
+        lease_id: lease?.id || null,
+        title: `${template.name} - ${tenant.name}`
+      }, pdf.output('blob'));
+
+      pdf.save(`perjanjian_${tenant.name.replace(/\s+/g, '_').toLowerCase()}.pdf`);
+      setDocuments(prev => [document, ...prev]);
+    } catch (err) {
+      console.error('Error generating agreement:', err);
+      setError('Gagal membuat surat perjanjian');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUploadSigned = async (document: TenantDocument, file?: File) => {
+    if (!file) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const updated = await tenantDocumentService.uploadSigned(document, file);
+      setDocuments(prev => prev.map(d => d.id === updated.id ? updated : d));
+    } catch (err) {
+      console.error('Error uploading signed document:', err);
+      setError('Gagal mengunggah dokumen bertanda tangan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (document: TenantDocument) => {
+    if (!window.confirm('Hapus dokumen ini?')) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await tenantDocumentService.delete(document);
+      setDocuments(prev => prev.filter(d => d.id !== document.id));
+    } catch (err) {
+      console.error('Error deleting document:', err);
+      setError('Gagal menghapus dokumen');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Dokumen Penyewa
+            </h2>
+            <p className="text-sm text-gray-500">
+              {tenant.name}{room ? ` - Kamar ${room.number}` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+              <span className="text-gray-500">Memuat dokumen...</span>
+            </div>
+          ) : (
+            <>
+              {templates.length > 0 ? (
+                <div className="flex flex-col sm:flex-row sm:items-end gap-3 p-4 bg-gray-50 rounded-md">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Template Perjanjian
+                    </label>
+                    <select
+                      value={templateId}
+                      onChange={(e) => setTemplateId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {templates.map(template => (
+                        <option key={template.id} value={template.id}>{template.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    icon={<FilePlus size={16} />}
+                    onClick={handleGenerate}
+                    disabled={isSubmitting || !templateId}
+                  >
+                    {isSubmitting ? 'Memproses...' : 'Buat Perjanjian'}
+                  </Button>
+                </div>
+              ) : (
+                <p className="p-4 text-sm text-gray-600 bg-gray-50 rounded-md">
+                  Belum ada template perjanjian. Tambahkan template melalui menu Properti.
+                </p>
+              )}
+
+              {documents.length > 0 ? (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {documents.map(document => (
+                    <li key={document.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900">{document.title}</span>
+                          <Badge className={document.status === 'signed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                            {document.status === 'signed' ? 'Ditandatangani' : 'Belum ditandatangani'}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Dibuat {formatDate(document.created_at || '')}
+                          {document.signed_at ? ` · Ditandatangani ${formatDate(document.signed_at)}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          icon={<Download size={14} />}
+                          onClick={() => downloadFile(document.file_path)}
+                        >
+                          Draf
+                        </Button>
+                        {document.signed_file_path ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={<Download size={14} />}
+                            onClick={() => downloadFile(document.signed_file_path!)}
+                          >
+                            Bertanda Tangan
+                          </Button>
+                        ) : (
+                          <label className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 cursor-pointer">
+                            <Upload size={14} />
+                            Unggah Versi TTD
+                            <input
+                              type="file"
+                              accept="application/pdf,image/*"
+                              className="hidden"
+                              disabled={isSubmitting}
+                              onChange={(e) => handleUploadSigned(document, e.target.files?.[0])}
+                            />
+                          </label>
+                        )}
+                        <button
+                          onClick={() => handleDelete(document)}
+                          className="text-gray-400 hover:text-red-600"
+                          disabled={isSubmitting}
+                        >
+                          <Trash size={16} />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-500 text-center py-8">
+                  Belum ada dokumen untuk penyewa ini.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TenantDocuments;
@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Tenant, Room, Lease } from '../../types';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { X, Loader2, RefreshCw, Plus } from 'lucide-react';
+import { leaseService } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import { formatCurrency, formatDate, translateBillingCycle, translateLeaseStatus } from '../../utils/formatters';
+
+interface TenantLeasesProps {
+  tenant: Tenant;
+  room?: Room;
+  onLeaseChanged: () => void;
+  onClose: () => void;
+}
+
+const leaseStatusColors: Record<Lease['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  renewed: 'bg-blue-100 text-blue-800',
+  ended: 'bg-gray-100 text-gray-800'
+};
+
+const TenantLeases: React.FC<TenantLeasesProps> = ({ tenant, room, onLeaseChanged, onClose }) => {
+  const { selectedProperty } = useProperty();
+  const [leases, setLeases] = useState<Lease[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({
+    start_date: '',
+    term_months: 12,
+    rent_amount: 0,
+    billing_cycle: 'monthly' as Lease['billing_cycle'],
+    deposit_amount: 0,
+    notes: ''
+  });
+
+  const loadLeases = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await leaseService.getByTenantId(tenant.id);
+      setLeases(data);
+    } catch (err) {
+      console.error('Error loading leases:', err);
+      setError('Gagal memuat kontrak sewa');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenant.id]);
+
+  useEffect(() => {
+    loadLeases();
+  }, [loadLeases]);
+
+  const activeLease = leases.find(l => l.status === 'active');
+  const daysLeft = activeLease ? differenceInCalendarDays(parseISO(activeLease.end_date), new Date()) : null;
+  const endDate = form.start_date
+    ? format(addDays(addMonths(parseISO(form.start_date), form.term_months), -1), 'yyyy-MM-dd')
+    : '';
+
+  const openForm = () => {
+    setForm({
+      start_date: activeLease
+        ? format(addDays(parseISO(activeLease.end_date), 1), 'yyyy-MM-dd')
+        : tenant.start_date || new Date().toISOString().split('T')[0],
+      term_months: 12,
+      rent_amount: activeLease ? Number(activeLease.rent_amount) : room ? Number(room.price) : 0,
+      billing_cycle: activeLease ? activeLease.billing_cycle : 'monthly',
+      deposit_amount: activeLease ? Number(activeLease.deposit_amount) : 0,
+      notes: ''
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedProperty || !endDate) return;
+
+    const terms = {
+      start_date: form.start_date,
+      end_date: endDate,
+      rent_amount: form.rent_amount,
+      billing_cycle: form.billing_cycle,
+      deposit_amount: form.deposit_amount,
+      notes: form.notes || null
+    };
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (activeLease) {
+        await leaseService.renew(activeLease, terms);
+      } else {
+        await leaseService.create({
+          ...terms,
+          tenant_id: tenant.id,
+          room_id: tenant.room_id,
+          property_id: selectedProperty.id,
+          previous_lease_id: leases.length > 0 ? leases[leases.length - 1].id : null
+        });
+      }
+      setShowForm(false);
+      await loadLeases();
+      onLeaseChanged();
+    } catch (err) {
+      console.error('Error saving lease:', err);
+      setError('Gagal menyimpan kontrak sewa');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Kontrak Sewa
+            </h2>
+            <p className="text-sm text-gray-500">
+              {tenant.name}{room ? ` - Kamar ${room.number}` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+              <span className="text-gray-500">Memuat kontrak...</span>
+            </div>
+          ) : (
+            <>
+              {activeLease ? (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm text-gray-600">Kontrak Berjalan</p>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {formatDate(activeLease.start_date)} - {formatDate(activeLease.end_date)}
+                      </p>
+                    </div>
+                    {daysLeft !== null && (
+                      <Badge className={daysLeft < 0 ? 'bg-red-100 text-red-800' : daysLeft <= 30 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}>
+                        {daysLeft < 0 ? 'Sudah berakhir' : `Berakhir dalam ${daysLeft} hari`}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="mt-3 grid grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-600">Sewa per Bulan</p>
+                      <p className="font-medium text-gray-900">{formatCurrency(activeLease.rent_amount)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Siklus Tagihan</p>
+                      <p className="font-medium text-gray-900">{translateBillingCycle(activeLease.billing_cycle)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Deposit</p>
+                      <p className="font-medium text-gray-900">{formatCurrency(activeLease.deposit_amount)}</p>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Penyewa ini tidak memiliki kontrak yang berjalan.</p>
+              )}
+
+              {!showForm && (
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    icon={activeLease ? <RefreshCw size={16} /> : <Plus size={16} />}
+                    onClick={openForm}
+                  >
+                    {activeLease ? 'Perpanjang Kontrak' : 'Buat Kontrak'}
+                  </Button>
+                </div>
+              )}
+
+              {showForm && (
+                <form onSubmit={handleSubmit} className="p-4 bg-gray-50 rounded-md space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Tanggal Mulai
+                      </label>
+                      <input
+                        type="date"
+                        value={form.start_date}
+                        onChange={(e) => setForm(prev => ({ ...prev, start_date: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Jangka Waktu (bulan)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="60"
+                        value={form.term_months}
+                        onChange={(e) => setForm(prev => ({ ...prev, term_months: parseInt(e.target.value) || 1 }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Tanggal Berakhir
+                      </label>
+                      <p className="px-3 py-2 text-gray-900">{endDate ? formatDate(endDate) : '-'}</p>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Sewa per Bulan
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={form.rent_amount}
+                        onChange={(e) => setForm(prev => ({ ...prev, rent_amount: parseFloat(e.target.value) || 0 }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Siklus Tagihan
+                      </label>
+                      <select
+                        value={form.billing_cycle}
+                        onChange={(e) => setForm(prev => ({ ...prev, billing_cycle: e.target.value as Lease['billing_cycle'] }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="monthly">Bulanan</option>
+                        <option value="quarterly">Triwulanan</option>
+                        <option value="yearly">Tahunan</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Deposit
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={form.deposit_amount}
+                        onChange={(e) => setForm(prev => ({ ...prev, deposit_amount: parseFloat(e.target.value) || 0 }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Catatan
+                    </label>
+                    <input
+                      type="text"
+                      value={form.notes}
+                      onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowForm(false)}
+                      disabled={isSubmitting}
+                    >
+                      Batal
+                    </Button>
+                    <Button type="submit" size="sm" disabled={isSubmitting}>
+                      {isSubmitting ? 'Menyimpan...' : 'Simpan'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Riwayat Kontrak</h3>
+                {leases.length > 0 ? (
+                  <div className="border border-gray-200 rounded-md overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Periode</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Sewa</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Siklus</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {[...leases].reverse().map(lease => (
+                          <tr key={lease.id}>
+                            <td className="px-4 py-2 whitespace-nowrap text-gray-900">
+                              {formatDate(lease.start_date)} - {formatDate(lease.end_date)}
+                            </td>
+                            <td className="px-4 py-2 text-right whitespace-nowrap text-gray-900">
+                              {formatCurrency(lease.rent_amount)}
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap text-gray-900">
+                              {translateBillingCycle(lease.billing_cycle)}
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap">
+                              <Badge className={leaseStatusColors[lease.status]}>
+                                {translateLeaseStatus(lease.status)}
+                              </Badge>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Belum ada kontrak untuk penyewa ini.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TenantLeases;
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Tenant, Room } from '../../types';
+import Button from '../ui/Button';
+import { X, Download, Plus, Loader2 } from 'lucide-react';
+import { tenantService, tenantAdjustmentService, TenantStatementEntry } from '../../services/supabase';
+import { useProperty } from '../../contexts/PropertyContext';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+
+interface TenantStatementProps {
+  tenant: Tenant;
+  room?: Room;
+  onClose: () => void;
+}
+
+const entryTypeLabels: Record<TenantStatementEntry['type'], string> = {
+  charge: 'Tagihan',
+  payment: 'Pembayaran',
+  deposit: 'Deposit',
+  adjustment: 'Penyesuaian'
+};
+
+const TenantStatement: React.FC<TenantStatementProps> = ({ tenant, room, onClose }) => {
+  const { selectedProperty } = useProperty();
+  const [entries, setEntries] = useState<TenantStatementEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAdjustmentForm, setShowAdjustmentForm] = useState(false);
+  const [adjustmentForm, setAdjustmentForm] = useState({
+    direction: 'charge' as 'charge' | 'credit',
+    amount: 0,
+    date: new Date().toISOString().split('T')[0],
+    description: ''
+  });
+
+  const loadStatement = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await tenantService.getStatement(tenant.id);
+      setEntries(data);
+    } catch (err) {
+      console.error('Error loading tenant statement:', err);
+      setError('Gagal memuat rekening penyewa');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenant.id]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  const totalCharges = entries.reduce((sum, entry) => sum + entry.debit, 0);
+  const totalCredits = entries.reduce((sum, entry) => sum + entry.credit, 0);
+  const closingBalance = entries.length > 0 ? entries[entries.length - 1].balance : 0;
+  const depositHeld = entries.reduce((sum, entry) => sum + (entry.deposit || 0), 0);
+
+  const describeType = (entry: TenantStatementEntry) => {
+    return entry.deposit ? `${entryTypeLabels[entry.type]} ${formatCurrency(Math.abs(entry.deposit))}` : entryTypeLabels[entry.type];
+  };
+
+  const handleAddAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tenant.property_id || adjustmentForm.amount <= 0) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await tenantAdjustmentService.create({
+        tenant_id: tenant.id,
+        property_id: tenant.property_id,
+        amount: adjustmentForm.direction === 'charge' ? adjustmentForm.amount : -adjustmentForm.amount,
+        date: adjustmentForm.date,
+        description: adjustmentForm.description
+      });
+      setShowAdjustmentForm(false);
+      setAdjustmentForm(prev => ({ ...prev, amount: 0, description: '' }));
+      await loadStatement();
+    } catch (err) {
+      console.error('Error adding adjustment:', err);
+      setError('Gagal menyimpan penyesuaian');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleExportPDF = () => {
+    const doc = new jsPDF();
+
+    // Add title
+    doc.setFontSize(16);
+    doc.text('Rekening Penyewa', 15, 15);
+    doc.setFontSize(10);
+    if (selectedProperty) {
+      doc.text(`${selectedProperty.name} - ${selectedProperty.address}, ${selectedProperty.city}`, 15, 22);
+    }
+
+    // Add tenant details
+    doc.setFontSize(12);
+    doc.text(`Penyewa: ${tenant.name}`, 15, 32);
+    doc.text(`Kamar: ${room ? room.number : '-'}`, 15, 39);
+    doc.text(`Periode Sewa: ${formatDate(tenant.start_date)} - ${formatDate(tenant.end_date)}`, 15, 46);
+    doc.text(`Deposit Ditahan: ${formatCurrency(depositHeld)}`, 15, 53);
+    doc.text(`Dicetak: ${formatDate(new Date().toISOString())}`, 15, 60);
+
+    autoTable(doc, {
+      startY: 67,
+      head: [['Tanggal', 'Jenis', 'Keterangan', 'Tagihan', 'Pembayaran', 'Saldo']],
+      body: entries.map(entry => [
+        formatDate(entry.date),
+        describeType(entry),
+        entry.description,
+        entry.debit ? formatCurrency(entry.debit) : '-',
+        entry.credit ? formatCurrency(entry.credit) : '-',
+        formatCurrency(entry.balance)
+      ]),
+      foot: [['', '', 'Total', formatCurrency(totalCharges), formatCurrency(totalCredits), formatCurrency(closingBalance)]],
+      theme: 'grid',
+      headStyles: { fillColor: [59, 130, 246] },
+      footStyles: { fillColor: [243, 244, 246], textColor: [17, 24, 39] }
+    });
+
+    // Save the PDF
+    doc.save(`rekening_${tenant.name.replace(/\s+/g, '_').toLowerCase()}_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Rekening Penyewa
+            </h2>
+            <p className="text-sm text-gray-500">
+              {tenant.name}{room ? ` - Kamar ${room.number}` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600">Total Tagihan</p>
+              <p className="text-lg font-semibold text-gray-900">{formatCurrency(totalCharges)}</p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600">Total Pembayaran</p>
+              <p className="text-lg font-semibold text-green-700">{formatCurrency(totalCredits)}</p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600">Saldo Terutang</p>
+              <p className={`text-lg font-semibold ${closingBalance > 0 ? 'text-red-700' : 'text-gray-900'}`}>
+                {formatCurrency(closingBalance)}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600">Deposit Ditahan</p>
+              <p className="text-lg font-semibold text-gray-900">{formatCurrency(depositHeld)}</p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Plus size={16} />}
+              onClick={() => setShowAdjustmentForm(true)}
+              disabled={isLoading || isSubmitting}
+            >
+              Tambah Penyesuaian
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<Download size={16} />}
+              onClick={handleExportPDF}
+              disabled={isLoading || entries.length === 0}
+            >
+              Ekspor PDF
+            </Button>
+          </div>
+
+          {showAdjustmentForm && (
+            <form onSubmit={handleAddAdjustment} className="p-4 bg-gray-50 rounded-md space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Jenis
+                  </label>
+                  <select
+                    value={adjustmentForm.direction}
+                    onChange={(e) => setAdjustmentForm(prev => ({ ...prev, direction: e.target.value as 'charge' | 'credit' }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="charge">Tambah tagihan</option>
+                    <option value="credit">Kurangi tagihan</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Jumlah
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={adjustmentForm.amount}
+                    onChange={(e) => setAdjustmentForm(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tanggal
+                  </label>
+                  <input
+                    type="date"
+                    value={adjustmentForm.date}
+                    onChange={(e) => setAdjustmentForm(prev => ({ ...prev, date: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Keterangan
+                </label>
+                <input
+                  type="text"
+                  value={adjustmentForm.description}
+                  onChange={(e) => setAdjustmentForm(prev => ({ ...prev, description: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Contoh: Diskon bulan pertama"
+                  required
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowAdjustmentForm(false)}
+                  disabled={isSubmitting}
+                >
+                  Batal
+                </Button>
+                <Button type="submit" size="sm" disabled={isSubmitting}>
+                  {isSubmitting ? 'Menyimpan...' : 'Simpan'}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          <div className="border border-gray-200 rounded-md overflow-x-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+                <span className="text-gray-500">Memuat rekening...</span>
+              </div>
+            ) : entries.length > 0 ? (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tanggal</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keterangan</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tagihan</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Pembayaran</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map(entry => (
+                    <tr key={`${entry.type}-${entry.id}`}>
+                      <td className="px-4 py-2 whitespace-nowrap text-gray-900">{formatDate(entry.date)}</td>
+                      <td className="px-4 py-2">
+                        <div className="text-gray-900">{entry.description}</div>
+                        <div className="text-xs text-gray-500">{describeType(entry)}</div>
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap text-gray-900">
+                        {entry.debit ? formatCurrency(entry.debit) : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap text-green-700">
+                        {entry.credit ? formatCurrency(entry.credit) : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap font-medium text-gray-900">
+                        {formatCurrency(entry.balance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-500 text-center py-8">
+                Belum ada transaksi untuk penyewa ini.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TenantStatement;
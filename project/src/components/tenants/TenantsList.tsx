@@ -4,14 +4,19 @@ import Card, { CardHeader, CardContent } from '../ui/Card';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
 import { formatDate } from '../../utils/formatters';
-import { Plus, Search, Edit, Trash, Loader2 } from 'lucide-react';
+import { Plus, Search, Edit, Trash, Loader2, FileText, FileSignature, Files, Upload } from 'lucide-react';
 
 interface TenantsListProps {
   tenants: Tenant[];
   rooms: Room[];
-  onAddTenant: () => void;
-  onEditTenant: (id: string) => void;
-  onDeleteTenant: (id: string) => void;
+  // Actions without a handler are hidden, e.g. when the role lacks the permission
+  onAddTenant?: () => void;
+  onImport?: () => void;
+  onEditTenant?: (id: string) => void;
+  onDeleteTenant?: (id: string) => void;
+  onViewStatement: (id: string) => void;
+  onViewLeases: (id: string) => void;
+  onViewDocuments: (id: string) => void;
   isLoading?: boolean;
 }
 
@@ -19,8 +24,12 @@ const TenantsList: React.FC<TenantsListProps> = ({
   tenants,
   rooms,
   onAddTenant,
+  onImport,
   onEditTenant,
   onDeleteTenant,
+  onViewStatement,
+  onViewLeases,
+  onViewDocuments,
   isLoading = false
 }) => {
   const [searchQuery, setSearchQuery] = React.useState('');
@@ -52,13 +61,25 @@ const TenantsList: React.FC<TenantsListProps> = ({
             />
             <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
           </div>
-          <Button 
-            icon={<Plus size={16} />} 
-            onClick={onAddTenant}
-            disabled={isLoading}
-          >
-            Tambah Penyewa
-          </Button>
+          {onAddTenant && (
+            <Button 
+              icon={<Plus size={16} />} 
+              onClick={onAddTenant}
+              disabled={isLoading}
+            >
+              Tambah Penyewa
+            </Button>
+          )}
+          {onImport && (
+            <Button
+              variant="outline"
+              icon={<Upload size={16} />}
+              onClick={onImport}
+              disabled={isLoading}
+            >
+              Impor
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-0 overflow-x-auto">
@@ -141,21 +162,55 @@ const TenantsList: React.FC<TenantsListProps> = ({
                       variant="outline"
                       size="sm"
                       className="mr-2"
-                      icon={<Edit size={14} />}
-                      onClick={() => onEditTenant(tenant.id)}
+                      icon={<FileText size={14} />}
+                      onClick={() => onViewStatement(tenant.id)}
                       disabled={isLoading}
                     >
-                      Ubah
+                      Rekening
                     </Button>
                     <Button
-                      variant="danger"
+                      variant="outline"
                       size="sm"
-                      icon={<Trash size={14} />}
-                      onClick={() => onDeleteTenant(tenant.id)}
+                      className="mr-2"
+                      icon={<FileSignature size={14} />}
+                      onClick={() => onViewLeases(tenant.id)}
+                      disabled={isLoading}
+                    >
+                      Kontrak
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mr-2"
+                      icon={<Files size={14} />}
+                      onClick={() => onViewDocuments(tenant.id)}
                       disabled={isLoading}
                     >
-                      Hapus
+                      Dokumen
                     </Button>
+                    {onEditTenant && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mr-2"
+                        icon={<Edit size={14} />}
+                        onClick={() => onEditTenant(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Ubah
+                      </Button>
+                    )}
+                    {onDeleteTenant && (
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        icon={<Trash size={14} />}
+                        onClick={() => onDeleteTenant(tenant.id)}
+                        disabled={isLoading}
+                      >
+                        Hapus
+                      </Button>
+                    )}
                   </td>
                 </tr>
               ))
@@ -15,6 +15,9 @@ const BackofficeSwitch: React.FC = () => {
     }
   };
 
+  // Tenants in the portal have no use for the switch
+  if (location.pathname.startsWith('/portal')) return null;
+
   return (
     <button
       onClick={handleSwitch}
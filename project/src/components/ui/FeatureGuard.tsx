@@ -1,18 +1,21 @@
 import React from 'react';
-import { useSubscriptionFeatures } from '../../hooks/useSubscriptionFeatures';
+import { useEntitlements } from '../../contexts/EntitlementContext';
+import { FeatureKey, FeatureLevel } from '../../utils/entitlements';
 
-interface FeatureGuardProps {
-  feature: string;
+interface FeatureGuardProps<K extends FeatureKey> {
+  feature: K;
+  // Minimum tier for tiered features, e.g. financial_reports="advanced"
+  level?: FeatureLevel<K>;
   children: React.ReactNode;
   fallback?: React.ReactNode;
 }
 
-const FeatureGuard: React.FC<FeatureGuardProps> = ({ feature, children, fallback = null }) => {
-  const { hasFeature, isLoading } = useSubscriptionFeatures();
+const FeatureGuard = <K extends FeatureKey>({ feature, level, children, fallback = null }: FeatureGuardProps<K>) => {
+  const { can, isLoading } = useEntitlements();
 
   if (isLoading) return null;
 
-  return hasFeature(feature as any) ? <>{children}</> : <>{fallback}</>;
+  return can(feature, level) ? <>{children}</> : <>{fallback}</>;
 };
 
-export default FeatureGuard;
\ No newline at end of file
+export default FeatureGuard;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import Button from './Button';
+import { useEntitlements } from '../../contexts/EntitlementContext';
+
+interface FeatureUnavailableProps {
+  title: string;
+}
+
+const FeatureUnavailable: React.FC<FeatureUnavailableProps> = ({ title }) => {
+  const { error, refresh } = useEntitlements();
+
+  return (
+    <div className="max-w-lg mx-auto mt-12 p-6 bg-white border border-gray-200 rounded-lg text-center space-y-3">
+      <Lock size={32} className="mx-auto text-gray-400" />
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      {error ? (
+        <>
+          <p className="text-sm text-red-600">{error}. Fitur ini tidak dapat diperiksa saat ini.</p>
+          <Button variant="outline" size="sm" onClick={refresh}>
+            Coba Lagi
+          </Button>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">Fitur ini tidak termasuk dalam paket langganan Anda.</p>
+          <Link
+            to="/settings?tab=subscription"
+            className="inline-block text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            Lihat pilihan paket
+          </Link>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FeatureUnavailable;
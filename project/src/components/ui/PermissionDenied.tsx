@@ -0,0 +1,33 @@
+import React from 'react';
+import { ShieldOff } from 'lucide-react';
+import Button from './Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+
+interface PermissionDeniedProps {
+  title: string;
+}
+
+const PermissionDenied: React.FC<PermissionDeniedProps> = ({ title }) => {
+  const { error, refresh } = usePermissions();
+
+  return (
+    <div className="max-w-lg mx-auto mt-12 p-6 bg-white border border-gray-200 rounded-lg text-center space-y-3">
+      <ShieldOff size={32} className="mx-auto text-gray-400" />
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      {error ? (
+        <>
+          <p className="text-sm text-red-600">{error}. Akses ke halaman ini tidak dapat diperiksa saat ini.</p>
+          <Button variant="outline" size="sm" onClick={refresh}>
+            Coba Lagi
+          </Button>
+        </>
+      ) : (
+        <p className="text-sm text-gray-600">
+          Peran Anda di properti ini tidak memiliki akses ke halaman ini. Hubungi pemilik properti untuk meminta akses.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PermissionDenied;
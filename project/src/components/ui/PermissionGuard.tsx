@@ -0,0 +1,20 @@
+import React from 'react';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { PermissionAction, PermissionResource } from '../../utils/permissions';
+
+interface PermissionGuardProps<R extends PermissionResource> {
+  resource: R;
+  action: PermissionAction<R>;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+const PermissionGuard = <R extends PermissionResource>({ resource, action, children, fallback = null }: PermissionGuardProps<R>) => {
+  const { can, isLoading } = usePermissions();
+
+  if (isLoading) return null;
+
+  return can(resource, action) ? <>{children}</> : <>{fallback}</>;
+};
+
+export default PermissionGuard;
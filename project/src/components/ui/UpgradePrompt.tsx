@@ -0,0 +1,38 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Sparkles, X } from 'lucide-react';
+import { PlanQuotaError } from '../../utils/planQuota';
+
+interface UpgradePromptProps {
+  quota: PlanQuotaError;
+  onClose: () => void;
+}
+
+const UpgradePrompt: React.FC<UpgradePromptProps> = ({ quota, onClose }) => {
+  const limitText = quota.resource === 'properties'
+    ? `${quota.limit} properti`
+    : `${quota.limit} kamar per properti`;
+
+  return (
+    <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-md">
+      <Sparkles size={20} className="text-amber-500 flex-shrink-0 mt-0.5" />
+      <div className="flex-1">
+        <h3 className="text-sm font-medium text-amber-800">Batas paket tercapai</h3>
+        <p className="text-sm text-amber-700">
+          Paket langganan Anda mencakup maksimal {limitText}. Tingkatkan paket untuk menambah {quota.resource === 'properties' ? 'properti' : 'kamar'} baru.
+        </p>
+        <Link
+          to="/settings?tab=subscription"
+          className="inline-block mt-2 text-sm font-medium text-amber-800 underline hover:text-amber-900"
+        >
+          Lihat pilihan paket
+        </Link>
+      </div>
+      <button onClick={onClose} className="text-amber-500 hover:text-amber-700">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default UpgradePrompt;
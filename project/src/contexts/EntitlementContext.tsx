@@ -0,0 +1,175 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { Subscription } from '../types/subscription';
+import { subscriptionService } from '../services/supabase';
+import { supabase } from '../lib/supabase';
+import { useProperty } from './PropertyContext';
+import { BASIC_FEATURES, BASIC_LIMITS, Entitlements, FeatureKey, FeatureLevel, hasEntitlement } from '../utils/entitlements';
+import { getSubscriptionAccess, SubscriptionAccess } from '../utils/subscription';
+
+interface EntitlementContextType {
+  subscription: Subscription | null;
+  // null until loaded, and when loading failed. On a property shared with
+  // the user these are the owner's features and room quota.
+  features: Entitlements | null;
+  limits: typeof BASIC_LIMITS;
+  access: SubscriptionAccess;
+  isLoading: boolean;
+  error: string | null;
+  can: <K extends FeatureKey>(feature: K, level?: FeatureLevel<K>) => boolean;
+  refresh: () => Promise<void>;
+}
+
+const EntitlementContext = createContext<EntitlementContextType>({
+  subscription: null,
+  features: null,
+  limits: BASIC_LIMITS,
+  access: { state: 'none', until: null },
+  isLoading: true,
+  error: null,
+  can: () => false,
+  refresh: async () => {}
+});
+
+export const useEntitlements = () => useContext(EntitlementContext);
+
+export const EntitlementProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [features, setFeatures] = useState<Entitlements | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { selectedProperty } = useProperty();
+  const sharedPropertyId = selectedProperty && userId && selectedProperty.owner_id !== userId
+    ? selectedProperty.id
+    : null;
+  const [sharedPlan, setSharedPlan] = useState<{
+    propertyId: string;
+    features: Entitlements;
+    max_rooms_per_property: number;
+  } | null>(null);
+
+  const loadEntitlements = useCallback(async () => {
+    // isLoading only covers the first load, so refreshes do not unmount
+    // FeatureGuard content
+    try {
+      setError(null);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setUserId(null);
+        setSubscription(null);
+        setFeatures(null);
+        return;
+      }
+
+      setUserId(session.user.id);
+      const data = await subscriptionService.getCurrent();
+      setSubscription(data);
+      setFeatures(data?.plan?.features ?? BASIC_FEATURES);
+    } catch (err) {
+      console.error('Error loading entitlements:', err);
+      setError('Gagal memuat paket langganan');
+      setFeatures(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntitlements();
+
+    const { data: { subscription: authSubscription } } = supabase.auth.onAuthStateChange((event) => {
+      // Enrolled users only see their subscription once the second factor is verified
+      if (event === 'SIGNED_IN' || event === 'MFA_CHALLENGE_VERIFIED') {
+        loadEntitlements();
+      } else if (event === 'SIGNED_OUT') {
+        setUserId(null);
+        setSubscription(null);
+        setFeatures(null);
+        setIsLoading(true);
+      }
+    });
+
+    return () => {
+      authSubscription.unsubscribe();
+    };
+  }, [loadEntitlements]);
+
+  // Plan changes, renewals and the webhook all write to subscriptions
+  useEffect(() => {
+    if (!userId) return;
+
+    const subscriptionsChannel = supabase
+      .channel('subscriptions_changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'subscriptions', filter: `user_id=eq.${userId}` },
+        () => {
+          loadEntitlements();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscriptionsChannel.unsubscribe();
+    };
+  }, [userId, loadEntitlements]);
+
+  // Members work under the plan of the shared property's owner
+  const loadSharedPlan = useCallback(async () => {
+    if (!sharedPropertyId) {
+      setSharedPlan(null);
+      return;
+    }
+
+    try {
+      setError(null);
+      const plan = await subscriptionService.getPropertyPlan(sharedPropertyId);
+      setSharedPlan({ propertyId: sharedPropertyId, ...plan });
+    } catch (err) {
+      console.error('Error loading property plan:', err);
+      setError('Gagal memuat paket langganan pemilik properti');
+      setSharedPlan(null);
+    }
+  }, [sharedPropertyId]);
+
+  useEffect(() => {
+    loadSharedPlan();
+  }, [loadSharedPlan]);
+
+  const refresh = useCallback(async () => {
+    await Promise.all([loadEntitlements(), loadSharedPlan()]);
+  }, [loadEntitlements, loadSharedPlan]);
+
+  const currentSharedPlan = sharedPlan?.propertyId === sharedPropertyId ? sharedPlan : null;
+  const effectiveFeatures = sharedPropertyId ? currentSharedPlan?.features ?? null : features;
+
+  const can = useCallback(
+    <K extends FeatureKey>(feature: K, level?: FeatureLevel<K>) => hasEntitlement(effectiveFeatures, feature, level),
+    [effectiveFeatures]
+  );
+
+  const plan = subscription?.plan;
+  const ownLimits = plan
+    ? { max_properties: plan.max_properties, max_rooms_per_property: plan.max_rooms_per_property }
+    : BASIC_LIMITS;
+  // max_properties stays the user's own: it limits the properties they own
+  const limits = currentSharedPlan
+    ? { ...ownLimits, max_rooms_per_property: currentSharedPlan.max_rooms_per_property }
+    : ownLimits;
+
+  return (
+    <EntitlementContext.Provider value={{
+      subscription,
+      features: effectiveFeatures,
+      limits,
+      access: getSubscriptionAccess(subscription),
+      isLoading: isLoading || (!!sharedPropertyId && !currentSharedPlan && !error),
+      error,
+      can,
+      refresh
+    }}>
+      {children}
+    </EntitlementContext.Provider>
+  );
+};
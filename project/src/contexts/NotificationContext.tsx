@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { Notification } from '../types';
-import { notificationService } from '../services/supabase';
+import { notificationService, sessionService } from '../services/supabase';
 import { supabase } from '../lib/supabase';
 
 interface NotificationContextType {
@@ -29,6 +29,9 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
   useEffect(() => {
     const { data: { subscription: authSubscription } } = supabase.auth.onAuthStateChange((event, session) => {
       if (event === 'SIGNED_IN' && session) {
+        notifyLogin();
+        loadNotifications();
+      } else if (event === 'MFA_CHALLENGE_VERIFIED') {
         loadNotifications();
       } else if (event === 'SIGNED_OUT') {
         setNotifications([]);
@@ -53,6 +56,15 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     };
   }, []);
 
+  // Raised here rather than in the database, which cannot watch Auth's sessions
+  const notifyLogin = async () => {
+    try {
+      await sessionService.notifyLogin();
+    } catch (error) {
+      console.error('Error notifying new login:', error);
+    }
+  };
+
   const loadNotifications = async () => {
     try {
       const data = await notificationService.getAll();
@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { permissionService } from '../services/supabase';
+import { supabase } from '../lib/supabase';
+import { useProperty } from './PropertyContext';
+import { hasPermission, PermissionAction, PermissionResource, PropertyPermissions, PropertyRole } from '../utils/permissions';
+
+interface PermissionContextType {
+  // Role on the selected property; null until loaded and without access
+  role: PropertyRole | null;
+  isLoading: boolean;
+  error: string | null;
+  can: <R extends PermissionResource>(resource: R, action: PermissionAction<R>) => boolean;
+  refresh: () => Promise<void>;
+}
+
+const PermissionContext = createContext<PermissionContextType>({
+  role: null,
+  isLoading: true,
+  error: null,
+  can: () => false,
+  refresh: async () => {}
+});
+
+export const usePermissions = () => useContext(PermissionContext);
+
+export const PermissionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { selectedProperty } = useProperty();
+  const propertyId = selectedProperty?.id ?? null;
+  const [permissions, setPermissions] = useState<PropertyPermissions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPermissions = useCallback(async () => {
+    if (!propertyId) {
+      setPermissions(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPermissions(await permissionService.getForProperty(propertyId));
+    } catch (err) {
+      console.error('Error loading permissions:', err);
+      setError('Gagal memuat hak akses');
+      setPermissions(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadPermissions();
+  }, [loadPermissions]);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'MFA_CHALLENGE_VERIFIED') {
+        permissionService.clearCache();
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    permissionService.clearCache();
+    await loadPermissions();
+  }, [loadPermissions]);
+
+  const can = useCallback(
+    <R extends PermissionResource>(resource: R, action: PermissionAction<R>) =>
+      hasPermission(permissions, resource, action),
+    [permissions]
+  );
+
+  return (
+    <PermissionContext.Provider value={{
+      role: permissions?.role ?? null,
+      isLoading,
+      error,
+      can,
+      refresh
+    }}>
+      {children}
+    </PermissionContext.Provider>
+  );
+};
@@ -4,7 +4,9 @@ import { propertyService } from '../services/supabase';
 import { supabase } from '../lib/supabase';
 
 interface PropertyContextType {
+  // Owned properties and the ones shared with the user as a team member
   properties: Property[];
+  ownedProperties: Property[];
   selectedProperty: Property | null;
   setSelectedProperty: (property: Property | null) => void;
   isLoading: boolean;
@@ -14,6 +16,7 @@ interface PropertyContextType {
 
 const PropertyContext = createContext<PropertyContextType>({
   properties: [],
+  ownedProperties: [],
   selectedProperty: null,
   setSelectedProperty: () => {},
   isLoading: true,
@@ -25,6 +28,7 @@ export const useProperty = () => useContext(PropertyContext);
 
 export const PropertyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [properties, setProperties] = useState<Property[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -37,18 +41,19 @@ export const PropertyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       // Check if user is authenticated
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
+        setUserId(null);
         setProperties([]);
         setSelectedProperty(null);
         return;
       }
 
       const data = await propertyService.getAll();
+      setUserId(session.user.id);
       setProperties(data);
 
-      // If there's no selected property but we have properties, select the first one
-      if (!selectedProperty && data.length > 0) {
-        setSelectedProperty(data[0]);
-      }
+      // Keep the selection while it is still listed, e.g. until access to a
+      // shared property is revoked; otherwise select the first property
+      setSelectedProperty(current => data.find(property => property.id === current?.id) ?? data[0] ?? null);
     } catch (err) {
       console.error('Error loading properties:', err);
       setError('Failed to load properties. Please try again.');
@@ -63,9 +68,10 @@ export const PropertyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     // Subscribe to auth changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
       if (event === 'SIGNED_OUT') {
+        setUserId(null);
         setProperties([]);
         setSelectedProperty(null);
-      } else if (event === 'SIGNED_IN') {
+      } else if (event === 'SIGNED_IN' || event === 'MFA_CHALLENGE_VERIFIED') {
         loadProperties();
       }
     });
@@ -82,16 +88,32 @@ export const PropertyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       )
       .subscribe();
 
+    // Accepted invitations and revoked access change the shared properties
+    const membersSubscription = supabase
+      .channel('property_members_changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'property_members' },
+        () => {
+          loadProperties();
+        }
+      )
+      .subscribe();
+
     return () => {
       subscription.unsubscribe();
       propertiesSubscription.unsubscribe();
+      membersSubscription.unsubscribe();
     };
   }, []);
 
+  const ownedProperties = properties.filter(property => property.owner_id === userId);
+
   return (
     <PropertyContext.Provider 
       value={{ 
         properties, 
+        ownedProperties,
         selectedProperty, 
         setSelectedProperty,
         isLoading,
@@ -0,0 +1,90 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { PortalTenancy, tenantPortalService } from '../services/supabase';
+import { supabase } from '../lib/supabase';
+
+interface TenantPortalContextType {
+  // Every tenant record matching the signed-in email or phone, newest first
+  tenancies: PortalTenancy[];
+  tenancy: PortalTenancy | null;
+  setTenancy: (tenancy: PortalTenancy) => void;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+const TenantPortalContext = createContext<TenantPortalContextType>({
+  tenancies: [],
+  tenancy: null,
+  setTenancy: () => {},
+  isLoading: true,
+  error: null,
+  refresh: async () => {}
+});
+
+export const useTenantPortal = () => useContext(TenantPortalContext);
+
+export const TenantPortalProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [tenancies, setTenancies] = useState<PortalTenancy[]>([]);
+  const [tenancy, setTenancy] = useState<PortalTenancy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTenancies = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setTenancies([]);
+        setTenancy(null);
+        return;
+      }
+
+      const data = await tenantPortalService.getTenancies();
+      setTenancies(data);
+
+      // Prefer the tenancy that is still running
+      setTenancy(current =>
+        data.find(item => item.id === current?.id)
+          ?? data.find(item => item.status === 'active')
+          ?? data[0]
+          ?? null
+      );
+    } catch (err) {
+      console.error('Error loading tenancies:', err);
+      setError('Gagal memuat data penyewa');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTenancies();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        loadTenancies();
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [loadTenancies]);
+
+  return (
+    <TenantPortalContext.Provider
+      value={{
+        tenancies,
+        tenancy,
+        setTenancy,
+        isLoading,
+        error,
+        refresh: loadTenancies
+      }}
+    >
+      {children}
+    </TenantPortalContext.Provider>
+  );
+};
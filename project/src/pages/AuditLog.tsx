@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Card, { CardHeader, CardContent } from '../components/ui/Card';
+import Badge from '../components/ui/Badge';
+import { ChevronDown, ChevronRight, Loader2, Search } from 'lucide-react';
+import { useProperty } from '../contexts/PropertyContext';
+import { auditLogService, AuditLogFilters } from '../services/supabase';
+import { AuditAction, AuditEntityType, AuditLog as AuditLogEntry } from '../types/backoffice';
+import { formatDateTime } from '../utils/formatters';
+import { formatAuditValue, getAuditChangeRows, getAuditRecordLabel } from '../utils/audit';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  properties: 'Properti',
+  rooms: 'Kamar',
+  tenants: 'Penyewa',
+  payments: 'Pembayaran',
+  maintenance_requests: 'Pemeliharaan'
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Dibuat',
+  update: 'Diubah',
+  delete: 'Dihapus'
+};
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+const AuditLog: React.FC = () => {
+  const { selectedProperty } = useProperty();
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLogs = useCallback(async () => {
+    if (!selectedProperty?.id) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setLogs(await auditLogService.getAll({ ...filters, propertyId: selectedProperty.id }));
+    } catch (err) {
+      console.error('Error loading audit logs:', err);
+      setError('Gagal memuat riwayat perubahan');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedProperty?.id, filters]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const updateFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Riwayat Perubahan</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+          <h2 className="text-lg font-semibold text-gray-800">Semua Perubahan Data</h2>
+          <div className="flex flex-col sm:flex-row flex-wrap gap-3 w-full lg:w-auto">
+            <div className="relative w-full sm:w-56">
+              <input
+                type="text"
+                placeholder="Cari email pengguna..."
+                value={filters.actor || ''}
+                onChange={(e) => updateFilter('actor', e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
+            </div>
+            <select
+              value={filters.entityType || ''}
+              onChange={(e) => updateFilter('entityType', e.target.value as AuditEntityType)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Semua Data</option>
+              {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(entity => (
+                <option key={entity} value={entity}>{ENTITY_LABELS[entity]}</option>
+              ))}
+            </select>
+            <select
+              value={filters.action || ''}
+              onChange={(e) => updateFilter('action', e.target.value as AuditAction)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Semua Tindakan</option>
+              {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+                <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Dari tanggal"
+            />
+            <input
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Sampai tanggal"
+            />
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+              <span className="text-gray-500">Memuat riwayat...</span>
+            </div>
+          ) : logs.length > 0 ? (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {logs.map(log => (
+                <li key={log.id}>
+                  <button
+                    onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                    className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50"
+                  >
+                    {expandedId === log.id
+                      ? <ChevronDown size={18} className="text-gray-400 mt-0.5" />
+                      : <ChevronRight size={18} className="text-gray-400 mt-0.5" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge className={ACTION_COLORS[log.action]}>{ACTION_LABELS[log.action]}</Badge>
+                        <span className="font-medium text-gray-900">
+                          {ENTITY_LABELS[log.entity_type] || log.entity_type} {getAuditRecordLabel(log)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {log.actor_email || 'Sistem'} · {formatDateTime(log.created_at)}
+                      </p>
+                    </div>
+                  </button>
+
+                  {expandedId === log.id && (
+                    <div className="px-4 pb-4 overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-2 pr-4 font-medium">Kolom</th>
+                            <th className="py-2 pr-4 font-medium">Sebelum</th>
+                            <th className="py-2 font-medium">Sesudah</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {getAuditChangeRows(log.changes).map(row => (
+                            <tr key={row.field}>
+                              <td className="py-2 pr-4 font-mono text-gray-700">{row.field}</td>
+                              <td className="py-2 pr-4 text-red-700 break-all">{formatAuditValue(row.old)}</td>
+                              <td className="py-2 text-green-700 break-all">{formatAuditValue(row.new)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 text-center py-12">
+              Belum ada perubahan yang tercatat untuk filter ini.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
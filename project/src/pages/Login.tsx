@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { mfaService } from '../services/supabase';
 import Button from '../components/ui/Button';
+import MfaChallenge from '../components/auth/MfaChallenge';
 import { Mail, Lock, AlertCircle, Building2, User, LogIn } from 'lucide-react';
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const locationState = location.state as { from?: string; sessionExpired?: boolean } | null;
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -15,6 +18,7 @@ const Login: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [isBackoffice, setIsBackoffice] = useState(false);
   const [signupCooldown, setSignupCooldown] = useState(0);
+  const [mfaUserId, setMfaUserId] = useState<string | null>(null);
 
   useEffect(() => {
     let timer: NodeJS.Timeout;
@@ -26,6 +30,54 @@ const Login: React.FC = () => {
     return () => clearInterval(timer);
   }, [signupCooldown]);
 
+  // A session that still needs its second factor (e.g. after a Google
+  // sign-in or a reload mid-login) continues at the challenge step
+  useEffect(() => {
+    const checkPendingChallenge = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session && await mfaService.needsChallenge()) {
+        setMfaUserId(session.user.id);
+      }
+    };
+
+    checkPendingChallenge();
+  }, []);
+
+  const redirectAfterLogin = async (userId: string) => {
+    if (isBackoffice) {
+      const { data: backofficeUser, error: backofficeError } = await supabase
+        .from('backoffice_users')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (backofficeError) throw backofficeError;
+      
+      if (!backofficeUser) {
+        throw new Error('Unauthorized access to backoffice');
+      }
+
+      navigate('/backoffice');
+    } else {
+      const from = locationState?.from || '/properties';
+      navigate(from);
+    }
+  };
+
+  const showAuthError = (err: unknown) => {
+    if (err instanceof Error) {
+      setError(
+        err.message === 'Unauthorized access to backoffice'
+          ? 'Anda tidak memiliki akses ke backoffice'
+          : err.message === 'Invalid login credentials'
+          ? 'Email atau kata sandi salah'
+          : err.message
+      );
+    } else {
+      setError('Terjadi kesalahan');
+    }
+  };
+
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -42,24 +94,12 @@ const Login: React.FC = () => {
         if (signInError) throw signInError;
         if (!user) throw new Error('Login failed');
 
-        if (isBackoffice) {
-          const { data: backofficeUser, error: backofficeError } = await supabase
-            .from('backoffice_users')
-            .select('*')
-            .eq('user_id', user.id)
-            .maybeSingle();
-
-          if (backofficeError) throw backofficeError;
-          
-          if (!backofficeUser) {
-            throw new Error('Unauthorized access to backoffice');
-          }
-
-          navigate('/backoffice');
-        } else {
-          const from = (location.state as any)?.from || '/properties';
-          navigate(from);
+        if (await mfaService.needsChallenge()) {
+          setMfaUserId(user.id);
+          return;
         }
+
+        await redirectAfterLogin(user.id);
       } else {
         // Check cooldown
         if (signupCooldown > 0) {
@@ -97,6 +137,7 @@ const Login: React.FC = () => {
             user_id: user.id,
             email_notifications: true,
             payment_reminders: true,
+            auto_billing: true,
             maintenance_updates: true,
             new_tenants: true,
             currency: 'IDR',
@@ -112,22 +153,30 @@ const Login: React.FC = () => {
         navigate('/properties');
       }
     } catch (err) {
-      if (err instanceof Error) {
-        setError(
-          err.message === 'Unauthorized access to backoffice'
-            ? 'Anda tidak memiliki akses ke backoffice'
-            : err.message === 'Invalid login credentials'
-            ? 'Email atau kata sandi salah'
-            : err.message
-        );
-      } else {
-        setError('Terjadi kesalahan');
-      }
+      showAuthError(err);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleMfaVerified = async () => {
+    if (!mfaUserId) return;
+
+    try {
+      setError(null);
+      await redirectAfterLogin(mfaUserId);
+    } catch (err) {
+      showAuthError(err);
+    }
+  };
+
+  const handleMfaCancel = async () => {
+    await supabase.auth.signOut();
+    setMfaUserId(null);
+    setPassword('');
+    setError(null);
+  };
+
   const handleGoogleAuth = async () => {
     try {
       setLoading(true);
@@ -170,137 +219,149 @@ const Login: React.FC = () => {
             </div>
           )}
 
+          {locationState?.sessionExpired && !error && !mfaUserId && (
+            <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-700 rounded-md p-4">
+              Sesi Anda berakhir karena tidak ada aktivitas. Silakan masuk kembali.
+            </div>
+          )}
+
           {!isLogin && signupCooldown > 0 && (
             <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-600 rounded-md p-4">
               Mohon tunggu {signupCooldown} detik sebelum mencoba mendaftar kembali
             </div>
           )}
 
-          <form className="space-y-6" onSubmit={handleAuth}>
-            {!isLogin && (
-              <div>
-                <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-                  Nama Lengkap
-                </label>
-                <div className="mt-1 relative">
-                  <input
-                    id="name"
-                    name="name"
-                    type="text"
-                    required
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  />
-                  <User className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
-                </div>
-              </div>
-            )}
-
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-                <Mail className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
-              </div>
-            </div>
+          {mfaUserId ? (
+            <MfaChallenge onVerified={handleMfaVerified} onCancel={handleMfaCancel} />
+          ) : (
+            <>
+              <form className="space-y-6" onSubmit={handleAuth}>
+                {!isLogin && (
+                  <div>
+                    <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                      Nama Lengkap
+                    </label>
+                    <div className="mt-1 relative">
+                      <input
+                        id="name"
+                        name="name"
+                        type="text"
+                        required
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <User className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+                    </div>
+                  </div>
+                )}
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Kata Sandi
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="password"
-                  name="password"
-                  type="password"
-                  autoComplete="current-password"
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-                <Lock className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
-              </div>
-            </div>
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                    Email
+                  </label>
+                  <div className="mt-1 relative">
+                    <input
+                      id="email"
+                      name="email"
+                      type="email"
+                      autoComplete="email"
+                      required
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <Mail className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+                  </div>
+                </div>
 
-            <div>
-              <Button
-                type="submit"
-                className="w-full flex justify-center"
-                disabled={loading || (!isLogin && signupCooldown > 0)}
-              >
-                {loading ? 'Memproses...' : (isLogin ? 'Masuk' : 'Daftar')}
-              </Button>
-            </div>
-          </form>
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    Kata Sandi
+                  </label>
+                  <div className="mt-1 relative">
+                    <input
+                      id="password"
+                      name="password"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <Lock className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+                  </div>
+                </div>
 
-          {!isBackoffice && (
-            <div className="mt-6">
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <div className="w-full border-t border-gray-300" />
+                <div>
+                  <Button
+                    type="submit"
+                    className="w-full flex justify-center"
+                    disabled={loading || (!isLogin && signupCooldown > 0)}
+                  >
+                    {loading ? 'Memproses...' : (isLogin ? 'Masuk' : 'Daftar')}
+                  </Button>
                 </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="px-2 bg-white text-gray-500">Atau lanjutkan dengan</span>
+              </form>
+
+              {!isBackoffice && (
+                <div className="mt-6">
+                  <div className="relative">
+                    <div className="absolute inset-0 flex items-center">
+                      <div className="w-full border-t border-gray-300" />
+                    </div>
+                    <div className="relative flex justify-center text-sm">
+                      <span className="px-2 bg-white text-gray-500">Atau lanjutkan dengan</span>
+                    </div>
+                  </div>
+
+                  <div className="mt-6">
+                    <Button
+                      variant="outline"
+                      className="w-full flex justify-center items-center gap-2"
+                      onClick={handleGoogleAuth}
+                      disabled={loading}
+                    >
+                      <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" alt="Google" className="w-5 h-5" />
+                      {isLogin ? 'Masuk dengan Google' : 'Daftar dengan Google'}
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              )}
 
               <div className="mt-6">
                 <Button
                   variant="outline"
-                  className="w-full flex justify-center items-center gap-2"
-                  onClick={handleGoogleAuth}
-                  disabled={loading}
+                  className="w-full flex justify-center items-center"
+                  onClick={() => {
+                    if (isBackoffice) {
+                      setIsBackoffice(false);
+                      setIsLogin(true);
+                    } else {
+                      setIsLogin(!isLogin);
+                    }
+                    setError(null);
+                  }}
+                  icon={isBackoffice ? <Building2 size={16} /> : undefined}
                 >
-                  <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" alt="Google" className="w-5 h-5" />
-                  {isLogin ? 'Masuk dengan Google' : 'Daftar dengan Google'}
+                  {isBackoffice ? 'Kembali ke Login User' : 
+                   (isLogin ? 'Belum punya akun? Daftar' : 'Sudah punya akun? Masuk')}
                 </Button>
+
+                {!isBackoffice && isLogin && (
+                  <Button
+                    variant="outline"
+                    className="w-full flex justify-center items-center mt-2"
+                    onClick={() => setIsBackoffice(true)}
+                    icon={<Building2 size={16} />}
+                  >
+                    Login Backoffice
+                  </Button>
+                )}
               </div>
-            </div>
+            </>
           )}
-
-          <div className="mt-6">
-            <Button
-              variant="outline"
-              className="w-full flex justify-center items-center"
-              onClick={() => {
-                if (isBackoffice) {
-                  setIsBackoffice(false);
-                  setIsLogin(true);
-                } else {
-                  setIsLogin(!isLogin);
-                }
-                setError(null);
-              }}
-              icon={isBackoffice ? <Building2 size={16} /> : undefined}
-            >
-              {isBackoffice ? 'Kembali ke Login User' : 
-               (isLogin ? 'Belum punya akun? Daftar' : 'Sudah punya akun? Masuk')}
-            </Button>
-
-            {!isBackoffice && isLogin && (
-              <Button
-                variant="outline"
-                className="w-full flex justify-center items-center mt-2"
-                onClick={() => setIsBackoffice(true)}
-                icon={<Building2 size={16} />}
-              >
-                Login Backoffice
-              </Button>
-            )}
-          </div>
         </div>
       </div>
     </div>
@@ -8,10 +8,13 @@ import { getMaintenancePriorityColor, getMaintenanceStatusColor } from '../utils
 import { Plus, Search, PenTool as Tool, Clock, AlertTriangle, Loader2, Trash } from 'lucide-react';
 import { MaintenanceRequest, Room, Tenant } from '../types';
 import { useProperty } from '../contexts/PropertyContext';
+import { usePermissions } from '../contexts/PermissionContext';
 import { maintenanceService, roomService, tenantService } from '../services/supabase';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../utils/permissions';
 
 const Maintenance: React.FC = () => {
   const { selectedProperty } = useProperty();
+  const { can } = usePermissions();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [priorityFilter, setPriorityFilter] = useState('all');
@@ -117,7 +120,9 @@ const Maintenance: React.FC = () => {
       setSelectedRequest(undefined);
     } catch (err) {
       console.error('Error saving maintenance request:', err);
-      setError('Failed to save maintenance request. Please try again.');
+      setError(isPermissionDeniedError(err)
+        ? PERMISSION_DENIED_MESSAGE
+        : 'Failed to save maintenance request. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -132,7 +137,9 @@ const Maintenance: React.FC = () => {
       await loadData();
     } catch (err) {
       console.error('Error updating status:', err);
-      setError('Failed to update status. Please try again.');
+      setError(isPermissionDeniedError(err)
+        ? PERMISSION_DENIED_MESSAGE
+        : 'Failed to update status. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -156,7 +163,9 @@ const Maintenance: React.FC = () => {
       setRequestToDelete(null);
     } catch (err) {
       console.error('Error deleting maintenance request:', err);
-      setError('Failed to delete maintenance request. Please try again.');
+      setError(isPermissionDeniedError(err)
+        ? PERMISSION_DENIED_MESSAGE
+        : 'Failed to delete maintenance request. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -246,9 +255,11 @@ const Maintenance: React.FC = () => {
               />
               <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
             </div>
-            <Button icon={<Plus size={16} />} onClick={handleAddRequest}>
-              Permintaan Baru
-            </Button>
+            {can('maintenance', 'create') && (
+              <Button icon={<Plus size={16} />} onClick={handleAddRequest}>
+                Permintaan Baru
+              </Button>
+            )}
           </div>
         </CardHeader>
 
@@ -347,7 +358,7 @@ const Maintenance: React.FC = () => {
                     Dilaporkan pada {format(new Date(request.date), 'd MMMM yyyy')}
                   </span>
                   <div className="flex gap-2">
-                    {request.status !== 'completed' && (
+                    {request.status !== 'completed' && can('maintenance', 'edit') && (
                       <div className="flex gap-2">
                         {request.status === 'pending' && (
                           <Button 
@@ -369,21 +380,25 @@ const Maintenance: React.FC = () => {
                         )}
                       </div>
                     )}
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleEditRequest(request)}
-                    >
-                      Ubah Permintaan
-                    </Button>
-                    <Button 
-                      variant="danger" 
-                      size="sm"
-                      onClick={() => handleDeleteClick(request)}
-                      icon={<Trash size={14} />}
-                    >
-                      Hapus
-                    </Button>
+                    {can('maintenance', 'edit') && (
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => handleEditRequest(request)}
+                      >
+                        Ubah Permintaan
+                      </Button>
+                    )}
+                    {can('maintenance', 'delete') && (
+                      <Button 
+                        variant="danger" 
+                        size="sm"
+                        onClick={() => handleDeleteClick(request)}
+                        icon={<Trash size={14} />}
+                      >
+                        Hapus
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
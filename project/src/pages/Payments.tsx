@@ -4,14 +4,21 @@ import Badge from '../components/ui/Badge';
 import Button from '../components/ui/Button';
 import PaymentForm from '../components/payments/PaymentForm';
 import PaymentDetails from '../components/payments/PaymentDetails';
+import AutoBillingModal from '../components/payments/AutoBillingModal';
+import PaymentProofQueue from '../components/payments/PaymentProofQueue';
+import BankReconciliationModal from '../components/payments/BankReconciliationModal';
+import FeatureGuard from '../components/ui/FeatureGuard';
 import { Payment, Room, Tenant } from '../types';
-import { formatCurrency, formatDate, getPaymentStatusColor } from '../utils/formatters';
-import { Plus, Search, Filter, Download, Calendar, ArrowDownUp, MessageCircle, Loader2 } from 'lucide-react';
+import { formatCurrency, formatDate, getPaymentStatusColor, translatePaymentStatus } from '../utils/formatters';
+import { formatPaymentCode, getOutstandingAmount, getPaidAmount, getTransferAmount } from '../utils/billing';
+import { Plus, Search, Filter, Download, Calendar, ArrowDownUp, MessageCircle, Loader2, FileText, Landmark } from 'lucide-react';
 import { useProperty } from '../contexts/PropertyContext';
+import { usePermissions } from '../contexts/PermissionContext';
 import { supabase } from '../lib/supabase';
 
 const Payments: React.FC = () => {
   const { selectedProperty } = useProperty();
+  const { can } = usePermissions();
   const [payments, setPayments] = useState<Payment[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [tenants, setTenants] = useState<Tenant[]>([]);
@@ -23,6 +30,8 @@ const Payments: React.FC = () => {
   });
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [showPaymentDetails, setShowPaymentDetails] = useState(false);
+  const [showAutoBilling, setShowAutoBilling] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState<Payment | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -124,17 +133,17 @@ const Payments: React.FC = () => {
       return sortOrder === 'asc' ? comparison : -comparison;
     });
 
+  // Partially paid invoices count their receipts as paid and the remainder as still owed
   const totalPaid = payments
-    .filter(p => p.status === 'paid')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .reduce((sum, p) => sum + getPaidAmount(p), 0);
 
   const totalPending = payments
-    .filter(p => p.status === 'pending')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .filter(p => p.status === 'pending' || p.status === 'partially_paid')
+    .reduce((sum, p) => sum + getOutstandingAmount(p), 0);
 
   const totalOverdue = payments
     .filter(p => p.status === 'overdue')
-    .reduce((sum, p) => sum + p.amount, 0);
+    .reduce((sum, p) => sum + getOutstandingAmount(p), 0);
 
   const handlePaymentSubmit = async (data: Partial<Payment>) => {
     try {
@@ -172,8 +181,8 @@ const Payments: React.FC = () => {
     if (!tenant?.phone) return;
 
     const message = payment.status === 'paid'
-      ? `Terima kasih telah melakukan pembayaran sebesar ${formatCurrency(payment.amount)} untuk kamar ${payment.roomNumber}.`
-      : `Mohon segera lakukan pembayaran sebesar ${formatCurrency(payment.amount)} untuk kamar ${payment.roomNumber} sebelum ${formatDate(payment.dueDate)}.`;
+      ? `Terima kasih telah melakukan pembayaran sebesar ${formatCurrency(payment.amount)} untuk kamar ${payment.roomNumber}.${payment.receipt_number ? ` No. kwitansi: ${payment.receipt_number}.` : ''}`
+      : `Mohon segera lakukan pembayaran sebesar ${formatCurrency(getTransferAmount(payment))} untuk kamar ${payment.roomNumber} sebelum ${formatDate(payment.dueDate)}.${payment.payment_code ? ` Mohon transfer tepat sejumlah tersebut; ${formatPaymentCode(payment.payment_code)} adalah kode unik tagihan Anda agar pembayaran dapat dikenali.` : ''}`;
 
     const phoneNumber = tenant.phone.startsWith('0')
       ? '62' + tenant.phone.slice(1)
@@ -250,6 +259,16 @@ const Payments: React.FC = () => {
         </Card>
       </div>
 
+      {can('payments', 'edit') && (
+        <PaymentProofQueue
+          propertyId={selectedProperty.id}
+          payments={payments}
+          tenants={tenants}
+          rooms={rooms}
+          onReviewed={loadData}
+        />
+      )}
+
       <Card>
         <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <h2 className="text-lg font-semibold text-gray-800">Catatan Pembayaran</h2>
@@ -264,16 +283,40 @@ const Payments: React.FC = () => {
               />
               <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
             </div>
-            <Button 
-              icon={<Plus size={16} />} 
-              onClick={() => {
-                setSelectedPayment(undefined);
-                setShowPaymentForm(true);
-              }}
-              disabled={isLoading}
-            >
-              Tambah Pembayaran
-            </Button>
+            {can('payments', 'edit') && (
+              <Button
+                variant="outline"
+                icon={<Landmark size={16} />}
+                onClick={() => setShowReconciliation(true)}
+                disabled={isLoading}
+              >
+                Rekonsiliasi Bank
+              </Button>
+            )}
+            {can('payments', 'create') && (
+              <>
+                <FeatureGuard feature="auto_billing">
+                  <Button
+                    variant="outline"
+                    icon={<FileText size={16} />}
+                    onClick={() => setShowAutoBilling(true)}
+                    disabled={isLoading}
+                  >
+                    Tagihan Otomatis
+                  </Button>
+                </FeatureGuard>
+                <Button 
+                  icon={<Plus size={16} />} 
+                  onClick={() => {
+                    setSelectedPayment(undefined);
+                    setShowPaymentForm(true);
+                  }}
+                  disabled={isLoading}
+                >
+                  Tambah Pembayaran
+                </Button>
+              </>
+            )}
           </div>
         </CardHeader>
 
@@ -306,6 +349,13 @@ const Payments: React.FC = () => {
           >
             Terlambat
           </Button>
+          <Button 
+            variant={statusFilter === 'partially_paid' ? 'primary' : 'outline'} 
+            size="sm" 
+            onClick={() => setStatusFilter('partially_paid')}
+          >
+            Sebagian
+          </Button>
 
           <div className="flex items-center gap-2 ml-auto">
             <input
@@ -438,6 +488,9 @@ const Payments: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="font-medium text-gray-900">{formatCurrency(payment.amount)}</div>
+                        {payment.kind === 'late_fee' && (
+                          <div className="text-xs text-red-600">Denda keterlambatan</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-gray-900">{formatDate(payment.dueDate)}</div>
@@ -447,19 +500,23 @@ const Payments: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Badge className={getPaymentStatusColor(payment.status)}>
-                          {payment.status === 'paid' ? 'Lunas' : 
-                           payment.status === 'pending' ? 'Menunggu' : 'Terlambat'}
+                          {translatePaymentStatus(payment.status)}
                         </Badge>
+                        {payment.status !== 'paid' && getPaidAmount(payment) > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Sisa {formatCurrency(getOutstandingAmount(payment))}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right">
                         <div className="flex justify-end gap-2">
-                          {payment.status !== 'paid' && (
+                          {payment.status !== 'paid' && can('payments', 'edit') && (
                             <Button
                               variant="success"
                               size="sm"
                               onClick={() => {
                                 setSelectedPayment(payment);
-                                setShowPaymentForm(true);
+                                setShowPaymentDetails(true);
                               }}
                             >
                               Bayar
@@ -515,11 +572,31 @@ const Payments: React.FC = () => {
         />
       )}
 
+      {showAutoBilling && (
+        <AutoBillingModal
+          propertyId={selectedProperty.id}
+          onGenerated={loadData}
+          onClose={() => setShowAutoBilling(false)}
+        />
+      )}
+
+      {showReconciliation && (
+        <BankReconciliationModal
+          propertyId={selectedProperty.id}
+          payments={payments}
+          tenants={tenants}
+          rooms={rooms}
+          onReconciled={loadData}
+          onClose={() => setShowReconciliation(false)}
+        />
+      )}
+
       {showPaymentDetails && selectedPayment && (
         <PaymentDetails
           payment={selectedPayment}
           tenantName={selectedPayment.tenantName}
           roomNumber={selectedPayment.roomNumber}
+          onPaymentUpdated={loadData}
           onClose={() => {
             setShowPaymentDetails(false);
             setSelectedPayment(undefined);
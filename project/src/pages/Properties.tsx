@@ -3,22 +3,35 @@ import { useNavigate } from 'react-router-dom';
 import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import PropertyForm from '../components/properties/PropertyForm';
+import AgreementTemplates from '../components/properties/AgreementTemplates';
+import PropertyTeam from '../components/properties/PropertyTeam';
+import PendingInvitations from '../components/properties/PendingInvitations';
+import Badge from '../components/ui/Badge';
+import UpgradePrompt from '../components/ui/UpgradePrompt';
 import { Property } from '../types';
 import { useProperty } from '../contexts/PropertyContext';
-import { propertyService } from '../services/supabase';
-import { Plus, Search, Building2, MapPin, Phone, Mail, Edit, Trash, Loader2 } from 'lucide-react';
-import { useSubscriptionLimits } from '../hooks/useSubscriptionLimits';
+import { permissionService, propertyService } from '../services/supabase';
+import { Plus, Search, Building2, MapPin, Phone, Mail, Edit, Trash, Loader2, FileText, Users } from 'lucide-react';
+import { useEntitlements } from '../contexts/EntitlementContext';
+import { getPlanQuotaError, PlanQuotaError } from '../utils/planQuota';
+import { isSubscriptionReadOnlyError, SUBSCRIPTION_READ_ONLY_MESSAGE } from '../utils/subscription';
+import { hasPermission, isPermissionDeniedError, PERMISSION_DENIED_MESSAGE, PropertyPermissions } from '../utils/permissions';
+import { MEMBER_ROLE_LABELS } from '../utils/team';
 
 const Properties: React.FC = () => {
   const navigate = useNavigate();
-  const { properties: contextProperties, setSelectedProperty } = useProperty();
+  const { properties: contextProperties, setSelectedProperty, refreshProperties } = useProperty();
   const [properties, setProperties] = useState<Property[]>([]);
+  const [permissions, setPermissions] = useState<Record<string, PropertyPermissions>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [showForm, setShowForm] = useState(false);
   const [editingProperty, setEditingProperty] = useState<Property | undefined>();
+  const [templatesProperty, setTemplatesProperty] = useState<Property | undefined>();
+  const [teamProperty, setTeamProperty] = useState<Property | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { checkPropertyLimit, maxProperties } = useSubscriptionLimits();
+  const [quotaError, setQuotaError] = useState<PlanQuotaError | null>(null);
+  const { limits } = useEntitlements();
 
   useEffect(() => {
     loadProperties();
@@ -29,7 +42,12 @@ const Properties: React.FC = () => {
       setIsLoading(true);
       setError(null);
       const data = await propertyService.getAll();
+      // Listed properties can have a different role each
+      const propertyPermissions = await Promise.all(
+        data.map(property => permissionService.getForProperty(property.id))
+      );
       setProperties(data);
+      setPermissions(Object.fromEntries(data.map((property, i) => [property.id, propertyPermissions[i]])));
     } catch (err) {
       console.error('Error loading properties:', err);
       setError('Failed to load properties. Please try again.');
@@ -43,10 +61,17 @@ const Properties: React.FC = () => {
     property.city.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Role of the user on properties shared with them; null for owned ones
+  const sharedRoleLabel = (property: Property) => {
+    const role = permissions[property.id]?.role;
+    return role && role !== 'owner' ? MEMBER_ROLE_LABELS[role] : null;
+  };
+
   const handleAddProperty = async () => {
-    const canAdd = await checkPropertyLimit(properties.length);
-    if (!canAdd) {
-      setError(`You have reached the maximum number of properties (${maxProperties}) allowed in your subscription plan. Please upgrade your plan to add more properties.`);
+    // Shared properties count toward their owner's quota
+    const ownedCount = properties.filter(property => permissions[property.id]?.role === 'owner').length;
+    if (ownedCount >= limits.max_properties) {
+      setQuotaError({ resource: 'properties', limit: limits.max_properties, current: ownedCount });
       return;
     }
     setEditingProperty(undefined);
@@ -73,7 +98,9 @@ const Properties: React.FC = () => {
           setSelectedProperty(null);
         }
       } catch (err) {
-        setError('Gagal menghapus properti. Silakan coba lagi.');
+        setError(isPermissionDeniedError(err)
+          ? PERMISSION_DENIED_MESSAGE
+          : 'Gagal menghapus properti. Silakan coba lagi.');
         console.error('Error deleting property:', err);
       } finally {
         setIsLoading(false);
@@ -85,18 +112,14 @@ const Properties: React.FC = () => {
     try {
       setIsLoading(true);
       setError(null);
+      setQuotaError(null);
 
       let property: Property;
       if (editingProperty) {
         // Update existing property
         property = await propertyService.update(editingProperty.id, data);
       } else {
-        // Check property limit before creating
-        const canAdd = await checkPropertyLimit(properties.length);
-        if (!canAdd) {
-          throw new Error(`You have reached the maximum number of properties (${maxProperties}) allowed in your subscription plan. Please upgrade your plan to add more properties.`);
-        }
-        // Create new property
+        // Create new property; the database rejects it when over the plan quota
         property = await propertyService.create(data);
       }
 
@@ -106,8 +129,20 @@ const Properties: React.FC = () => {
       setEditingProperty(undefined);
       navigate('/dashboard');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save property');
       console.error('Error saving property:', err);
+      const quota = getPlanQuotaError(err);
+      if (quota) {
+        setQuotaError(quota);
+        setShowForm(false);
+      } else if (isSubscriptionReadOnlyError(err)) {
+        setError(SUBSCRIPTION_READ_ONLY_MESSAGE);
+        setShowForm(false);
+      } else if (isPermissionDeniedError(err)) {
+        setError(PERMISSION_DENIED_MESSAGE);
+        setShowForm(false);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save property');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -146,6 +181,17 @@ const Properties: React.FC = () => {
         </div>
       )}
 
+      {quotaError && (
+        <UpgradePrompt quota={quotaError} onClose={() => setQuotaError(null)} />
+      )}
+
+      <PendingInvitations
+        onAccepted={() => {
+          loadProperties();
+          refreshProperties();
+        }}
+      />
+
       <Card>
         <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <h2 className="text-lg font-semibold text-gray-800">Daftar Properti</h2>
@@ -182,6 +228,11 @@ const Properties: React.FC = () => {
                           <Building2 size={24} className="text-blue-600 mr-3" />
                           <h3 className="text-lg font-semibold text-gray-900">{property.name}</h3>
                         </div>
+                        {sharedRoleLabel(property) && (
+                          <Badge className="bg-purple-100 text-purple-800">
+                            Dibagikan · {sharedRoleLabel(property)}
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="space-y-3 text-sm">
@@ -204,31 +255,63 @@ const Properties: React.FC = () => {
                         </div>
                       </div>
 
-                      <div className="mt-6 flex justify-end gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          icon={<Edit size={14} />}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleEditProperty(property);
-                          }}
-                          disabled={isLoading}
-                        >
-                          Edit
-                        </Button>
-                        <Button
-                          variant="danger"
-                          size="sm"
-                          icon={<Trash size={14} />}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteProperty(property.id);
-                          }}
-                          disabled={isLoading}
-                        >
-                          Hapus
-                        </Button>
+                      <div className="mt-6 flex flex-wrap justify-end gap-2">
+                        {hasPermission(permissions[property.id], 'users', 'view') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            icon={<Users size={14} />}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setTeamProperty(property);
+                            }}
+                            disabled={isLoading}
+                          >
+                            Tim
+                          </Button>
+                        )}
+                        {hasPermission(permissions[property.id], 'properties', 'edit') && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              icon={<FileText size={14} />}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setTemplatesProperty(property);
+                              }}
+                              disabled={isLoading}
+                            >
+                              Perjanjian
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              icon={<Edit size={14} />}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleEditProperty(property);
+                              }}
+                              disabled={isLoading}
+                            >
+                              Edit
+                            </Button>
+                          </>
+                        )}
+                        {hasPermission(permissions[property.id], 'properties', 'delete') && (
+                          <Button
+                            variant="danger"
+                            size="sm"
+                            icon={<Trash size={14} />}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteProperty(property.id);
+                            }}
+                            disabled={isLoading}
+                          >
+                            Hapus
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -245,6 +328,21 @@ const Properties: React.FC = () => {
         </CardContent>
       </Card>
 
+      {templatesProperty && (
+        <AgreementTemplates
+          property={templatesProperty}
+          onClose={() => setTemplatesProperty(undefined)}
+        />
+      )}
+
+      {teamProperty && permissions[teamProperty.id] && (
+        <PropertyTeam
+          property={teamProperty}
+          permissions={permissions[teamProperty.id]}
+          onClose={() => setTeamProperty(undefined)}
+        />
+      )}
+
       {showForm && (
         <PropertyForm
           property={editingProperty}
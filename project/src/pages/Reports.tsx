@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { format, subMonths, startOfMonth, endOfMonth, parseISO } from 'date-fns';
+import { format, subMonths, parseISO } from 'date-fns';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Button from '../components/ui/Button';
@@ -8,18 +8,27 @@ import { Download, Calendar, Loader2 } from 'lucide-react';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import { useProperty } from '../contexts/PropertyContext';
-import { supabase } from '../lib/supabase';
+import { useEntitlements } from '../contexts/EntitlementContext';
+import { usePermissions } from '../contexts/PermissionContext';
+import { reportService } from '../services/supabase';
+import { isFeatureNotAvailableError } from '../utils/entitlements';
+import FeatureUnavailable from '../components/ui/FeatureUnavailable';
 
 interface MonthlyData {
   month: string;
   revenue: number;
   pending: number;
   overdue: number;
+  lateFees: number;
   occupancyRate: number;
 }
 
 const Reports: React.FC = () => {
   const { selectedProperty } = useProperty();
+  const { can, refresh: refreshEntitlements } = useEntitlements();
+  const { can: canAccess } = usePermissions();
+  const canExport = can('financial_reports', 'advanced') && canAccess('reports', 'export');
+  const [isUnavailable, setIsUnavailable] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
@@ -34,70 +43,29 @@ const Reports: React.FC = () => {
     try {
       setIsLoading(true);
       setError(null);
+      setIsUnavailable(false);
 
-      // Get all payments for the property within the date range
-      const { data: payments, error: paymentsError } = await supabase
-        .from('payments')
-        .select('*')
-        .eq('property_id', selectedProperty.id)
-        .gte('created_at', dateRange.start)
-        .lte('created_at', dateRange.end)
-        .order('created_at', { ascending: true });
+      const report = await reportService.getFinancialReport(selectedProperty.id, dateRange.start, dateRange.end);
 
-      if (paymentsError) throw paymentsError;
-
-      // Get all rooms for occupancy calculation
-      const { data: rooms, error: roomsError } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('property_id', selectedProperty.id);
-
-      if (roomsError) throw roomsError;
-
-      // Calculate monthly data based on the date range
-      const startDate = parseISO(dateRange.start);
-      const endDate = parseISO(dateRange.end);
-      const monthDiff = (endDate.getFullYear() - startDate.getFullYear()) * 12 + 
-                       (endDate.getMonth() - startDate.getMonth()) + 1;
-
-      const monthlyStats = Array.from({ length: monthDiff }, (_, i) => {
-        const date = new Date(startDate.getFullYear(), startDate.getMonth() + i, 1);
-        const start = startOfMonth(date);
-        const end = endOfMonth(date);
-        
-        const monthPayments = payments?.filter(payment => {
-          const paymentDate = payment.date ? parseISO(payment.date) : null;
-          return paymentDate && paymentDate >= start && paymentDate <= end;
-        }) || [];
-
-        const revenue = monthPayments.reduce((sum, payment) => {
-          return payment.status === 'paid' ? sum + payment.amount : sum;
-        }, 0);
-
-        const pending = monthPayments.reduce((sum, payment) => {
-          return payment.status === 'pending' ? sum + payment.amount : sum;
-        }, 0);
-
-        const overdue = monthPayments.reduce((sum, payment) => {
-          return payment.status === 'overdue' ? sum + payment.amount : sum;
-        }, 0);
-
-        const occupiedRooms = rooms?.filter(r => r.status === 'occupied').length || 0;
-        const occupancyRate = rooms?.length ? Math.round((occupiedRooms / rooms.length) * 100) : 0;
-
-        return {
-          month: format(date, 'MMM yyyy'),
-          revenue,
-          pending,
-          overdue,
-          occupancyRate
-        };
-      });
+      const monthlyStats = report.map(row => ({
+        month: format(parseISO(row.month), 'MMM yyyy'),
+        revenue: row.revenue,
+        pending: row.pending,
+        overdue: row.overdue,
+        lateFees: row.late_fees,
+        occupancyRate: row.occupancy_rate
+      }));
 
       setMonthlyData(monthlyStats);
     } catch (err) {
       console.error('Error loading report data:', err);
-      setError('Failed to load report data');
+      if (isFeatureNotAvailableError(err)) {
+        // The plan changed since the entitlements were loaded
+        setIsUnavailable(true);
+        refreshEntitlements();
+      } else {
+        setError('Failed to load report data');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -111,6 +79,7 @@ const Reports: React.FC = () => {
   const averageRevenue = monthlyData.length > 0 ? totalRevenue / monthlyData.length : 0;
   const totalPending = monthlyData.reduce((sum, month) => sum + month.pending, 0);
   const totalOverdue = monthlyData.reduce((sum, month) => sum + month.overdue, 0);
+  const totalLateFees = monthlyData.reduce((sum, month) => sum + month.lateFees, 0);
 
   const handleDateRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -135,6 +104,7 @@ const Reports: React.FC = () => {
     doc.text(`Rata-rata Pendapatan Bulanan: ${formatCurrency(averageRevenue)}`, 20, 55);
     doc.text(`Pembayaran Tertunda: ${formatCurrency(totalPending)}`, 20, 65);
     doc.text(`Pembayaran Terlambat: ${formatCurrency(totalOverdue)}`, 20, 75);
+    doc.text(`Denda Keterlambatan: ${formatCurrency(totalLateFees)}`, 20, 85);
 
     // Add monthly data table
     const tableData = monthlyData.map(data => [
@@ -142,12 +112,13 @@ const Reports: React.FC = () => {
       formatCurrency(data.revenue),
       formatCurrency(data.pending),
       formatCurrency(data.overdue),
+      formatCurrency(data.lateFees),
       `${data.occupancyRate}%`
     ]);
 
     (doc as any).autoTable({
-      startY: 85,
-      head: [['Bulan', 'Pendapatan', 'Tertunda', 'Terlambat', 'Tingkat Hunian']],
+      startY: 95,
+      head: [['Bulan', 'Pendapatan', 'Tertunda', 'Terlambat', 'Denda', 'Tingkat Hunian']],
       body: tableData,
       theme: 'grid',
       headStyles: { fillColor: [59, 130, 246] }
@@ -158,12 +129,13 @@ const Reports: React.FC = () => {
   };
 
   const handleExportCSV = () => {
-    const headers = ['Bulan', 'Pendapatan', 'Tertunda', 'Terlambat', 'Tingkat Hunian'];
+    const headers = ['Bulan', 'Pendapatan', 'Tertunda', 'Terlambat', 'Denda', 'Tingkat Hunian'];
     const rows = monthlyData.map(data => [
       data.month,
       data.revenue,
       data.pending,
       data.overdue,
+      data.lateFees,
       `${data.occupancyRate}%`
     ]);
 
@@ -190,6 +162,10 @@ const Reports: React.FC = () => {
     );
   }
 
+  if (isUnavailable) {
+    return <FeatureUnavailable title="Laporan Keuangan" />;
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center">
@@ -221,14 +197,16 @@ const Reports: React.FC = () => {
               className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
-          <div className="flex gap-2">
-            <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExportPDF}>
-              Ekspor PDF
-            </Button>
-            <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExportCSV}>
-              Ekspor CSV
-            </Button>
-          </div>
+          {canExport && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExportPDF}>
+                Ekspor PDF
+              </Button>
+              <Button variant="outline" size="sm" icon={<Download size={16} />} onClick={handleExportCSV}>
+                Ekspor CSV
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -268,7 +246,7 @@ const Reports: React.FC = () => {
           <div className="p-6">
             <h3 className="text-sm font-medium text-red-600">Pembayaran Terlambat</h3>
             <p className="mt-2 text-3xl font-bold text-red-900">{formatCurrency(totalOverdue)}</p>
-            <p className="mt-1 text-sm text-red-600">Periode yang dipilih</p>
+            <p className="mt-1 text-sm text-red-600">Denda keterlambatan {formatCurrency(totalLateFees)}</p>
           </div>
         </Card>
       </div>
@@ -297,6 +275,7 @@ const Reports: React.FC = () => {
                 <Bar dataKey="revenue" fill="#3B82F6" name="Pendapatan" />
                 <Bar dataKey="pending" fill="#EAB308" name="Tertunda" />
                 <Bar dataKey="overdue" fill="#EF4444" name="Terlambat" />
+                <Bar dataKey="lateFees" fill="#F97316" name="Denda" />
               </BarChart>
             </ResponsiveContainer>
           </div>
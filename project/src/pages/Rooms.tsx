@@ -3,28 +3,45 @@ import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Badge from '../components/ui/Badge';
 import Button from '../components/ui/Button';
 import RoomForm from '../components/rooms/RoomForm';
+import MoveOutSettlement from '../components/rooms/MoveOutSettlement';
+import ImportWizard from '../components/import/ImportWizard';
+import UpgradePrompt from '../components/ui/UpgradePrompt';
 import { Room, Tenant } from '../types';
 import { formatCurrency, getRoomStatusColor } from '../utils/formatters';
-import { Plus, Search, X, User, Loader2, Trash, Copy, DoorOpen, Bed } from 'lucide-react';
+import { Plus, Search, X, User, Loader2, Trash, Copy, DoorOpen, Bed, Upload } from 'lucide-react';
 import { useProperty } from '../contexts/PropertyContext';
 import { supabase } from '../lib/supabase';
-import { useSubscriptionLimits } from '../hooks/useSubscriptionLimits';
+import { useEntitlements } from '../contexts/EntitlementContext';
+import { usePermissions } from '../contexts/PermissionContext';
+import { depositService } from '../services/supabase';
+import { getPlanQuotaError, PlanQuotaError } from '../utils/planQuota';
+import { isSubscriptionReadOnlyError, SUBSCRIPTION_READ_ONLY_MESSAGE } from '../utils/subscription';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../utils/permissions';
 
 const Rooms: React.FC = () => {
   const { selectedProperty } = useProperty();
+  const { can } = usePermissions();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [filter, setFilter] = useState('all');
   const [showRoomForm, setShowRoomForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [showTenantSelector, setShowTenantSelector] = useState(false);
   const [showTenantDetails, setShowTenantDetails] = useState(false);
   const [editingRoom, setEditingRoom] = useState<Room | undefined>();
   const [selectedRoom, setSelectedRoom] = useState<Room | undefined>();
   const [selectedTenant, setSelectedTenant] = useState<Tenant | undefined>();
+  const [moveOut, setMoveOut] = useState<{ room: Room; tenant: Tenant } | undefined>();
+  const [depositForm, setDepositForm] = useState({
+    amount: 0,
+    date: new Date().toISOString().split('T')[0],
+    payment_method: 'transfer'
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { checkRoomLimit, maxRoomsPerProperty } = useSubscriptionLimits();
+  const [quotaError, setQuotaError] = useState<PlanQuotaError | null>(null);
+  const { limits } = useEntitlements();
 
   const loadData = async () => {
     if (!selectedProperty) return;
@@ -66,9 +83,8 @@ const Rooms: React.FC = () => {
   const handleAddRoom = async () => {
     if (!selectedProperty) return;
     
-    const canAdd = await checkRoomLimit(selectedProperty.id, rooms.length);
-    if (!canAdd) {
-      setError(`You have reached the maximum number of rooms (${maxRoomsPerProperty}) allowed per property in your subscription plan. Please upgrade your plan to add more rooms.`);
+    if (rooms.length >= limits.max_rooms_per_property) {
+      setQuotaError({ resource: 'rooms', limit: limits.max_rooms_per_property, current: rooms.length });
       return;
     }
     setEditingRoom(undefined);
@@ -104,50 +120,70 @@ const Rooms: React.FC = () => {
       await loadData();
     } catch (err) {
       console.error('Error duplicating room:', err);
-      setError('Failed to duplicate room');
+      const quota = getPlanQuotaError(err);
+      if (quota) {
+        setQuotaError(quota);
+      } else if (isSubscriptionReadOnlyError(err)) {
+        setError(SUBSCRIPTION_READ_ONLY_MESSAGE);
+      } else if (isPermissionDeniedError(err)) {
+        setError(PERMISSION_DENIED_MESSAGE);
+      } else {
+        setError('Failed to duplicate room');
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleVacateRoom = async (room: Room) => {
-    if (!room.id) return;
+  const vacateRoom = async (room: Room) => {
+    // Find tenant by room_id
+    const tenant = tenants.find(t => t.room_id === room.id);
 
-    if (window.confirm('Are you sure you want to vacate this room?')) {
-      try {
-        setIsLoading(true);
-        setError(null);
+    if (tenant) {
+      // Update tenant's room_id to null
+      const { error: tenantError } = await supabase
+        .from('tenants')
+        .update({ room_id: null })
+        .eq('id', tenant.id);
 
-        // Find tenant by room_id
-        const tenant = tenants.find(t => t.room_id === room.id);
+      if (tenantError) throw tenantError;
+    }
 
-        if (tenant) {
-          // Update tenant's room_id to null
-          const { error: tenantError } = await supabase
-            .from('tenants')
-            .update({ room_id: null })
-            .eq('id', tenant.id);
+    // Update room status
+    const { error: roomError } = await supabase
+      .from('rooms')
+      .update({
+        status: 'vacant',
+        tenant_id: null
+      })
+      .eq('id', room.id);
 
-          if (tenantError) throw tenantError;
-        }
+    if (roomError) throw roomError;
 
-        // Update room status
-        const { error: roomError } = await supabase
-          .from('rooms')
-          .update({
-            status: 'vacant',
-            tenant_id: null
-          })
-          .eq('id', room.id);
+    // Close tenant details modal and reset states
+    setShowTenantDetails(false);
+    setSelectedRoom(undefined);
+    setSelectedTenant(undefined);
 
-        if (roomError) throw roomError;
+    await loadData();
+  };
 
-        // Close tenant details modal and reset states
-        setShowTenantDetails(false);
-        setSelectedRoom(undefined);
-        setSelectedTenant(undefined);
+  const handleVacateRoom = async (room: Room) => {
+    if (!room.id) return;
 
-        await loadData();
+    // Occupied rooms go through the move-out settlement so the deposit is closed out
+    const tenant = tenants.find(t => t.room_id === room.id);
+    if (tenant) {
+      setShowTenantDetails(false);
+      setMoveOut({ room, tenant });
+      return;
+    }
+
+    if (window.confirm('Are you sure you want to vacate this room?')) {
+      try {
+        setIsLoading(true);
+        setError(null);
+        await vacateRoom(room);
       } catch (err) {
         console.error('Error vacating room:', err);
         setError('Failed to vacate room');
@@ -197,11 +233,7 @@ const Rooms: React.FC = () => {
           property_id: selectedProperty.id
         });
       } else {
-        // Check room limit before creating
-        const canAdd = await checkRoomLimit(selectedProperty.id, rooms.length);
-        if (!canAdd) {
-          throw new Error(`You have reached the maximum number of rooms (${maxRoomsPerProperty}) allowed per property in your subscription plan. Please upgrade your plan to add more rooms.`);
-        }
+        // The database rejects the room when the property is over the plan quota
         await roomService.create({
           ...data as Omit<Room, 'id' | 'created_at' | 'updated_at'>,
           property_id: selectedProperty.id
@@ -213,7 +245,19 @@ const Rooms: React.FC = () => {
       setEditingRoom(undefined);
     } catch (err) {
       console.error('Error saving room:', err);
-      setError(err instanceof Error ? err.message : 'Failed to save room');
+      const quota = getPlanQuotaError(err);
+      if (quota) {
+        setQuotaError(quota);
+        setShowRoomForm(false);
+      } else if (isSubscriptionReadOnlyError(err)) {
+        setError(SUBSCRIPTION_READ_ONLY_MESSAGE);
+        setShowRoomForm(false);
+      } else if (isPermissionDeniedError(err)) {
+        setError(PERMISSION_DENIED_MESSAGE);
+        setShowRoomForm(false);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save room');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -259,9 +303,22 @@ const Rooms: React.FC = () => {
 
       if (tenantError) throw tenantError;
 
+      // Record the deposit received at check-in
+      if (depositForm.amount > 0 && selectedProperty) {
+        await depositService.create({
+          tenant_id: tenantId,
+          property_id: selectedProperty.id,
+          amount: depositForm.amount,
+          date: depositForm.date,
+          payment_method: depositForm.payment_method,
+          notes: null
+        });
+      }
+
       await loadData();
       setShowTenantSelector(false);
       setSelectedRoom(undefined);
+      setDepositForm(prev => ({ ...prev, amount: 0 }));
     } catch (err) {
       console.error('Error assigning tenant:', err);
       setError('Failed to assign tenant');
@@ -304,6 +361,10 @@ const Rooms: React.FC = () => {
           {error}
         </div>
       )}
+
+      {quotaError && (
+        <UpgradePrompt quota={quotaError} onClose={() => setQuotaError(null)} />
+      )}
       
       <Card>
         <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -319,13 +380,25 @@ const Rooms: React.FC = () => {
               />
               <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
             </div>
-            <Button 
-              icon={<Plus size={16} />} 
-              onClick={handleAddRoom}
-              disabled={isLoading}
-            >
-              Tambah Kamar
-            </Button>
+            {can('rooms', 'create') && (
+              <>
+                <Button 
+                  icon={<Plus size={16} />} 
+                  onClick={handleAddRoom}
+                  disabled={isLoading}
+                >
+                  Tambah Kamar
+                </Button>
+                <Button
+                  variant="outline"
+                  icon={<Upload size={16} />}
+                  onClick={() => setShowImport(true)}
+                  disabled={isLoading}
+                >
+                  Impor
+                </Button>
+              </>
+            )}
           </div>
         </CardHeader>
 
@@ -394,64 +467,74 @@ const Rooms: React.FC = () => {
                   
                   <div className="flex flex-col gap-2">
                     <div className="flex justify-between gap-2">
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        onClick={() => handleEditRoom(room)}
-                        disabled={isLoading}
-                      >
-                        Ubah
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDuplicateRoom(room)}
-                        disabled={isLoading}
-                        icon={<Copy size={14} />}
-                      >
-                        Duplikat
-                      </Button>
-                    </div>
-
-                    {room.status === 'occupied' ? (
-                      <div className="flex justify-between gap-2">
+                      {can('rooms', 'edit') && (
                         <Button 
-                          variant="secondary" 
-                          size="sm"
-                          onClick={() => handleViewTenant(room)}
+                          variant="outline" 
+                          size="sm" 
+                          onClick={() => handleEditRoom(room)}
                           disabled={isLoading}
                         >
-                          Detail Penyewa
+                          Ubah
                         </Button>
+                      )}
+                      {can('rooms', 'create') && (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleVacateRoom(room)}
+                          onClick={() => handleDuplicateRoom(room)}
                           disabled={isLoading}
-                          icon={<DoorOpen size={14} />}
+                          icon={<Copy size={14} />}
                         >
-                          Kosongkan
+                          Duplikat
                         </Button>
-                      </div>
-                    ) : room.status === 'vacant' ? (
+                      )}
+                    </div>
+
+                    {room.status === 'occupied' ? (
                       <div className="flex justify-between gap-2">
                         <Button 
-                          variant="primary" 
-                          size="sm"
-                          onClick={() => handleAssignTenant(room)}
-                          disabled={isLoading}
-                        >
-                          Tambah Penyewa
-                        </Button>
-                        <Button
-                          variant="danger"
+                          variant="secondary" 
                           size="sm"
-                          onClick={() => handleDeleteRoom(room.id)}
+                          onClick={() => handleViewTenant(room)}
                           disabled={isLoading}
-                          icon={<Trash size={14} />}
                         >
-                          Hapus
+                          Detail Penyewa
                         </Button>
+                        {can('rooms', 'edit') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleVacateRoom(room)}
+                            disabled={isLoading}
+                            icon={<DoorOpen size={14} />}
+                          >
+                            Kosongkan
+                          </Button>
+                        )}
+                      </div>
+                    ) : room.status === 'vacant' ? (
+                      <div className="flex justify-between gap-2">
+                        {can('rooms', 'edit') && (
+                          <Button 
+                            variant="primary" 
+                            size="sm"
+                            onClick={() => handleAssignTenant(room)}
+                            disabled={isLoading}
+                          >
+                            Tambah Penyewa
+                          </Button>
+                        )}
+                        {can('rooms', 'delete') && (
+                          <Button
+                            variant="danger"
+                            size="sm"
+                            onClick={() => handleDeleteRoom(room.id)}
+                            disabled={isLoading}
+                            icon={<Trash size={14} />}
+                          >
+                            Hapus
+                          </Button>
+                        )}
                       </div>
                     ) : (
                       <Button 
@@ -498,6 +581,45 @@ const Rooms: React.FC = () => {
               </button>
             </div>
 
+            <div className="mb-4 p-4 bg-gray-50 rounded-md space-y-3">
+              <h3 className="text-sm font-medium text-gray-700">Deposit Check-in</h3>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Jumlah</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={depositForm.amount}
+                    onChange={(e) => setDepositForm(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Tanggal</label>
+                  <input
+                    type="date"
+                    value={depositForm.date}
+                    onChange={(e) => setDepositForm(prev => ({ ...prev, date: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Metode Pembayaran</label>
+                <select
+                  value={depositForm.payment_method}
+                  onChange={(e) => setDepositForm(prev => ({ ...prev, payment_method: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="transfer">Transfer Bank</option>
+                  <option value="cash">Tunai</option>
+                  <option value="card">Kartu Kredit/Debit</option>
+                  <option value="ewallet">E-Wallet</option>
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">Kosongkan (0) jika penyewa tidak membayar deposit.</p>
+            </div>
+
             {tenants.filter(tenant => tenant.status === 'active' && !tenant.room_id).length > 0 ? (
               <div className="space-y-2 max-h-96 overflow-y-auto">
                 {tenants
@@ -525,6 +647,24 @@ const Rooms: React.FC = () => {
         </div>
       )}
 
+      {showImport && selectedProperty && (
+        <ImportWizard
+          kind="rooms"
+          propertyId={selectedProperty.id}
+          onImported={loadData}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {moveOut && (
+        <MoveOutSettlement
+          room={moveOut.room}
+          tenant={moveOut.tenant}
+          onVacate={() => vacateRoom(moveOut.room)}
+          onClose={() => setMoveOut(undefined)}
+        />
+      )}
+
       {showTenantDetails && selectedTenant && selectedRoom && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
@@ -589,15 +729,17 @@ const Rooms: React.FC = () => {
               </div>
             </div>
 
-            <div className="mt-6 flex justify-end gap-3">
-              <Button 
-                variant="danger"
-                onClick={() => handleVacateRoom(selectedRoom)}
-                disabled={isLoading}
-              >
-                Hapus Penyewa
-              </Button>
-            </div>
+            {can('rooms', 'edit') && (
+              <div className="mt-6 flex justify-end gap-3">
+                <Button 
+                  variant="danger"
+                  onClick={() => handleVacateRoom(selectedRoom)}
+                  disabled={isLoading}
+                >
+                  Hapus Penyewa
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       )}
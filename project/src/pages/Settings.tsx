@@ -1,13 +1,21 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import Card, { CardHeader, CardContent } from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import { User } from '../types';
-import { Save, Bell, Lock, Building2, Mail, CheckCircle, Globe, X, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { Save, Bell, Lock, Building2, Mail, CheckCircle, Globe, X, Eye, EyeOff, Loader2, DatabaseBackup, CreditCard } from 'lucide-react';
 import { settingsService, UserSettings } from '../services/supabase';
 import { supabase } from '../lib/supabase';
+import { usePermissions } from '../contexts/PermissionContext';
+import BackupSettings from '../components/settings/BackupSettings';
+import SubscriptionSettings from '../components/settings/SubscriptionSettings';
+import TwoFactorSettings from '../components/settings/TwoFactorSettings';
+import ActiveSessions from '../components/settings/ActiveSessions';
 
 const Settings: React.FC = () => {
-  const [activeTab, setActiveTab] = useState('profile');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'profile');
+  const { can } = usePermissions();
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
@@ -30,11 +38,13 @@ const Settings: React.FC = () => {
     user_id: '',
     email_notifications: true,
     payment_reminders: true,
+    auto_billing: true,
     maintenance_updates: true,
     new_tenants: true,
     currency: 'IDR',
     date_format: 'DD/MM/YYYY',
     payment_reminder_days: 5,
+    lease_expiry_reminder_days: 30,
     session_timeout: 30,
     login_notifications: true,
     two_factor_enabled: false,
@@ -301,14 +311,14 @@ const Settings: React.FC = () => {
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <h4 className="text-sm font-medium text-gray-700">Pengingat Pembayaran Otomatis</h4>
-                    <p className="text-sm text-gray-500">Buat catatan pembayaran otomatis sebelum jatuh tempo</p>
+                    <h4 className="text-sm font-medium text-gray-700">Tagihan Otomatis</h4>
+                    <p className="text-sm text-gray-500">Buat tagihan sewa otomatis sebelum jatuh tempo</p>
                   </div>
                   <label className="relative inline-flex items-center cursor-pointer">
                     <input
                       type="checkbox"
-                      checked={settings.payment_reminders}
-                      onChange={() => handleSettingChange('payment_reminders', !settings.payment_reminders)}
+                      checked={settings.auto_billing}
+                      onChange={() => handleSettingChange('auto_billing', !settings.auto_billing)}
                       className="sr-only peer"
                     />
                     <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
@@ -331,6 +341,23 @@ const Settings: React.FC = () => {
                     Catatan pembayaran akan dibuat otomatis beberapa hari sebelum tanggal jatuh tempo
                   </p>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pengingat Kontrak Berakhir (hari)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="180"
+                    value={settings.lease_expiry_reminder_days}
+                    onChange={(e) => handleSettingChange('lease_expiry_reminder_days', parseInt(e.target.value) || 30)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    Notifikasi dikirim beberapa hari sebelum kontrak sewa penyewa berakhir
+                  </p>
+                </div>
               </div>
             </div>
           </div>
@@ -339,21 +366,9 @@ const Settings: React.FC = () => {
       case 'security':
         return (
           <div className="space-y-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-sm font-medium text-gray-700">Autentikasi Dua Faktor</h3>
-                <p className="text-sm text-gray-500">Tambahkan lapisan keamanan ekstra untuk akun Anda</p>
-              </div>
-              <label className="relative inline-flex items-center cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={settings.two_factor_enabled}
-                  onChange={() => handleSettingChange('two_factor_enabled', !settings.two_factor_enabled)}
-                  className="sr-only peer"
-                />
-                <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
-              </label>
-            </div>
+            <TwoFactorSettings
+              onStatusChange={(enabled) => setSettings(prev => ({ ...prev, two_factor_enabled: enabled }))}
+            />
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -387,6 +402,8 @@ const Settings: React.FC = () => {
               </label>
             </div>
 
+            <ActiveSessions />
+
             <div>
               <Button 
                 variant="danger" 
@@ -399,6 +416,12 @@ const Settings: React.FC = () => {
           </div>
         );
 
+      case 'subscription':
+        return can('settings', 'view') ? <SubscriptionSettings /> : null;
+
+      case 'backup':
+        return can('settings', 'view') ? <BackupSettings /> : null;
+
       default:
         return null;
     }
@@ -473,6 +496,34 @@ const Settings: React.FC = () => {
                 <Lock size={20} className="mr-3" />
                 Keamanan
               </button>
+
+              {can('settings', 'view') && (
+                <>
+                  <button
+                    onClick={() => setActiveTab('subscription')}
+                    className={`w-full flex items-center px-4 py-2 text-sm font-medium ${
+                      activeTab === 'subscription'
+                        ? 'text-blue-700 bg-blue-50 border-l-4 border-blue-700'
+                        : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                    }`}
+                  >
+                    <CreditCard size={20} className="mr-3" />
+                    Langganan
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('backup')}
+                    className={`w-full flex items-center px-4 py-2 text-sm font-medium ${
+                      activeTab === 'backup'
+                        ? 'text-blue-700 bg-blue-50 border-l-4 border-blue-700'
+                        : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                    }`}
+                  >
+                    <DatabaseBackup size={20} className="mr-3" />
+                    Cadangan Data
+                  </button>
+                </>
+              )}
             </nav>
           </CardContent>
         </Card>
@@ -483,15 +534,19 @@ const Settings: React.FC = () => {
               Pengaturan {activeTab === 'profile' ? 'Profil' :
                          activeTab === 'notifications' ? 'Notifikasi' :
                          activeTab === 'preferences' ? 'Preferensi' :
+                         activeTab === 'subscription' ? 'Langganan' :
+                         activeTab === 'backup' ? 'Cadangan Data' :
                          'Keamanan'}
             </h2>
-            <Button 
-              icon={<Save size={16} />}
-              onClick={handleSaveChanges}
-              disabled={isSaving}
-            >
-              {isSaving ? 'Menyimpan...' : 'Simpan Perubahan'}
-            </Button>
+            {activeTab !== 'subscription' && activeTab !== 'backup' && (
+              <Button 
+                icon={<Save size={16} />}
+                onClick={handleSaveChanges}
+                disabled={isSaving}
+              >
+                {isSaving ? 'Menyimpan...' : 'Simpan Perubahan'}
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             {renderTabContent()}
@@ -1,17 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import TenantsList from '../components/tenants/TenantsList';
 import TenantForm from '../components/tenants/TenantForm';
+import TenantStatement from '../components/tenants/TenantStatement';
+import TenantLeases from '../components/tenants/TenantLeases';
+import TenantDocuments from '../components/tenants/TenantDocuments';
+import ImportWizard from '../components/import/ImportWizard';
 import { Tenant, Room } from '../types';
-import { tenantService, roomService, paymentService } from '../services/supabase';
+import { tenantService, roomService, paymentService, leaseService } from '../services/supabase';
 import { useProperty } from '../contexts/PropertyContext';
+import { usePermissions } from '../contexts/PermissionContext';
+import { isPermissionDeniedError, PERMISSION_DENIED_MESSAGE } from '../utils/permissions';
 import { Loader2 } from 'lucide-react';
 
 const Tenants: React.FC = () => {
   const { selectedProperty } = useProperty();
+  const { can } = usePermissions();
   const [allTenants, setAllTenants] = useState<Tenant[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingTenant, setEditingTenant] = useState<Tenant | undefined>();
+  const [statementTenant, setStatementTenant] = useState<Tenant | undefined>();
+  const [leaseTenant, setLeaseTenant] = useState<Tenant | undefined>();
+  const [documentsTenant, setDocumentsTenant] = useState<Tenant | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -53,6 +64,18 @@ const Tenants: React.FC = () => {
     setShowForm(true);
   };
 
+  const handleViewStatement = (id: string) => {
+    setStatementTenant(allTenants.find(t => t.id === id));
+  };
+
+  const handleViewLeases = (id: string) => {
+    setLeaseTenant(allTenants.find(t => t.id === id));
+  };
+
+  const handleViewDocuments = (id: string) => {
+    setDocumentsTenant(allTenants.find(t => t.id === id));
+  };
+
   const handleDeleteTenant = async (id: string) => {
     if (!selectedProperty) return;
     
@@ -86,7 +109,9 @@ const Tenants: React.FC = () => {
         await loadData();
       } catch (err) {
         console.error('Error deleting tenant:', err);
-        setError('Gagal menghapus penyewa. Silakan coba lagi.');
+        setError(isPermissionDeniedError(err)
+          ? PERMISSION_DENIED_MESSAGE
+          : 'Gagal menghapus penyewa. Silakan coba lagi.');
       } finally {
         setIsLoading(false);
       }
@@ -106,10 +131,26 @@ const Tenants: React.FC = () => {
           property_id: selectedProperty.id
         });
       } else {
-        await tenantService.create({
+        const tenant = await tenantService.create({
           ...data as Omit<Tenant, 'id' | 'created_at' | 'updated_at'>,
           property_id: selectedProperty.id
         });
+
+        // Every stay starts with a lease so renewals keep the history
+        if (tenant.start_date && tenant.end_date) {
+          const room = rooms.find(r => r.id === tenant.room_id);
+          await leaseService.create({
+            tenant_id: tenant.id,
+            room_id: tenant.room_id,
+            property_id: selectedProperty.id,
+            start_date: tenant.start_date,
+            end_date: tenant.end_date,
+            rent_amount: room ? Number(room.price) : 0,
+            billing_cycle: 'monthly',
+            deposit_amount: 0,
+            notes: null
+          });
+        }
       }
 
       await loadData();
@@ -117,7 +158,9 @@ const Tenants: React.FC = () => {
       setEditingTenant(undefined);
     } catch (err) {
       console.error('Error saving tenant:', err);
-      setError('Gagal menyimpan data penyewa. Silakan coba lagi.');
+      setError(isPermissionDeniedError(err)
+        ? PERMISSION_DENIED_MESSAGE
+        : 'Gagal menyimpan data penyewa. Silakan coba lagi.');
     } finally {
       setIsLoading(false);
     }
@@ -145,12 +188,50 @@ const Tenants: React.FC = () => {
       <TenantsList
         tenants={allTenants}
         rooms={rooms}
-        onAddTenant={handleAddTenant}
-        onEditTenant={handleEditTenant}
-        onDeleteTenant={handleDeleteTenant}
+        onAddTenant={can('tenants', 'create') ? handleAddTenant : undefined}
+        onImport={can('tenants', 'create') ? () => setShowImport(true) : undefined}
+        onEditTenant={can('tenants', 'edit') ? handleEditTenant : undefined}
+        onDeleteTenant={can('tenants', 'delete') ? handleDeleteTenant : undefined}
+        onViewStatement={handleViewStatement}
+        onViewLeases={handleViewLeases}
+        onViewDocuments={handleViewDocuments}
         isLoading={isLoading}
       />
 
+      {statementTenant && (
+        <TenantStatement
+          tenant={statementTenant}
+          room={rooms.find(r => r.id === statementTenant.room_id)}
+          onClose={() => setStatementTenant(undefined)}
+        />
+      )}
+
+      {leaseTenant && (
+        <TenantLeases
+          tenant={leaseTenant}
+          room={rooms.find(r => r.id === leaseTenant.room_id)}
+          onLeaseChanged={loadData}
+          onClose={() => setLeaseTenant(undefined)}
+        />
+      )}
+
+      {showImport && selectedProperty && (
+        <ImportWizard
+          kind="tenants"
+          propertyId={selectedProperty.id}
+          onImported={loadData}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {documentsTenant && (
+        <TenantDocuments
+          tenant={documentsTenant}
+          room={rooms.find(r => r.id === documentsTenant.room_id)}
+          onClose={() => setDocumentsTenant(undefined)}
+        />
+      )}
+
       {showForm && (
         <TenantForm
           tenant={editingTenant}
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Badge from '../../components/ui/Badge';
+import { ChevronDown, ChevronRight, Loader2, Search } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { auditLogService, AuditLogFilters } from '../../services/supabase';
+import { AuditAction, AuditEntityType, AuditLog } from '../../types/backoffice';
+import { formatAuditValue, getAuditChangeRows, getAuditRecordLabel } from '../../utils/audit';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  properties: 'Property',
+  rooms: 'Room',
+  tenants: 'Tenant',
+  payments: 'Payment',
+  maintenance_requests: 'Maintenance request'
+};
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+const AuditLogs: React.FC = () => {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [properties, setProperties] = useState<{ id: string; name: string }[]>([]);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProperties = async () => {
+      const { data, error: propertiesError } = await supabase
+        .from('properties')
+        .select('id, name')
+        .order('name');
+      if (propertiesError) {
+        console.error('Error loading properties:', propertiesError);
+        return;
+      }
+      setProperties(data || []);
+    };
+
+    loadProperties();
+  }, []);
+
+  const loadLogs = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setLogs(await auditLogService.getAll(filters, 500));
+    } catch (err) {
+      console.error('Error loading audit logs:', err);
+      setError('Failed to load audit logs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const updateFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const propertyName = (propertyId: string | null) =>
+    properties.find(property => property.id === propertyId)?.name || 'Deleted property';
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Audit Logs</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4">
+          <div className="flex flex-col sm:flex-row flex-wrap gap-3">
+            <div className="relative w-full sm:w-56">
+              <input
+                type="text"
+                placeholder="Search actor email..."
+                value={filters.actor || ''}
+                onChange={(e) => updateFilter('actor', e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
+            </div>
+            <select
+              value={filters.propertyId || ''}
+              onChange={(e) => updateFilter('propertyId', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All properties</option>
+              {properties.map(property => (
+                <option key={property.id} value={property.id}>{property.name}</option>
+              ))}
+            </select>
+            <select
+              value={filters.entityType || ''}
+              onChange={(e) => updateFilter('entityType', e.target.value as AuditEntityType)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All records</option>
+              {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(entity => (
+                <option key={entity} value={entity}>{ENTITY_LABELS[entity]}</option>
+              ))}
+            </select>
+            <select
+              value={filters.action || ''}
+              onChange={(e) => updateFilter('action', e.target.value as AuditAction)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All actions</option>
+              <option value="create">Create</option>
+              <option value="update">Update</option>
+              <option value="delete">Delete</option>
+            </select>
+            <input
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="From date"
+            />
+            <input
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="To date"
+            />
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+              <span className="text-gray-500">Loading audit logs...</span>
+            </div>
+          ) : logs.length > 0 ? (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {logs.map(log => (
+                <li key={log.id}>
+                  <button
+                    onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                    className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50"
+                  >
+                    {expandedId === log.id
+                      ? <ChevronDown size={18} className="text-gray-400 mt-0.5" />
+                      : <ChevronRight size={18} className="text-gray-400 mt-0.5" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge className={ACTION_COLORS[log.action]}>{log.action}</Badge>
+                        <span className="font-medium text-gray-900">
+                          {ENTITY_LABELS[log.entity_type] || log.entity_type} {getAuditRecordLabel(log)}
+                        </span>
+                        <span className="text-sm text-gray-500">in {propertyName(log.property_id)}</span>
+                      </div>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {log.actor_email || 'System'} · {new Date(log.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </button>
+
+                  {expandedId === log.id && (
+                    <div className="px-4 pb-4 overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-2 pr-4 font-medium">Field</th>
+                            <th className="py-2 pr-4 font-medium">Before</th>
+                            <th className="py-2 font-medium">After</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {getAuditChangeRows(log.changes).map(row => (
+                            <tr key={row.field}>
+                              <td className="py-2 pr-4 font-mono text-gray-700">{row.field}</td>
+                              <td className="py-2 pr-4 text-red-700 break-all">{formatAuditValue(row.old)}</td>
+                              <td className="py-2 text-green-700 break-all">{formatAuditValue(row.new)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 text-center py-12">
+              No audit log entries match these filters.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLogs;
@@ -20,6 +20,8 @@ import StatCard from '../../components/ui/StatCard';
 import Button from '../../components/ui/Button';
 import { formatCurrency } from '../../utils/formatters';
 import { supabase } from '../../lib/supabase';
+import { AuditLog } from '../../types/backoffice';
+import { getAuditRecordLabel } from '../../utils/audit';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 
 interface DashboardStats {
@@ -178,9 +180,15 @@ const BackofficeDashboard: React.FC = () => {
       // Get subscription stats
       const { data: subscriptions } = await supabase
         .from('subscriptions')
-        .select('*, subscription_plans(price)')
+        .select('*')
         .order('created_at', { ascending: false });
 
+      // Revenue is what owners actually paid, not the list price of their plans
+      const { data: paidInvoices } = await supabase
+        .from('subscription_invoices')
+        .select('amount')
+        .eq('status', 'paid');
+
       const currentMonth = new Date().getMonth();
       const lastMonth = new Date().setMonth(currentMonth - 1);
       
@@ -200,7 +208,7 @@ const BackofficeDashboard: React.FC = () => {
         total: subscriptions?.length || 0,
         active: subscriptions?.filter(s => s.status === 'active').length || 0,
         cancelled: subscriptions?.filter(s => s.status === 'cancelled').length || 0,
-        revenue: subscriptions?.reduce((sum, s) => sum + (s.subscription_plans?.price || 0), 0) || 0,
+        revenue: paidInvoices?.reduce((sum, invoice) => sum + Number(invoice.amount), 0) || 0,
         growth_rate: Math.round(growthRate)
       };
 
@@ -249,7 +257,12 @@ const BackofficeDashboard: React.FC = () => {
         monthly_revenue: monthlyRevenue,
         user_growth: userGrowthData.reverse(),
         property_distribution: distribution,
-        recent_activities: activities || [],
+        recent_activities: ((activities || []) as AuditLog[]).map(log => ({
+          id: log.id,
+          type: log.entity_type === 'properties' ? 'property' : log.entity_type,
+          description: `${log.actor_email || 'System'} ${log.action}d ${log.entity_type.replace(/_/g, ' ')} ${getAuditRecordLabel(log)}`,
+          created_at: log.created_at
+        })),
         subscription_stats: subscriptionStats,
         system_health: systemHealth
       });
@@ -0,0 +1,602 @@
+import React, { useState, useEffect } from 'react';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import { Plus, Search, Edit, Trash, Loader2, X, Tag, TrendingDown, Wallet } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { supabase } from '../../lib/supabase';
+import { formatCurrency } from '../../utils/formatters';
+import { describePromoDiscount } from '../../utils/promo';
+import { PromoCode, PromoRedemption, SubscriptionPlan } from '../../types/subscription';
+
+interface PromoCodeStats {
+  redemptions: number;
+  discount: number;
+  revenue: number;
+}
+
+type PromoCodeInput = Omit<PromoCode, 'id' | 'redemption_count' | 'created_at' | 'updated_at'>;
+
+const toDateInput = (value: string | null) => (value ? format(parseISO(value), 'yyyy-MM-dd') : '');
+
+const PromoCodes: React.FC = () => {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [plans, setPlans] = useState<Pick<SubscriptionPlan, 'id' | 'name'>[]>([]);
+  const [stats, setStats] = useState<Record<string, PromoCodeStats>>({});
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCode, setEditingCode] = useState<PromoCode | null>(null);
+  const [codeToDelete, setCodeToDelete] = useState<PromoCode | null>(null);
+
+  useEffect(() => {
+    loadPromoCodes();
+  }, []);
+
+  const loadPromoCodes = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [codesResult, plansResult, redemptionsResult] = await Promise.all([
+        supabase.from('promo_codes').select('*').order('created_at', { ascending: false }),
+        supabase.from('subscription_plans').select('id, name').order('price'),
+        supabase.from('promo_redemptions').select('promo_code_id, discount_total, revenue_total')
+      ]);
+
+      if (codesResult.error) throw codesResult.error;
+      if (plansResult.error) throw plansResult.error;
+      if (redemptionsResult.error) throw redemptionsResult.error;
+
+      const totals: Record<string, PromoCodeStats> = {};
+      (redemptionsResult.data as Pick<PromoRedemption, 'promo_code_id' | 'discount_total' | 'revenue_total'>[] || [])
+        .forEach(redemption => {
+          const current = totals[redemption.promo_code_id] || { redemptions: 0, discount: 0, revenue: 0 };
+          totals[redemption.promo_code_id] = {
+            redemptions: current.redemptions + 1,
+            discount: current.discount + Number(redemption.discount_total),
+            revenue: current.revenue + Number(redemption.revenue_total)
+          };
+        });
+
+      setPromoCodes(codesResult.data || []);
+      setPlans(plansResult.data || []);
+      setStats(totals);
+    } catch (err) {
+      console.error('Error loading promo codes:', err);
+      setError('Failed to load promo codes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (formData: PromoCodeInput) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      if (editingCode) {
+        const { error: updateError } = await supabase
+          .from('promo_codes')
+          .update({
+            ...formData,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', editingCode.id);
+
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase
+          .from('promo_codes')
+          .insert([formData]);
+
+        if (insertError) throw insertError;
+      }
+
+      await loadPromoCodes();
+      setShowForm(false);
+      setEditingCode(null);
+    } catch (err) {
+      console.error('Error saving promo code:', err);
+      setError((err as { code?: string }).code === '23505'
+        ? 'A promo code with this code already exists'
+        : 'Failed to save promo code');
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (promoCode: PromoCode) => {
+    try {
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('promo_codes')
+        .update({ is_active: !promoCode.is_active, updated_at: new Date().toISOString() })
+        .eq('id', promoCode.id);
+
+      if (updateError) throw updateError;
+      await loadPromoCodes();
+    } catch (err) {
+      console.error('Error updating promo code:', err);
+      setError('Failed to update promo code');
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!codeToDelete) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('promo_codes')
+        .delete()
+        .eq('id', codeToDelete.id);
+
+      if (deleteError) throw deleteError;
+
+      await loadPromoCodes();
+      setCodeToDelete(null);
+    } catch (err) {
+      console.error('Error deleting promo code:', err);
+      setError('Failed to delete promo code');
+      setIsLoading(false);
+    }
+  };
+
+  const getStatus = (promoCode: PromoCode): { label: string; className: string } => {
+    const now = new Date();
+    if (!promoCode.is_active) return { label: 'Inactive', className: 'bg-gray-100 text-gray-800' };
+    if (promoCode.valid_until && parseISO(promoCode.valid_until) <= now) {
+      return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+    }
+    if (promoCode.max_redemptions !== null && promoCode.redemption_count >= promoCode.max_redemptions) {
+      return { label: 'Exhausted', className: 'bg-yellow-100 text-yellow-800' };
+    }
+    if (promoCode.valid_from && parseISO(promoCode.valid_from) > now) {
+      return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+    }
+    return { label: 'Active', className: 'bg-green-100 text-green-800' };
+  };
+
+  const formatDay = (value: string) => format(parseISO(value), 'dd MMM yyyy', { locale: id });
+
+  const planNames = (planIds: string[]) =>
+    planIds.length === 0
+      ? 'All plans'
+      : planIds.map(planId => plans.find(plan => plan.id === planId)?.name || 'Deleted plan').join(', ');
+
+  const filteredCodes = promoCodes.filter(promoCode =>
+    promoCode.code.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    promoCode.description?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const totals = Object.values(stats).reduce(
+    (sum, codeStats) => ({
+      redemptions: sum.redemptions + codeStats.redemptions,
+      discount: sum.discount + codeStats.discount,
+      revenue: sum.revenue + codeStats.revenue
+    }),
+    { redemptions: 0, discount: 0, revenue: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Promo Codes</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardContent className="flex items-center gap-4">
+            <div className="p-3 rounded-full bg-blue-100 text-blue-600">
+              <Tag size={24} />
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Redemptions</p>
+              <p className="text-2xl font-bold text-gray-900">{totals.redemptions}</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center gap-4">
+            <div className="p-3 rounded-full bg-red-100 text-red-600">
+              <TrendingDown size={24} />
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Discounts Given</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(totals.discount)}</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center gap-4">
+            <div className="p-3 rounded-full bg-green-100 text-green-600">
+              <Wallet size={24} />
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Revenue from Discounted Months</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(totals.revenue)}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <h2 className="text-lg font-semibold text-gray-800">All Promo Codes</h2>
+          <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+            <div className="relative w-full sm:w-64">
+              <input
+                type="text"
+                placeholder="Search promo codes..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <Search size={18} className="absolute left-3 top-2.5 text-gray-400" />
+            </div>
+            <Button
+              icon={<Plus size={16} />}
+              onClick={() => {
+                setEditingCode(null);
+                setShowForm(true);
+              }}
+              disabled={isLoading}
+            >
+              Add Promo Code
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12">
+              <Loader2 className="h-8 w-8 text-blue-600 animate-spin mx-auto" />
+              <p className="mt-2 text-gray-500">Loading promo codes...</p>
+            </div>
+          ) : filteredCodes.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Validity</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Redemptions</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue Impact</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredCodes.map(promoCode => {
+                    const status = getStatus(promoCode);
+                    const codeStats = stats[promoCode.id];
+
+                    return (
+                      <tr key={promoCode.id}>
+                        <td className="px-4 py-3">
+                          <div className="text-sm font-mono font-medium text-gray-900">{promoCode.code}</div>
+                          {promoCode.description && (
+                            <div className="text-xs text-gray-500">{promoCode.description}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm text-gray-900">{describePromoDiscount(promoCode, formatCurrency)}</div>
+                          <div className="text-xs text-gray-500">{planNames(promoCode.plan_ids)}</div>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {promoCode.valid_from ? formatDay(promoCode.valid_from) : 'Now'}
+                          {' - '}
+                          {promoCode.valid_until ? formatDay(promoCode.valid_until) : 'No end'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-900">
+                          {promoCode.redemption_count}
+                          {promoCode.max_redemptions !== null && ` / ${promoCode.max_redemptions}`}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right">
+                          <div className="text-sm text-gray-900">{formatCurrency(codeStats?.revenue || 0)}</div>
+                          <div className="text-xs text-red-600">-{formatCurrency(codeStats?.discount || 0)}</div>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <Badge className={status.className}>{status.label}</Badge>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleToggleActive(promoCode)}
+                            >
+                              {promoCode.is_active ? 'Deactivate' : 'Activate'}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              icon={<Edit size={14} />}
+                              onClick={() => {
+                                setEditingCode(promoCode);
+                                setShowForm(true);
+                              }}
+                            >
+                              Edit
+                            </Button>
+                            {promoCode.redemption_count === 0 && (
+                              <Button
+                                variant="danger"
+                                size="sm"
+                                icon={<Trash size={14} />}
+                                onClick={() => setCodeToDelete(promoCode)}
+                              >
+                                Delete
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12 text-gray-500">
+              No promo codes found
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Confirmation Modal */}
+      {codeToDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Delete Promo Code
+            </h3>
+            <p className="text-gray-600 mb-6">
+              Are you sure you want to delete the "{codeToDelete.code}" promo code? This action cannot be undone.
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setCodeToDelete(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={handleConfirmDelete}
+                icon={<Trash size={16} />}
+              >
+                Delete Promo Code
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit Promo Code Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-800">
+                {editingCode ? 'Edit Promo Code' : 'Add Promo Code'}
+              </h2>
+              <button
+                onClick={() => {
+                  setShowForm(false);
+                  setEditingCode(null);
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X size={24} />
+              </button>
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                const formElement = e.target as HTMLFormElement;
+                const formData = new FormData(formElement);
+                const validFrom = formData.get('valid_from') as string;
+                const validUntil = formData.get('valid_until') as string;
+                const maxRedemptions = formData.get('max_redemptions') as string;
+                const durationMonths = formData.get('duration_months') as string;
+
+                handleSubmit({
+                  code: (formData.get('code') as string).trim().toUpperCase(),
+                  description: (formData.get('description') as string) || null,
+                  discount_type: formData.get('discount_type') as PromoCode['discount_type'],
+                  discount_value: Number(formData.get('discount_value')),
+                  // Dates are whole local days; valid_until is exclusive, so it ends after the chosen day
+                  valid_from: validFrom ? new Date(`${validFrom}T00:00:00`).toISOString() : null,
+                  valid_until: validUntil ? new Date(`${validUntil}T23:59:59`).toISOString() : null,
+                  max_redemptions: maxRedemptions ? parseInt(maxRedemptions) : null,
+                  duration_months: durationMonths ? parseInt(durationMonths) : null,
+                  plan_ids: formData.getAll('plan_ids') as string[],
+                  is_active: formData.get('is_active') === 'on'
+                });
+              }}
+              className="p-6 space-y-4"
+            >
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Code
+                  </label>
+                  <input
+                    type="text"
+                    name="code"
+                    defaultValue={editingCode?.code}
+                    pattern="[A-Za-z0-9_\-]+"
+                    title="Letters, numbers, dashes and underscores"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    name="description"
+                    defaultValue={editingCode?.description || ''}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount Type
+                  </label>
+                  <select
+                    name="discount_type"
+                    defaultValue={editingCode?.discount_type || 'percentage'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="percentage">Percentage (%)</option>
+                    <option value="fixed">Fixed Amount (IDR)</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount Value
+                  </label>
+                  <input
+                    type="number"
+                    name="discount_value"
+                    defaultValue={editingCode?.discount_value}
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <p className="mt-1 text-xs text-gray-500">At most 100 for a percentage</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Valid From
+                  </label>
+                  <input
+                    type="date"
+                    name="valid_from"
+                    defaultValue={toDateInput(editingCode?.valid_from ?? null)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Valid Until
+                  </label>
+                  <input
+                    type="date"
+                    name="valid_until"
+                    defaultValue={toDateInput(editingCode?.valid_until ?? null)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Redemptions
+                  </label>
+                  <input
+                    type="number"
+                    name="max_redemptions"
+                    defaultValue={editingCode?.max_redemptions ?? ''}
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Leave empty for unlimited</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discounted Months
+                  </label>
+                  <input
+                    type="number"
+                    name="duration_months"
+                    defaultValue={editingCode?.duration_months ?? ''}
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">First N billed months; leave empty for every month</p>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Eligible Plans</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {plans.map(plan => (
+                    <label key={plan.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        name="plan_ids"
+                        value={plan.id}
+                        defaultChecked={editingCode?.plan_ids.includes(plan.id)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">{plan.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Leave all unchecked to allow every plan</p>
+              </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  name="is_active"
+                  defaultChecked={editingCode?.is_active ?? true}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">Active</span>
+              </label>
+
+              {editingCode && editingCode.redemption_count > 0 && (
+                <p className="text-xs text-gray-500">
+                  Changes apply to new redemptions only; subscriptions that already redeemed this code keep their discount.
+                </p>
+              )}
+
+              <div className="flex justify-end gap-3 mt-6">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setShowForm(false);
+                    setEditingCode(null);
+                  }}
+                  disabled={isLoading}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  icon={isLoading ? <Loader2 className="animate-spin" size={16} /> : undefined}
+                >
+                  {isLoading ? 'Saving...' : editingCode ? 'Save Changes' : 'Add Promo Code'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromoCodes;
@@ -3,6 +3,7 @@ import Card, { CardHeader, CardContent } from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import { Shield, Loader2, CheckCircle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { MEMBER_ROLES, MemberRole, PERMISSION_RESOURCES, PermissionResource } from '../../utils/permissions';
 
 interface Permission {
   id: string;
@@ -19,23 +20,15 @@ interface PermissionGroup {
 
 const RolePermissions: React.FC = () => {
   const [permissions, setPermissions] = useState<Permission[]>([]);
-  const [selectedRole, setSelectedRole] = useState<string>('admin');
+  const [selectedRole, setSelectedRole] = useState<MemberRole>('admin');
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
 
-  const roles = ['admin', 'staff'];
-  
-  const resources = {
-    users: ['view', 'create', 'edit', 'delete'],
-    properties: ['view', 'create', 'edit', 'delete'],
-    rooms: ['view', 'create', 'edit', 'delete'],
-    tenants: ['view', 'create', 'edit', 'delete'],
-    payments: ['view', 'create', 'edit', 'delete'],
-    reports: ['view', 'export'],
-    settings: ['view', 'edit']
-  };
+  // Property owners always have every permission and are not listed
+  const roles = MEMBER_ROLES;
+  const resources = PERMISSION_RESOURCES;
 
   useEffect(() => {
     loadPermissions();
@@ -64,9 +57,9 @@ const RolePermissions: React.FC = () => {
   const getPermissionGroups = (): PermissionGroup => {
     const groups: PermissionGroup = {};
     
-    Object.keys(resources).forEach(resource => {
+    (Object.keys(resources) as PermissionResource[]).forEach(resource => {
       groups[resource] = {};
-      resources[resource].forEach(action => {
+      resources[resource].forEach((action: string) => {
         groups[resource][action] = permissions.some(
           p => p.resource === resource && p.action === action
         );
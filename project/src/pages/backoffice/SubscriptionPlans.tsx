@@ -92,7 +92,7 @@ const SubscriptionPlans: React.FC = () => {
         .from('subscriptions')
         .select('id')
         .eq('plan_id', planToDelete.id)
-        .eq('status', 'active');
+        .in('status', ['trialing', 'active', 'past_due']);
 
       if (checkError) throw checkError;
 
@@ -176,7 +176,12 @@ const SubscriptionPlans: React.FC = () => {
                   <div className="p-6">
                     <div className="flex justify-between items-start mb-4">
                       <div>
-                        <h3 className="text-lg font-semibold text-gray-900">{plan.name}</h3>
+                        <h3 className="text-lg font-semibold text-gray-900">
+                          {plan.name}
+                          {!plan.is_active && (
+                            <Badge className="ml-2 bg-gray-100 text-gray-600">Retired</Badge>
+                          )}
+                        </h3>
                         <p className="text-sm text-gray-500">{plan.description}</p>
                       </div>
                       <Badge className={
@@ -195,6 +200,12 @@ const SubscriptionPlans: React.FC = () => {
                         <span className="text-gray-600">Rooms per Property</span>
                         <span className="font-medium">{plan.max_rooms_per_property}</span>
                       </div>
+                      {plan.trial_days > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Free Trial</span>
+                          <span className="font-medium">{plan.trial_days} days</span>
+                        </div>
+                      )}
                     </div>
 
                     <div className="space-y-2 mb-4">
@@ -326,6 +337,8 @@ const SubscriptionPlans: React.FC = () => {
                   price: parseInt(formData.get('price') as string),
                   max_properties: parseInt(formData.get('max_properties') as string),
                   max_rooms_per_property: parseInt(formData.get('max_rooms_per_property') as string),
+                  trial_days: parseInt(formData.get('trial_days') as string) || 0,
+                  is_active: formData.get('is_active') === 'on',
                   features
                 });
               }}
@@ -386,6 +399,33 @@ const SubscriptionPlans: React.FC = () => {
                     required
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Free Trial (days)
+                  </label>
+                  <input
+                    type="number"
+                    name="trial_days"
+                    defaultValue={editingPlan?.trial_days ?? 0}
+                    min="0"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Only for an owner's first subscription</p>
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    name="is_active"
+                    defaultChecked={editingPlan?.is_active ?? true}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Available to owners</span>
+                </label>
+                <p className="mt-1 text-xs text-gray-500">Current subscribers keep a retired plan</p>
               </div>
 
               <div>
@@ -2,18 +2,19 @@ import React, { useState, useEffect } from 'react';
 import Card, { CardHeader, CardContent } from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
-import { Plus, Search, Loader2, X, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Plus, Search, Loader2, X, CheckCircle, AlertTriangle, Receipt } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { formatCurrency } from '../../utils/formatters';
 import { format } from 'date-fns';
 import { id } from 'date-fns/locale';
 import SubscriptionForm from '../../components/backoffice/SubscriptionForm';
+import BillingHistory from '../../components/backoffice/BillingHistory';
 
 interface Subscription {
   id: string;
   user_id: string;
   plan_id: string;
-  status: 'active' | 'cancelled' | 'expired';
+  status: 'trialing' | 'active' | 'past_due' | 'cancelled' | 'expired';
   created_at: string;
   updated_at: string;
   user_email?: string;
@@ -26,6 +27,7 @@ const Subscriptions: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showForm, setShowForm] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [billingSubscription, setBillingSubscription] = useState<Subscription | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -197,11 +199,15 @@ const Subscriptions: React.FC = () => {
                         <Badge className={
                           subscription.status === 'active' 
                             ? 'bg-green-100 text-green-800'
+                            : subscription.status === 'trialing'
+                            ? 'bg-blue-100 text-blue-800'
+                            : subscription.status === 'past_due'
+                            ? 'bg-yellow-100 text-yellow-800'
                             : subscription.status === 'cancelled'
                             ? 'bg-red-100 text-red-800'
                             : 'bg-gray-100 text-gray-800'
                         }>
-                          {subscription.status}
+                          {subscription.status.replace('_', ' ')}
                         </Badge>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -209,8 +215,16 @@ const Subscriptions: React.FC = () => {
                           {format(new Date(subscription.created_at), 'dd MMM yyyy', { locale: id })}
                         </div>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right">
-                        {subscription.status === 'active' && (
+                      <td className="px-6 py-4 whitespace-nowrap text-right space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          icon={<Receipt size={14} />}
+                          onClick={() => setBillingSubscription(subscription)}
+                        >
+                          Billing
+                        </Button>
+                        {['trialing', 'active', 'past_due'].includes(subscription.status) && (
                           <Button
                             variant="danger"
                             size="sm"
@@ -246,6 +260,14 @@ const Subscriptions: React.FC = () => {
           onSuccess={handleFormSubmit}
         />
       )}
+
+      {billingSubscription && (
+        <BillingHistory
+          userId={billingSubscription.user_id}
+          userEmail={billingSubscription.user_email}
+          onClose={() => setBillingSubscription(null)}
+        />
+      )}
     </div>
   );
 };
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import Card, { CardHeader, CardContent } from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
-import { Plus, Search, Edit, Trash, Loader2, X, Eye, EyeOff, CheckCircle, CreditCard } from 'lucide-react';
+import { Plus, Search, Edit, Trash, Loader2, X, Eye, EyeOff, CheckCircle, CreditCard, ShieldOff } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { formatCurrency } from '../../utils/formatters';
 import { format } from 'date-fns';
@@ -17,9 +17,11 @@ interface User {
   created_at: string;
   last_login?: string;
   status: 'active' | 'inactive';
+  // Has a verified second factor
+  mfa_enabled: boolean;
   subscription?: {
     id: string;
-    status: 'active' | 'cancelled' | 'expired';
+    status: 'trialing' | 'active' | 'past_due' | 'cancelled' | 'expired';
     plan_name: string;
     plan_price: number;
     created_at: string;
@@ -216,6 +218,42 @@ const BackofficeUsers: React.FC = () => {
     }
   };
 
+  const handleResetMfa = async (user: User) => {
+    if (!confirm(`Reset two-factor authentication for ${user.email}? They will sign in with their password only until they enroll again.`)) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data: session } = await supabase.auth.getSession();
+      if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/manage-users`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.session.access_token}`,
+          },
+          body: JSON.stringify({ userId: user.id, action: 'reset_mfa' }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reset two-factor authentication');
+      }
+
+      await loadUsers();
+    } catch (err) {
+      console.error('Error resetting two-factor authentication:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reset two-factor authentication');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleUpdateStatus = async (user: User, newStatus: 'active' | 'inactive') => {
     try {
       setIsLoading(true);
@@ -335,7 +373,12 @@ const BackofficeUsers: React.FC = () => {
                   filteredUsers.map((user) => (
                     <tr key={user.id}>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="font-medium text-gray-900">{user.name}</div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900">{user.name}</span>
+                          {user.mfa_enabled && (
+                            <Badge className="bg-green-100 text-green-800">2FA</Badge>
+                          )}
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-gray-500">{user.email}</div>
@@ -366,6 +409,10 @@ const BackofficeUsers: React.FC = () => {
                             <Badge className={
                               user.subscription.status === 'active'
                                 ? 'bg-green-100 text-green-800'
+                                : user.subscription.status === 'trialing'
+                                ? 'bg-blue-100 text-blue-800'
+                                : user.subscription.status === 'past_due'
+                                ? 'bg-yellow-100 text-yellow-800'
                                 : user.subscription.status === 'cancelled'
                                 ? 'bg-red-100 text-red-800'
                                 : 'bg-gray-100 text-gray-800'
@@ -387,6 +434,17 @@ const BackofficeUsers: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right">
                         <div className="flex justify-end gap-2">
+                          {user.mfa_enabled && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              icon={<ShieldOff size={14} />}
+                              onClick={() => handleResetMfa(user)}
+                              disabled={isLoading}
+                            >
+                              Reset 2FA
+                            </Button>
+                          )}
                           {user.role !== 'superadmin' && (
                             <>
                               <Button
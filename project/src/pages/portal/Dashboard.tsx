@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import { BedDouble, CalendarDays, CreditCard, Phone, Mail } from 'lucide-react';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+import { tenantPortalService } from '../../services/supabase';
+import { Lease, Payment } from '../../types';
+import { getOutstandingAmount } from '../../utils/billing';
+import {
+  formatCurrency,
+  formatDate,
+  getPaymentStatusColor,
+  translateBillingCycle,
+  translateLeaseStatus,
+  translatePaymentStatus
+} from '../../utils/formatters';
+
+const PortalDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const { tenancy } = useTenantPortal();
+  const [lease, setLease] = useState<Lease | null>(null);
+  const [outstanding, setOutstanding] = useState<Payment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!tenancy) return;
+
+    const loadData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [leaseData, paymentsData] = await Promise.all([
+          tenantPortalService.getCurrentLease(tenancy.id),
+          tenantPortalService.getPayments(tenancy.id)
+        ]);
+        setLease(leaseData);
+        setOutstanding(paymentsData.filter(payment => payment.status !== 'paid'));
+      } catch (err) {
+        console.error('Error loading tenant overview:', err);
+        setError('Gagal memuat data sewa');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadData();
+  }, [tenancy]);
+
+  if (!tenancy) return null;
+
+  const totalOutstanding = outstanding.reduce((sum, payment) => sum + getOutstandingAmount(payment), 0);
+  const endDate = lease?.end_date || tenancy.end_date;
+  const daysLeft = endDate
+    ? Math.ceil((new Date(endDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Halo, {tenancy.name}</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="flex items-center">
+            <BedDouble size={20} className="text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-800">Kamar Anda</h2>
+          </CardHeader>
+          <CardContent>
+            {tenancy.room ? (
+              <dl className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Nomor Kamar</dt>
+                  <dd className="font-medium text-gray-900">{tenancy.room.number}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Lantai</dt>
+                  <dd className="font-medium text-gray-900">{tenancy.room.floor}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Tipe</dt>
+                  <dd className="font-medium text-gray-900 capitalize">{tenancy.room.type}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Harga per Bulan</dt>
+                  <dd className="font-medium text-gray-900">{formatCurrency(tenancy.room.price)}</dd>
+                </div>
+                {tenancy.room.facilities?.length > 0 && (
+                  <div>
+                    <dt className="text-gray-500 mb-1">Fasilitas</dt>
+                    <dd className="flex flex-wrap gap-1">
+                      {tenancy.room.facilities.map(facility => (
+                        <Badge key={facility} className="bg-gray-100 text-gray-700">{facility}</Badge>
+                      ))}
+                    </dd>
+                  </div>
+                )}
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">Anda belum terdaftar di kamar mana pun.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex items-center">
+            <CalendarDays size={20} className="text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-800">Masa Sewa</h2>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Memuat...</p>
+            ) : (
+              <dl className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Mulai</dt>
+                  <dd className="font-medium text-gray-900">{formatDate(lease?.start_date || tenancy.start_date)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">Berakhir</dt>
+                  <dd className="font-medium text-gray-900">{formatDate(endDate)}</dd>
+                </div>
+                {lease && (
+                  <>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">Siklus Tagihan</dt>
+                      <dd className="font-medium text-gray-900">{translateBillingCycle(lease.billing_cycle)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">Biaya Sewa</dt>
+                      <dd className="font-medium text-gray-900">{formatCurrency(lease.rent_amount)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">Deposit</dt>
+                      <dd className="font-medium text-gray-900">{formatCurrency(lease.deposit_amount)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">Status</dt>
+                      <dd className="font-medium text-gray-900">{translateLeaseStatus(lease.status)}</dd>
+                    </div>
+                  </>
+                )}
+                {daysLeft !== null && daysLeft >= 0 && daysLeft <= 30 && (
+                  <p className="text-yellow-700 bg-yellow-50 rounded px-3 py-2">
+                    Masa sewa Anda berakhir dalam {daysLeft} hari. Hubungi pengelola untuk perpanjangan.
+                  </p>
+                )}
+              </dl>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex items-center justify-between">
+          <div className="flex items-center">
+            <CreditCard size={20} className="text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-800">Tagihan Belum Lunas</h2>
+          </div>
+          <span className="text-lg font-bold text-gray-900">{formatCurrency(totalOutstanding)}</span>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Memuat...</p>
+          ) : outstanding.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {outstanding.map(payment => (
+                <li key={payment.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{formatCurrency(getOutstandingAmount(payment))}</p>
+                    <p className="text-sm text-gray-500">Jatuh tempo {formatDate(payment.due_date)}</p>
+                  </div>
+                  <Badge className={getPaymentStatusColor(payment.status)}>
+                    {translatePaymentStatus(payment.status)}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">Tidak ada tagihan yang belum dibayar.</p>
+          )}
+          {outstanding.length > 0 && (
+            <Button className="mt-4" onClick={() => navigate('/portal/payments')}>
+              Kirim Bukti Transfer
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {tenancy.property && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-800">Kontak Pengelola</h2>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="font-medium text-gray-900">{tenancy.property.name}</p>
+            <p className="text-gray-600">{tenancy.property.address}, {tenancy.property.city}</p>
+            {tenancy.property.phone && (
+              <p className="flex items-center text-gray-600">
+                <Phone size={16} className="mr-2" />
+                {tenancy.property.phone}
+              </p>
+            )}
+            {tenancy.property.email && (
+              <p className="flex items-center text-gray-600">
+                <Mail size={16} className="mr-2" />
+                {tenancy.property.email}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PortalDashboard;
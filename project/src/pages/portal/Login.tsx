@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import Button from '../../components/ui/Button';
+import { Mail, Phone, AlertCircle, CheckCircle, KeyRound } from 'lucide-react';
+import { toInternationalPhone } from '../../utils/formatters';
+
+type SignInMethod = 'email' | 'phone';
+
+const PortalLogin: React.FC = () => {
+  const navigate = useNavigate();
+  const [method, setMethod] = useState<SignInMethod>('email');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const switchMethod = (next: SignInMethod) => {
+    setMethod(next);
+    setLinkSent(false);
+    setCodeSent(false);
+    setCode('');
+    setError(null);
+  };
+
+  const handleSendEmailLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { error: otpError } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          emailRedirectTo: `${window.location.origin}/portal`
+        }
+      });
+      if (otpError) throw otpError;
+      setLinkSent(true);
+    } catch (err) {
+      console.error('Error sending magic link:', err);
+      setError('Gagal mengirim tautan masuk. Periksa alamat email Anda.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendPhoneCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { error: otpError } = await supabase.auth.signInWithOtp({
+        phone: `+${toInternationalPhone(phone)}`
+      });
+      if (otpError) throw otpError;
+      setCodeSent(true);
+    } catch (err) {
+      console.error('Error sending phone code:', err);
+      setError('Gagal mengirim kode verifikasi. Periksa nomor telepon Anda.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyPhoneCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { error: verifyError } = await supabase.auth.verifyOtp({
+        phone: `+${toInternationalPhone(phone)}`,
+        token: code.replace(/\s/g, ''),
+        type: 'sms'
+      });
+      if (verifyError) throw verifyError;
+      navigate('/portal');
+    } catch (err) {
+      console.error('Error verifying phone code:', err);
+      setError('Kode verifikasi salah atau sudah kedaluwarsa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName = 'appearance-none block w-full px-3 py-2 pl-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h1 className="text-3xl font-bold text-center text-blue-600 mb-2">
+          KostManager
+        </h1>
+        <h2 className="mt-6 text-center text-2xl font-bold text-gray-900">
+          Portal Penyewa
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          Masuk dengan email atau nomor telepon yang terdaftar di pengelola kos Anda
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          <div className="flex mb-6 border-b border-gray-200">
+            {(['email', 'phone'] as SignInMethod[]).map(item => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => switchMethod(item)}
+                className={`flex-1 pb-2 text-sm font-medium ${
+                  method === item
+                    ? 'text-blue-700 border-b-2 border-blue-700'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {item === 'email' ? 'Email' : 'Nomor Telepon'}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-600 rounded-md p-4 flex items-start">
+              <AlertCircle className="h-5 w-5 mr-2 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {method === 'email' && (
+            linkSent ? (
+              <div className="bg-green-50 border border-green-200 text-green-700 rounded-md p-4 flex items-start">
+                <CheckCircle className="h-5 w-5 mr-2 mt-0.5" />
+                <span>
+                  Tautan masuk telah dikirim ke <strong>{email}</strong>. Buka email Anda dan klik tautan
+                  tersebut untuk masuk.
+                </span>
+              </div>
+            ) : (
+              <form className="space-y-6" onSubmit={handleSendEmailLink}>
+                <div>
+                  <label htmlFor="portal-email" className="block text-sm font-medium text-gray-700">
+                    Email
+                  </label>
+                  <div className="mt-1 relative">
+                    <input
+                      id="portal-email"
+                      type="email"
+                      autoComplete="email"
+                      required
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className={inputClassName}
+                    />
+                    <Mail className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+                  </div>
+                </div>
+                <Button type="submit" className="w-full flex justify-center" disabled={loading}>
+                  {loading ? 'Mengirim...' : 'Kirim Tautan Masuk'}
+                </Button>
+              </form>
+            )
+          )}
+
+          {method === 'phone' && (
+            <form className="space-y-6" onSubmit={codeSent ? handleVerifyPhoneCode : handleSendPhoneCode}>
+              <div>
+                <label htmlFor="portal-phone" className="block text-sm font-medium text-gray-700">
+                  Nomor Telepon
+                </label>
+                <div className="mt-1 relative">
+                  <input
+                    id="portal-phone"
+                    type="tel"
+                    autoComplete="tel"
+                    required
+                    disabled={codeSent}
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    placeholder="08123456789"
+                    className={inputClassName}
+                  />
+                  <Phone className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+                </div>
+              </div>
+
+              {codeSent && (
+                <div>
+                  <label htmlFor="portal-code" className="block text-sm font-medium text-gray-700">
+                    Kode Verifikasi
+                  </label>
+                  <div className="mt-1 relative">
+                    <input
+                      id="portal-code"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      required
+                      autoFocus
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      className={inputClassName}
+                    />
+                    <KeyRound className="h-5 w-5 text-gray-400 absolute left-3 top-2.5" />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">Kode telah dikirim lewat SMS ke nomor Anda.</p>
+                </div>
+              )}
+
+              <Button type="submit" className="w-full flex justify-center" disabled={loading}>
+                {loading
+                  ? 'Memproses...'
+                  : codeSent ? 'Masuk' : 'Kirim Kode Verifikasi'}
+              </Button>
+
+              {codeSent && (
+                <button
+                  type="button"
+                  onClick={() => switchMethod('phone')}
+                  className="w-full text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Ganti nomor telepon
+                </button>
+              )}
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortalLogin;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import { Loader2, Plus } from 'lucide-react';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+import { tenantPortalService } from '../../services/supabase';
+import { MaintenanceRequest } from '../../types';
+import {
+  formatDate,
+  getMaintenancePriorityColor,
+  getMaintenanceStatusColor,
+  translateMaintenancePriority,
+  translateMaintenanceStatus
+} from '../../utils/formatters';
+
+const emptyForm: Pick<MaintenanceRequest, 'title' | 'description' | 'priority'> = {
+  title: '',
+  description: '',
+  priority: 'medium'
+};
+
+const PortalMaintenance: React.FC = () => {
+  const { tenancy } = useTenantPortal();
+  const [requests, setRequests] = useState<MaintenanceRequest[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    if (!tenancy) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setRequests(await tenantPortalService.getMaintenanceRequests(tenancy.id));
+    } catch (err) {
+      console.error('Error loading maintenance requests:', err);
+      setError('Gagal memuat permintaan pemeliharaan');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenancy]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tenancy) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await tenantPortalService.submitMaintenanceRequest(tenancy, formData);
+      setFormData(emptyForm);
+      setShowForm(false);
+      setMessage('Permintaan Anda telah dikirim ke pengelola');
+      await loadRequests();
+    } catch (err) {
+      console.error('Error submitting maintenance request:', err);
+      setError('Gagal mengirim permintaan pemeliharaan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!tenancy) return null;
+
+  const canSubmit = tenancy.status === 'active' && !!tenancy.room_id;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Pemeliharaan</h1>
+        {canSubmit && !showForm && (
+          <Button onClick={() => { setShowForm(true); setMessage(null); }} icon={<Plus size={16} />}>
+            Laporkan Masalah
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded relative">
+          {message}
+        </div>
+      )}
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-800">
+              Laporan Baru{tenancy.room ? ` untuk Kamar ${tenancy.room.number}` : ''}
+            </h2>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Judul
+                </label>
+                <input
+                  type="text"
+                  name="title"
+                  value={formData.title}
+                  onChange={handleChange}
+                  placeholder="Contoh: AC tidak dingin"
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Deskripsi
+                </label>
+                <textarea
+                  name="description"
+                  value={formData.description}
+                  onChange={handleChange}
+                  rows={4}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Prioritas
+                </label>
+                <select
+                  name="priority"
+                  value={formData.priority}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="low">Rendah</option>
+                  <option value="medium">Sedang</option>
+                  <option value="high">Tinggi</option>
+                </select>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Mengirim...' : 'Kirim Laporan'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-800">Laporan Anda</h2>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+              <span className="text-gray-500">Memuat laporan...</span>
+            </div>
+          ) : requests.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {requests.map(request => (
+                <li key={request.id} className="py-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-gray-900">{request.title}</span>
+                    <Badge className={getMaintenanceStatusColor(request.status)}>
+                      {translateMaintenanceStatus(request.status)}
+                    </Badge>
+                    <Badge className={getMaintenancePriorityColor(request.priority)}>
+                      {translateMaintenancePriority(request.priority)}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{request.description}</p>
+                  <p className="text-xs text-gray-500 mt-1">{formatDate(request.date)}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 text-center py-12">Belum ada laporan pemeliharaan.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PortalMaintenance;
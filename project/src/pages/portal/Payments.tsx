@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Card, { CardHeader, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import { Download, Loader2, Upload, X } from 'lucide-react';
+import { useTenantPortal } from '../../contexts/TenantPortalContext';
+import { paymentProofService, tenantPortalService } from '../../services/supabase';
+import { Payment, PaymentProof } from '../../types';
+import { formatPaymentCode, getOutstandingAmount, getTransferAmount } from '../../utils/billing';
+import { downloadReceipt } from '../../utils/receipt';
+import { MAX_PROOF_SIZE, PROOF_ACCEPT, PROOF_STATUS_LABELS } from '../../utils/paymentProof';
+import {
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  getPaymentStatusColor,
+  translatePaymentStatus
+} from '../../utils/formatters';
+
+const PortalPayments: React.FC = () => {
+  const { tenancy } = useTenantPortal();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [proofs, setProofs] = useState<PaymentProof[]>([]);
+  const [uploadFor, setUploadFor] = useState<Payment | null>(null);
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [proofNote, setProofNote] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!tenancy) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const paymentsData = await tenantPortalService.getPayments(tenancy.id);
+      setPayments(paymentsData);
+      setProofs(await tenantPortalService.getPaymentProofs(paymentsData.map(payment => payment.id)));
+    } catch (err) {
+      console.error('Error loading payments:', err);
+      setError('Gagal memuat data pembayaran');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenancy]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const closeUpload = () => {
+    setUploadFor(null);
+    setProofFile(null);
+    setProofNote('');
+    setUploadError(null);
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!uploadFor || !proofFile) return;
+
+    if (proofFile.size > MAX_PROOF_SIZE) {
+      setUploadError('Ukuran file maksimal 5 MB');
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      setUploadError(null);
+      await paymentProofService.upload(uploadFor, proofFile, proofNote);
+      closeUpload();
+      await loadData();
+    } catch (err) {
+      console.error('Error uploading payment proof:', err);
+      setUploadError('Gagal mengunggah bukti transfer');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownloadReceipt = (payment: Payment) => {
+    if (!tenancy?.property) return;
+    downloadReceipt({
+      payment,
+      property: tenancy.property,
+      tenantName: tenancy.name,
+      roomNumber: tenancy.room?.number
+    });
+  };
+
+  if (!tenancy) return null;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Pembayaran</h1>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold text-gray-800">Riwayat Tagihan</h2>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 text-blue-600 animate-spin mr-2" />
+              <span className="text-gray-500">Memuat pembayaran...</span>
+            </div>
+          ) : payments.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {payments.map(payment => {
+                const paymentProofs = proofs.filter(proof => proof.payment_id === payment.id);
+                const hasPendingProof = paymentProofs.some(proof => proof.status === 'pending');
+
+                return (
+                  <li key={payment.id} className="py-4 space-y-3">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                      <div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium text-gray-900">{formatCurrency(payment.amount)}</span>
+                          <Badge className={getPaymentStatusColor(payment.status)}>
+                            {translatePaymentStatus(payment.status)}
+                          </Badge>
+                          {payment.kind === 'late_fee' && (
+                            <Badge className="bg-orange-100 text-orange-800">Denda</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {payment.status === 'paid'
+                            ? `Dibayar ${formatDate(payment.date || payment.due_date)}`
+                            : `Jatuh tempo ${formatDate(payment.due_date)} · Sisa ${formatCurrency(getOutstandingAmount(payment))}`}
+                        </p>
+                        {payment.status !== 'paid' && payment.payment_code && (
+                          <p className="text-sm text-blue-700">
+                            Transfer tepat {formatCurrency(getTransferAmount(payment))} (kode unik {formatPaymentCode(payment.payment_code)})
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        {payment.status === 'paid' ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDownloadReceipt(payment)}
+                            icon={<Download size={16} />}
+                          >
+                            Kwitansi
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => setUploadFor(payment)}
+                            disabled={hasPendingProof}
+                            icon={<Upload size={16} />}
+                          >
+                            {hasPendingProof ? 'Menunggu Verifikasi' : 'Kirim Bukti Transfer'}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {paymentProofs.length > 0 && (
+                      <ul className="bg-gray-50 rounded-md px-3 py-2 space-y-1">
+                        {paymentProofs.map(proof => (
+                          <li key={proof.id} className="text-sm flex flex-wrap items-center gap-2">
+                            <Badge className={PROOF_STATUS_LABELS[proof.status].className}>
+                              {PROOF_STATUS_LABELS[proof.status].label}
+                            </Badge>
+                            <span className="text-gray-500">Dikirim {formatDateTime(proof.created_at)}</span>
+                            {proof.note && <span className="text-gray-600">· {proof.note}</span>}
+                            {proof.rejection_reason && (
+                              <span className="w-full text-red-700">Alasan: {proof.rejection_reason}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-gray-500 text-center py-12">Belum ada tagihan.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {uploadFor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-800">Kirim Bukti Transfer</h2>
+              <button onClick={closeUpload} className="text-gray-500 hover:text-gray-700">
+                <X size={24} />
+              </button>
+            </div>
+
+            <form onSubmit={handleUpload} className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Tagihan {formatCurrency(getOutstandingAmount(uploadFor))}, jatuh tempo {formatDate(uploadFor.due_date)}.
+                Pengelola akan memeriksa bukti transfer Anda.
+              </p>
+              {uploadFor.payment_code && (
+                <p className="text-sm text-blue-700 bg-blue-50 rounded-md p-3">
+                  Jumlah transfer: {formatCurrency(getTransferAmount(uploadFor))}, sudah termasuk kode unik{' '}
+                  {formatPaymentCode(uploadFor.payment_code)} agar pembayaran Anda dapat dikenali.
+                </p>
+              )}
+
+              {uploadError && (
+                <div className="bg-red-50 border border-red-200 text-red-600 rounded-md p-3 text-sm">
+                  {uploadError}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Foto / File Bukti Transfer
+                </label>
+                <input
+                  type="file"
+                  accept={PROOF_ACCEPT}
+                  required
+                  onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm text-gray-700"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Catatan (opsional)
+                </label>
+                <input
+                  type="text"
+                  value={proofNote}
+                  onChange={(e) => setProofNote(e.target.value)}
+                  placeholder="Contoh: transfer dari rekening BCA a.n. Budi"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={closeUpload}>
+                  Batal
+                </Button>
+                <Button type="submit" disabled={isUploading || !proofFile}>
+                  {isUploading ? 'Mengunggah...' : 'Kirim'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortalPayments;
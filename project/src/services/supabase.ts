@@ -1,16 +1,27 @@
 import { supabase } from '../lib/supabase';
-import { Property, Room, Tenant, Payment, MaintenanceRequest, Notification } from '../types';
+import { Property, Room, Tenant, Payment, PaymentProof, PaymentTransaction, TenantAdjustment, Lease, AgreementTemplate, TenantDocument, TenantDeposit, DepositSettlement, DepositDeduction, MaintenanceRequest, Notification, PropertyBackup, PropertyInvitation, PropertyMember } from '../types';
+import { buildInvoiceDrafts, InvoiceDraft } from '../utils/billing';
+import { ExistingRoom, RoomImportData, TenantImportData } from '../utils/importer';
+import { BankCredit, StatementBank } from '../utils/reconciliation';
+import { BackupArchive, BACKUP_FORMAT_VERSION, countBackupRows, parseBackupArchive } from '../utils/backup';
+import { Subscription, SubscriptionChange, SubscriptionInvoice, SubscriptionPlan } from '../types/subscription';
+import { AuditAction, AuditEntityType, AuditLog } from '../types/backoffice';
+import { PlanUsage } from '../utils/subscription';
+import { assertPermission, MemberRole, PermissionAction, PermissionResource, PropertyPermissions } from '../utils/permissions';
 
 export interface UserSettings {
   id: string;
   user_id: string;
   email_notifications: boolean;
   payment_reminders: boolean;
+  // Rent invoices are created by the generate-invoices job
+  auto_billing: boolean;
   maintenance_updates: boolean;
   new_tenants: boolean;
   currency: string;
   date_format: string;
   payment_reminder_days: number;
+  lease_expiry_reminder_days: number;
   session_timeout: number;
   login_notifications: boolean;
   two_factor_enabled: boolean;
@@ -37,6 +48,48 @@ export interface PropertyStats {
   maintenance_requests_total: number;
 }
 
+export interface TenantStatementEntry {
+  id: string;
+  date: string;
+  type: 'charge' | 'payment' | 'deposit' | 'adjustment';
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  // Change in the deposit held for the tenant; deposits do not affect the rent balance
+  deposit?: number;
+}
+
+export interface AuditLogFilters {
+  propertyId?: string;
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  // Part of the actor's email address
+  actor?: string;
+  // Inclusive dates as yyyy-MM-dd
+  from?: string;
+  to?: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  is_current: boolean;
+}
+
+export interface DepositSettlementInput {
+  tenant_id: string;
+  property_id: string;
+  room_id: string | null;
+  date: string;
+  refund_method: string;
+  notes: string | null;
+  deductions: Omit<DepositDeduction, 'id' | 'settlement_id' | 'property_id' | 'created_at'>[];
+}
+
 export const propertyStatsService = {
   async getStats(propertyId: string): Promise<PropertyStats> {
     // Get rooms
@@ -59,13 +112,29 @@ export const propertyStatsService = {
     const activeTenants = tenants?.filter(t => t.status === 'active') || [];
     const totalTenants = activeTenants.length;
 
-    // Calculate average tenant stay in months
-    const avgTenantStay = activeTenants.reduce((sum, tenant) => {
-      const start = new Date(tenant.start_date);
-      const end = new Date(tenant.end_date);
+    // Calculate average tenant stay in months across each tenant's whole lease history
+    const { data: leases } = await supabase
+      .from('leases')
+      .select('tenant_id, start_date, end_date')
+      .eq('property_id', propertyId);
+
+    const today = new Date().toISOString().split('T')[0];
+    const stays = new Map<string, { start: string; end: string }>();
+    (leases || []).forEach(lease => {
+      const end = lease.end_date < today ? lease.end_date : today;
+      const stay = stays.get(lease.tenant_id);
+      stays.set(lease.tenant_id, {
+        start: stay && stay.start < lease.start_date ? stay.start : lease.start_date,
+        end: stay && stay.end > end ? stay.end : end
+      });
+    });
+
+    const avgTenantStay = Array.from(stays.values()).reduce((sum, stay) => {
+      const start = new Date(stay.start);
+      const end = new Date(stay.end);
       const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
-      return sum + months;
-    }, 0) / (activeTenants.length || 1);
+      return sum + Math.max(0, months);
+    }, 0) / (stays.size || 1);
 
     // Calculate tenant turnover rate
     const { data: historicalTenants } = await supabase
@@ -158,6 +227,34 @@ export const propertyStatsService = {
   }
 };
 
+export interface FinancialReportMonth {
+  month: string;
+  revenue: number;
+  pending: number;
+  overdue: number;
+  late_fees: number;
+  occupancy_rate: number;
+}
+
+export const reportService = {
+  // Computed by the database, which refuses plans without financial_reports
+  async getFinancialReport(propertyId: string, startDate: string, endDate: string) {
+    const { data, error } = await supabase.rpc('financial_report', {
+      p_property_id: propertyId,
+      p_start: startDate,
+      p_end: endDate
+    });
+    if (error) throw error;
+    return (data as FinancialReportMonth[]).map(row => ({
+      ...row,
+      revenue: Number(row.revenue),
+      pending: Number(row.pending),
+      overdue: Number(row.overdue),
+      late_fees: Number(row.late_fees)
+    }));
+  }
+};
+
 export const settingsService = {
   async get(): Promise<UserSettings> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -176,11 +273,13 @@ export const settingsService = {
           user_id: user.id,
           email_notifications: true,
           payment_reminders: true,
+          auto_billing: true,
           maintenance_updates: true,
           new_tenants: true,
           currency: 'IDR',
           date_format: 'DD/MM/YYYY',
           payment_reminder_days: 5,
+          lease_expiry_reminder_days: 30,
           session_timeout: 30,
           login_notifications: true,
           two_factor_enabled: false
@@ -216,11 +315,201 @@ export const settingsService = {
   }
 };
 
+// Two-factor authentication with Supabase Auth MFA (TOTP)
+export const mfaService = {
+  // The signed-in user's verified TOTP factor, if any
+  async getTotpFactor() {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+    if (error) throw error;
+    return data.totp[0] ?? null;
+  },
+
+  // Whether the session still has to pass the second factor
+  async needsChallenge() {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (error) throw error;
+    return data.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+  },
+
+  async enroll() {
+    // Factors left unverified by an abandoned enrollment would block a new one
+    const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+    if (factorsError) throw factorsError;
+    for (const factor of factors.all.filter(factor => factor.status === 'unverified')) {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: 'KostManager' });
+    if (error) throw error;
+    return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+  },
+
+  async verify(factorId: string, code: string) {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+    if (error) throw error;
+  },
+
+  // Completes an enrollment and returns the recovery codes to show once
+  async activate(factorId: string, code: string) {
+    await mfaService.verify(factorId, code);
+    await settingsService.update({ two_factor_enabled: true });
+    return mfaService.regenerateRecoveryCodes();
+  },
+
+  async disable(factorId: string) {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId });
+    if (error) throw error;
+    await settingsService.update({ two_factor_enabled: false });
+  },
+
+  // Replaces the recovery codes; needs a session that passed the second factor
+  async regenerateRecoveryCodes() {
+    const { data, error } = await supabase.rpc('regenerate_mfa_recovery_codes');
+    if (error) throw error;
+    return data as string[];
+  },
+
+  async getRecoveryCodesRemaining() {
+    const { data, error } = await supabase.rpc('mfa_recovery_codes_remaining');
+    if (error) throw error;
+    return data as number;
+  },
+
+  // Uses up a recovery code and removes the user's factors; false when the
+  // code does not match an unused one
+  async redeemRecoveryCode(code: string) {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mfa-recovery`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code }),
+      }
+    );
+
+    const result = await response.json();
+    if (result.error === 'invalid_recovery_code') return false;
+    if (!response.ok) throw new Error(result.error || 'Failed to use recovery code');
+
+    // The session still claims a second factor is pending until refreshed
+    const { error } = await supabase.auth.refreshSession();
+    if (error) throw error;
+    return true;
+  }
+};
+
+export const sessionService = {
+  async getActive(): Promise<ActiveSession[]> {
+    const { data, error } = await supabase.rpc('list_my_sessions');
+    if (error) throw error;
+    return data as ActiveSession[];
+  },
+
+  async signOutOthers() {
+    const { error } = await supabase.auth.signOut({ scope: 'others' });
+    if (error) throw error;
+  },
+
+  // Notifies the user of the new sign-in once per session, see notify_login
+  async notifyLogin() {
+    const { error } = await supabase.rpc('notify_login');
+    if (error) throw error;
+  }
+};
+
+// Permissions of the signed-in user per property, until clearCache()
+const permissionCache = new Map<string, Promise<PropertyPermissions>>();
+
+const loadPropertyPermissions = async (propertyId: string): Promise<PropertyPermissions> => {
+  const { data: role, error } = await supabase.rpc('property_role', { p_property_id: propertyId });
+  if (error) throw error;
+  if (!role || role === 'owner') {
+    return { role: role || null, permissions: [] };
+  }
+
+  const { data, error: permissionsError } = await supabase
+    .from('role_permissions')
+    .select('resource, action')
+    .eq('role', role);
+  if (permissionsError) throw permissionsError;
+
+  return {
+    role,
+    permissions: (data || []).map(permission => `${permission.resource}:${permission.action}`)
+  };
+};
+
+export const permissionService = {
+  async getForProperty(propertyId: string): Promise<PropertyPermissions> {
+    let permissions = permissionCache.get(propertyId);
+    if (!permissions) {
+      permissions = loadPropertyPermissions(propertyId);
+      permissionCache.set(propertyId, permissions);
+      // Failed loads are retried on the next call
+      permissions.catch(() => permissionCache.delete(propertyId));
+    }
+    return permissions;
+  },
+
+  clearCache() {
+    permissionCache.clear();
+  }
+};
+
+// Checked before writes so they fail with permission_denied instead of being
+// silently filtered; row level security enforces the same rules
+const requirePermission = async <R extends PermissionResource>(
+  propertyId: string | null,
+  resource: R,
+  action: PermissionAction<R>
+) => {
+  const permissions = propertyId ? await permissionService.getForProperty(propertyId) : null;
+  assertPermission(permissions, resource, action);
+};
+
+const requireRowPermission = async <R extends PermissionResource>(
+  table: string,
+  id: string,
+  resource: R,
+  action: PermissionAction<R>
+) => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('property_id')
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  await requirePermission(data.property_id, resource, action);
+};
+
 export const propertyService = {
+  // Owned properties and the ones shared with the user as a team member.
+  // Pending invitations also make a property readable, so the query is
+  // limited to those two instead of relying on row level security alone.
   async getAll() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('property_members')
+      .select('property_id')
+      .eq('user_id', user.id);
+    if (membershipsError) throw membershipsError;
+
+    const sharedIds = (memberships || []).map(membership => membership.property_id);
     const { data, error } = await supabase
       .from('properties')
       .select('*')
+      .or(sharedIds.length > 0
+        ? `owner_id.eq.${user.id},id.in.(${sharedIds.join(',')})`
+        : `owner_id.eq.${user.id}`)
       .order('created_at', { ascending: false });
     if (error) throw error;
     return data as Property[];
@@ -240,6 +529,7 @@ export const propertyService = {
   },
 
   async update(id: string, property: Partial<Property>) {
+    await requirePermission(id, 'properties', 'edit');
     const { data, error } = await supabase
       .from('properties')
       .update({ ...property, updated_at: new Date().toISOString() })
@@ -251,6 +541,7 @@ export const propertyService = {
   },
 
   async delete(id: string) {
+    await requirePermission(id, 'properties', 'delete');
     const { error } = await supabase
       .from('properties')
       .delete()
@@ -259,6 +550,100 @@ export const propertyService = {
   }
 };
 
+export const teamService = {
+  async getMembers(propertyId: string) {
+    const { data, error } = await supabase
+      .from('property_members')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('created_at');
+    if (error) throw error;
+    return data as PropertyMember[];
+  },
+
+  async getInvitations(propertyId: string) {
+    const { data, error } = await supabase
+      .from('property_invitations')
+      .select('*')
+      .eq('property_id', propertyId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PropertyInvitation[];
+  },
+
+  // The database lowercases the address and rejects owners, members and
+  // addresses with a pending invitation
+  // Raises permission_denied for a role the caller may not grant, see getGrantableRoles
+  async invite(propertyId: string, email: string, role: MemberRole) {
+    await requirePermission(propertyId, 'users', 'create');
+    const { data, error } = await supabase
+      .from('property_invitations')
+      .insert([{ property_id: propertyId, email, role }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PropertyInvitation;
+  },
+
+  async revokeInvitation(id: string) {
+    await requireRowPermission('property_invitations', id, 'users', 'delete');
+    const { error } = await supabase
+      .from('property_invitations')
+      .update({ status: 'revoked', updated_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  // The database only lets the owner grant admin and members grant roles at
+  // or below their own, and nobody change their own role
+  async updateMemberRole(id: string, role: MemberRole) {
+    await requireRowPermission('property_members', id, 'users', 'edit');
+    const { data, error } = await supabase.rpc('update_property_member_role', {
+      p_member_id: id,
+      p_role: role
+    });
+    if (error) throw error;
+    return data as PropertyMember;
+  },
+
+  async removeMember(id: string) {
+    await requireRowPermission('property_members', id, 'users', 'delete');
+    const { error } = await supabase
+      .from('property_members')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  // Pending invitations sent to the signed-in user's email address
+  async getMyInvitations() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.email) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('property_invitations')
+      .select('*, property:properties ( name, address, city )')
+      .eq('email', user.email.toLowerCase())
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PropertyInvitation[];
+  },
+
+  async acceptInvitation(id: string) {
+    const { data, error } = await supabase.rpc('accept_property_invitation', { p_invitation_id: id });
+    if (error) throw error;
+    permissionService.clearCache();
+    return data as PropertyMember;
+  },
+
+  async declineInvitation(id: string) {
+    const { error } = await supabase.rpc('decline_property_invitation', { p_invitation_id: id });
+    if (error) throw error;
+  }
+};
+
 export const roomService = {
   async getByPropertyId(propertyId: string) {
     const { data, error } = await supabase
@@ -271,6 +656,7 @@ export const roomService = {
   },
 
   async create(room: Omit<Room, 'id' | 'created_at' | 'updated_at'>) {
+    await requirePermission(room.property_id, 'rooms', 'create');
     const { data, error } = await supabase
       .from('rooms')
       .insert([room])
@@ -281,6 +667,7 @@ export const roomService = {
   },
 
   async update(id: string, room: Partial<Room>) {
+    await requireRowPermission('rooms', id, 'rooms', 'edit');
     const { data, error } = await supabase
       .from('rooms')
       .update({ ...room, updated_at: new Date().toISOString() })
@@ -292,6 +679,7 @@ export const roomService = {
   },
 
   async delete(id: string) {
+    await requireRowPermission('rooms', id, 'rooms', 'delete');
     const { error } = await supabase
       .from('rooms')
       .delete()
@@ -312,6 +700,7 @@ export const tenantService = {
   },
 
   async create(tenant: Omit<Tenant, 'id' | 'created_at' | 'updated_at'>) {
+    await requirePermission(tenant.property_id, 'tenants', 'create');
     const { data, error } = await supabase
       .from('tenants')
       .insert([tenant])
@@ -322,6 +711,7 @@ export const tenantService = {
   },
 
   async update(id: string, tenant: Partial<Tenant>) {
+    await requireRowPermission('tenants', id, 'tenants', 'edit');
     const { data, error } = await supabase
       .from('tenants')
       .update({ ...tenant, updated_at: new Date().toISOString() })
@@ -333,155 +723,1266 @@ export const tenantService = {
   },
 
   async delete(id: string) {
+    await requireRowPermission('tenants', id, 'tenants', 'delete');
     const { error } = await supabase
       .from('tenants')
       .delete()
       .eq('id', id);
     if (error) throw error;
+  },
+
+  async getStatement(tenantId: string): Promise<TenantStatementEntry[]> {
+    const [
+      { data: invoices, error: invoicesError },
+      { data: adjustments, error: adjustmentsError },
+      { data: deposits, error: depositsError },
+      { data: settlements, error: settlementsError }
+    ] = await Promise.all([
+      supabase
+        .from('payments')
+        .select('*')
+        .eq('tenant_id', tenantId),
+      supabase
+        .from('tenant_adjustments')
+        .select('*')
+        .eq('tenant_id', tenantId),
+      supabase
+        .from('tenant_deposits')
+        .select('*')
+        .eq('tenant_id', tenantId),
+      supabase
+        .from('deposit_settlements')
+        .select('*')
+        .eq('tenant_id', tenantId)
+    ]);
+    if (invoicesError) throw invoicesError;
+    if (adjustmentsError) throw adjustmentsError;
+    if (depositsError) throw depositsError;
+    if (settlementsError) throw settlementsError;
+
+    const invoiceIds = (invoices || []).map(i => i.id);
+    const { data: receipts, error: receiptsError } = invoiceIds.length > 0
+      ? await supabase
+          .from('payment_transactions')
+          .select('*')
+          .in('payment_id', invoiceIds)
+      : { data: [], error: null };
+    if (receiptsError) throw receiptsError;
+
+    const entries: Omit<TenantStatementEntry, 'balance'>[] = [
+      ...(invoices as Payment[] || []).map(invoice => ({
+        id: invoice.id,
+        date: invoice.due_date,
+        type: 'charge' as const,
+        description: invoice.notes || (invoice.kind === 'late_fee' ? 'Denda keterlambatan' : 'Tagihan sewa'),
+        debit: Number(invoice.amount),
+        credit: 0
+      })),
+      ...(receipts as PaymentTransaction[] || []).map(receipt => ({
+        id: receipt.id,
+        date: receipt.date,
+        type: 'payment' as const,
+        description: receipt.notes ? `Pembayaran - ${receipt.notes}` : 'Pembayaran',
+        debit: 0,
+        credit: Number(receipt.amount)
+      })),
+      ...(adjustments as TenantAdjustment[] || []).map(adjustment => ({
+        id: adjustment.id,
+        date: adjustment.date,
+        type: 'adjustment' as const,
+        description: adjustment.description,
+        debit: adjustment.amount > 0 ? Number(adjustment.amount) : 0,
+        credit: adjustment.amount < 0 ? Math.abs(Number(adjustment.amount)) : 0
+      })),
+      ...(deposits as TenantDeposit[] || []).map(deposit => ({
+        id: deposit.id,
+        date: deposit.date,
+        type: 'deposit' as const,
+        description: deposit.notes ? `Deposit diterima - ${deposit.notes}` : 'Deposit diterima',
+        debit: 0,
+        credit: 0,
+        deposit: Number(deposit.amount)
+      })),
+      ...(settlements as DepositSettlement[] || []).map(settlement => ({
+        id: settlement.id,
+        date: settlement.date,
+        type: 'deposit' as const,
+        description: 'Penyelesaian deposit saat keluar',
+        debit: 0,
+        credit: 0,
+        deposit: -Number(settlement.deposit_amount)
+      }))
+    ];
+
+    // Oldest first; on the same day charges come before the payments that settle them
+    const typeOrder = { charge: 0, adjustment: 1, deposit: 2, payment: 3 };
+    entries.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type]);
+
+    let balance = 0;
+    return entries.map(entry => {
+      balance += entry.debit - entry.credit;
+      return { ...entry, balance };
+    });
   }
 };
 
-export const paymentService = {
+export const tenantAdjustmentService = {
+  async create(adjustment: Omit<TenantAdjustment, 'id' | 'created_at' | 'created_by'>) {
+    const { data, error } = await supabase
+      .from('tenant_adjustments')
+      .insert([adjustment])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as TenantAdjustment;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('tenant_adjustments')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+export const leaseService = {
   async getByPropertyId(propertyId: string) {
     const { data, error } = await supabase
-      .from('payments')
+      .from('leases')
       .select('*')
       .eq('property_id', propertyId)
-      .order('created_at', { ascending: false });
+      .order('start_date', { ascending: true });
     if (error) throw error;
-    return data as Payment[];
+    return data as Lease[];
   },
 
-  async create(payment: Omit<Payment, 'id' | 'created_at' | 'updated_at'>) {
+  async getByTenantId(tenantId: string) {
     const { data, error } = await supabase
-      .from('payments')
-      .insert([payment])
+      .from('leases')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('start_date', { ascending: true });
+    if (error) throw error;
+    return data as Lease[];
+  },
+
+  async create(lease: Omit<Lease, 'id' | 'status' | 'expiry_notified_at' | 'created_by' | 'created_at' | 'updated_at'>) {
+    const { data, error } = await supabase
+      .from('leases')
+      .insert([{ ...lease, status: 'active' }])
       .select()
       .single();
     if (error) throw error;
-    return data as Payment;
+    return data as Lease;
   },
 
-  async update(id: string, payment: Partial<Payment>) {
+  async update(id: string, lease: Partial<Lease>) {
     const { data, error } = await supabase
-      .from('payments')
-      .update({ ...payment, updated_at: new Date().toISOString() })
+      .from('leases')
+      .update({ ...lease, updated_at: new Date().toISOString() })
       .eq('id', id)
       .select()
       .single();
     if (error) throw error;
-    return data as Payment;
+    return data as Lease;
   },
 
-  async delete(id: string) {
-    const { error } = await supabase
-      .from('payments')
-      .delete()
-      .eq('id', id);
-    if (error) throw error;
-  },
+  async renew(previous: Lease, terms: Pick<Lease, 'start_date' | 'end_date' | 'rent_amount' | 'billing_cycle' | 'deposit_amount' | 'notes'>) {
+    // Close the current lease first; only one lease per tenant may be active
+    await this.update(previous.id, { status: 'renewed' });
 
-  async deleteByTenantId(tenantId: string) {
-    const { error } = await supabase
-      .from('payments')
-      .delete()
-      .eq('tenantId', tenantId);
-    if (error) throw error;
+    try {
+      return await this.create({
+        ...terms,
+        tenant_id: previous.tenant_id,
+        room_id: previous.room_id,
+        property_id: previous.property_id,
+        previous_lease_id: previous.id
+      });
+    } catch (err) {
+      await this.update(previous.id, { status: 'active' });
+      throw err;
+    }
   }
 };
 
-export const maintenanceService = {
+export const agreementTemplateService = {
   async getByPropertyId(propertyId: string) {
     const { data, error } = await supabase
-      .from('maintenance_requests')
+      .from('agreement_templates')
       .select('*')
       .eq('property_id', propertyId)
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: true });
     if (error) throw error;
-    return data as MaintenanceRequest[];
+    return data as AgreementTemplate[];
   },
 
-  async create(request: Omit<MaintenanceRequest, 'id' | 'created_at' | 'updated_at'>) {
+  async create(template: Omit<AgreementTemplate, 'id' | 'created_at' | 'updated_at'>) {
+    if (template.is_default) await this.clearDefault(template.property_id);
     const { data, error } = await supabase
-      .from('maintenance_requests')
-      .insert([request])
+      .from('agreement_templates')
+      .insert([template])
       .select()
       .single();
     if (error) throw error;
-    return data as MaintenanceRequest;
+    return data as AgreementTemplate;
   },
 
-  async update(id: string, request: Partial<MaintenanceRequest>) {
+  async update(id: string, template: Partial<AgreementTemplate>) {
+    if (template.is_default && template.property_id) await this.clearDefault(template.property_id);
     const { data, error } = await supabase
-      .from('maintenance_requests')
-      .update({ ...request, updated_at: new Date().toISOString() })
+      .from('agreement_templates')
+      .update({ ...template, updated_at: new Date().toISOString() })
       .eq('id', id)
       .select()
       .single();
     if (error) throw error;
-    return data as MaintenanceRequest;
+    return data as AgreementTemplate;
   },
 
   async delete(id: string) {
     const { error } = await supabase
-      .from('maintenance_requests')
+      .from('agreement_templates')
       .delete()
       .eq('id', id);
     if (error) throw error;
+  },
+
+  async clearDefault(propertyId: string) {
+    const { error } = await supabase
+      .from('agreement_templates')
+      .update({ is_default: false })
+      .eq('property_id', propertyId)
+      .eq('is_default', true);
+    if (error) throw error;
   }
 };
 
-export const notificationService = {
-  async getAll() {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
+const TENANT_DOCUMENTS_BUCKET = 'tenant-documents';
 
+export const tenantDocumentService = {
+  async getByTenantId(tenantId: string) {
     const { data, error } = await supabase
-      .from('notifications')
+      .from('tenant_documents')
       .select('*')
-      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
+      .eq('tenant_id', tenantId)
       .order('created_at', { ascending: false });
-
     if (error) throw error;
-    return data as Notification[];
+    return data as TenantDocument[];
   },
 
-  async markAsRead(id: string) {
-    const { error } = await supabase
-      .from('notifications')
-      .update({ status: 'read' })
-      .eq('id', id);
+  async create(
+    document: Pick<TenantDocument, 'tenant_id' | 'property_id' | 'template_id' | 'lease_id' | 'title'>,
+    file: Blob
+  ) {
+    const filePath = `${document.property_id}/${document.tenant_id}/${Date.now()}-perjanjian.pdf`;
+    const { error: uploadError } = await supabase.storage
+      .from(TENANT_DOCUMENTS_BUCKET)
+      .upload(filePath, file, { contentType: 'application/pdf' });
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('tenant_documents')
+      .insert([{ ...document, file_path: filePath, status: 'generated' }])
+      .select()
+      .single();
     if (error) throw error;
+    return data as TenantDocument;
   },
 
-  async markAllAsRead() {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
+  async uploadSigned(document: TenantDocument, file: File) {
+    const extension = file.name.split('.').pop() || 'pdf';
+    const filePath = `${document.property_id}/${document.tenant_id}/${Date.now()}-ditandatangani.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(TENANT_DOCUMENTS_BUCKET)
+      .upload(filePath, file, { contentType: file.type });
+    if (uploadError) throw uploadError;
 
-    const { error } = await supabase
-      .from('notifications')
-      .update({ status: 'read' })
-      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
-      .eq('status', 'unread');
+    const { data, error } = await supabase
+      .from('tenant_documents')
+      .update({ signed_file_path: filePath, status: 'signed', signed_at: new Date().toISOString() })
+      .eq('id', document.id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as TenantDocument;
+  },
 
+  async getDownloadUrl(filePath: string) {
+    const { data, error } = await supabase.storage
+      .from(TENANT_DOCUMENTS_BUCKET)
+      .createSignedUrl(filePath, 60);
     if (error) throw error;
+    return data.signedUrl;
   },
 
-  async delete(id: string) {
+  async delete(document: TenantDocument) {
+    const { error: storageError } = await supabase.storage
+      .from(TENANT_DOCUMENTS_BUCKET)
+      .remove([document.file_path, ...(document.signed_file_path ? [document.signed_file_path] : [])]);
+    if (storageError) throw storageError;
+
     const { error } = await supabase
-      .from('notifications')
+      .from('tenant_documents')
       .delete()
-      .eq('id', id);
+      .eq('id', document.id);
+    if (error) throw error;
+  }
+};
+
+export const depositService = {
+  async getByTenantId(tenantId: string) {
+    const { data, error } = await supabase
+      .from('tenant_deposits')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('date', { ascending: true });
     if (error) throw error;
+    return data as TenantDeposit[];
   },
 
-  async create(notification: Omit<Notification, 'id' | 'created_at' | 'status'>) {
+  async create(deposit: Omit<TenantDeposit, 'id' | 'status' | 'settlement_id' | 'created_at' | 'created_by'>) {
     const { data, error } = await supabase
-      .from('notifications')
-      .insert([{ ...notification, status: 'unread' }])
+      .from('tenant_deposits')
+      .insert([deposit])
       .select()
       .single();
     if (error) throw error;
-    return data as Notification;
+    return data as TenantDeposit;
+  },
+
+  // Settles the held deposits, records the deductions and receives covered
+  // unpaid rent in one transaction, see settle_deposit
+  async settle(input: DepositSettlementInput) {
+    await requirePermission(input.property_id, 'tenants', 'edit');
+    const { data, error } = await supabase.rpc('settle_deposit', {
+      p_tenant_id: input.tenant_id,
+      p_room_id: input.room_id,
+      p_date: input.date,
+      p_refund_method: input.refund_method,
+      p_notes: input.notes,
+      p_deductions: input.deductions
+    });
+    if (error) throw error;
+    return data as { settlement: DepositSettlement; deductions: DepositDeduction[] };
   }
-};
\ No newline at end of file
+};
+
+export const paymentService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as Payment[];
+  },
+
+  async getByTenantId(tenantId: string) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('due_date', { ascending: true });
+    if (error) throw error;
+    return data as Payment[];
+  },
+
+  async getById(id: string) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', id)
+      .single();
+    if (error) throw error;
+    return data as Payment;
+  },
+
+  async create(payment: Omit<Payment, 'id' | 'created_at' | 'updated_at'>) {
+    await requirePermission(payment.property_id, 'payments', 'create');
+    const { data, error } = await supabase
+      .from('payments')
+      .insert([payment])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Payment;
+  },
+
+  async update(id: string, payment: Partial<Payment>) {
+    await requireRowPermission('payments', id, 'payments', 'edit');
+    const { data, error } = await supabase
+      .from('payments')
+      .update({ ...payment, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Payment;
+  },
+
+  async delete(id: string) {
+    await requireRowPermission('payments', id, 'payments', 'delete');
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async deleteByTenantId(tenantId: string) {
+    await requireRowPermission('tenants', tenantId, 'payments', 'delete');
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('tenantId', tenantId);
+    if (error) throw error;
+  }
+};
+
+const PAYMENT_PROOFS_BUCKET = 'payment-proofs';
+
+export const paymentProofService = {
+  async getByPaymentId(paymentId: string) {
+    const { data, error } = await supabase
+      .from('payment_proofs')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PaymentProof[];
+  },
+
+  async getPending(propertyId: string) {
+    const { data, error } = await supabase
+      .from('payment_proofs')
+      .select('*')
+      .eq('property_id', propertyId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return data as PaymentProof[];
+  },
+
+  // Used by tenants from the portal and by staff attaching a proof they received
+  async upload(payment: Payment, file: File, note?: string) {
+    const extension = file.name.split('.').pop() || 'jpg';
+    const filePath = `${payment.property_id}/${payment.id}/${Date.now()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(PAYMENT_PROOFS_BUCKET)
+      .upload(filePath, file, { contentType: file.type });
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('payment_proofs')
+      .insert([{
+        payment_id: payment.id,
+        property_id: payment.property_id,
+        file_path: filePath,
+        note: note || null
+      }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PaymentProof;
+  },
+
+  async getViewUrl(filePath: string) {
+    const { data, error } = await supabase.storage
+      .from(PAYMENT_PROOFS_BUCKET)
+      .createSignedUrl(filePath, 300);
+    if (error) throw error;
+    return data.signedUrl;
+  },
+
+  // Records the remaining balance as received, which marks the payment paid
+  async approve(proof: PaymentProof, date: string, paymentMethod: string) {
+    await requirePermission(proof.property_id, 'payments', 'edit');
+    const { error } = await supabase.rpc('approve_payment_proof', {
+      p_proof_id: proof.id,
+      p_date: date,
+      p_payment_method: paymentMethod
+    });
+    if (error) throw error;
+  },
+
+  async reject(proof: PaymentProof, reason: string) {
+    await requirePermission(proof.property_id, 'payments', 'edit');
+    const { error } = await supabase.rpc('reject_payment_proof', {
+      p_proof_id: proof.id,
+      p_reason: reason
+    });
+    if (error) throw error;
+  }
+};
+
+export const paymentTransactionService = {
+  async getByPaymentId(paymentId: string) {
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .order('date', { ascending: true });
+    if (error) throw error;
+    return data as PaymentTransaction[];
+  },
+
+  async create(transaction: Omit<PaymentTransaction, 'id' | 'created_at' | 'created_by'>) {
+    await requirePermission(transaction.property_id, 'payments', 'edit');
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .insert([transaction])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PaymentTransaction;
+  },
+
+  async delete(id: string) {
+    await requireRowPermission('payment_transactions', id, 'payments', 'delete');
+    const { error } = await supabase
+      .from('payment_transactions')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+export const reconciliationService = {
+  // References of the given statement credits that were already recorded as receipts
+  async getRecordedReferences(propertyId: string, credits: BankCredit[]) {
+    if (credits.length === 0) return [];
+
+    const dates = credits.map(credit => credit.date).sort();
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .select('bank_reference')
+      .eq('property_id', propertyId)
+      .not('bank_reference', 'is', null)
+      .gte('date', dates[0])
+      .lte('date', dates[dates.length - 1]);
+    if (error) throw error;
+    return (data as Pick<PaymentTransaction, 'bank_reference'>[]).map(row => row.bank_reference as string);
+  },
+
+  // Record each confirmed credit as a receipt; the balance trigger updates the payment's status and date
+  async confirmMatches(
+    propertyId: string,
+    bank: StatementBank | null,
+    matches: { paymentId: string; credit: BankCredit; amount: number }[]
+  ) {
+    await requirePermission(propertyId, 'payments', 'edit');
+    const { error } = await supabase
+      .from('payment_transactions')
+      .insert(matches.map(({ paymentId, credit, amount }) => ({
+        payment_id: paymentId,
+        property_id: propertyId,
+        amount,
+        date: credit.date,
+        payment_method: 'transfer',
+        notes: `Mutasi ${bank || 'bank'}: ${credit.description}`.slice(0, 200),
+        bank_reference: credit.reference
+      })));
+    if (error) throw error;
+  }
+};
+
+export const importService = {
+  async getExistingRooms(propertyId: string) {
+    const { data, error } = await supabase
+      .from('rooms')
+      .select('id, name, status, price')
+      .eq('property_id', propertyId);
+    if (error) throw error;
+    return data as ExistingRoom[];
+  },
+
+  async importRooms(propertyId: string, rows: RoomImportData[]) {
+    const { data, error } = await supabase
+      .from('rooms')
+      .insert(rows.map(row => ({
+        ...row,
+        status: 'vacant',
+        property_id: propertyId
+      })))
+      .select();
+    if (error) throw error;
+    return data as Room[];
+  },
+
+  async importTenants(propertyId: string, rows: TenantImportData[], rooms: ExistingRoom[]) {
+    const { data, error } = await supabase
+      .from('tenants')
+      .insert(rows.map(row => ({
+        ...row,
+        status: 'active',
+        payment_status: 'pending',
+        property_id: propertyId
+      })))
+      .select();
+    if (error) throw error;
+    const tenants = data as Tenant[];
+
+    // Occupy the assigned rooms
+    for (const tenant of tenants.filter(t => t.room_id)) {
+      const { error: roomError } = await supabase
+        .from('rooms')
+        .update({ status: 'occupied', tenant_id: tenant.id })
+        .eq('id', tenant.room_id as string);
+      if (roomError) throw roomError;
+    }
+
+    // Every imported stay starts with a lease, as when adding a tenant by hand
+    const { error: leasesError } = await supabase
+      .from('leases')
+      .insert(tenants.map(tenant => ({
+        tenant_id: tenant.id,
+        room_id: tenant.room_id,
+        property_id: propertyId,
+        start_date: tenant.start_date,
+        end_date: tenant.end_date,
+        rent_amount: Number(rooms.find(r => r.id === tenant.room_id)?.price || 0),
+        billing_cycle: 'monthly',
+        status: 'active'
+      })));
+    if (leasesError) throw leasesError;
+
+    return tenants;
+  }
+};
+
+export interface PlanChangeResult {
+  status: 'changed' | 'scheduled' | 'trialing' | 'pending_payment' | 'rejected';
+  amount?: number;
+  effective_at?: string;
+  invoice_number?: string;
+  payment_url?: string;
+  violations?: string[];
+}
+
+const callChangeSubscription = async (body: { action: string; plan_id?: string }) => {
+  const { data: session } = await supabase.auth.getSession();
+  if (!session?.session?.access_token) throw new Error('Not authenticated');
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/change-subscription`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  const result = await response.json();
+  // 409: the owner's usage does not fit the requested plan
+  if (response.status === 409) {
+    return { status: 'rejected', violations: result.violations } as PlanChangeResult;
+  }
+  if (!response.ok) throw new Error(result.error || 'Failed to change subscription');
+  return result as PlanChangeResult;
+};
+
+export const subscriptionService = {
+  async getCurrent() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('*, subscription_plans ( * )')
+      .eq('user_id', user.id)
+      .in('status', ['trialing', 'active', 'past_due'])
+      // Same rule as plan_features: the newest live subscription is current
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const { subscription_plans: plan, ...subscription } = data;
+    let scheduledPlan: SubscriptionPlan | null = null;
+    if (subscription.scheduled_plan_id) {
+      const { data: scheduled, error: scheduledError } = await supabase
+        .from('subscription_plans')
+        .select('*')
+        .eq('id', subscription.scheduled_plan_id)
+        .maybeSingle();
+      if (scheduledError) throw scheduledError;
+      scheduledPlan = scheduled as SubscriptionPlan | null;
+    }
+
+    return { ...subscription, plan, scheduled_plan: scheduledPlan } as Subscription;
+  },
+
+  // Plan of the owner of a property shared with the signed-in user
+  async getPropertyPlan(propertyId: string) {
+    const { data, error } = await supabase
+      .rpc('property_plan', { p_property_id: propertyId })
+      .single();
+    if (error) throw error;
+    return data as { features: SubscriptionPlan['features']; max_rooms_per_property: number };
+  },
+
+  // Trials are only offered on an owner's first subscription
+  async isTrialEligible() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { count, error } = await supabase
+      .from('subscriptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+    if (error) throw error;
+    return count === 0;
+  },
+
+  async getPlans() {
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .order('price');
+    if (error) throw error;
+    return data as SubscriptionPlan[];
+  },
+
+  async getChanges() {
+    const { data, error } = await supabase
+      .from('subscription_changes')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as SubscriptionChange[];
+  },
+
+  // Backoffice users pass the owner whose billing history they are viewing
+  async getInvoices(userId?: string) {
+    let ownerId = userId;
+    if (!ownerId) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      ownerId = user.id;
+    }
+
+    const { data, error } = await supabase
+      .from('subscription_invoices')
+      .select('*')
+      .eq('user_id', ownerId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as SubscriptionInvoice[];
+  },
+
+  async getUsage(): Promise<PlanUsage> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('properties')
+      .select('name, rooms ( count )')
+      .eq('owner_id', user.id);
+    if (error) throw error;
+
+    const properties = data as unknown as { name: string; rooms: { count: number }[] }[];
+    return {
+      properties: properties.length,
+      rooms: properties.map(property => ({
+        property_name: property.name,
+        count: property.rooms?.[0]?.count ?? 0
+      }))
+    };
+  },
+
+  changePlan(planId: string) {
+    return callChangeSubscription({ action: 'change', plan_id: planId });
+  },
+
+  cancelAtPeriodEnd() {
+    return callChangeSubscription({ action: 'cancel' });
+  },
+
+  resume() {
+    return callChangeSubscription({ action: 'resume' });
+  },
+
+  cancelScheduledChange() {
+    return callChangeSubscription({ action: 'cancel_scheduled_change' });
+  }
+};
+
+const PROPERTY_BACKUPS_BUCKET = 'property-backups';
+
+export const backupService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('property_backups')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PropertyBackup[];
+  },
+
+  async create(property: Property) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const [rooms, tenants, payments, maintenanceRequests] = await Promise.all([
+      supabase.from('rooms').select('*').eq('property_id', property.id),
+      supabase.from('tenants').select('*').eq('property_id', property.id),
+      supabase.from('payments').select('*').eq('property_id', property.id),
+      supabase.from('maintenance_requests').select('*').eq('property_id', property.id)
+    ]);
+    if (rooms.error) throw rooms.error;
+    if (tenants.error) throw tenants.error;
+    if (payments.error) throw payments.error;
+    if (maintenanceRequests.error) throw maintenanceRequests.error;
+
+    const archive: BackupArchive = {
+      format_version: BACKUP_FORMAT_VERSION,
+      created_at: new Date().toISOString(),
+      property_id: property.id,
+      tables: {
+        properties: [property],
+        rooms: rooms.data as Room[],
+        tenants: tenants.data as Tenant[],
+        payments: payments.data as Payment[],
+        maintenance_requests: maintenanceRequests.data as MaintenanceRequest[]
+      }
+    };
+    const file = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+
+    const filePath = `${user.id}/${property.id}/${Date.now()}-manual.json`;
+    const { error: uploadError } = await supabase.storage
+      .from(PROPERTY_BACKUPS_BUCKET)
+      .upload(filePath, file, { contentType: 'application/json' });
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('property_backups')
+      .insert([{
+        owner_id: user.id,
+        property_id: property.id,
+        property_name: property.name,
+        format_version: BACKUP_FORMAT_VERSION,
+        trigger: 'manual',
+        file_path: filePath,
+        size_bytes: file.size,
+        row_counts: countBackupRows(archive)
+      }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PropertyBackup;
+  },
+
+  async download(backup: PropertyBackup) {
+    const { data, error } = await supabase.storage
+      .from(PROPERTY_BACKUPS_BUCKET)
+      .download(backup.file_path);
+    if (error) throw error;
+    return parseBackupArchive(await data.text());
+  },
+
+  async delete(backup: PropertyBackup) {
+    const { error: storageError } = await supabase.storage
+      .from(PROPERTY_BACKUPS_BUCKET)
+      .remove([backup.file_path]);
+    if (storageError) throw storageError;
+
+    const { error } = await supabase
+      .from('property_backups')
+      .delete()
+      .eq('id', backup.id);
+    if (error) throw error;
+  },
+
+  // Restores every row in the archive over the current data. Rows created after
+  // the backup are left in place.
+  async restoreProperty(archive: BackupArchive) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { tables } = archive;
+    const { error: propertyError } = await supabase
+      .from('properties')
+      .upsert({ ...tables.properties[0], owner_id: user.id });
+    if (propertyError) throw propertyError;
+
+    // Rooms and tenants reference each other, so rooms are written without
+    // their tenant first and linked again once the tenants exist
+    if (tables.rooms.length > 0) {
+      const { error } = await supabase
+        .from('rooms')
+        .upsert(tables.rooms.map(room => ({ ...room, tenant_id: null })));
+      if (error) throw error;
+    }
+    if (tables.tenants.length > 0) {
+      const { error } = await supabase.from('tenants').upsert(tables.tenants);
+      if (error) throw error;
+    }
+    if (tables.rooms.some(room => room.tenant_id)) {
+      const { error } = await supabase
+        .from('rooms')
+        .upsert(tables.rooms.filter(room => room.tenant_id));
+      if (error) throw error;
+    }
+    if (tables.maintenance_requests.length > 0) {
+      const { error } = await supabase.from('maintenance_requests').upsert(tables.maintenance_requests);
+      if (error) throw error;
+    }
+    if (tables.payments.length > 0) {
+      const { error } = await supabase.from('payments').upsert(tables.payments);
+      if (error) throw error;
+    }
+  },
+
+  // Brings back one tenant with their payments and maintenance requests. The
+  // tenant only gets their room back when nobody else has moved in since.
+  async restoreTenant(archive: BackupArchive, tenantId: string) {
+    const tenant = archive.tables.tenants.find(t => t.id === tenantId);
+    if (!tenant) throw new Error('Penyewa tidak ada dalam cadangan');
+
+    let roomRestored = false;
+    let roomId: string | null = null;
+
+    if (tenant.room_id) {
+      const { data: currentRoom, error: roomError } = await supabase
+        .from('rooms')
+        .select('id, status, tenant_id')
+        .eq('id', tenant.room_id)
+        .maybeSingle();
+      if (roomError) throw roomError;
+
+      const archivedRoom = archive.tables.rooms.find(r => r.id === tenant.room_id);
+      if (!currentRoom && archivedRoom) {
+        const { error } = await supabase
+          .from('rooms')
+          .upsert({ ...archivedRoom, status: 'vacant', tenant_id: null });
+        if (error) throw error;
+      }
+
+      roomRestored = currentRoom
+        ? currentRoom.status === 'vacant' || currentRoom.tenant_id === tenant.id
+        : !!archivedRoom;
+      // Payments keep pointing at the room they were billed for, so it has to exist
+      roomId = currentRoom || archivedRoom ? tenant.room_id : null;
+    }
+
+    const { error: tenantError } = await supabase
+      .from('tenants')
+      .upsert({ ...tenant, room_id: roomRestored ? roomId : null });
+    if (tenantError) throw tenantError;
+
+    if (roomRestored && roomId) {
+      const { error } = await supabase
+        .from('rooms')
+        .update({ status: 'occupied', tenant_id: tenant.id })
+        .eq('id', roomId);
+      if (error) throw error;
+    }
+
+    const maintenanceRequests = archive.tables.maintenance_requests.filter(r => r.tenant_id === tenant.id && r.room_id === roomId);
+    if (maintenanceRequests.length > 0) {
+      const { error } = await supabase.from('maintenance_requests').upsert(maintenanceRequests);
+      if (error) throw error;
+    }
+
+    const payments = archive.tables.payments.filter(p => p.tenant_id === tenant.id && p.room_id === roomId);
+    if (payments.length > 0) {
+      const { error } = await supabase.from('payments').upsert(payments);
+      if (error) throw error;
+    }
+
+    return { roomRestored };
+  }
+};
+
+export const billingService = {
+  async preview(propertyId: string, period: string): Promise<InvoiceDraft[]> {
+    const [tenants, rooms, leases, { data: payments, error }] = await Promise.all([
+      tenantService.getByPropertyId(propertyId),
+      roomService.getByPropertyId(propertyId),
+      leaseService.getByPropertyId(propertyId),
+      supabase
+        .from('payments')
+        .select('*')
+        .eq('property_id', propertyId)
+        .eq('billing_period', period)
+    ]);
+    if (error) throw error;
+    return buildInvoiceDrafts(tenants, rooms, (payments || []) as Payment[], period, leases);
+  },
+
+  async generate(propertyId: string, period: string) {
+    const drafts = (await this.preview(propertyId, period)).filter(d => !d.skip_reason);
+    if (drafts.length === 0) return [] as Payment[];
+
+    const { data, error } = await supabase
+      .from('payments')
+      .insert(drafts.map(draft => ({
+        tenant_id: draft.tenant.id,
+        room_id: draft.room?.id || null,
+        amount: draft.amount,
+        date: null,
+        due_date: draft.due_date,
+        status: 'pending',
+        billing_period: draft.billing_period,
+        notes: `Tagihan sewa ${draft.billing_period}`,
+        property_id: propertyId
+      })))
+      .select();
+    if (error) throw error;
+
+    // Tenants who were fully paid now have an open invoice again
+    const paidTenantIds = drafts
+      .filter(d => d.tenant.payment_status === 'paid')
+      .map(d => d.tenant.id);
+    if (paidTenantIds.length > 0) {
+      const { error: tenantError } = await supabase
+        .from('tenants')
+        .update({ payment_status: 'pending' })
+        .in('id', paidTenantIds);
+      if (tenantError) throw tenantError;
+    }
+
+    return data as Payment[];
+  }
+};
+
+export const maintenanceService = {
+  async getByPropertyId(propertyId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as MaintenanceRequest[];
+  },
+
+  async create(request: Omit<MaintenanceRequest, 'id' | 'created_at' | 'updated_at'>) {
+    await requirePermission(request.property_id, 'maintenance', 'create');
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .insert([request])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceRequest;
+  },
+
+  async update(id: string, request: Partial<MaintenanceRequest>) {
+    await requireRowPermission('maintenance_requests', id, 'maintenance', 'edit');
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .update({ ...request, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceRequest;
+  },
+
+  async delete(id: string) {
+    await requireRowPermission('maintenance_requests', id, 'maintenance', 'delete');
+    const { error } = await supabase
+      .from('maintenance_requests')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  }
+};
+
+// A tenant record of the signed-in tenant with the room and property it is for
+export interface PortalTenancy extends Tenant {
+  room: Room | null;
+  property: Property | null;
+}
+
+/**
+ * Data access for the tenant portal. RLS limits a tenant to their own records,
+ * but a user can be both a tenant and an owner, so every query is also
+ * scoped to the tenant explicitly.
+ */
+export const tenantPortalService = {
+  async getTenancies(): Promise<PortalTenancy[]> {
+    // Links the tenant records of a confirmed email or phone the first time the tenant signs in
+    const { error: linkError } = await supabase.rpc('link_portal_tenants');
+    if (linkError) throw linkError;
+
+    const { data: portalTenants, error: portalError } = await supabase.rpc('portal_tenants');
+    if (portalError) throw portalError;
+
+    const ids = (portalTenants as { id: string }[]).map(tenant => tenant.id);
+    if (ids.length === 0) return [];
+
+    const { data: tenants, error } = await supabase
+      .from('tenants')
+      .select('*')
+      .in('id', ids)
+      .order('start_date', { ascending: false });
+    if (error) throw error;
+
+    const roomIds = [...new Set((tenants as Tenant[]).map(tenant => tenant.room_id).filter((id): id is string => !!id))];
+    const propertyIds = [...new Set((tenants as Tenant[]).map(tenant => tenant.property_id).filter((id): id is string => !!id))];
+
+    const [{ data: rooms, error: roomsError }, { data: properties, error: propertiesError }] = await Promise.all([
+      supabase.from('rooms').select('*').in('id', roomIds),
+      supabase.from('properties').select('*').in('id', propertyIds)
+    ]);
+    if (roomsError) throw roomsError;
+    if (propertiesError) throw propertiesError;
+
+    return (tenants as Tenant[]).map(tenant => ({
+      ...tenant,
+      room: (rooms as Room[]).find(room => room.id === tenant.room_id) ?? null,
+      property: (properties as Property[]).find(property => property.id === tenant.property_id) ?? null
+    }));
+  },
+
+  async getCurrentLease(tenantId: string) {
+    const { data, error } = await supabase
+      .from('leases')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('start_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data as Lease | null;
+  },
+
+  async getPayments(tenantId: string) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('due_date', { ascending: false });
+    if (error) throw error;
+    return data as Payment[];
+  },
+
+  async getPaymentProofs(paymentIds: string[]) {
+    if (paymentIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from('payment_proofs')
+      .select('*')
+      .in('payment_id', paymentIds)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as PaymentProof[];
+  },
+
+  async getMaintenanceRequests(tenantId: string) {
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data as MaintenanceRequest[];
+  },
+
+  async submitMaintenanceRequest(
+    tenancy: PortalTenancy,
+    request: Pick<MaintenanceRequest, 'title' | 'description' | 'priority'>
+  ) {
+    if (!tenancy.room_id || !tenancy.property_id) throw new Error('Tenant has no room');
+
+    const { data, error } = await supabase
+      .from('maintenance_requests')
+      .insert([{
+        ...request,
+        tenant_id: tenancy.id,
+        room_id: tenancy.room_id,
+        property_id: tenancy.property_id,
+        date: new Date().toISOString().split('T')[0],
+        status: 'pending'
+      }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as MaintenanceRequest;
+  }
+};
+
+export const notificationService = {
+  async getAll() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Notification[];
+  },
+
+  async markAsRead(id: string) {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ status: 'read' })
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async markAllAsRead() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ status: 'read' })
+      .or(`target_user_id.eq.${user.id},target_user_id.is.null`)
+      .eq('status', 'unread');
+
+    if (error) throw error;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async create(notification: Omit<Notification, 'id' | 'created_at' | 'status'>) {
+    const { data, error } = await supabase
+      .from('notifications')
+      .insert([{ ...notification, status: 'unread' }])
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Notification;
+  }
+};
+
+// Entries are written by database triggers on every audited table
+export const auditLogService = {
+  async getAll(filters: AuditLogFilters = {}, limit = 200) {
+    let query = supabase
+      .from('backoffice_audit_logs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (filters.propertyId) query = query.eq('property_id', filters.propertyId);
+    if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.actor) query = query.ilike('actor_email', `%${filters.actor}%`);
+    if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00`);
+    if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999`);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data as AuditLog[];
+  }
+};
@@ -19,13 +19,23 @@ export interface BackofficeNotification {
   target_property_id?: string;
 }
 
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType = 'properties' | 'rooms' | 'tenants' | 'payments' | 'maintenance_requests';
+
+// Changed columns; creates only have `new` and deletes only `old` values
+export type AuditChanges = Record<string, { old?: unknown; new?: unknown }>;
+
 export interface AuditLog {
   id: string;
-  user_id: string;
-  action: string;
-  entity_type: string;
+  // null for changes made by edge functions and scheduled jobs
+  user_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
   entity_id: string;
-  changes: Record<string, any>;
+  property_id: string | null;
+  changes: AuditChanges;
   created_at: string;
 }
 
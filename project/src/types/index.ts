@@ -5,6 +5,10 @@ export interface Property {
   city: string;
   phone: string;
   email: string;
+  late_fee_type?: 'none' | 'flat' | 'percentage';
+  late_fee_amount?: number;
+  late_fee_max?: number;
+  last_receipt_number?: number;
   created_at: string;
   updated_at: string;
   owner_id: string;
@@ -20,7 +24,10 @@ export interface Tenant {
   end_date: string;
   status: 'active' | 'inactive';
   payment_status: 'paid' | 'pending' | 'overdue';
+  billing_day?: number | null;
   property_id: string | null;
+  // Portal account, linked when the tenant first signs in
+  user_id?: string | null;
   created_at: string | null;
   updated_at: string | null;
 }
@@ -44,14 +51,147 @@ export interface Payment {
   amount: number;
   date: string | null;
   due_date: string;
-  status: 'paid' | 'pending' | 'overdue';
+  status: 'paid' | 'pending' | 'overdue' | 'partially_paid';
+  amount_paid?: number;
   payment_method?: string;
   notes?: string;
+  billing_period?: string | null;
+  kind?: 'rent' | 'late_fee';
+  related_payment_id?: string | null;
+  receipt_number?: string | null;
+  // Unique code added to the transfer amount so the bank credit identifies the invoice
+  payment_code?: number | null;
   property_id: string;
   created_at?: string;
   updated_at?: string;
 }
 
+export interface PaymentTransaction {
+  id: string;
+  payment_id: string;
+  property_id: string;
+  amount: number;
+  date: string;
+  payment_method?: string | null;
+  notes?: string | null;
+  // Set when the receipt was recorded from an imported bank statement line
+  bank_reference?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+// A transfer proof image uploaded for a payment
+export interface PaymentProof {
+  id: string;
+  payment_id: string;
+  property_id: string;
+  file_path: string;
+  status: 'pending' | 'approved' | 'rejected';
+  note?: string | null;
+  uploaded_by?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  rejection_reason?: string | null;
+  created_at: string;
+}
+
+export interface TenantAdjustment {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  amount: number;
+  date: string;
+  description: string;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface Lease {
+  id: string;
+  tenant_id: string;
+  room_id: string | null;
+  property_id: string;
+  start_date: string;
+  end_date: string;
+  rent_amount: number;
+  billing_cycle: 'monthly' | 'quarterly' | 'yearly';
+  deposit_amount: number;
+  status: 'active' | 'renewed' | 'ended';
+  previous_lease_id?: string | null;
+  notes?: string | null;
+  expiry_notified_at?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AgreementTemplate {
+  id: string;
+  property_id: string;
+  name: string;
+  body: string;
+  house_rules?: string | null;
+  is_default: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface TenantDocument {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  template_id?: string | null;
+  lease_id?: string | null;
+  title: string;
+  file_path: string;
+  signed_file_path?: string | null;
+  status: 'generated' | 'signed';
+  signed_at?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface TenantDeposit {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  amount: number;
+  date: string;
+  payment_method?: string | null;
+  notes?: string | null;
+  status: 'held' | 'settled';
+  settlement_id?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface DepositSettlement {
+  id: string;
+  tenant_id: string;
+  property_id: string;
+  room_id?: string | null;
+  date: string;
+  deposit_amount: number;
+  total_deductions: number;
+  refund_amount: number;
+  refund_method?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface DepositDeduction {
+  id: string;
+  settlement_id: string;
+  property_id: string;
+  type: 'unpaid_rent' | 'damage' | 'other';
+  description: string;
+  amount: number;
+  payment_id?: string | null;
+  maintenance_request_id?: string | null;
+  created_at?: string;
+}
+
 export interface MaintenanceRequest {
   id: string;
   room_id: string;
@@ -66,6 +206,19 @@ export interface MaintenanceRequest {
   updated_at?: string;
 }
 
+export interface PropertyBackup {
+  id: string;
+  owner_id: string;
+  property_id: string;
+  property_name: string;
+  format_version: number;
+  trigger: 'manual' | 'scheduled';
+  file_path: string;
+  size_bytes: number;
+  row_counts: Record<string, number>;
+  created_at: string;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -73,6 +226,30 @@ export interface User {
   role: 'admin' | 'manager' | 'staff';
 }
 
+// A user other than the owner who works on a property
+export interface PropertyMember {
+  id: string;
+  property_id: string;
+  user_id: string;
+  role: User['role'];
+  email?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PropertyInvitation {
+  id: string;
+  property_id: string;
+  email: string;
+  role: User['role'];
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  invited_by?: string | null;
+  responded_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  property?: Pick<Property, 'name' | 'address' | 'city'>;
+}
+
 export interface FinancialSummary {
   totalRevenue: number;
   pendingPayments: number;
@@ -5,6 +5,10 @@ export interface SubscriptionPlan {
   price: number;
   max_properties: number;
   max_rooms_per_property: number;
+  // Free days for an owner's first subscription; 0 means no trial
+  trial_days: number;
+  // Retired plans keep their subscribers but cannot be chosen
+  is_active: boolean;
   features: {
     tenant_data: boolean;
     auto_billing: boolean;
@@ -23,11 +27,87 @@ export interface Subscription {
   id: string;
   user_id: string;
   plan_id: string;
-  status: 'active' | 'cancelled' | 'expired';
+  status: 'trialing' | 'active' | 'past_due' | 'cancelled' | 'expired';
   current_period_start: string;
   current_period_end: string;
   cancel_at_period_end: boolean;
+  trial_end?: string | null;
+  // Set while past_due: the account turns read-only after this moment
+  grace_until?: string | null;
+  scheduled_plan_id?: string | null;
   created_at: string;
   updated_at: string;
   plan?: SubscriptionPlan;
-}
\ No newline at end of file
+  scheduled_plan?: SubscriptionPlan | null;
+}
+
+export interface SubscriptionChange {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  change_type: 'start' | 'upgrade' | 'downgrade' | 'renewal' | 'cancellation';
+  from_plan_id: string | null;
+  to_plan_id: string | null;
+  amount: number;
+  effective_at: string;
+  created_at: string;
+}
+
+export interface SubscriptionInvoice {
+  id: string;
+  invoice_number: string;
+  user_id: string;
+  subscription_id: string | null;
+  plan_id: string;
+  plan_name: string;
+  kind: 'start' | 'upgrade' | 'renewal';
+  amount: number;
+  status: 'pending' | 'paid' | 'failed' | 'expired' | 'void';
+  period_start: string | null;
+  period_end: string | null;
+  // Promo discount already taken off amount
+  discount_amount: number;
+  promo_redemption_id: string | null;
+  due_date: string;
+  provider: string;
+  provider_reference: string | null;
+  payment_url: string | null;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  max_redemptions: number | null;
+  redemption_count: number;
+  // Empty when the code applies to every plan
+  plan_ids: string[];
+  // Billed months the discount lasts; null for every month
+  duration_months: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromoRedemption {
+  id: string;
+  promo_code_id: string;
+  user_id: string;
+  subscription_id: string;
+  plan_id: string;
+  discount_type: PromoCode['discount_type'];
+  discount_value: number;
+  plan_ids: string[];
+  duration_months: number | null;
+  months_applied: number;
+  discount_total: number;
+  revenue_total: number;
+  created_at: string;
+}
@@ -17,6 +17,10 @@ export interface Database {
           city: string
           phone: string | null
           email: string | null
+          late_fee_type: string
+          late_fee_amount: number
+          late_fee_max: number
+          last_receipt_number: number
           created_at: string | null
           updated_at: string | null
           owner_id: string
@@ -28,6 +32,10 @@ export interface Database {
           city: string
           phone?: string | null
           email?: string | null
+          late_fee_type?: string
+          late_fee_amount?: number
+          late_fee_max?: number
+          last_receipt_number?: number
           created_at?: string | null
           updated_at?: string | null
           owner_id: string
@@ -39,6 +47,10 @@ export interface Database {
           city?: string
           phone?: string | null
           email?: string | null
+          late_fee_type?: string
+          late_fee_amount?: number
+          late_fee_max?: number
+          last_receipt_number?: number
           created_at?: string | null
           updated_at?: string | null
           owner_id?: string
@@ -96,6 +108,7 @@ export interface Database {
           end_date: string
           status: string
           payment_status: string
+          billing_day: number | null
           property_id: string | null
           created_at: string | null
           updated_at: string | null
@@ -110,6 +123,7 @@ export interface Database {
           end_date: string
           status: string
           payment_status: string
+          billing_day?: number | null
           property_id?: string | null
           created_at?: string | null
           updated_at?: string | null
@@ -124,6 +138,7 @@ export interface Database {
           end_date?: string
           status?: string
           payment_status?: string
+          billing_day?: number | null
           property_id?: string | null
           created_at?: string | null
           updated_at?: string | null
@@ -135,11 +150,16 @@ export interface Database {
           tenant_id: string | null
           room_id: string | null
           amount: number
+          amount_paid: number
           date: string | null
           due_date: string
           status: string
           payment_method: string | null
           notes: string | null
+          billing_period: string | null
+          kind: string
+          related_payment_id: string | null
+          receipt_number: string | null
           property_id: string | null
           created_at: string | null
           updated_at: string | null
@@ -149,11 +169,16 @@ export interface Database {
           tenant_id?: string | null
           room_id?: string | null
           amount: number
+          amount_paid?: number
           date?: string | null
           due_date: string
           status: string
           payment_method?: string | null
           notes?: string | null
+          billing_period?: string | null
+          kind?: string
+          related_payment_id?: string | null
+          receipt_number?: string | null
           property_id?: string | null
           created_at?: string | null
           updated_at?: string | null
@@ -163,16 +188,378 @@ export interface Database {
           tenant_id?: string | null
           room_id?: string | null
           amount?: number
+          amount_paid?: number
           date?: string | null
           due_date?: string
           status?: string
           payment_method?: string | null
           notes?: string | null
+          billing_period?: string | null
+          kind?: string
+          related_payment_id?: string | null
+          receipt_number?: string | null
           property_id?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
       }
+      payment_transactions: {
+        Row: {
+          id: string
+          payment_id: string
+          property_id: string | null
+          amount: number
+          date: string
+          payment_method: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          payment_id: string
+          property_id?: string | null
+          amount: number
+          date?: string
+          payment_method?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          payment_id?: string
+          property_id?: string | null
+          amount?: number
+          date?: string
+          payment_method?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      tenant_adjustments: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          amount: number
+          date: string
+          description: string
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          amount: number
+          date?: string
+          description: string
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          amount?: number
+          date?: string
+          description?: string
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      leases: {
+        Row: {
+          id: string
+          tenant_id: string
+          room_id: string | null
+          property_id: string | null
+          start_date: string
+          end_date: string
+          rent_amount: number
+          billing_cycle: string
+          deposit_amount: number
+          status: string
+          previous_lease_id: string | null
+          notes: string | null
+          expiry_notified_at: string | null
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          room_id?: string | null
+          property_id?: string | null
+          start_date: string
+          end_date: string
+          rent_amount?: number
+          billing_cycle?: string
+          deposit_amount?: number
+          status?: string
+          previous_lease_id?: string | null
+          notes?: string | null
+          expiry_notified_at?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          room_id?: string | null
+          property_id?: string | null
+          start_date?: string
+          end_date?: string
+          rent_amount?: number
+          billing_cycle?: string
+          deposit_amount?: number
+          status?: string
+          previous_lease_id?: string | null
+          notes?: string | null
+          expiry_notified_at?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      agreement_templates: {
+        Row: {
+          id: string
+          property_id: string
+          name: string
+          body: string
+          house_rules: string | null
+          is_default: boolean
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          name: string
+          body: string
+          house_rules?: string | null
+          is_default?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          name?: string
+          body?: string
+          house_rules?: string | null
+          is_default?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      tenant_documents: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          template_id: string | null
+          lease_id: string | null
+          title: string
+          file_path: string
+          signed_file_path: string | null
+          status: string
+          signed_at: string | null
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          template_id?: string | null
+          lease_id?: string | null
+          title: string
+          file_path: string
+          signed_file_path?: string | null
+          status?: string
+          signed_at?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          template_id?: string | null
+          lease_id?: string | null
+          title?: string
+          file_path?: string
+          signed_file_path?: string | null
+          status?: string
+          signed_at?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      property_backups: {
+        Row: {
+          id: string
+          owner_id: string
+          property_id: string
+          property_name: string
+          format_version: number
+          trigger: string
+          file_path: string
+          size_bytes: number
+          row_counts: Json
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          owner_id: string
+          property_id: string
+          property_name: string
+          format_version: number
+          trigger?: string
+          file_path: string
+          size_bytes?: number
+          row_counts?: Json
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          owner_id?: string
+          property_id?: string
+          property_name?: string
+          format_version?: number
+          trigger?: string
+          file_path?: string
+          size_bytes?: number
+          row_counts?: Json
+          created_at?: string | null
+        }
+      }
+      tenant_deposits: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          amount: number
+          date: string
+          payment_method: string | null
+          notes: string | null
+          status: string
+          settlement_id: string | null
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          amount: number
+          date?: string
+          payment_method?: string | null
+          notes?: string | null
+          status?: string
+          settlement_id?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          amount?: number
+          date?: string
+          payment_method?: string | null
+          notes?: string | null
+          status?: string
+          settlement_id?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      deposit_settlements: {
+        Row: {
+          id: string
+          tenant_id: string
+          property_id: string | null
+          room_id: string | null
+          date: string
+          deposit_amount: number
+          total_deductions: number
+          refund_amount: number
+          refund_method: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          tenant_id: string
+          property_id?: string | null
+          room_id?: string | null
+          date?: string
+          deposit_amount?: number
+          total_deductions?: number
+          refund_amount?: number
+          refund_method?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          tenant_id?: string
+          property_id?: string | null
+          room_id?: string | null
+          date?: string
+          deposit_amount?: number
+          total_deductions?: number
+          refund_amount?: number
+          refund_method?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      deposit_deductions: {
+        Row: {
+          id: string
+          settlement_id: string
+          property_id: string | null
+          type: string
+          description: string
+          amount: number
+          payment_id: string | null
+          maintenance_request_id: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          settlement_id: string
+          property_id?: string | null
+          type: string
+          description: string
+          amount: number
+          payment_id?: string | null
+          maintenance_request_id?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          settlement_id?: string
+          property_id?: string | null
+          type?: string
+          description?: string
+          amount?: number
+          payment_id?: string | null
+          maintenance_request_id?: string | null
+          created_at?: string | null
+        }
+      }
       maintenance_requests: {
         Row: {
           id: string
@@ -214,6 +601,70 @@ export interface Database {
           updated_at?: string | null
         }
       }
+      property_members: {
+        Row: {
+          id: string
+          property_id: string
+          user_id: string
+          role: string
+          email: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          user_id: string
+          role: string
+          email?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          user_id?: string
+          role?: string
+          email?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      property_invitations: {
+        Row: {
+          id: string
+          property_id: string
+          email: string
+          role: string
+          status: string
+          invited_by: string | null
+          responded_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          email: string
+          role: string
+          status?: string
+          invited_by?: string | null
+          responded_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          email?: string
+          role?: string
+          status?: string
+          invited_by?: string | null
+          responded_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,149 @@
+import jsPDF from 'jspdf';
+import { AgreementTemplate, Lease, Property, Room, Tenant } from '../types';
+import { formatAmountInWords, formatCurrency, formatDate, translateBillingCycle } from './formatters';
+
+interface AgreementData {
+  template: AgreementTemplate;
+  tenant: Tenant;
+  room?: Room;
+  property: Property;
+  lease?: Lease;
+  // Date printed on the agreement, kept with the document so it renders the same again
+  documentDate: string;
+}
+
+export const AGREEMENT_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: 'nama_penyewa', label: 'Nama penyewa' },
+  { key: 'telepon_penyewa', label: 'Telepon penyewa' },
+  { key: 'email_penyewa', label: 'Email penyewa' },
+  { key: 'nomor_kamar', label: 'Nomor kamar' },
+  { key: 'lantai', label: 'Lantai kamar' },
+  { key: 'harga_sewa', label: 'Harga sewa per bulan' },
+  { key: 'harga_sewa_terbilang', label: 'Harga sewa dalam huruf' },
+  { key: 'siklus_tagihan', label: 'Siklus tagihan' },
+  { key: 'deposit', label: 'Deposit' },
+  { key: 'tanggal_mulai', label: 'Tanggal mulai sewa' },
+  { key: 'tanggal_selesai', label: 'Tanggal selesai sewa' },
+  { key: 'nama_properti', label: 'Nama properti' },
+  { key: 'alamat_properti', label: 'Alamat properti' },
+  { key: 'kota', label: 'Kota' },
+  { key: 'tata_tertib', label: 'Tata tertib' },
+  { key: 'tanggal_dokumen', label: 'Tanggal dokumen' }
+];
+
+export const DEFAULT_AGREEMENT_BODY = `Pada tanggal {{tanggal_dokumen}}, yang bertanda tangan di bawah ini:
+
+1. Pengelola {{nama_properti}}, beralamat di {{alamat_properti}}, {{kota}}, selanjutnya disebut PIHAK PERTAMA.
+2. {{nama_penyewa}}, nomor telepon {{telepon_penyewa}}, selanjutnya disebut PIHAK KEDUA.
+
+PIHAK PERTAMA menyewakan kepada PIHAK KEDUA kamar nomor {{nomor_kamar}} lantai {{lantai}} untuk jangka waktu {{tanggal_mulai}} sampai dengan {{tanggal_selesai}}.
+
+Harga sewa adalah {{harga_sewa}} ({{harga_sewa_terbilang}}) per bulan, dibayar secara {{siklus_tagihan}}. PIHAK KEDUA menyerahkan deposit sebesar {{deposit}} yang akan dikembalikan pada akhir masa sewa setelah dikurangi kewajiban yang belum diselesaikan.
+
+PIHAK KEDUA bersedia mematuhi tata tertib yang berlaku sebagaimana tercantum dalam perjanjian ini.`;
+
+/**
+ * Build the values for every agreement placeholder; the lease's terms take precedence over the room and tenant
+ */
+export const getAgreementValues = ({ template, tenant, room, property, lease, documentDate }: AgreementData): Record<string, string> => {
+  const rent = lease ? Number(lease.rent_amount) : room ? Number(room.price) : 0;
+
+  return {
+    nama_penyewa: tenant.name,
+    telepon_penyewa: tenant.phone || '-',
+    email_penyewa: tenant.email || '-',
+    nomor_kamar: room?.number || '-',
+    lantai: room?.floor || '-',
+    harga_sewa: formatCurrency(rent),
+    harga_sewa_terbilang: formatAmountInWords(rent),
+    siklus_tagihan: translateBillingCycle(lease?.billing_cycle || 'monthly').toLowerCase(),
+    deposit: formatCurrency(lease ? Number(lease.deposit_amount) : 0),
+    tanggal_mulai: formatDate(lease?.start_date || tenant.start_date),
+    tanggal_selesai: formatDate(lease?.end_date || tenant.end_date),
+    nama_properti: property.name,
+    alamat_properti: property.address,
+    kota: property.city,
+    tata_tertib: template.house_rules || '-',
+    tanggal_dokumen: formatDate(documentDate)
+  };
+};
+
+/**
+ * Replace `{{placeholder}}` fields in a template text; unknown placeholders are left as they are
+ */
+export const fillAgreementTemplate = (text: string, values: Record<string, string>): string => {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+};
+
+/**
+ * Render a rental agreement (surat perjanjian sewa) to PDF from a property's template
+ */
+export const generateAgreementPDF = (data: AgreementData): jsPDF => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const lineHeight = 6;
+  const values = getAgreementValues(data);
+  const { property, tenant, template } = data;
+
+  // Letterhead
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(property.name, pageWidth / 2, 15, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`${property.address}, ${property.city}`, pageWidth / 2, 21, { align: 'center' });
+  doc.text([property.phone, property.email].filter(Boolean).join(' | '), pageWidth / 2, 26, { align: 'center' });
+  doc.setLineWidth(0.5);
+  doc.line(15, 30, pageWidth - 15, 30);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text('SURAT PERJANJIAN SEWA', pageWidth / 2, 40, { align: 'center' });
+
+  let y = 52;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+
+  const writeParagraphs = (text: string) => {
+    text.split('\n').forEach(paragraph => {
+      const lines: string[] = paragraph.trim() ? doc.splitTextToSize(paragraph, pageWidth - margin * 2) : [''];
+      lines.forEach(line => {
+        if (y > pageHeight - margin) {
+          doc.addPage();
+          y = margin;
+        }
+        doc.text(line, margin, y);
+        y += lineHeight;
+      });
+    });
+  };
+
+  writeParagraphs(fillAgreementTemplate(template.body, values));
+
+  // House rules are appended unless the template already places them
+  if (template.house_rules && !/\{\{\s*tata_tertib\s*\}\}/.test(template.body)) {
+    y += lineHeight;
+    doc.setFont('helvetica', 'bold');
+    writeParagraphs('Tata Tertib');
+    doc.setFont('helvetica', 'normal');
+    writeParagraphs(template.house_rules);
+  }
+
+  // Signature block
+  if (y > pageHeight - 60) {
+    doc.addPage();
+    y = margin;
+  }
+  y += lineHeight * 2;
+  doc.text(`${property.city}, ${values.tanggal_dokumen}`, pageWidth - margin - 60, y);
+  y += lineHeight * 2;
+  doc.text('PIHAK PERTAMA', margin, y);
+  doc.text('PIHAK KEDUA', pageWidth - margin - 60, y);
+  y += 30;
+  doc.text(`(${property.name})`, margin, y);
+  doc.text(`(${tenant.name})`, pageWidth - margin - 60, y);
+
+  return doc;
+};
@@ -0,0 +1,35 @@
+import { AuditChanges, AuditLog } from '../types/backoffice';
+
+export interface AuditChangeRow {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+/**
+ * The changed columns of an audit entry, sorted by column name
+ */
+export const getAuditChangeRows = (changes: AuditChanges): AuditChangeRow[] =>
+  Object.entries(changes || {})
+    .map(([field, change]) => ({ field, old: change.old, new: change.new }))
+    .sort((a, b) => a.field.localeCompare(b.field));
+
+/**
+ * A short name for the audited record: its name, title or number when it has one
+ */
+export const getAuditRecordLabel = (log: AuditLog): string => {
+  const values = Object.fromEntries(
+    Object.entries(log.changes || {}).map(([field, change]) => [field, change.new ?? change.old])
+  );
+  const label = values.name ?? values.title ?? values.number ?? values.receipt_number;
+  return label !== undefined && label !== null ? String(label) : log.entity_id.slice(0, 8);
+};
+
+/**
+ * An audited value as text; objects and arrays as JSON
+ */
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
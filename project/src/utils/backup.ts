@@ -0,0 +1,65 @@
+import { MaintenanceRequest, Payment, Property, Room, Tenant } from '../types';
+
+// Bump when the archive layout changes; restore refuses archives newer than this
+export const BACKUP_FORMAT_VERSION = 1;
+
+export const BACKUP_TABLES = ['properties', 'rooms', 'tenants', 'payments', 'maintenance_requests'] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export type BackupFrequency = 'weekly' | 'daily' | 'realtime';
+
+export interface BackupArchive {
+  format_version: number;
+  created_at: string;
+  property_id: string;
+  tables: {
+    properties: Property[];
+    rooms: Room[];
+    tenants: Tenant[];
+    payments: Payment[];
+    maintenance_requests: MaintenanceRequest[];
+  };
+}
+
+export const backupFrequencyLabels: Record<BackupFrequency, string> = {
+  weekly: 'Mingguan',
+  daily: 'Harian',
+  realtime: 'Setiap 15 menit'
+};
+
+export const countBackupRows = (archive: BackupArchive): Record<string, number> => {
+  return BACKUP_TABLES.reduce((counts, table) => ({
+    ...counts,
+    [table]: archive.tables[table].length
+  }), {} as Record<string, number>);
+};
+
+/**
+ * Parse a downloaded archive, rejecting files that are not backups or were written by a newer version
+ */
+export const parseBackupArchive = (text: string): BackupArchive => {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('Berkas cadangan rusak');
+  }
+
+  if (!archive || typeof archive.format_version !== 'number' || !archive.tables) {
+    throw new Error('Berkas bukan cadangan properti');
+  }
+  if (archive.format_version > BACKUP_FORMAT_VERSION) {
+    throw new Error('Cadangan dibuat oleh versi aplikasi yang lebih baru');
+  }
+  BACKUP_TABLES.forEach(table => {
+    if (!Array.isArray(archive.tables[table])) {
+      throw new Error(`Tabel ${table} tidak ada dalam cadangan`);
+    }
+  });
+  if (archive.tables.properties.length !== 1) {
+    throw new Error('Cadangan harus berisi tepat satu properti');
+  }
+
+  return archive;
+};
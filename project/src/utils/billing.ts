@@ -0,0 +1,135 @@
+import { format, getDaysInMonth, parseISO, endOfMonth, differenceInCalendarMonths } from 'date-fns';
+import { Lease, Payment, Room, Tenant } from '../types';
+
+export interface InvoiceDraft {
+  tenant: Tenant;
+  room?: Room;
+  amount: number;
+  due_date: string;
+  billing_period: string;
+  skip_reason: string | null;
+}
+
+/**
+ * Format a date as a billing period key (YYYY-MM)
+ */
+export const toBillingPeriod = (date: Date): string => {
+  return format(date, 'yyyy-MM');
+};
+
+/**
+ * Get the day of month a tenant's rent is due, defaulting to the day they moved in
+ */
+export const getBillingDay = (tenant: Tenant): number => {
+  if (tenant.billing_day) return tenant.billing_day;
+  return tenant.start_date ? parseISO(tenant.start_date).getDate() : 1;
+};
+
+/**
+ * Get a tenant's due date within a billing period, clamped to the last day of short months
+ */
+export const getDueDateForPeriod = (tenant: Tenant, period: string): string => {
+  const periodStart = parseISO(`${period}-01`);
+  const day = Math.min(getBillingDay(tenant), getDaysInMonth(periodStart));
+  return format(new Date(periodStart.getFullYear(), periodStart.getMonth(), day), 'yyyy-MM-dd');
+};
+
+/**
+ * Number of months covered by one invoice of a lease's billing cycle
+ */
+export const getCycleMonths = (cycle: Lease['billing_cycle']): number => {
+  switch (cycle) {
+    case 'quarterly':
+      return 3;
+    case 'yearly':
+      return 12;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Check whether a lease is invoiced in a period; longer cycles bill every N months from the lease start
+ */
+export const isLeaseBillingPeriod = (lease: Lease, period: string): boolean => {
+  const monthsSinceStart = differenceInCalendarMonths(parseISO(`${period}-01`), parseISO(lease.start_date));
+  return monthsSinceStart >= 0 && monthsSinceStart % getCycleMonths(lease.billing_cycle) === 0;
+};
+
+/**
+ * Build the invoices the billing engine would create for a period.
+ * Tenants that cannot be billed are kept in the list with a skip reason so the preview can explain them.
+ */
+export const buildInvoiceDrafts = (
+  tenants: Tenant[],
+  rooms: Room[],
+  payments: Payment[],
+  period: string,
+  leases: Lease[] = []
+): InvoiceDraft[] => {
+  const periodStart = `${period}-01`;
+  const periodEnd = format(endOfMonth(parseISO(periodStart)), 'yyyy-MM-dd');
+
+  return tenants
+    .filter(tenant => tenant.status === 'active')
+    .map(tenant => {
+      const room = rooms.find(r => r.id === tenant.room_id);
+      const lease = leases.find(l => l.tenant_id === tenant.id && l.status === 'active');
+      const dueDate = getDueDateForPeriod(tenant, period);
+
+      let skipReason: string | null = null;
+      if (!room) {
+        skipReason = 'Belum menempati kamar';
+      } else if (tenant.start_date && tenant.start_date > periodEnd) {
+        skipReason = 'Masa sewa belum dimulai';
+      } else if (tenant.end_date && tenant.end_date < periodStart) {
+        skipReason = 'Masa sewa sudah berakhir';
+      } else if (payments.some(p => p.tenant_id === tenant.id && p.billing_period === period)) {
+        skipReason = 'Tagihan periode ini sudah dibuat';
+      } else if (lease && !isLeaseBillingPeriod(lease, period)) {
+        skipReason = 'Bukan periode penagihan kontrak';
+      }
+
+      // The lease's rent takes precedence over the room's list price
+      const monthlyRent = lease ? Number(lease.rent_amount) : room ? Number(room.price) : 0;
+
+      return {
+        tenant,
+        room,
+        amount: lease ? monthlyRent * getCycleMonths(lease.billing_cycle) : monthlyRent,
+        due_date: dueDate,
+        billing_period: period,
+        skip_reason: skipReason
+      };
+    });
+};
+
+/**
+ * Get the amount already received against an invoice
+ */
+export const getPaidAmount = (payment: Payment): number => {
+  if (payment.status === 'paid') return Number(payment.amount);
+  return Number(payment.amount_paid || 0);
+};
+
+/**
+ * Get the balance still owed on an invoice
+ */
+export const getOutstandingAmount = (payment: Payment): number => {
+  return Math.max(0, Number(payment.amount) - getPaidAmount(payment));
+};
+
+/**
+ * Get the exact amount the tenant should transfer: the balance plus the invoice's unique code
+ */
+export const getTransferAmount = (payment: Payment): number => {
+  const outstanding = getOutstandingAmount(payment);
+  return outstanding > 0 ? outstanding + Number(payment.payment_code || 0) : 0;
+};
+
+/**
+ * Format a unique code with three digits, e.g. "037"
+ */
+export const formatPaymentCode = (code: number): string => {
+  return String(code).padStart(3, '0');
+};
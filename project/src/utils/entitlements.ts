@@ -0,0 +1,70 @@
+import { SubscriptionPlan } from '../types/subscription';
+
+export type PlanFeatures = SubscriptionPlan['features'];
+export type FeatureKey = keyof PlanFeatures;
+
+// Tiered value of a feature that can be required with can(feature, level)
+export type FeatureLevel<K extends FeatureKey> = Exclude<PlanFeatures[K], boolean>;
+
+/**
+ * Levels of tiered features from lowest to highest; `true` is the plain
+ * "included" level of features that also have named tiers.
+ * Keep in sync with has_feature in supabase/migrations.
+ */
+const FEATURE_LEVELS: { [K in FeatureKey]?: readonly PlanFeatures[K][] } = {
+  financial_reports: ['basic', 'advanced', 'predictive'],
+  data_backup: ['weekly', 'daily', 'realtime'],
+  analytics: [true, 'predictive'],
+  support: ['basic', 'priority', '24/7']
+};
+
+// Features the owner is entitled to; without a plan even reports are off
+export type Entitlements = Omit<PlanFeatures, 'financial_reports'> & {
+  financial_reports: PlanFeatures['financial_reports'] | false;
+};
+
+// What owners without a subscription get; mirrors plan_features in the database
+export const BASIC_FEATURES: Entitlements = {
+  tenant_data: true,
+  auto_billing: false,
+  billing_notifications: false,
+  financial_reports: false,
+  data_backup: false,
+  multi_user: false,
+  analytics: false,
+  support: 'basic'
+};
+
+export const BASIC_LIMITS = {
+  max_properties: 1,
+  max_rooms_per_property: 1
+};
+
+/**
+ * Whether the features include `feature`, at `level` or above when given
+ */
+export const hasEntitlement = <K extends FeatureKey>(
+  features: Entitlements | null,
+  feature: K,
+  level?: FeatureLevel<K>
+): boolean => {
+  if (!features) return false;
+
+  const value = features[feature] as PlanFeatures[K] | false | null | undefined;
+  if (value === false || value === null || value === undefined) return false;
+  if (level === undefined) return true;
+
+  const levels = (FEATURE_LEVELS[feature] || []) as readonly unknown[];
+  const have = levels.indexOf(value);
+  const need = levels.indexOf(level);
+  return have >= 0 && need >= 0 && have >= need;
+};
+
+// Message raised by require_feature in the database
+const FEATURE_NOT_AVAILABLE = 'feature_not_available';
+
+/**
+ * Whether a Supabase error was raised because the plan lacks the feature
+ */
+export const isFeatureNotAvailableError = (err: unknown): boolean =>
+  !!err && typeof err === 'object' && (err as { message?: string }).message === FEATURE_NOT_AVAILABLE;
@@ -23,13 +23,39 @@ export const formatDate = (dateString: string): string => {
   });
 };
 
+/**
+ * Format timestamp to locale date and time string
+ */
+export const formatDateTime = (dateString: string): string => {
+  if (!dateString) return '-';
+
+  return new Date(dateString).toLocaleString('id-ID', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * Phone number as digits with the 62 country code instead of a leading 0,
+ * as used by WhatsApp links and Supabase Auth
+ */
+export const toInternationalPhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith('0') ? '62' + digits.slice(1) : digits;
+};
+
 /**
  * Get status color based on payment status
  */
-export const getPaymentStatusColor = (status: 'paid' | 'pending' | 'overdue'): string => {
+export const getPaymentStatusColor = (status: 'paid' | 'pending' | 'overdue' | 'partially_paid'): string => {
   switch (status) {
     case 'paid':
       return 'bg-green-100 text-green-800';
+    case 'partially_paid':
+      return 'bg-blue-100 text-blue-800';
     case 'pending':
       return 'bg-yellow-100 text-yellow-800';
     case 'overdue':
@@ -90,10 +116,12 @@ export const getMaintenanceStatusColor = (status: 'pending' | 'in-progress' | 'c
 /**
  * Translate payment status to Indonesian
  */
-export const translatePaymentStatus = (status: 'paid' | 'pending' | 'overdue'): string => {
+export const translatePaymentStatus = (status: 'paid' | 'pending' | 'overdue' | 'partially_paid'): string => {
   switch (status) {
     case 'paid':
       return 'Lunas';
+    case 'partially_paid':
+      return 'Dibayar Sebagian';
     case 'pending':
       return 'Menunggu';
     case 'overdue':
@@ -149,4 +177,80 @@ export const translateMaintenanceStatus = (status: 'pending' | 'in-progress' | '
     default:
       return status;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Translate payment method to Indonesian
+ */
+export const translatePaymentMethod = (method?: string | null): string => {
+  switch (method) {
+    case 'transfer':
+      return 'Transfer Bank';
+    case 'cash':
+      return 'Tunai';
+    case 'card':
+      return 'Kartu Kredit/Debit';
+    case 'ewallet':
+      return 'E-Wallet';
+    case 'deposit':
+      return 'Potongan Deposit';
+    default:
+      return method || '-';
+  }
+};
+
+/**
+ * Translate lease billing cycle to Indonesian
+ */
+export const translateBillingCycle = (cycle: 'monthly' | 'quarterly' | 'yearly'): string => {
+  switch (cycle) {
+    case 'monthly':
+      return 'Bulanan';
+    case 'quarterly':
+      return 'Triwulanan';
+    case 'yearly':
+      return 'Tahunan';
+    default:
+      return cycle;
+  }
+};
+
+/**
+ * Translate lease status to Indonesian
+ */
+export const translateLeaseStatus = (status: 'active' | 'renewed' | 'ended'): string => {
+  switch (status) {
+    case 'active':
+      return 'Aktif';
+    case 'renewed':
+      return 'Diperpanjang';
+    case 'ended':
+      return 'Berakhir';
+    default:
+      return status;
+  }
+};
+
+const numberWords = ['', 'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan', 'sembilan', 'sepuluh', 'sebelas'];
+
+const spellNumber = (n: number): string => {
+  if (n < 12) return numberWords[n];
+  if (n < 20) return `${spellNumber(n - 10)} belas`;
+  if (n < 100) return `${spellNumber(Math.floor(n / 10))} puluh ${spellNumber(n % 10)}`;
+  if (n < 200) return `seratus ${spellNumber(n - 100)}`;
+  if (n < 1000) return `${spellNumber(Math.floor(n / 100))} ratus ${spellNumber(n % 100)}`;
+  if (n < 2000) return `seribu ${spellNumber(n - 1000)}`;
+  if (n < 1e6) return `${spellNumber(Math.floor(n / 1000))} ribu ${spellNumber(n % 1000)}`;
+  if (n < 1e9) return `${spellNumber(Math.floor(n / 1e6))} juta ${spellNumber(n % 1e6)}`;
+  if (n < 1e12) return `${spellNumber(Math.floor(n / 1e9))} miliar ${spellNumber(n % 1e9)}`;
+  return `${spellNumber(Math.floor(n / 1e12))} triliun ${spellNumber(n % 1e12)}`;
+};
+
+/**
+ * Spell out a rupiah amount in Indonesian words (terbilang)
+ */
+export const formatAmountInWords = (amount: number): string => {
+  const rounded = Math.round(Math.abs(amount));
+  const words = rounded === 0 ? 'nol' : spellNumber(rounded).replace(/\s+/g, ' ').trim();
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)} rupiah`;
+};
@@ -0,0 +1,230 @@
+import { format, isValid, parse } from 'date-fns';
+
+export type ImportKind = 'rooms' | 'tenants';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Header names recognised when mapping columns automatically
+  aliases: string[];
+}
+
+export interface RoomImportData {
+  name: string;
+  floor: string;
+  type: 'single' | 'double' | 'deluxe';
+  price: number;
+  facilities: string[];
+}
+
+export interface TenantImportData {
+  name: string;
+  phone: string;
+  email: string;
+  start_date: string;
+  end_date: string;
+  billing_day: number | null;
+  room_id: string | null;
+}
+
+export interface ImportRow<T> {
+  line: number;
+  data: T | null;
+  errors: string[];
+}
+
+export interface ExistingRoom {
+  id: string;
+  name: string;
+  status: string;
+  price: number;
+}
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  rooms: [
+    { key: 'name', label: 'Nomor Kamar', required: true, aliases: ['nomor', 'nomor kamar', 'kamar', 'no kamar', 'room', 'name', 'number'] },
+    { key: 'floor', label: 'Lantai', required: true, aliases: ['lantai', 'floor'] },
+    { key: 'type', label: 'Tipe', required: false, aliases: ['tipe', 'jenis', 'type'] },
+    { key: 'price', label: 'Harga per Bulan', required: true, aliases: ['harga', 'harga sewa', 'sewa', 'price'] },
+    { key: 'facilities', label: 'Fasilitas', required: false, aliases: ['fasilitas', 'facilities'] }
+  ],
+  tenants: [
+    { key: 'name', label: 'Nama', required: true, aliases: ['nama', 'nama penyewa', 'name'] },
+    { key: 'phone', label: 'Nomor Telepon', required: true, aliases: ['telepon', 'no telepon', 'nomor telepon', 'hp', 'no hp', 'whatsapp', 'phone'] },
+    { key: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail'] },
+    { key: 'start_date', label: 'Tanggal Mulai', required: true, aliases: ['mulai', 'tanggal mulai', 'tanggal masuk', 'start date'] },
+    { key: 'end_date', label: 'Tanggal Selesai', required: true, aliases: ['selesai', 'tanggal selesai', 'tanggal keluar', 'end date'] },
+    { key: 'room', label: 'Nomor Kamar', required: false, aliases: ['kamar', 'nomor kamar', 'no kamar', 'room'] },
+    { key: 'billing_day', label: 'Tanggal Tagihan', required: false, aliases: ['tanggal tagihan', 'tgl tagihan', 'billing day'] }
+  ]
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+/**
+ * Guess which spreadsheet column feeds each field from the header names
+ */
+export const autoMapColumns = (headers: string[], fields: ImportField[]): Record<string, number> => {
+  const mapping: Record<string, number> = {};
+  fields.forEach(field => {
+    const index = headers.findIndex(header => field.aliases.includes(normalize(header)));
+    mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+const cell = (row: string[], mapping: Record<string, number>, key: string) =>
+  mapping[key] >= 0 ? (row[mapping[key]] || '').trim() : '';
+
+/**
+ * Parse a date cell as written in Indonesian spreadsheets, or an Excel serial date
+ */
+export const parseImportDate = (value: string): string | null => {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Math.floor(Number(value));
+    if (serial > 0 && serial < 100000) {
+      return new Date(Date.UTC(1899, 11, 30) + serial * 86400000).toISOString().split('T')[0];
+    }
+  }
+
+  for (const pattern of ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd-MM-yyyy', 'd/M/yyyy', 'd-M-yyyy']) {
+    const date = parse(value, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+/**
+ * Normalise an Indonesian mobile number to 08xx form; returns null when it does not look like one
+ */
+export const normalizePhone = (value: string): string | null => {
+  const digits = value.replace(/[\s\-().]/g, '');
+  const local = digits.replace(/^\+?62/, '0');
+  return /^08\d{7,11}$/.test(local) ? local : null;
+};
+
+const parsePrice = (value: string): number => {
+  // Accept "1.500.000", "1,500,000" and "Rp 1.500.000"
+  return Number(value.replace(/[^\d]/g, ''));
+};
+
+/**
+ * Validate room rows against each other, the property's existing rooms and the plan's room limit
+ */
+export const validateRoomRows = (
+  rows: string[][],
+  mapping: Record<string, number>,
+  existingRooms: ExistingRoom[],
+  maxRooms: number
+): ImportRow<RoomImportData>[] => {
+  const taken = new Set(existingRooms.map(room => normalize(room.name)));
+  let remaining = Math.max(0, maxRooms - existingRooms.length);
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cell(row, mapping, 'name');
+    const floor = cell(row, mapping, 'floor');
+    const type = normalize(cell(row, mapping, 'type') || 'single');
+    const price = parsePrice(cell(row, mapping, 'price'));
+
+    if (!name) {
+      errors.push('Nomor kamar wajib diisi');
+    } else if (taken.has(normalize(name))) {
+      errors.push(`Nomor kamar ${name} sudah ada`);
+    }
+    if (!floor) errors.push('Lantai wajib diisi');
+    if (!['single', 'double', 'deluxe'].includes(type)) errors.push(`Tipe "${type}" tidak dikenal (single, double, deluxe)`);
+    if (!price) errors.push('Harga tidak valid');
+
+    if (errors.length === 0) {
+      if (remaining <= 0) {
+        errors.push(`Melebihi batas ${maxRooms} kamar per properti pada paket Anda`);
+      } else {
+        remaining--;
+      }
+    }
+    if (name) taken.add(normalize(name));
+
+    return {
+      line: index + 2,
+      errors,
+      data: errors.length > 0 ? null : {
+        name,
+        floor,
+        type: type as RoomImportData['type'],
+        price,
+        facilities: cell(row, mapping, 'facilities').split(/[,;]/).map(f => f.trim()).filter(Boolean)
+      }
+    };
+  });
+};
+
+/**
+ * Validate tenant rows: contact details, stay dates and that each room exists and is free
+ */
+export const validateTenantRows = (
+  rows: string[][],
+  mapping: Record<string, number>,
+  existingEmails: string[],
+  rooms: ExistingRoom[]
+): ImportRow<TenantImportData>[] => {
+  const emails = new Set(existingEmails.map(email => email.toLowerCase()));
+  const assignedRooms = new Set<string>();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cell(row, mapping, 'name');
+    const email = cell(row, mapping, 'email').toLowerCase();
+    const rawPhone = cell(row, mapping, 'phone');
+    const phone = normalizePhone(rawPhone);
+    const startDate = parseImportDate(cell(row, mapping, 'start_date'));
+    const endDate = parseImportDate(cell(row, mapping, 'end_date'));
+    const roomName = cell(row, mapping, 'room');
+    const rawBillingDay = cell(row, mapping, 'billing_day');
+    const billingDay = rawBillingDay ? Number(rawBillingDay) : null;
+
+    if (!name) errors.push('Nama wajib diisi');
+    if (!phone) errors.push(`Nomor telepon "${rawPhone}" tidak valid`);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.push('Email tidak valid');
+    } else if (emails.has(email)) {
+      errors.push(`Email ${email} sudah terdaftar`);
+    }
+    if (!startDate) errors.push('Tanggal mulai tidak valid');
+    if (!endDate) errors.push('Tanggal selesai tidak valid');
+    if (startDate && endDate && endDate < startDate) errors.push('Tanggal selesai sebelum tanggal mulai');
+    if (billingDay !== null && (!Number.isInteger(billingDay) || billingDay < 1 || billingDay > 31)) {
+      errors.push('Tanggal tagihan harus 1-31');
+    }
+
+    let roomId: string | null = null;
+    if (roomName) {
+      const room = rooms.find(r => normalize(r.name) === normalize(roomName));
+      if (!room) {
+        errors.push(`Kamar ${roomName} tidak ditemukan`);
+      } else if (room.status !== 'vacant' || assignedRooms.has(room.id)) {
+        errors.push(`Kamar ${roomName} sudah terisi`);
+      } else {
+        roomId = room.id;
+      }
+    }
+
+    if (email) emails.add(email);
+    if (errors.length === 0 && roomId) assignedRooms.add(roomId);
+
+    return {
+      line: index + 2,
+      errors,
+      data: errors.length > 0 || !phone || !startDate || !endDate ? null : {
+        name,
+        phone,
+        email,
+        start_date: startDate,
+        end_date: endDate,
+        billing_day: billingDay,
+        room_id: roomId
+      }
+    };
+  });
+};
@@ -0,0 +1,19 @@
+import { PaymentProof } from '../types';
+
+export const PROOF_STATUS_LABELS: Record<PaymentProof['status'], { label: string; className: string }> = {
+  pending: { label: 'Menunggu Verifikasi', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Diterima', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Ditolak', className: 'bg-red-100 text-red-800' }
+};
+
+// Proof images are photos or screenshots; PDFs are allowed for bank exports
+export const MAX_PROOF_SIZE = 5 * 1024 * 1024;
+export const PROOF_ACCEPT = 'image/*,application/pdf';
+
+/**
+ * Whether a review failed because someone else already approved or rejected the proof
+ */
+export const isProofAlreadyReviewedError = (err: unknown): boolean => {
+  if (!err || typeof err !== 'object') return false;
+  return (err as { message?: string }).message === 'proof_already_reviewed';
+};
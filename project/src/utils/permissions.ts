@@ -0,0 +1,98 @@
+import { User } from '../types';
+
+/**
+ * Actions that can be granted per resource in role_permissions.
+ * Keep in sync with the member policies in supabase/migrations.
+ */
+export const PERMISSION_RESOURCES = {
+  users: ['view', 'create', 'edit', 'delete'],
+  properties: ['view', 'create', 'edit', 'delete'],
+  rooms: ['view', 'create', 'edit', 'delete'],
+  tenants: ['view', 'create', 'edit', 'delete'],
+  payments: ['view', 'create', 'edit', 'delete'],
+  maintenance: ['view', 'create', 'edit', 'delete'],
+  reports: ['view', 'export'],
+  settings: ['view', 'edit'],
+  audit: ['view']
+} as const;
+
+export type PermissionResource = keyof typeof PERMISSION_RESOURCES;
+export type PermissionAction<R extends PermissionResource = PermissionResource> =
+  (typeof PERMISSION_RESOURCES)[R][number];
+
+export type MemberRole = User['role'];
+
+// Owners are not listed in role_permissions; they can do everything on their properties
+export type PropertyRole = 'owner' | MemberRole;
+
+export const MEMBER_ROLES: MemberRole[] = ['admin', 'manager', 'staff'];
+
+/**
+ * Roles the user may give to team members; mirrors `can_grant_role` in the database.
+ * Only the owner grants admin, members grant roles at or below their own.
+ */
+export const getGrantableRoles = (role: PropertyRole | null): MemberRole[] => {
+  if (role === 'owner') return MEMBER_ROLES;
+  if (!role) return [];
+  // MEMBER_ROLES runs from the highest role to the lowest
+  return MEMBER_ROLES.slice(MEMBER_ROLES.indexOf(role)).filter(memberRole => memberRole !== 'admin');
+};
+
+export interface PropertyPermissions {
+  // null when the user has no access to the property
+  role: PropertyRole | null;
+  // Granted permissions as `resource:action`
+  permissions: string[];
+}
+
+// Resource whose `view` permission is needed to open each app page
+export const PAGE_RESOURCES: Record<string, PermissionResource> = {
+  tenants: 'tenants',
+  rooms: 'rooms',
+  payments: 'payments',
+  maintenance: 'maintenance',
+  reports: 'reports',
+  audit: 'audit'
+};
+
+/**
+ * Whether the role may perform `action` on `resource`
+ */
+export const hasPermission = <R extends PermissionResource>(
+  permissions: PropertyPermissions | null,
+  resource: R,
+  action: PermissionAction<R>
+): boolean => {
+  if (!permissions?.role) return false;
+  if (permissions.role === 'owner') return true;
+  return permissions.permissions.includes(`${resource}:${action}`);
+};
+
+// Message of the error thrown by service functions; row-level security
+// refusals come back as SQLSTATE 42501
+const PERMISSION_DENIED = 'permission_denied';
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+export const PERMISSION_DENIED_MESSAGE = 'Anda tidak memiliki izin untuk melakukan tindakan ini. Hubungi pemilik properti untuk meminta akses.';
+
+/**
+ * Throws a permission_denied error unless the role may perform `action` on `resource`
+ */
+export const assertPermission = <R extends PermissionResource>(
+  permissions: PropertyPermissions | null,
+  resource: R,
+  action: PermissionAction<R>
+) => {
+  if (!hasPermission(permissions, resource, action)) {
+    throw new Error(PERMISSION_DENIED);
+  }
+};
+
+/**
+ * Whether an error was raised because the user's role lacks a permission
+ */
+export const isPermissionDeniedError = (err: unknown): boolean => {
+  if (!err || typeof err !== 'object') return false;
+  const { message, code } = err as { message?: string; code?: string };
+  return message === PERMISSION_DENIED || code === INSUFFICIENT_PRIVILEGE;
+};
@@ -0,0 +1,31 @@
+export type QuotaResource = 'properties' | 'rooms';
+
+export interface PlanQuotaError {
+  resource: QuotaResource;
+  limit: number;
+  current: number;
+}
+
+// Message raised by the enforce_*_quota database triggers
+const PLAN_QUOTA_EXCEEDED = 'plan_quota_exceeded';
+
+/**
+ * Extract the quota details from a Supabase error raised by the plan quota triggers; null for any other error
+ */
+export const getPlanQuotaError = (err: unknown): PlanQuotaError | null => {
+  if (!err || typeof err !== 'object') return null;
+
+  const { message, details } = err as { message?: string; details?: string };
+  if (message !== PLAN_QUOTA_EXCEEDED) return null;
+
+  try {
+    const parsed = JSON.parse(details || '{}');
+    return {
+      resource: parsed.resource,
+      limit: Number(parsed.limit),
+      current: Number(parsed.current)
+    };
+  } catch {
+    return null;
+  }
+};
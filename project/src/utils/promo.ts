@@ -0,0 +1,67 @@
+import { PromoCode } from '../types/subscription';
+
+export type PromoCodeInvalidReason =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'exhausted'
+  | 'plan_not_eligible'
+  | 'already_redeemed';
+
+// Message raised by validate_promo_code()
+const PROMO_CODE_INVALID = 'promo_code_invalid';
+
+export const PROMO_CODE_ERROR_MESSAGES: Record<PromoCodeInvalidReason, string> = {
+  not_found: 'Promo code not found',
+  inactive: 'This promo code has been deactivated',
+  not_started: 'This promo code is not valid yet',
+  expired: 'This promo code has expired',
+  exhausted: 'This promo code has reached its maximum number of redemptions',
+  plan_not_eligible: 'This promo code does not apply to the selected plan',
+  already_redeemed: 'This user has already redeemed this promo code'
+};
+
+/**
+ * The discount a promo code takes off an amount, in whole rupiah and never more than the amount.
+ * Same rounding as promo_discount() in the database.
+ */
+export const calculatePromoDiscount = (
+  promo: Pick<PromoCode, 'discount_type' | 'discount_value'>,
+  amount: number
+): number => {
+  const discount = promo.discount_type === 'percentage'
+    ? Math.round(amount * Number(promo.discount_value) / 100)
+    : Number(promo.discount_value);
+  return Math.max(Math.min(amount, discount), 0);
+};
+
+export const describePromoDiscount = (
+  promo: Pick<PromoCode, 'discount_type' | 'discount_value' | 'duration_months'>,
+  formatAmount: (amount: number) => string
+): string => {
+  const value = promo.discount_type === 'percentage'
+    ? `${promo.discount_value}% off`
+    : `${formatAmount(promo.discount_value)} off`;
+
+  if (!promo.duration_months) return `${value} every month`;
+  return promo.duration_months === 1
+    ? `${value} the first month`
+    : `${value} the first ${promo.duration_months} months`;
+};
+
+/**
+ * The reason a promo code was refused by validate_promo_code(); null for any other error
+ */
+export const getPromoCodeError = (err: unknown): PromoCodeInvalidReason | null => {
+  if (!err || typeof err !== 'object') return null;
+
+  const { message, details } = err as { message?: string; details?: string };
+  if (message !== PROMO_CODE_INVALID) return null;
+
+  try {
+    return JSON.parse(details || '{}').reason ?? null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,86 @@
+import jsPDF from 'jspdf';
+import { Payment, Property } from '../types';
+import { formatAmountInWords, formatCurrency, formatDate, translatePaymentMethod } from './formatters';
+
+interface ReceiptData {
+  payment: Payment;
+  property: Property;
+  tenantName: string;
+  roomNumber?: string;
+}
+
+/**
+ * Build the receipt (kwitansi) PDF for a paid invoice.
+ * Everything printed comes from stored records, so the same payment always produces the same document.
+ */
+export const generateReceiptPDF = ({ payment, property, tenantName, roomNumber }: ReceiptData): jsPDF => {
+  const doc = new jsPDF({ orientation: 'landscape', format: 'a5' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const paidDate = payment.date || payment.due_date;
+
+  // Letterhead
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(property.name, pageWidth / 2, 15, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`${property.address}, ${property.city}`, pageWidth / 2, 21, { align: 'center' });
+  doc.text([property.phone, property.email].filter(Boolean).join(' | '), pageWidth / 2, 26, { align: 'center' });
+  doc.setLineWidth(0.5);
+  doc.line(15, 30, pageWidth - 15, 30);
+
+  // Title and number
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text('KWITANSI', pageWidth / 2, 40, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`No. ${payment.receipt_number || '-'}`, pageWidth / 2, 46, { align: 'center' });
+
+  // Body
+  const labelX = 20;
+  const valueX = 68;
+  const purpose = payment.notes || 'Pembayaran sewa kamar';
+  const rows: [string, string][] = [
+    ['Telah terima dari', tenantName],
+    ['Uang sejumlah', formatAmountInWords(payment.amount)],
+    ['Untuk pembayaran', roomNumber ? `${purpose} - Kamar ${roomNumber}` : purpose],
+    ['Metode pembayaran', translatePaymentMethod(payment.payment_method)]
+  ];
+
+  let y = 58;
+  doc.setFontSize(11);
+  rows.forEach(([label, value]) => {
+    const lines = doc.splitTextToSize(value, pageWidth - valueX - 20);
+    doc.text(label, labelX, y);
+    doc.text(':', valueX - 4, y);
+    doc.text(lines, valueX, y);
+    y += 8 * lines.length;
+  });
+
+  // Amount box
+  y += 4;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.rect(labelX, y - 7, 70, 11);
+  doc.text(formatCurrency(payment.amount), labelX + 4, y);
+
+  // Signature block
+  const signX = pageWidth - 70;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`${property.city}, ${formatDate(paidDate)}`, signX, y - 4);
+  doc.text('Penerima,', signX, y + 2);
+  doc.text('(................................)', signX, y + 28);
+  doc.text(property.name, signX, y + 34);
+
+  return doc;
+};
+
+/**
+ * Download the receipt PDF for a paid invoice
+ */
+export const downloadReceipt = (data: ReceiptData): void => {
+  const fileName = (data.payment.receipt_number || data.payment.id).replace(/\//g, '-');
+  generateReceiptPDF(data).save(`kwitansi_${fileName}.pdf`);
+};
@@ -0,0 +1,234 @@
+import { differenceInCalendarDays, format, isValid, parse, parseISO } from 'date-fns';
+import { Payment } from '../types';
+import { getOutstandingAmount, getTransferAmount } from './billing';
+import { parseImportDate } from './importer';
+
+export type StatementBank = 'BCA' | 'Mandiri';
+
+// An incoming transfer read from a bank statement
+export interface BankCredit {
+  line: number;
+  date: string;
+  description: string;
+  amount: number;
+  // Identifies the statement line, so it is only ever recorded once
+  reference: string;
+}
+
+export interface BankStatement {
+  bank: StatementBank | null;
+  credits: BankCredit[];
+  // Credit lines without a posting date yet, e.g. BCA's "PEND"
+  skipped: number;
+}
+
+export interface ReconciliationInvoice {
+  payment: Payment;
+  tenantName: string;
+  roomNumber?: string;
+}
+
+export interface CreditMatch {
+  credit: BankCredit;
+  paymentId: string | null;
+  // The invoice's unique code in the amount, the tenant's name or a reference from the invoice
+  // notes in the description, or only the amount and date
+  matchedBy: 'code' | 'name' | 'amount' | null;
+}
+
+export const DATE_WINDOW_OPTIONS = [7, 14, 30];
+export const DEFAULT_DATE_WINDOW_DAYS = 14;
+
+const COLUMN_ALIASES = {
+  date: ['tanggal', 'tanggal transaksi', 'tgl', 'tgl transaksi', 'tanggal posting', 'date', 'transaction date', 'posting date'],
+  description: ['keterangan', 'keterangan transaksi', 'deskripsi', 'uraian', 'berita', 'description', 'remark', 'remarks', 'transaction remarks'],
+  credit: ['kredit', 'mutasi kredit', 'credit', 'credit amount', 'cr'],
+  amount: ['jumlah', 'mutasi', 'nominal', 'amount']
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+
+const findColumns = (headers: string[], aliases: string[]) =>
+  headers.map((header, index) => (aliases.includes(normalizeHeader(header)) ? index : -1)).filter(index => index >= 0);
+
+const words = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+
+/**
+ * Parse an amount as exported by Indonesian banks: "1,500,000.00", "1.500.000,00" or "1500000.00 CR"
+ */
+export const parseBankAmount = (value: string): number | null => {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  // A trailing separator followed by one or two digits is the decimal mark
+  const decimal = cleaned.match(/^(.*?)[.,](\d{1,2})$/);
+  const whole = (decimal ? decimal[1] : cleaned).replace(/\D/g, '') || '0';
+  const amount = Number(`${whole}.${decimal ? decimal[2] : '0'}`);
+  return cleaned.startsWith('-') ? -amount : amount;
+};
+
+/**
+ * Parse a statement date. BCA writes "01/10" without a year, which is taken from the statement period.
+ */
+const parseStatementDate = (value: string, periodEnd: Date): string | null => {
+  const text = value.replace(/^'/, '').replace(/\s+\d{1,2}[:.]\d{2}([:.]\d{2})?$/, '').trim();
+
+  const fullDate = parseImportDate(text);
+  if (fullDate) return fullDate;
+
+  for (const pattern of ['dd MMM yyyy', 'd MMM yyyy', 'dd-MMM-yyyy', 'dd/MM/yy']) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) return format(date, 'yyyy-MM-dd');
+  }
+
+  const dayMonth = text.match(/^(\d{1,2})[/-](\d{1,2})$/);
+  if (dayMonth) {
+    const date = new Date(periodEnd.getFullYear(), Number(dayMonth[2]) - 1, Number(dayMonth[1]));
+    if (date > periodEnd) date.setFullYear(date.getFullYear() - 1);
+    return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+// Exports do not always name the bank, but each has its own column layout
+const detectBank = (intro: string, headers: string[]): StatementBank | null => {
+  const columns = headers.map(normalizeHeader);
+  if (/MANDIRI/i.test(intro) || columns.includes('val date')) return 'Mandiri';
+  if (/\bBCA\b|KLIKBCA/i.test(intro) || columns.includes('cabang')) return 'BCA';
+  return null;
+};
+
+/**
+ * Read the credit lines of a BCA or Mandiri mutasi export. The column header row is found
+ * below any account details; debit lines and balance summaries are ignored.
+ */
+export const parseBankStatement = (rows: string[][]): BankStatement => {
+  const headerIndex = rows.findIndex(row =>
+    findColumns(row, COLUMN_ALIASES.date).length > 0 &&
+    (findColumns(row, COLUMN_ALIASES.credit).length > 0 || findColumns(row, COLUMN_ALIASES.amount).length > 0)
+  );
+  if (headerIndex < 0) throw new Error('Kolom tanggal dan jumlah tidak ditemukan pada mutasi rekening');
+
+  const headers = rows[headerIndex];
+  const dateColumn = findColumns(headers, COLUMN_ALIASES.date)[0];
+  const descriptionColumns = findColumns(headers, COLUMN_ALIASES.description);
+  const creditColumn = findColumns(headers, COLUMN_ALIASES.credit)[0];
+  const amountColumn = findColumns(headers, COLUMN_ALIASES.amount)[0];
+
+  const intro = rows.slice(0, headerIndex + 1).map(row => row.join(' ')).join(' ');
+  const periodDates = intro.match(/\d{2}\/\d{2}\/\d{4}/g) || [];
+  const periodEnd = periodDates.length > 0
+    ? parse(periodDates[periodDates.length - 1], 'dd/MM/yyyy', new Date())
+    : new Date();
+
+  const credits: BankCredit[] = [];
+  const seen = new Map<string, number>();
+  let skipped = 0;
+
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    let amount: number | null;
+    if (creditColumn !== undefined) {
+      amount = parseBankAmount(row[creditColumn] || '');
+    } else {
+      // BCA puts CR/DB in the column after the amount, other exports append it to the amount
+      const value = row[amountColumn] || '';
+      const marker = `${value} ${row[amountColumn + 1] || ''}`.toUpperCase();
+      amount = /\b(DB|DEBIT|DEBET)\b/.test(marker) ? null : parseBankAmount(value);
+    }
+    if (amount === null || amount <= 0) return;
+
+    const date = parseStatementDate(row[dateColumn] || '', isValid(periodEnd) ? periodEnd : new Date());
+    if (!date) {
+      skipped++;
+      return;
+    }
+
+    const description = descriptionColumns.map(column => (row[column] || '').trim()).filter(Boolean).join(' ');
+    const key = `${date}|${amount}|${words(description).join(' ')}`;
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+
+    credits.push({
+      line: headerIndex + index + 2,
+      date,
+      description,
+      amount,
+      reference: occurrence > 1 ? `${key}#${occurrence}` : key
+    });
+  });
+
+  return { bank: detectBank(intro, headers), credits, skipped };
+};
+
+/**
+ * Whether a description names the tenant; banks often cut long names short
+ */
+const mentionsName = (description: string[], name: string) => {
+  const nameWords = words(name).filter(word => word.length >= 3);
+  if (nameWords.length === 0) return false;
+
+  const found = nameWords.filter(word => description.includes(word)).length;
+  return found >= Math.min(2, nameWords.length) || description.join('').includes(nameWords.join(''));
+};
+
+// Only distinctive note tokens, such as transfer references or invoice codes, count
+const mentionsNotes = (description: string[], notes?: string) =>
+  words(notes || '').some(word => word.length >= 4 && /\d/.test(word) && description.includes(word));
+
+const isCodeTransfer = (credit: BankCredit, payment: Payment) =>
+  !!payment.payment_code && Math.abs(getTransferAmount(payment) - credit.amount) < 0.01;
+
+/**
+ * The amount to record for a credit: a transfer that includes the invoice's unique code settles
+ * the balance, the code itself is not owed
+ */
+export const getReceiptAmount = (credit: BankCredit, payment: Payment): number => {
+  return isCodeTransfer(credit, payment) ? getOutstandingAmount(payment) : credit.amount;
+};
+
+/**
+ * Suggest an unpaid invoice for each credit. A credit of the balance plus the invoice's unique code
+ * matches on its own; otherwise the outstanding amount must equal the credit and the due date be
+ * within `windowDays` of the transfer. The best-scoring pairs are taken first and each invoice is
+ * suggested once.
+ */
+export const matchCredits = (
+  credits: BankCredit[],
+  invoices: ReconciliationInvoice[],
+  windowDays = DEFAULT_DATE_WINDOW_DAYS
+): CreditMatch[] => {
+  const pairs: { creditIndex: number; paymentId: string; matchedBy: CreditMatch['matchedBy']; score: number }[] = [];
+
+  credits.forEach((credit, creditIndex) => {
+    const description = words(credit.description);
+    invoices.forEach(({ payment, tenantName }) => {
+      const distance = Math.abs(differenceInCalendarDays(parseISO(credit.date), parseISO(payment.due_date)));
+
+      if (isCodeTransfer(credit, payment)) {
+        pairs.push({ creditIndex, paymentId: payment.id, matchedBy: 'code', score: 2000 - distance });
+        return;
+      }
+
+      if (Math.abs(getOutstandingAmount(payment) - credit.amount) >= 0.01 || distance > windowDays) return;
+
+      const named = mentionsName(description, tenantName) || mentionsNotes(description, payment.notes);
+      pairs.push({ creditIndex, paymentId: payment.id, matchedBy: named ? 'name' : 'amount', score: (named ? 1000 : 0) - distance });
+    });
+  });
+
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches: CreditMatch[] = credits.map(credit => ({ credit, paymentId: null, matchedBy: null }));
+  const usedPayments = new Set<string>();
+  pairs.forEach(pair => {
+    const match = matches[pair.creditIndex];
+    if (match.paymentId || usedPayments.has(pair.paymentId)) return;
+
+    match.paymentId = pair.paymentId;
+    match.matchedBy = pair.matchedBy;
+    usedPayments.add(pair.paymentId);
+  });
+
+  return matches;
+};
@@ -0,0 +1,41 @@
+// Shared by every open tab, so activity in one keeps the others signed in
+const LAST_ACTIVITY_KEY = 'kostmanager:last-activity';
+
+/**
+ * When the user was last active in any tab, in milliseconds; never earlier than the sign-in
+ */
+export const getLastActivity = (signedInAt: number): number => {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Math.max(Number.isFinite(stored) ? stored : 0, signedInAt);
+};
+
+export const setLastActivity = (timestamp: number = Date.now()) => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(timestamp));
+};
+
+/**
+ * A short device description such as "Chrome di Windows" from a user agent string
+ */
+export const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return 'Perangkat tidak dikenal';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /SamsungBrowser\//.test(userAgent) ? 'Samsung Internet'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+
+  const os =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} di ${os}`;
+  return browser || os || userAgent.slice(0, 60);
+};
@@ -0,0 +1,115 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { DepositDeduction, DepositSettlement, Property } from '../types';
+import { formatCurrency, formatDate, translatePaymentMethod } from './formatters';
+
+interface SettlementSummaryData {
+  settlement: DepositSettlement;
+  deductions: DepositDeduction[];
+  property: Property;
+  tenantName: string;
+  roomNumber?: string;
+}
+
+export const deductionTypeLabels: Record<DepositDeduction['type'], string> = {
+  unpaid_rent: 'Tunggakan sewa',
+  damage: 'Kerusakan',
+  other: 'Lainnya'
+};
+
+// Messages raised by settle_deposit() in the database
+const SETTLEMENT_ERROR_MESSAGES: Record<string, string> = {
+  deductions_exceed_deposit: 'Total potongan melebihi deposit yang ditahan',
+  deduction_exceeds_balance: 'Potongan tunggakan melebihi sisa tagihan'
+};
+
+/**
+ * The message for an error settle_deposit() refused the settlement with, if any
+ */
+export const getSettlementErrorMessage = (err: unknown): string | null => {
+  if (!err || typeof err !== 'object') return null;
+
+  const { message } = err as { message?: string };
+  return (message && SETTLEMENT_ERROR_MESSAGES[message]) ?? null;
+};
+
+/**
+ * Build the printable move-out settlement summary for a tenant's deposit
+ */
+export const generateSettlementPDF = ({
+  settlement,
+  deductions,
+  property,
+  tenantName,
+  roomNumber
+}: SettlementSummaryData): jsPDF => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Letterhead
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(property.name, pageWidth / 2, 15, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`${property.address}, ${property.city}`, pageWidth / 2, 21, { align: 'center' });
+  doc.text([property.phone, property.email].filter(Boolean).join(' | '), pageWidth / 2, 26, { align: 'center' });
+  doc.setLineWidth(0.5);
+  doc.line(15, 30, pageWidth - 15, 30);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text('PENYELESAIAN DEPOSIT', pageWidth / 2, 40, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(`Penyewa: ${tenantName}`, 15, 52);
+  doc.text(`Kamar: ${roomNumber || '-'}`, 15, 59);
+  doc.text(`Tanggal Keluar: ${formatDate(settlement.date)}`, 15, 66);
+
+  let y = 120;
+  autoTable(doc, {
+    startY: 74,
+    head: [['Keterangan', 'Jenis', 'Jumlah']],
+    body: [
+      ['Deposit ditahan', '', formatCurrency(settlement.deposit_amount)],
+      ...deductions.map(deduction => [
+        deduction.description,
+        deductionTypeLabels[deduction.type],
+        `- ${formatCurrency(deduction.amount)}`
+      ])
+    ],
+    foot: [['Dikembalikan kepada penyewa', translatePaymentMethod(settlement.refund_method), formatCurrency(settlement.refund_amount)]],
+    theme: 'grid',
+    headStyles: { fillColor: [59, 130, 246] },
+    footStyles: { fillColor: [243, 244, 246], textColor: [17, 24, 39] },
+    columnStyles: { 2: { halign: 'right' } },
+    didDrawPage: (data) => {
+      y = (data.cursor?.y ?? y) + 10;
+    }
+  });
+
+  if (settlement.notes) {
+    doc.setFontSize(10);
+    doc.text(doc.splitTextToSize(`Catatan: ${settlement.notes}`, pageWidth - 30), 15, y);
+    y += 12;
+  }
+
+  // Signature block
+  doc.setFontSize(10);
+  doc.text(`${property.city}, ${formatDate(settlement.date)}`, pageWidth - 75, y + 4);
+  doc.text('Penyewa,', 20, y + 12);
+  doc.text('Pengelola,', pageWidth - 75, y + 12);
+  doc.text(`(${tenantName})`, 20, y + 38);
+  doc.text(`(${property.name})`, pageWidth - 75, y + 38);
+
+  return doc;
+};
+
+/**
+ * Download the move-out settlement summary PDF
+ */
+export const downloadSettlementSummary = (data: SettlementSummaryData): void => {
+  const fileName = data.tenantName.replace(/\s+/g, '_').toLowerCase();
+  generateSettlementPDF(data).save(`penyelesaian_deposit_${fileName}_${data.settlement.date}.pdf`);
+};
@@ -0,0 +1,174 @@
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Parse CSV text into rows. Handles quoted fields and detects `;` separators used by Excel in Indonesian locales.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, string>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits in the last 64 KiB of the archive
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Berkas Excel tidak valid');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, await new Response(stream).text());
+    }
+  }
+
+  return entries;
+};
+
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.replace(/\d+/g, '');
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows of cell text
+ */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = await readZipEntries(buffer);
+  const parser = new DOMParser();
+
+  const sharedStrings: string[] = [];
+  const sharedXml = entries.get('xl/sharedStrings.xml');
+  if (sharedXml) {
+    const doc = parser.parseFromString(sharedXml, 'application/xml');
+    Array.from(doc.getElementsByTagNameNS('*', 'si')).forEach(item => {
+      sharedStrings.push(Array.from(item.getElementsByTagNameNS('*', 't')).map(t => t.textContent || '').join(''));
+    });
+  }
+
+  const sheetName = entries.has('xl/worksheets/sheet1.xml')
+    ? 'xl/worksheets/sheet1.xml'
+    : Array.from(entries.keys()).sort().find(name => name.startsWith('xl/worksheets/sheet'));
+  const sheetXml = sheetName ? entries.get(sheetName) : undefined;
+  if (!sheetXml) throw new Error('Lembar kerja tidak ditemukan');
+
+  const doc = parser.parseFromString(sheetXml, 'application/xml');
+  return Array.from(doc.getElementsByTagNameNS('*', 'row')).map(rowElement => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagNameNS('*', 'c')).forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent || '';
+
+      let text = value;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] || '';
+      } else if (type === 'inlineStr') {
+        text = Array.from(cell.getElementsByTagNameNS('*', 't')).map(t => t.textContent || '').join('');
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+    return row;
+  });
+};
+
+/**
+ * Read the non-empty rows of an uploaded CSV or XLSX file
+ */
+export const readSpreadsheetRows = async (file: File): Promise<string[][]> => {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const allRows = isExcel ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+  return allRows.filter(row => row.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Read an uploaded CSV or XLSX file; the first non-empty row is taken as the header
+ */
+export const readSpreadsheet = async (file: File): Promise<SheetData> => {
+  const rows = await readSpreadsheetRows(file);
+
+  if (rows.length === 0) throw new Error('Berkas tidak berisi data');
+
+  const [headers, ...data] = rows;
+  return {
+    headers: headers.map(header => header.trim()),
+    rows: data.map(row => headers.map((_, index) => (row[index] || '').trim()))
+  };
+};
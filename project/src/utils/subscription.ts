@@ -0,0 +1,118 @@
+import { Subscription, SubscriptionPlan } from '../types/subscription';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanUsage {
+  properties: number;
+  rooms: { property_name: string; count: number }[];
+}
+
+export interface PlanChangePreview {
+  direction: 'upgrade' | 'downgrade';
+  // Charged now for an upgrade; downgrades are free and take effect at effective_at
+  amount: number;
+  remaining_days: number;
+  effective_at: string;
+}
+
+/**
+ * Price a switch to another plan. Upgrades take effect now and cost the price
+ * difference for the unused part of the period; anything else waits for the period end.
+ * Keep in sync with supabase/functions/change-subscription.
+ */
+export const previewPlanChange = (
+  subscription: Subscription | null,
+  currentPlan: SubscriptionPlan | null,
+  newPlan: SubscriptionPlan,
+  now: Date = new Date()
+): PlanChangePreview => {
+  if (!subscription || !currentPlan) {
+    return { direction: 'upgrade', amount: newPlan.price, remaining_days: 0, effective_at: now.toISOString() };
+  }
+
+  const start = new Date(subscription.current_period_start).getTime();
+  const end = new Date(subscription.current_period_end).getTime();
+  const remaining = Math.max(0, end - now.getTime());
+  const fraction = end > start ? Math.min(1, remaining / (end - start)) : 0;
+
+  if (newPlan.price > currentPlan.price) {
+    return {
+      direction: 'upgrade',
+      // Trials are free on any plan
+      amount: subscription.status === 'trialing' ? 0 : Math.round((newPlan.price - currentPlan.price) * fraction),
+      remaining_days: Math.ceil(remaining / DAY_MS),
+      effective_at: now.toISOString()
+    };
+  }
+
+  return {
+    direction: 'downgrade',
+    amount: 0,
+    remaining_days: Math.ceil(remaining / DAY_MS),
+    effective_at: subscription.current_period_end
+  };
+};
+
+/**
+ * List what the owner would have to remove before a plan's quotas fit their current usage
+ */
+export const getPlanUsageViolations = (plan: SubscriptionPlan, usage: PlanUsage): string[] => {
+  const violations: string[] = [];
+
+  if (usage.properties > plan.max_properties) {
+    violations.push(`Anda memiliki ${usage.properties} properti, paket ${plan.name} hanya mengizinkan ${plan.max_properties}`);
+  }
+  usage.rooms
+    .filter(property => property.count > plan.max_rooms_per_property)
+    .forEach(property => {
+      violations.push(`${property.property_name} memiliki ${property.count} kamar, paket ${plan.name} hanya mengizinkan ${plan.max_rooms_per_property}`);
+    });
+
+  return violations;
+};
+
+export type SubscriptionAccessState = 'none' | 'trialing' | 'active' | 'grace' | 'read_only';
+
+export interface SubscriptionAccess {
+  state: SubscriptionAccessState;
+  // End of the trial, or when a past_due account turns read-only
+  until: string | null;
+}
+
+/**
+ * What the owner can do right now: a past_due subscription keeps full access until grace_until,
+ * then the database only allows reads (see subscription_read_only)
+ */
+export const getSubscriptionAccess = (subscription: Subscription | null, now: Date = new Date()): SubscriptionAccess => {
+  if (!subscription) return { state: 'none', until: null };
+
+  switch (subscription.status) {
+    case 'trialing':
+      return { state: 'trialing', until: subscription.trial_end || subscription.current_period_end };
+    case 'past_due': {
+      const graceUntil = subscription.grace_until || subscription.current_period_end;
+      return { state: new Date(graceUntil) > now ? 'grace' : 'read_only', until: graceUntil };
+    }
+    case 'active':
+      return { state: 'active', until: null };
+    default:
+      return { state: 'none', until: null };
+  }
+};
+
+// Message raised by the enforce_subscription_writable database trigger
+const SUBSCRIPTION_READ_ONLY = 'subscription_read_only';
+
+export const SUBSCRIPTION_READ_ONLY_MESSAGE = 'Akun Anda dalam mode hanya-baca karena tagihan langganan belum dibayar. Bayar tagihan di Pengaturan > Langganan untuk mengubah data lagi.';
+
+/**
+ * Whether a Supabase error was raised because the owner's account is read-only
+ */
+export const isSubscriptionReadOnlyError = (err: unknown): boolean =>
+  !!err && typeof err === 'object' && (err as { message?: string }).message === SUBSCRIPTION_READ_ONLY;
+
+/**
+ * Whether create_backoffice_subscription() refused a user who already has a live subscription
+ */
+export const isSubscriptionExistsError = (err: unknown): boolean =>
+  !!err && typeof err === 'object' && (err as { message?: string }).message === 'subscription_exists';
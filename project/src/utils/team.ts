@@ -0,0 +1,28 @@
+import { MemberRole } from './permissions';
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  admin: 'Administrator',
+  manager: 'Manajer',
+  staff: 'Staff'
+};
+
+// Messages raised by the property_invitations functions in the database
+const INVITATION_ERRORS = ['already_member', 'invitation_pending', 'invitation_not_found'] as const;
+
+export type InvitationError = typeof INVITATION_ERRORS[number];
+
+export const INVITATION_ERROR_MESSAGES: Record<InvitationError, string> = {
+  already_member: 'Email ini sudah memiliki akses ke properti ini.',
+  invitation_pending: 'Email ini sudah memiliki undangan yang belum dijawab.',
+  invitation_not_found: 'Undangan tidak ditemukan atau sudah tidak berlaku.'
+};
+
+/**
+ * The invitation error a Supabase error was raised with, if any
+ */
+export const getInvitationError = (err: unknown): InvitationError | null => {
+  if (!err || typeof err !== 'object') return null;
+
+  const { message } = err as { message?: string };
+  return INVITATION_ERRORS.find(error => error === message) ?? null;
+};
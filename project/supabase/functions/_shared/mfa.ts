@@ -0,0 +1,25 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.7';
+
+// Removes every MFA factor and recovery code of the user, so they sign in
+// with their password alone until they enroll again
+export const resetUserMfa = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+  if (error) throw error;
+
+  for (const factor of data.factors) {
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ userId, id: factor.id });
+    if (deleteError) throw deleteError;
+  }
+
+  const { error: codesError } = await supabase
+    .from('mfa_recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+  if (codesError) throw codesError;
+
+  const { error: settingsError } = await supabase
+    .from('user_settings')
+    .update({ two_factor_enabled: false, updated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+  if (settingsError) throw settingsError;
+};
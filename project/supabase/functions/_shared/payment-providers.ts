@@ -0,0 +1,159 @@
+// Payment providers that collect subscription invoices. PAYMENT_PROVIDER picks
+// one ('midtrans' or 'fake') and must be set; invoices remember the provider
+// that issued them so webhooks are parsed by the same adapter. The fake
+// provider only works where ALLOW_FAKE_PAYMENTS=true, i.e. local development
+// and tests.
+
+export interface ChargeInput {
+  invoiceNumber: string;
+  amount: number;
+  description: string;
+  customerEmail?: string;
+}
+
+export interface Charge {
+  reference: string;
+  paymentUrl: string;
+}
+
+export type PaymentEventStatus = 'paid' | 'failed' | 'expired' | 'pending';
+
+export interface PaymentEvent {
+  eventId: string;
+  invoiceNumber: string;
+  reference?: string;
+  status: PaymentEventStatus;
+  payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createCharge(input: ChargeInput): Promise<Charge>;
+  // Throws 'Unauthorized' when the request is not signed by the provider
+  parseWebhook(req: Request): Promise<PaymentEvent>;
+}
+
+const sha512Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-512', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Midtrans Snap. Xendit invoices follow the same shape: create a hosted
+// payment page per invoice, then receive a signed notification.
+const midtransProvider = (): PaymentProvider => {
+  const serverKey = Deno.env.get('MIDTRANS_SERVER_KEY') ?? '';
+  const production = Deno.env.get('MIDTRANS_ENV') === 'production';
+  const snapUrl = production
+    ? 'https://app.midtrans.com/snap/v1/transactions'
+    : 'https://app.sandbox.midtrans.com/snap/v1/transactions';
+
+  return {
+    name: 'midtrans',
+
+    async createCharge({ invoiceNumber, amount, description, customerEmail }) {
+      if (!serverKey) throw new Error('MIDTRANS_SERVER_KEY is not set');
+
+      const response = await fetch(snapUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${serverKey}:`)}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify({
+          transaction_details: { order_id: invoiceNumber, gross_amount: Math.round(amount) },
+          item_details: [{ id: invoiceNumber, name: description.slice(0, 50), price: Math.round(amount), quantity: 1 }],
+          customer_details: customerEmail ? { email: customerEmail } : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(`Midtrans error: ${result.error_messages?.join(', ') ?? response.status}`);
+      }
+
+      return { reference: result.token, paymentUrl: result.redirect_url };
+    },
+
+    async parseWebhook(req) {
+      const payload = await req.json();
+      const expected = await sha512Hex(
+        `${payload.order_id}${payload.status_code}${payload.gross_amount}${serverKey}`
+      );
+      if (!serverKey || payload.signature_key !== expected) {
+        throw new Error('Unauthorized - Invalid signature');
+      }
+
+      const transactionStatus = payload.transaction_status;
+      let status: PaymentEventStatus = 'pending';
+      if (transactionStatus === 'settlement'
+        || (transactionStatus === 'capture' && payload.fraud_status !== 'challenge')) {
+        status = 'paid';
+      } else if (transactionStatus === 'expire') {
+        status = 'expired';
+      } else if (transactionStatus === 'deny' || transactionStatus === 'cancel' || transactionStatus === 'failure') {
+        status = 'failed';
+      }
+
+      return {
+        // Midtrans sends several notifications per transaction, one per status
+        eventId: `${payload.transaction_id}:${transactionStatus}`,
+        invoiceNumber: payload.order_id,
+        reference: payload.transaction_id,
+        status,
+        payload,
+      };
+    },
+  };
+};
+
+export const fakePaymentsAllowed = () => Deno.env.get('ALLOW_FAKE_PAYMENTS') === 'true';
+
+// Local development: the payment page is the fake-checkout function, which
+// posts a webhook signed with FAKE_PAYMENT_SECRET.
+const fakeProvider = (): PaymentProvider => {
+  const secret = Deno.env.get('FAKE_PAYMENT_SECRET') ?? '';
+
+  return {
+    name: 'fake',
+
+    async createCharge({ invoiceNumber }) {
+      return {
+        reference: `fake_${invoiceNumber}`,
+        paymentUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/fake-checkout?invoice=${encodeURIComponent(invoiceNumber)}`,
+      };
+    },
+
+    async parseWebhook(req) {
+      if (!secret || req.headers.get('X-Fake-Signature') !== secret) {
+        throw new Error('Unauthorized - Invalid signature');
+      }
+
+      const payload = await req.json();
+      return {
+        eventId: payload.event_id,
+        invoiceNumber: payload.invoice_number,
+        reference: `fake_${payload.invoice_number}`,
+        status: payload.status,
+        payload,
+      };
+    },
+  };
+};
+
+export const getPaymentProvider = (name = Deno.env.get('PAYMENT_PROVIDER')): PaymentProvider => {
+  switch (name) {
+    case undefined:
+    case '':
+      throw new Error('PAYMENT_PROVIDER is not set');
+    case 'midtrans':
+      return midtransProvider();
+    case 'fake':
+      if (!fakePaymentsAllowed()) throw new Error('Fake payments are disabled, set ALLOW_FAKE_PAYMENTS=true');
+      return fakeProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+};
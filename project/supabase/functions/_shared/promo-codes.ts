@@ -0,0 +1,39 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.7';
+
+interface PromoRedemptionRow {
+  id: string;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  plan_ids: string[];
+  duration_months: number | null;
+  months_applied: number;
+}
+
+// Same rounding as promo_discount() in the promo_codes migration
+export const promoDiscount = (redemption: PromoRedemptionRow, amount: number) => {
+  const discount = redemption.discount_type === 'percentage'
+    ? Math.round(amount * Number(redemption.discount_value) / 100)
+    : Number(redemption.discount_value);
+  return Math.max(Math.min(amount, discount), 0);
+};
+
+// The subscription's promo redemption if it still discounts a month on the plan
+export const findPromoRedemption = async (
+  supabase: SupabaseClient,
+  subscriptionId: string,
+  planId: string
+) => {
+  const { data: redemption, error } = await supabase
+    .from('promo_redemptions')
+    .select('*')
+    .eq('subscription_id', subscriptionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!redemption) return null;
+
+  const row = redemption as PromoRedemptionRow;
+  if (row.duration_months !== null && row.months_applied >= row.duration_months) return null;
+  if (row.plan_ids.length > 0 && !row.plan_ids.includes(planId)) return null;
+
+  return row;
+};
@@ -0,0 +1,77 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { getPaymentProvider } from './payment-providers.ts';
+
+export const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+};
+
+interface NewInvoice {
+  userId: string;
+  subscriptionId?: string | null;
+  plan: { id: string; name: string };
+  kind: 'start' | 'upgrade' | 'renewal';
+  amount: number;
+  periodStart?: string | null;
+  periodEnd?: string | null;
+  // Already taken off amount
+  discountAmount?: number;
+  promoRedemptionId?: string | null;
+}
+
+// Creates a pending invoice and a charge for it with the configured provider
+export const createSubscriptionInvoice = async (supabase: SupabaseClient, input: NewInvoice) => {
+  const provider = getPaymentProvider();
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('subscription_invoices')
+    .insert({
+      user_id: input.userId,
+      subscription_id: input.subscriptionId ?? null,
+      plan_id: input.plan.id,
+      plan_name: input.plan.name,
+      kind: input.kind,
+      amount: input.amount,
+      period_start: input.periodStart ?? null,
+      period_end: input.periodEnd ?? null,
+      discount_amount: input.discountAmount ?? 0,
+      promo_redemption_id: input.promoRedemptionId ?? null,
+      provider: provider.name,
+    })
+    .select()
+    .single();
+  if (invoiceError) throw invoiceError;
+
+  const { data: { user } } = await supabase.auth.admin.getUserById(input.userId);
+
+  try {
+    const charge = await provider.createCharge({
+      invoiceNumber: invoice.invoice_number,
+      amount: invoice.amount,
+      description: `Paket ${input.plan.name}`,
+      customerEmail: user?.email,
+    });
+
+    const { data: updated, error: updateError } = await supabase
+      .from('subscription_invoices')
+      .update({
+        provider_reference: charge.reference,
+        payment_url: charge.paymentUrl,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', invoice.id)
+      .select()
+      .single();
+    if (updateError) throw updateError;
+
+    return updated;
+  } catch (error) {
+    // An invoice nobody can pay must not block the next attempt
+    await supabase
+      .from('subscription_invoices')
+      .update({ status: 'void', updated_at: new Date().toISOString() })
+      .eq('id', invoice.id);
+    throw error;
+  }
+};
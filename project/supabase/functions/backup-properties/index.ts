@@ -0,0 +1,194 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Keep in sync with BACKUP_FORMAT_VERSION in src/utils/backup.ts
+const BACKUP_FORMAT_VERSION = 1;
+
+// Minimum time between scheduled snapshots for each data_backup tier, slightly
+// under the nominal period so a run a few minutes early does not skip a slot
+const INTERVAL_MINUTES: Record<string, number> = {
+  weekly: 7 * 24 * 60 - 30,
+  daily: 24 * 60 - 30,
+  realtime: 10,
+};
+
+// Scheduled snapshots kept per property; manual backups are never pruned
+const RETENTION: Record<string, number> = { weekly: 8, daily: 30, realtime: 96 };
+
+// Runs every 15 minutes from the scheduler. Snapshots every property whose
+// owner's plan includes data_backup, once the tier's interval has passed since
+// the property's last scheduled backup, then prunes old scheduled backups.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which calls with the service role key, may run backups
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const now = new Date();
+
+    // Owners whose plan includes data backups, with their tier: the newest
+    // trialing, active or past_due subscription, the one plan_features reads
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('subscriptions')
+      .select('user_id, subscription_plans ( features )')
+      .in('status', ['trialing', 'active', 'past_due'])
+      .order('created_at', { ascending: false });
+    if (subscriptionsError) throw subscriptionsError;
+
+    const seen = new Set<string>();
+    const tiers = new Map<string, string>();
+    for (const subscription of subscriptions ?? []) {
+      if (seen.has(subscription.user_id)) continue;
+      seen.add(subscription.user_id);
+
+      const tier = subscription.subscription_plans?.features?.data_backup;
+      if (tier && INTERVAL_MINUTES[tier]) tiers.set(subscription.user_id, tier);
+    }
+
+    if (tiers.size === 0) {
+      return new Response(JSON.stringify({ created: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: properties, error: propertiesError } = await supabase
+      .from('properties')
+      .select('*')
+      .in('owner_id', [...tiers.keys()]);
+    if (propertiesError) throw propertiesError;
+
+    let created = 0;
+
+    for (const property of properties ?? []) {
+      const tier = tiers.get(property.owner_id)!;
+
+      const { data: scheduled, error: scheduledError } = await supabase
+        .from('property_backups')
+        .select('id, file_path, created_at')
+        .eq('property_id', property.id)
+        .eq('trigger', 'scheduled')
+        .order('created_at', { ascending: false });
+      if (scheduledError) throw scheduledError;
+
+      const last = scheduled?.[0];
+      if (last && now.getTime() - new Date(last.created_at).getTime() < INTERVAL_MINUTES[tier] * MINUTE_MS) {
+        continue;
+      }
+
+      const [
+        { data: rooms, error: roomsError },
+        { data: tenants, error: tenantsError },
+        { data: payments, error: paymentsError },
+        { data: maintenanceRequests, error: maintenanceError },
+      ] = await Promise.all([
+        supabase.from('rooms').select('*').eq('property_id', property.id),
+        supabase.from('tenants').select('*').eq('property_id', property.id),
+        supabase.from('payments').select('*').eq('property_id', property.id),
+        supabase.from('maintenance_requests').select('*').eq('property_id', property.id),
+      ]);
+      if (roomsError) throw roomsError;
+      if (tenantsError) throw tenantsError;
+      if (paymentsError) throw paymentsError;
+      if (maintenanceError) throw maintenanceError;
+
+      const tables = {
+        properties: [property],
+        rooms: rooms ?? [],
+        tenants: tenants ?? [],
+        payments: payments ?? [],
+        maintenance_requests: maintenanceRequests ?? [],
+      };
+      const body = JSON.stringify({
+        format_version: BACKUP_FORMAT_VERSION,
+        created_at: now.toISOString(),
+        property_id: property.id,
+        tables,
+      });
+      const file = new Blob([body], { type: 'application/json' });
+
+      const filePath = `${property.owner_id}/${property.id}/${now.getTime()}-scheduled.json`;
+      const { error: uploadError } = await supabase.storage
+        .from('property-backups')
+        .upload(filePath, file, { contentType: 'application/json' });
+      if (uploadError) throw uploadError;
+
+      const { error: insertError } = await supabase
+        .from('property_backups')
+        .insert({
+          owner_id: property.owner_id,
+          property_id: property.id,
+          property_name: property.name,
+          format_version: BACKUP_FORMAT_VERSION,
+          trigger: 'scheduled',
+          file_path: filePath,
+          size_bytes: file.size,
+          row_counts: Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.length])),
+        });
+      if (insertError) throw insertError;
+
+      created++;
+
+      // The new backup is not in `scheduled`, so keep one fewer of the old ones
+      const expired = (scheduled ?? []).slice(RETENTION[tier] - 1);
+      if (expired.length > 0) {
+        const { error: removeError } = await supabase.storage
+          .from('property-backups')
+          .remove(expired.map(b => b.file_path));
+        if (removeError) throw removeError;
+
+        const { error: deleteError } = await supabase
+          .from('property_backups')
+          .delete()
+          .in('id', expired.map(b => b.id));
+        if (deleteError) throw deleteError;
+      }
+    }
+
+    return new Response(JSON.stringify({ created }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+        status: error.message.includes('Unauthorized') ? 403 : 400,
+      }
+    );
+  }
+});
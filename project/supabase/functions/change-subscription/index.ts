@@ -0,0 +1,343 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { addMonths, createSubscriptionInvoice } from '../_shared/subscription-invoices.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// A newer plan choice replaces any invoice the owner left unpaid
+const voidPendingPlanInvoices = async (supabase: SupabaseClient, userId: string) => {
+  const { error } = await supabase
+    .from('subscription_invoices')
+    .update({ status: 'void', updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .in('kind', ['start', 'upgrade']);
+  if (error) throw error;
+};
+
+// Owner-facing plan changes. Actions:
+// - change: upgrades are invoiced for the price difference over the rest of
+//   the period and switch plan once subscription-webhook sees the invoice
+//   paid; downgrades are checked against current usage and scheduled for
+//   current_period_end. Owners without a subscription are invoiced for their
+//   first period the same way, or start a trial if the plan has one and they
+//   never subscribed before. Upgrades during a trial are free.
+// - cancel / resume: toggle cancel_at_period_end, honored by renew-subscriptions.
+// - cancel_scheduled_change: drop a scheduled downgrade.
+// Proration mirrors previewPlanChange in src/utils/subscription.ts.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Unauthorized - No authorization header');
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { action, plan_id: planId } = await req.json();
+    const now = new Date();
+
+    // Owners have one live subscription; the newest wins should a stale one linger
+    const { data: subscription, error: subscriptionError } = await supabase
+      .from('subscriptions')
+      .select('*, subscription_plans ( * )')
+      .eq('user_id', user.id)
+      .in('status', ['trialing', 'active', 'past_due'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (subscriptionError) throw subscriptionError;
+
+    switch (action) {
+      case 'change': {
+        const { data: newPlan, error: planError } = await supabase
+          .from('subscription_plans')
+          .select('*')
+          .eq('id', planId)
+          .eq('is_active', true)
+          .maybeSingle();
+        if (planError) throw planError;
+        if (!newPlan) {
+          throw new Error('Plan not available');
+        }
+
+        // Very first subscription on a plan with a trial: free until trial_end,
+        // then renew-subscriptions invoices the first paid period
+        if (!subscription && newPlan.trial_days > 0) {
+          const { count, error: countError } = await supabase
+            .from('subscriptions')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', user.id);
+          if (countError) throw countError;
+
+          if (count === 0) {
+            const trialEnd = new Date(now.getTime() + newPlan.trial_days * 24 * 60 * 60 * 1000);
+
+            const { data: created, error: createError } = await supabase
+              .from('subscriptions')
+              .insert({
+                user_id: user.id,
+                plan_id: newPlan.id,
+                status: 'trialing',
+                current_period_start: now.toISOString(),
+                current_period_end: trialEnd.toISOString(),
+                trial_end: trialEnd.toISOString(),
+                cancel_at_period_end: false,
+              })
+              .select()
+              .single();
+            if (createError) throw createError;
+
+            const { error: changeError } = await supabase
+              .from('subscription_changes')
+              .insert({
+                subscription_id: created.id,
+                user_id: user.id,
+                change_type: 'start',
+                to_plan_id: newPlan.id,
+                amount: 0,
+                effective_at: now.toISOString(),
+              });
+            if (changeError) throw changeError;
+
+            await voidPendingPlanInvoices(supabase, user.id);
+            return jsonResponse({ status: 'trialing', amount: 0, effective_at: trialEnd.toISOString() });
+          }
+        }
+
+        // First subscription on a free plan: nothing to invoice
+        if (!subscription && Number(newPlan.price) === 0) {
+          const { data: created, error: createError } = await supabase
+            .from('subscriptions')
+            .insert({
+              user_id: user.id,
+              plan_id: newPlan.id,
+              status: 'active',
+              current_period_start: now.toISOString(),
+              current_period_end: addMonths(now, 1).toISOString(),
+              cancel_at_period_end: false,
+            })
+            .select()
+            .single();
+          if (createError) throw createError;
+
+          const { error: changeError } = await supabase
+            .from('subscription_changes')
+            .insert({
+              subscription_id: created.id,
+              user_id: user.id,
+              change_type: 'start',
+              to_plan_id: newPlan.id,
+              amount: 0,
+              effective_at: now.toISOString(),
+            });
+          if (changeError) throw changeError;
+
+          return jsonResponse({ status: 'changed', amount: 0 });
+        }
+
+        // First paid subscription: the period starts once the invoice is paid
+        if (!subscription) {
+          await voidPendingPlanInvoices(supabase, user.id);
+          const invoice = await createSubscriptionInvoice(supabase, {
+            userId: user.id,
+            plan: newPlan,
+            kind: 'start',
+            amount: newPlan.price,
+          });
+
+          return jsonResponse({
+            status: 'pending_payment',
+            amount: invoice.amount,
+            invoice_number: invoice.invoice_number,
+            payment_url: invoice.payment_url,
+          });
+        }
+
+        if (subscription.status === 'past_due') {
+          throw new Error('Pay the outstanding renewal invoice first');
+        }
+
+        const currentPlan = subscription.subscription_plans;
+        if (currentPlan.id === newPlan.id) {
+          throw new Error('Already on this plan');
+        }
+
+        if (newPlan.price > currentPlan.price) {
+          const start = new Date(subscription.current_period_start).getTime();
+          const end = new Date(subscription.current_period_end).getTime();
+          const remaining = Math.max(0, end - now.getTime());
+          const fraction = end > start ? Math.min(1, remaining / (end - start)) : 0;
+          // Trials are free whatever the plan; the first invoice follows trial_end
+          const amount = subscription.status === 'trialing'
+            ? 0
+            : Math.round((newPlan.price - currentPlan.price) * fraction);
+
+          await voidPendingPlanInvoices(supabase, user.id);
+
+          // Nothing left to charge in a trial or at the very end of a period
+          if (amount === 0) {
+            const { error: updateError } = await supabase
+              .from('subscriptions')
+              .update({ plan_id: newPlan.id, scheduled_plan_id: null, updated_at: now.toISOString() })
+              .eq('id', subscription.id);
+            if (updateError) throw updateError;
+
+            const { error: changeError } = await supabase
+              .from('subscription_changes')
+              .insert({
+                subscription_id: subscription.id,
+                user_id: user.id,
+                change_type: 'upgrade',
+                from_plan_id: currentPlan.id,
+                to_plan_id: newPlan.id,
+                amount,
+                effective_at: now.toISOString(),
+              });
+            if (changeError) throw changeError;
+
+            return jsonResponse({ status: 'changed', amount });
+          }
+
+          const invoice = await createSubscriptionInvoice(supabase, {
+            userId: user.id,
+            subscriptionId: subscription.id,
+            plan: newPlan,
+            kind: 'upgrade',
+            amount,
+            periodStart: now.toISOString(),
+            periodEnd: subscription.current_period_end,
+          });
+
+          return jsonResponse({
+            status: 'pending_payment',
+            amount,
+            invoice_number: invoice.invoice_number,
+            payment_url: invoice.payment_url,
+          });
+        }
+
+        // Downgrade: the owner's data has to fit the smaller plan already
+        const { data: properties, error: propertiesError } = await supabase
+          .from('properties')
+          .select('id, name, rooms ( count )')
+          .eq('owner_id', user.id);
+        if (propertiesError) throw propertiesError;
+
+        const violations: string[] = [];
+        if ((properties ?? []).length > newPlan.max_properties) {
+          violations.push(`Anda memiliki ${properties.length} properti, paket ${newPlan.name} hanya mengizinkan ${newPlan.max_properties}`);
+        }
+        for (const property of properties ?? []) {
+          const rooms = property.rooms?.[0]?.count ?? 0;
+          if (rooms > newPlan.max_rooms_per_property) {
+            violations.push(`${property.name} memiliki ${rooms} kamar, paket ${newPlan.name} hanya mengizinkan ${newPlan.max_rooms_per_property}`);
+          }
+        }
+        if (violations.length > 0) {
+          return jsonResponse({ error: 'plan_usage_exceeded', violations }, 409);
+        }
+
+        const { error: updateError } = await supabase
+          .from('subscriptions')
+          .update({ scheduled_plan_id: newPlan.id, updated_at: now.toISOString() })
+          .eq('id', subscription.id);
+        if (updateError) throw updateError;
+
+        const { error: changeError } = await supabase
+          .from('subscription_changes')
+          .insert({
+            subscription_id: subscription.id,
+            user_id: user.id,
+            change_type: 'downgrade',
+            from_plan_id: currentPlan.id,
+            to_plan_id: newPlan.id,
+            amount: 0,
+            effective_at: subscription.current_period_end,
+          });
+        if (changeError) throw changeError;
+
+        return jsonResponse({ status: 'scheduled', effective_at: subscription.current_period_end });
+      }
+
+      case 'cancel':
+      case 'resume':
+      case 'cancel_scheduled_change': {
+        if (!subscription) {
+          throw new Error('No active subscription');
+        }
+
+        const update = action === 'cancel_scheduled_change'
+          ? { scheduled_plan_id: null }
+          : { cancel_at_period_end: action === 'cancel' };
+
+        const { error: updateError } = await supabase
+          .from('subscriptions')
+          .update({ ...update, updated_at: now.toISOString() })
+          .eq('id', subscription.id);
+        if (updateError) throw updateError;
+
+        return jsonResponse({ status: 'updated' });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+        status: error.message.includes('Unauthorized') ? 403 : 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,103 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { fakePaymentsAllowed } from '../_shared/payment-providers.ts';
+
+const htmlResponse = (body: string, status = 200) =>
+  new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><title>Fake Checkout</title></head>`
+      + `<body style="font-family: sans-serif; max-width: 28rem; margin: 3rem auto;">${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Payment page of the fake provider, for local development only (deploy with
+// --no-verify-jwt). GET shows the invoice with buttons to settle it; POST sends
+// the matching signed webhook to subscription-webhook, as a real provider would.
+// Refuses to run unless ALLOW_FAKE_PAYMENTS=true.
+Deno.serve(async (req) => {
+  if (!fakePaymentsAllowed()) {
+    return htmlResponse('<p>Not found.</p>', 404);
+  }
+
+  try {
+    const secret = Deno.env.get('FAKE_PAYMENT_SECRET') ?? '';
+    if (!secret) {
+      throw new Error('FAKE_PAYMENT_SECRET is not set');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const invoiceNumber = new URL(req.url).searchParams.get('invoice') ?? '';
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('subscription_invoices')
+      .select('*')
+      .eq('invoice_number', invoiceNumber)
+      .eq('provider', 'fake')
+      .maybeSingle();
+    if (invoiceError) throw invoiceError;
+    if (!invoice) {
+      return htmlResponse('<p>Invoice not found.</p>', 404);
+    }
+
+    const backLink = Deno.env.get('APP_URL')
+      ? `<p><a href="${escapeHtml(`${Deno.env.get('APP_URL')}/settings?tab=subscription`)}">Back to the app</a></p>`
+      : '';
+
+    if (req.method === 'POST') {
+      const form = await req.formData();
+      const status = form.get('status');
+      if (status !== 'paid' && status !== 'failed' && status !== 'expired') {
+        throw new Error('Invalid status');
+      }
+
+      const response = await fetch(
+        `${Deno.env.get('SUPABASE_URL')}/functions/v1/subscription-webhook?provider=fake`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Fake-Signature': secret,
+          },
+          body: JSON.stringify({
+            event_id: crypto.randomUUID(),
+            invoice_number: invoice.invoice_number,
+            status,
+          }),
+        }
+      );
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Webhook failed');
+
+      return htmlResponse(
+        `<h1>${escapeHtml(invoice.invoice_number)}</h1><p>Webhook sent: ${escapeHtml(result.status)}</p>${backLink}`
+      );
+    }
+
+    const actions = invoice.status === 'pending'
+      ? `<form method="post">
+          <button name="status" value="paid">Pay</button>
+          <button name="status" value="failed">Fail</button>
+          <button name="status" value="expired">Expire</button>
+        </form>`
+      : `<p>This invoice is ${escapeHtml(invoice.status)}.</p>`;
+
+    return htmlResponse(
+      `<h1>${escapeHtml(invoice.invoice_number)}</h1>
+      <p>${escapeHtml(invoice.plan_name)} (${escapeHtml(invoice.kind)})</p>
+      <p><strong>Rp ${Number(invoice.amount).toLocaleString('id-ID')}</strong></p>
+      ${actions}${backLink}`
+    );
+  } catch (error) {
+    return htmlResponse(`<p>${escapeHtml(error.message)}</p>`, 400);
+  }
+});
@@ -0,0 +1,206 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateString = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+const CYCLE_MONTHS: Record<string, number> = { monthly: 1, quarterly: 3, yearly: 12 };
+
+// Runs once a day from the scheduler. For every property whose owner's plan
+// includes auto_billing and who left the auto_billing setting on, creates
+// this month's rent invoice for each active tenant once their due date is
+// within the owner's payment_reminder_days, and marks tenants who were paid
+// up as pending. Tenants on a quarterly or yearly lease are billed every 3 or
+// 12 months from the lease start, for the whole cycle at once. A property
+// that fails is reported in `errors` and does not stop the others.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which calls with the service role key, may run billing
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const today = new Date();
+    const period = `${today.getUTCFullYear()}-${pad(today.getUTCMonth() + 1)}`;
+    const daysInMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0)).getUTCDate();
+    const periodStart = `${period}-01`;
+    const periodEnd = `${period}-${pad(daysInMonth)}`;
+
+    // Owners whose plan includes auto billing: the newest trialing, active or
+    // past_due subscription, the one plan_features reads
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('subscriptions')
+      .select('user_id, subscription_plans ( features )')
+      .in('status', ['trialing', 'active', 'past_due'])
+      .order('created_at', { ascending: false });
+    if (subscriptionsError) throw subscriptionsError;
+
+    const currentSubscriptions = (subscriptions ?? [])
+      .filter((s, index, all) => all.findIndex(other => other.user_id === s.user_id) === index);
+
+    const ownerIds = currentSubscriptions
+      .filter(s => s.subscription_plans?.features?.auto_billing)
+      .map(s => s.user_id);
+
+    if (ownerIds.length === 0) {
+      return new Response(JSON.stringify({ period, created: 0, errors: [] }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: properties, error: propertiesError } = await supabase
+      .from('properties')
+      .select('id, owner_id')
+      .in('owner_id', ownerIds);
+    if (propertiesError) throw propertiesError;
+
+    const { data: settings } = await supabase
+      .from('user_settings')
+      .select('user_id, auto_billing, payment_reminder_days')
+      .in('user_id', ownerIds);
+
+    let created = 0;
+    const errors: { property_id: string; error: string }[] = [];
+
+    for (const property of properties ?? []) {
+      const ownerSettings = settings?.find(s => s.user_id === property.owner_id);
+      if (ownerSettings && !ownerSettings.auto_billing) continue;
+
+      try {
+        const leadDays = ownerSettings?.payment_reminder_days ?? 5;
+        const horizon = new Date(today);
+        horizon.setUTCDate(horizon.getUTCDate() + leadDays);
+        const horizonDate = toDateString(horizon);
+
+        const [
+          { data: tenants, error: tenantsError },
+          { data: rooms, error: roomsError },
+          { data: leases, error: leasesError },
+          { data: existing, error: existingError },
+        ] = await Promise.all([
+          supabase
+            .from('tenants')
+            .select('*')
+            .eq('property_id', property.id)
+            .eq('status', 'active')
+            .not('room_id', 'is', null),
+          supabase
+            .from('rooms')
+            .select('id, price')
+            .eq('property_id', property.id),
+          supabase
+            .from('leases')
+            .select('tenant_id, start_date, rent_amount, billing_cycle')
+            .eq('property_id', property.id)
+            .eq('status', 'active'),
+          supabase
+            .from('payments')
+            .select('tenant_id')
+            .eq('property_id', property.id)
+            .eq('billing_period', period),
+        ]);
+        if (tenantsError) throw tenantsError;
+        if (roomsError) throw roomsError;
+        if (leasesError) throw leasesError;
+        if (existingError) throw existingError;
+
+        const invoices = (tenants ?? [])
+          .filter(tenant => !existing?.some(p => p.tenant_id === tenant.id))
+          .filter(tenant => tenant.start_date <= periodEnd && (!tenant.end_date || tenant.end_date >= periodStart))
+          .filter(tenant => {
+            const lease = leases?.find(l => l.tenant_id === tenant.id);
+            if (!lease) return true;
+            const leaseStart = new Date(lease.start_date);
+            const monthsSinceStart = (today.getUTCFullYear() - leaseStart.getUTCFullYear()) * 12
+              + today.getUTCMonth() - leaseStart.getUTCMonth();
+            return monthsSinceStart >= 0 && monthsSinceStart % (CYCLE_MONTHS[lease.billing_cycle] ?? 1) === 0;
+          })
+          .map(tenant => {
+            const billingDay = tenant.billing_day ?? new Date(tenant.start_date).getUTCDate();
+            const dueDate = `${period}-${pad(Math.min(billingDay, daysInMonth))}`;
+            const room = rooms?.find(r => r.id === tenant.room_id);
+            const lease = leases?.find(l => l.tenant_id === tenant.id);
+            return {
+              tenant_id: tenant.id,
+              room_id: tenant.room_id,
+              amount: lease
+                ? Number(lease.rent_amount) * (CYCLE_MONTHS[lease.billing_cycle] ?? 1)
+                : Number(room?.price ?? 0),
+              date: null,
+              due_date: dueDate,
+              status: 'pending',
+              billing_period: period,
+              notes: `Tagihan sewa ${period}`,
+              property_id: property.id,
+            };
+          })
+          .filter(invoice => invoice.amount > 0 && invoice.due_date <= horizonDate);
+
+        if (invoices.length === 0) continue;
+
+        const { error: insertError } = await supabase
+          .from('payments')
+          .insert(invoices);
+        if (insertError) throw insertError;
+        created += invoices.length;
+
+        // The tenant owes again; tenants already overdue stay overdue
+        const { error: tenantsUpdateError } = await supabase
+          .from('tenants')
+          .update({ payment_status: 'pending' })
+          .in('id', invoices.map(invoice => invoice.tenant_id))
+          .eq('payment_status', 'paid');
+        if (tenantsUpdateError) throw tenantsUpdateError;
+      } catch (error) {
+        console.error(`Error billing property ${property.id}:`, error);
+        errors.push({ property_id: property.id, error: error.message });
+      }
+    }
+
+    return new Response(JSON.stringify({ period, created, errors }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+        status: error.message.includes('Unauthorized') ? 403 : 400,
+      }
+    );
+  }
+});
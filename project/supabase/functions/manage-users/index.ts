@@ -1,8 +1,9 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { resetUserMfa } from '../_shared/mfa.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
@@ -75,6 +76,7 @@ Deno.serve(async (req) => {
             status: backofficeData?.status || 'inactive',
             created_at: user.created_at,
             last_login: user.last_sign_in_at,
+            mfa_enabled: (user.factors || []).some(factor => factor.status === 'verified'),
           };
         });
 
@@ -137,6 +139,21 @@ Deno.serve(async (req) => {
         });
       }
 
+      // Resets the user's two-factor authentication, e.g. after they lost
+      // both their authenticator and recovery codes
+      case 'PATCH': {
+        const { userId, action } = await req.json();
+        if (action !== 'reset_mfa') {
+          throw new Error('Unsupported action');
+        }
+
+        await resetUserMfa(supabase, userId);
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       case 'DELETE': {
         const { userId } = await req.json();
         const { error } = await supabase.auth.admin.deleteUser(userId);
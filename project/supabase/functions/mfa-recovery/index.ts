@@ -0,0 +1,78 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { resetUserMfa } from '../_shared/mfa.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Signs a user who lost their authenticator in with a recovery code: the code
+// is used up and their factors are removed, so the password session they
+// already have is enough until they enroll again
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { code } = await req.json();
+    if (typeof code !== 'string' || !code.trim()) {
+      throw new Error('Recovery code is required');
+    }
+
+    const { data: consumed, error: consumeError } = await supabase.rpc('consume_mfa_recovery_code', {
+      p_user_id: user.id,
+      p_code: code,
+    });
+    if (consumeError) throw consumeError;
+
+    if (!consumed) {
+      return new Response(JSON.stringify({ error: 'invalid_recovery_code' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    await resetUserMfa(supabase, user.id);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
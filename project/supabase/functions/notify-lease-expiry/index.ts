@@ -0,0 +1,109 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Runs once a day from the scheduler. Notifies property owners about active
+// leases ending within their lease_expiry_reminder_days. Each lease is only
+// notified once; renewing it creates a new lease that is notified on its own.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which calls with the service role key, may run this job
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const today = new Date().toISOString().split('T')[0];
+
+    const { data: leases, error: leasesError } = await supabase
+      .from('leases')
+      .select('id, end_date, property_id, tenants ( name ), properties ( name, owner_id )')
+      .eq('status', 'active')
+      .is('expiry_notified_at', null)
+      .gte('end_date', today);
+    if (leasesError) throw leasesError;
+
+    const ownerIds = [...new Set((leases ?? []).map(l => l.properties?.owner_id).filter(Boolean))];
+    const { data: settings } = ownerIds.length > 0
+      ? await supabase
+          .from('user_settings')
+          .select('user_id, lease_expiry_reminder_days')
+          .in('user_id', ownerIds)
+      : { data: [] };
+
+    let notified = 0;
+
+    for (const lease of leases ?? []) {
+      const ownerId = lease.properties?.owner_id;
+      if (!ownerId) continue;
+
+      const reminderDays = settings?.find(s => s.user_id === ownerId)?.lease_expiry_reminder_days ?? 30;
+      const daysLeft = Math.round((new Date(lease.end_date).getTime() - new Date(today).getTime()) / DAY_MS);
+      if (daysLeft > reminderDays) continue;
+
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert({
+          title: 'Kontrak sewa segera berakhir',
+          message: `Kontrak sewa ${lease.tenants?.name ?? 'penyewa'} di ${lease.properties?.name ?? 'properti Anda'} berakhir dalam ${daysLeft} hari (${lease.end_date}).`,
+          type: 'property',
+          status: 'unread',
+          target_user_id: ownerId,
+          target_property_id: lease.property_id,
+        });
+      if (notificationError) throw notificationError;
+
+      const { error: updateError } = await supabase
+        .from('leases')
+        .update({ expiry_notified_at: new Date().toISOString() })
+        .eq('id', lease.id);
+      if (updateError) throw updateError;
+
+      notified++;
+    }
+
+    return new Response(JSON.stringify({ notified }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+        status: error.message.includes('Unauthorized') ? 403 : 400,
+      }
+    );
+  }
+});
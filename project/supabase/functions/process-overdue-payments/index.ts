@@ -0,0 +1,162 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Runs once a day from the scheduler. Flips pending payments past their due
+// date to overdue, then charges (or updates) the late fee line of every
+// overdue rent invoice according to its property's late fee settings.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which calls with the service role key, may run this job
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const today = new Date().toISOString().split('T')[0];
+
+    // Mark pending and partially paid payments past their due date as overdue
+    const { data: newlyOverdue, error: overdueError } = await supabase
+      .from('payments')
+      .update({ status: 'overdue', updated_at: new Date().toISOString() })
+      .in('status', ['pending', 'partially_paid'])
+      .lt('due_date', today)
+      .select('id, tenant_id');
+    if (overdueError) throw overdueError;
+
+    const overdueTenantIds = [...new Set((newlyOverdue ?? []).map(p => p.tenant_id).filter(Boolean))];
+    if (overdueTenantIds.length > 0) {
+      const { error: tenantError } = await supabase
+        .from('tenants')
+        .update({ payment_status: 'overdue' })
+        .in('id', overdueTenantIds);
+      if (tenantError) throw tenantError;
+    }
+
+    // Accrue late fees for properties that charge them
+    const { data: properties, error: propertiesError } = await supabase
+      .from('properties')
+      .select('id, late_fee_type, late_fee_amount, late_fee_max')
+      .neq('late_fee_type', 'none')
+      .gt('late_fee_amount', 0);
+    if (propertiesError) throw propertiesError;
+
+    let feesCharged = 0;
+
+    for (const property of properties ?? []) {
+      const { data: invoices, error: invoicesError } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('property_id', property.id)
+        .eq('kind', 'rent')
+        .in('status', ['overdue', 'partially_paid'])
+        .lt('due_date', today);
+      if (invoicesError) throw invoicesError;
+      if (!invoices?.length) continue;
+
+      const { data: existingFees, error: feesError } = await supabase
+        .from('payments')
+        .select('id, related_payment_id, status')
+        .eq('kind', 'late_fee')
+        .in('related_payment_id', invoices.map(i => i.id));
+      if (feesError) throw feesError;
+
+      for (const invoice of invoices) {
+        const daysLate = Math.floor((Date.parse(today) - Date.parse(invoice.due_date)) / DAY_MS);
+        if (daysLate <= 0) continue;
+
+        // Percentage fees are charged on what is still owed, not the original invoice
+        const outstanding = Number(invoice.amount) - Number(invoice.amount_paid ?? 0);
+        const dailyFee = property.late_fee_type === 'flat'
+          ? Number(property.late_fee_amount)
+          : outstanding * Number(property.late_fee_amount) / 100;
+
+        let fee = Math.round(dailyFee * daysLate);
+        if (Number(property.late_fee_max) > 0) {
+          fee = Math.min(fee, Number(property.late_fee_max));
+        }
+
+        const existingFee = existingFees?.find(f => f.related_payment_id === invoice.id);
+
+        if (existingFee) {
+          // Fees that have already been settled are not touched again
+          if (existingFee.status === 'paid') continue;
+
+          const { error: updateError } = await supabase
+            .from('payments')
+            .update({ amount: fee, updated_at: new Date().toISOString() })
+            .eq('id', existingFee.id);
+          if (updateError) throw updateError;
+        } else {
+          const { error: insertError } = await supabase
+            .from('payments')
+            .insert([{
+              tenant_id: invoice.tenant_id,
+              room_id: invoice.room_id,
+              amount: fee,
+              date: null,
+              due_date: invoice.due_date,
+              status: 'overdue',
+              kind: 'late_fee',
+              related_payment_id: invoice.id,
+              notes: `Denda keterlambatan${invoice.billing_period ? ` ${invoice.billing_period}` : ''}`,
+              property_id: property.id,
+            }]);
+          if (insertError) throw insertError;
+        }
+
+        feesCharged++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        overdue: newlyOverdue?.length ?? 0,
+        late_fees: feesCharged,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+        status: error.message.includes('Unauthorized') ? 403 : 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,286 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { addMonths, createSubscriptionInvoice } from '../_shared/subscription-invoices.ts';
+import { findPromoRedemption, promoDiscount } from '../_shared/promo-codes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Days a past_due owner keeps full access before the account turns read-only
+const GRACE_PERIOD_DAYS = 7;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+// Runs every hour from the scheduler. Closes out trialing, active and past_due
+// subscriptions whose period has ended: cancels those marked
+// cancel_at_period_end, otherwise invoices the next monthly period on the
+// scheduled downgrade if it still fits the owner's usage, else on the current
+// plan, and moves the subscription to past_due with a grace window.
+// subscription-webhook makes it active again once the invoice is paid; after
+// grace_until the database keeps the owner read-only. Failed or expired
+// invoices are replaced on the next run. A promo code redeemed on the
+// subscription is taken off while its months last. Free plans, and months a
+// promo code makes free, renew straight away. A subscription that fails is
+// reported in `errors` and does not stop the others.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which calls with the service role key, may run renewals
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const now = new Date();
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from('subscriptions')
+      .select('*, subscription_plans ( * )')
+      .in('status', ['trialing', 'active', 'past_due'])
+      .lte('current_period_end', now.toISOString());
+    if (subscriptionsError) throw subscriptionsError;
+
+    let renewed = 0;
+    let invoiced = 0;
+    let cancelled = 0;
+    const errors: { subscription_id: string; error: string }[] = [];
+
+    for (const subscription of subscriptions ?? []) {
+      try {
+        const periodEnd = new Date(subscription.current_period_end);
+
+        if (subscription.cancel_at_period_end) {
+          const { error: updateError } = await supabase
+            .from('subscriptions')
+            .update({
+              status: 'cancelled',
+              scheduled_plan_id: null,
+              grace_until: null,
+              updated_at: now.toISOString(),
+            })
+            .eq('id', subscription.id);
+          if (updateError) throw updateError;
+
+          const { error: voidError } = await supabase
+            .from('subscription_invoices')
+            .update({ status: 'void', updated_at: now.toISOString() })
+            .eq('subscription_id', subscription.id)
+            .eq('status', 'pending');
+          if (voidError) throw voidError;
+
+          const { error: changeError } = await supabase
+            .from('subscription_changes')
+            .insert({
+              subscription_id: subscription.id,
+              user_id: subscription.user_id,
+              change_type: 'cancellation',
+              from_plan_id: subscription.plan_id,
+              effective_at: periodEnd.toISOString(),
+            });
+          if (changeError) throw changeError;
+
+          cancelled++;
+          continue;
+        }
+
+        const nextStart = periodEnd;
+        const nextEnd = addMonths(periodEnd, 1);
+
+        // The period is already invoiced and waiting for payment
+        const { data: existingInvoice, error: existingError } = await supabase
+          .from('subscription_invoices')
+          .select('id')
+          .eq('subscription_id', subscription.id)
+          .eq('kind', 'renewal')
+          .eq('period_start', nextStart.toISOString())
+          .in('status', ['pending', 'paid'])
+          .limit(1)
+          .maybeSingle();
+        if (existingError) throw existingError;
+        if (existingInvoice) continue;
+
+        let plan = subscription.subscription_plans;
+
+        if (subscription.scheduled_plan_id) {
+          const { data: scheduledPlan, error: planError } = await supabase
+            .from('subscription_plans')
+            .select('*')
+            .eq('id', subscription.scheduled_plan_id)
+            .maybeSingle();
+          if (planError) throw planError;
+
+          const { data: properties, error: propertiesError } = await supabase
+            .from('properties')
+            .select('id, rooms ( count )')
+            .eq('owner_id', subscription.user_id);
+          if (propertiesError) throw propertiesError;
+
+          // Usage may have grown since the downgrade was scheduled; keep the
+          // current plan rather than leave the owner over quota
+          const fits = scheduledPlan
+            && (properties ?? []).length <= scheduledPlan.max_properties
+            && (properties ?? []).every(p => (p.rooms?.[0]?.count ?? 0) <= scheduledPlan.max_rooms_per_property);
+
+          if (fits) {
+            plan = scheduledPlan;
+          } else {
+            const { error: clearError } = await supabase
+              .from('subscriptions')
+              .update({ scheduled_plan_id: null, updated_at: now.toISOString() })
+              .eq('id', subscription.id);
+            if (clearError) throw clearError;
+
+            const { error: notificationError } = await supabase
+              .from('notifications')
+              .insert({
+                title: 'Penurunan paket dibatalkan',
+                message: `Penurunan paket ke ${scheduledPlan?.name ?? 'paket baru'} dibatalkan karena jumlah properti atau kamar Anda melebihi batas paket tersebut. Langganan ${plan.name} diperpanjang.`,
+                type: 'system',
+                status: 'unread',
+                target_user_id: subscription.user_id,
+              });
+            if (notificationError) throw notificationError;
+          }
+        }
+
+        const price = Number(plan.price);
+        const redemption = price > 0 ? await findPromoRedemption(supabase, subscription.id, plan.id) : null;
+        const discount = redemption ? promoDiscount(redemption, price) : 0;
+        const amount = price - discount;
+
+        if (amount > 0) {
+          await createSubscriptionInvoice(supabase, {
+            userId: subscription.user_id,
+            subscriptionId: subscription.id,
+            plan,
+            kind: 'renewal',
+            amount,
+            periodStart: nextStart.toISOString(),
+            periodEnd: nextEnd.toISOString(),
+            discountAmount: discount,
+            promoRedemptionId: redemption?.id ?? null,
+          });
+
+          // Replacement invoices for a failed payment keep the original grace window
+          if (subscription.status !== 'past_due') {
+            const graceUntil = new Date(periodEnd.getTime() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+            const { error: updateError } = await supabase
+              .from('subscriptions')
+              .update({
+                status: 'past_due',
+                grace_until: graceUntil.toISOString(),
+                updated_at: now.toISOString(),
+              })
+              .eq('id', subscription.id);
+            if (updateError) throw updateError;
+
+            const { error: notificationError } = await supabase
+              .from('notifications')
+              .insert({
+                title: subscription.status === 'trialing' ? 'Masa uji coba berakhir' : 'Tagihan langganan',
+                message: `${subscription.status === 'trialing' ? 'Masa uji coba Anda telah berakhir.' : 'Periode langganan Anda telah berakhir.'} Bayar tagihan paket ${plan.name} sebelum ${formatDate(graceUntil)}; setelah itu data Anda hanya dapat dilihat dan tidak dapat diubah.`,
+                type: 'payment',
+                status: 'unread',
+                target_user_id: subscription.user_id,
+              });
+            if (notificationError) throw notificationError;
+          }
+
+          invoiced++;
+          continue;
+        }
+
+        // Catch up if the job missed whole periods. A promo month only covers
+        // one period; the next run bills the rest
+        let freeEnd = nextEnd;
+        let freeStart = nextStart;
+        while (!redemption && freeEnd <= now) {
+          freeStart = freeEnd;
+          freeEnd = addMonths(freeEnd, 1);
+        }
+
+        const { error: updateError } = await supabase
+          .from('subscriptions')
+          .update({
+            plan_id: plan.id,
+            scheduled_plan_id: null,
+            status: 'active',
+            grace_until: null,
+            current_period_start: freeStart.toISOString(),
+            current_period_end: freeEnd.toISOString(),
+            updated_at: now.toISOString(),
+          })
+          .eq('id', subscription.id);
+        if (updateError) throw updateError;
+
+        const { error: changeError } = await supabase
+          .from('subscription_changes')
+          .insert({
+            subscription_id: subscription.id,
+            user_id: subscription.user_id,
+            change_type: 'renewal',
+            from_plan_id: subscription.plan_id,
+            to_plan_id: plan.id,
+            amount,
+            effective_at: freeStart.toISOString(),
+          });
+        if (changeError) throw changeError;
+
+        if (redemption) {
+          const { error: promoError } = await supabase.rpc('record_promo_period', {
+            p_redemption_id: redemption.id,
+            p_amount: 0,
+            p_discount: discount,
+          });
+          if (promoError) throw promoError;
+        }
+
+        renewed++;
+      } catch (error) {
+        console.error(`Error renewing subscription ${subscription.id}:`, error);
+        errors.push({ subscription_id: subscription.id, error: error.message });
+      }
+    }
+
+    return new Response(JSON.stringify({ renewed, invoiced, cancelled, errors }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+        status: error.message.includes('Unauthorized') ? 403 : 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,121 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.7';
+import { getPaymentProvider } from '../_shared/payment-providers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Fake-Signature',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Payment notifications for subscription invoices, called by the provider
+// named in ?provider= (deploy with --no-verify-jwt; requests are authenticated
+// by the provider's signature instead). Each event is stored once: a repeated
+// event id is acknowledged without being applied again. A paid invoice starts,
+// upgrades or renews the subscription; failed and expired ones are only marked.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const provider = getPaymentProvider(new URL(req.url).searchParams.get('provider') ?? undefined);
+    const event = await provider.parseWebhook(req);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const { error: eventError } = await supabase
+      .from('payment_webhook_events')
+      .insert({
+        provider: provider.name,
+        event_id: event.eventId,
+        invoice_number: event.invoiceNumber,
+        status: event.status,
+        payload: event.payload,
+      });
+    if (eventError) {
+      // unique_violation: already processed
+      if (eventError.code === '23505') {
+        return jsonResponse({ status: 'duplicate' });
+      }
+      throw eventError;
+    }
+
+    try {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('subscription_invoices')
+        .select('*')
+        .eq('invoice_number', event.invoiceNumber)
+        .eq('provider', provider.name)
+        .maybeSingle();
+      if (invoiceError) throw invoiceError;
+      if (!invoice) {
+        throw new Error(`Unknown invoice: ${event.invoiceNumber}`);
+      }
+
+      // Only pending invoices change state; late events for settled or voided
+      // invoices are kept in payment_webhook_events for follow-up
+      if (invoice.status !== 'pending' || event.status === 'pending') {
+        return jsonResponse({ status: 'ignored', invoice_status: invoice.status });
+      }
+
+      const now = new Date();
+
+      if (event.status === 'paid') {
+        // One transaction, and a no-op for an invoice that is already paid
+        const { error: applyError } = await supabase.rpc('apply_paid_subscription_invoice', {
+          p_invoice_id: invoice.id,
+          p_paid_at: now.toISOString(),
+        });
+        if (applyError) throw applyError;
+      } else {
+        const { error: updateError } = await supabase
+          .from('subscription_invoices')
+          .update({ status: event.status, updated_at: now.toISOString() })
+          .eq('id', invoice.id);
+        if (updateError) throw updateError;
+      }
+    } catch (error) {
+      // Let the provider's retry run again instead of being taken as a duplicate
+      await supabase
+        .from('payment_webhook_events')
+        .delete()
+        .eq('provider', provider.name)
+        .eq('event_id', event.eventId);
+      throw error;
+    }
+
+    return jsonResponse({ status: event.status });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+        status: error.message.includes('Unauthorized') ? 403 : 400,
+      }
+    );
+  }
+});
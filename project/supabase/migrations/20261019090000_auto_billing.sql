@@ -0,0 +1,25 @@
+/*
+  # Automatic monthly billing
+
+  1. Changes
+    - `payments.billing_period` (text, `YYYY-MM`): the rent period an invoice
+      was generated for. Manually recorded payments leave it empty.
+    - `tenants.billing_day` (smallint, 1-31): day of month rent is due. When
+      empty the day of `start_date` is used.
+
+  2. Constraints
+    - One generated invoice per tenant per period, so re-running the billing
+      engine for the same month never creates duplicates.
+*/
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS billing_period text
+  CHECK (billing_period ~ '^\d{4}-(0[1-9]|1[0-2])$');
+
+ALTER TABLE tenants
+  ADD COLUMN IF NOT EXISTS billing_day smallint
+  CHECK (billing_day BETWEEN 1 AND 31);
+
+CREATE UNIQUE INDEX IF NOT EXISTS payments_tenant_billing_period_key
+  ON payments (tenant_id, billing_period)
+  WHERE billing_period IS NOT NULL;
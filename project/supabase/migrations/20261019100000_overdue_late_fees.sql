@@ -0,0 +1,36 @@
+/*
+  # Overdue payments and late fees
+
+  1. Changes
+    - `properties.late_fee_type` ('none' | 'flat' | 'percentage'): how the
+      daily late fee is calculated for the property.
+    - `properties.late_fee_amount` (numeric): rupiah per day for `flat`, or
+      percent of the invoice per day for `percentage`.
+    - `properties.late_fee_max` (numeric): cap on the total fee per invoice,
+      0 means no cap.
+    - `payments.kind` ('rent' | 'late_fee'): late fees are stored as their own
+      payment line so they show up in reports.
+    - `payments.related_payment_id`: the invoice a late fee was charged on.
+
+  2. Constraints
+    - At most one late fee line per invoice. The daily job updates it as the
+      fee accrues.
+*/
+
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS late_fee_type text NOT NULL DEFAULT 'none'
+    CHECK (late_fee_type IN ('none', 'flat', 'percentage')),
+  ADD COLUMN IF NOT EXISTS late_fee_amount numeric NOT NULL DEFAULT 0
+    CHECK (late_fee_amount >= 0),
+  ADD COLUMN IF NOT EXISTS late_fee_max numeric NOT NULL DEFAULT 0
+    CHECK (late_fee_max >= 0);
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'rent'
+    CHECK (kind IN ('rent', 'late_fee')),
+  ADD COLUMN IF NOT EXISTS related_payment_id uuid
+    REFERENCES payments(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payments_late_fee_related_payment_key
+  ON payments (related_payment_id)
+  WHERE kind = 'late_fee';
@@ -0,0 +1,146 @@
+/*
+  # Partial payments
+
+  1. New Tables
+    - `payment_transactions`: individual receipts applied against one invoice
+      in `payments`. An invoice may be settled by several receipts.
+
+  2. Changes
+    - `payments.amount_paid` (numeric): sum of the invoice's receipts, kept in
+      sync by trigger.
+    - `payments.status` gains `partially_paid`, derived from `amount_paid`.
+    - Marking an invoice `paid` directly (e.g. from the payment form) records
+      the remaining balance as a receipt, so the ledger always adds up.
+    - Existing paid invoices are backfilled with a single opening receipt.
+
+  3. Security
+    - RLS: owners can manage receipts of their own properties.
+*/
+
+CREATE TABLE IF NOT EXISTS payment_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  payment_method text,
+  notes text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_transactions_payment_id_idx
+  ON payment_transactions (payment_id);
+
+ALTER TABLE payment_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage payment transactions"
+  ON payment_transactions
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS amount_paid numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE payments
+  ADD CONSTRAINT payments_status_check
+  CHECK (status IN ('paid', 'pending', 'overdue', 'partially_paid'));
+
+-- Recalculate an invoice's paid amount, status, payment date and method from its receipts
+CREATE OR REPLACE FUNCTION refresh_payment_balance(p_payment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_paid numeric;
+  v_last_date date;
+  v_last_method text;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0), MAX(date)
+    INTO v_paid, v_last_date
+    FROM payment_transactions
+   WHERE payment_id = p_payment_id;
+
+  SELECT payment_method
+    INTO v_last_method
+    FROM payment_transactions
+   WHERE payment_id = p_payment_id
+   ORDER BY date DESC, created_at DESC
+   LIMIT 1;
+
+  UPDATE payments
+     SET amount_paid = v_paid,
+         status = CASE
+           WHEN v_paid >= amount THEN 'paid'
+           WHEN v_paid > 0 THEN 'partially_paid'
+           WHEN due_date < CURRENT_DATE THEN 'overdue'
+           ELSE 'pending'
+         END,
+         date = CASE WHEN v_paid >= amount THEN v_last_date ELSE NULL END,
+         payment_method = COALESCE(v_last_method, payment_method),
+         updated_at = now()
+   WHERE id = p_payment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION payment_transactions_refresh_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_payment_balance(OLD.payment_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM refresh_payment_balance(NEW.payment_id);
+  IF TG_OP = 'UPDATE' AND OLD.payment_id <> NEW.payment_id THEN
+    PERFORM refresh_payment_balance(OLD.payment_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_transactions_refresh_balance
+  AFTER INSERT OR UPDATE OR DELETE ON payment_transactions
+  FOR EACH ROW EXECUTE FUNCTION payment_transactions_refresh_balance();
+
+-- An invoice marked paid without receipts gets one for the outstanding balance
+CREATE OR REPLACE FUNCTION payments_record_settlement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND NEW.amount_paid < NEW.amount THEN
+    INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes)
+    VALUES (
+      NEW.id,
+      NEW.property_id,
+      NEW.amount - NEW.amount_paid,
+      COALESCE(NEW.date, CURRENT_DATE),
+      NEW.payment_method,
+      'Pelunasan'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payments_record_settlement
+  AFTER INSERT OR UPDATE OF status ON payments
+  FOR EACH ROW EXECUTE FUNCTION payments_record_settlement();
+
+-- Opening receipts for invoices that were already paid
+INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes, created_by)
+SELECT id, property_id, amount, COALESCE(date, created_at::date, CURRENT_DATE), payment_method, 'Saldo awal', NULL
+  FROM payments
+ WHERE status = 'paid'
+   AND amount > 0
+   AND amount_paid = 0;
@@ -0,0 +1,34 @@
+/*
+  # Tenant account adjustments
+
+  1. New Tables
+    - `tenant_adjustments`: manual corrections to a tenant's account, such as
+      a discount or a one-off charge. Positive amounts increase what the
+      tenant owes, negative amounts reduce it.
+
+  2. Security
+    - RLS: owners can manage adjustments of their own properties.
+*/
+
+CREATE TABLE IF NOT EXISTS tenant_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount <> 0),
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  description text NOT NULL,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tenant_adjustments_tenant_id_idx
+  ON tenant_adjustments (tenant_id);
+
+ALTER TABLE tenant_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage tenant adjustments"
+  ON tenant_adjustments
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
@@ -0,0 +1,66 @@
+/*
+  # Payment receipt numbers
+
+  1. Changes
+    - `properties.last_receipt_number` (integer): per-property receipt counter.
+    - `payments.receipt_number` (text): assigned once, the first time an
+      invoice becomes `paid`, formatted as `KW/<YYYYMM>/<sequence>`. The number
+      never changes afterwards so a receipt can be regenerated identically.
+    - Existing paid invoices are numbered in payment date order.
+*/
+
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS last_receipt_number integer NOT NULL DEFAULT 0;
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS receipt_number text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payments_property_receipt_number_key
+  ON payments (property_id, receipt_number)
+  WHERE receipt_number IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION payments_assign_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sequence integer;
+BEGIN
+  IF NEW.status = 'paid' AND NEW.receipt_number IS NULL AND NEW.property_id IS NOT NULL THEN
+    -- Row lock on the property serialises concurrent receipts
+    UPDATE properties
+       SET last_receipt_number = last_receipt_number + 1
+     WHERE id = NEW.property_id
+     RETURNING last_receipt_number INTO v_sequence;
+
+    NEW.receipt_number := 'KW/'
+      || to_char(COALESCE(NEW.date, CURRENT_DATE), 'YYYYMM')
+      || '/' || lpad(v_sequence::text, 5, '0');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payments_assign_receipt_number
+  BEFORE INSERT OR UPDATE ON payments
+  FOR EACH ROW EXECUTE FUNCTION payments_assign_receipt_number();
+
+-- Number the invoices that were already paid, oldest first
+DO $$
+DECLARE
+  v_payment record;
+BEGIN
+  FOR v_payment IN
+    SELECT id
+      FROM payments
+     WHERE status = 'paid'
+       AND receipt_number IS NULL
+     ORDER BY date NULLS LAST, created_at
+  LOOP
+    -- Re-saving the row lets the trigger assign the next number
+    UPDATE payments SET status = status WHERE id = v_payment.id;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,95 @@
+/*
+  # Security deposits and move-out settlement
+
+  1. New Tables
+    - `tenant_deposits`: deposits received from a tenant at check-in. A deposit
+      is held (a liability towards the tenant) until it is settled at move-out.
+    - `deposit_settlements`: the move-out settlement of a tenant's held
+      deposits: total held, total deducted and the amount refunded.
+    - `deposit_deductions`: the individual deductions of a settlement, linked
+      to the unpaid invoice or maintenance request they cover.
+
+  2. Notes
+    - Unpaid rent deducted from a deposit is also recorded as a receipt in
+      `payment_transactions` (method `deposit`), so the invoice balance and the
+      tenant statement stay in sync.
+
+  3. Security
+    - RLS: owners can manage deposits and settlements of their own properties.
+*/
+
+CREATE TABLE IF NOT EXISTS deposit_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  deposit_amount numeric NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0),
+  total_deductions numeric NOT NULL DEFAULT 0 CHECK (total_deductions >= 0),
+  refund_amount numeric NOT NULL DEFAULT 0 CHECK (refund_amount >= 0),
+  refund_method text,
+  notes text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (total_deductions + refund_amount = deposit_amount)
+);
+
+CREATE TABLE IF NOT EXISTS tenant_deposits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  payment_method text,
+  notes text,
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'settled')),
+  settlement_id uuid REFERENCES deposit_settlements(id) ON DELETE SET NULL,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS deposit_deductions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  settlement_id uuid NOT NULL REFERENCES deposit_settlements(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('unpaid_rent', 'damage', 'other')),
+  description text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  maintenance_request_id uuid REFERENCES maintenance_requests(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tenant_deposits_tenant_id_idx
+  ON tenant_deposits (tenant_id);
+
+CREATE INDEX IF NOT EXISTS deposit_settlements_tenant_id_idx
+  ON deposit_settlements (tenant_id);
+
+CREATE INDEX IF NOT EXISTS deposit_deductions_settlement_id_idx
+  ON deposit_deductions (settlement_id);
+
+ALTER TABLE tenant_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deposit_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deposit_deductions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage tenant deposits"
+  ON tenant_deposits
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage deposit settlements"
+  ON deposit_settlements
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage deposit deductions"
+  ON deposit_deductions
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
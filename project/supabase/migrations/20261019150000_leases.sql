@@ -0,0 +1,100 @@
+/*
+  # Lease contracts
+
+  1. New Tables
+    - `leases`: a tenant's contract for a room: term, monthly rent, billing
+      cycle and deposit. Renewing creates a new lease linked to the previous
+      one through `previous_lease_id`, so the full stay history is kept.
+
+  2. Changes
+    - `user_settings.lease_expiry_reminder_days` (integer): how many days
+      before a lease ends its owner is notified.
+    - The tenant's `start_date`/`end_date` follow their leases: the first
+      lease's start and the active lease's end.
+    - Existing tenants are backfilled with one lease from their current dates.
+
+  3. Security
+    - RLS: owners can manage leases of their own properties.
+*/
+
+CREATE TABLE IF NOT EXISTS leases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  rent_amount numeric NOT NULL DEFAULT 0 CHECK (rent_amount >= 0),
+  billing_cycle text NOT NULL DEFAULT 'monthly'
+    CHECK (billing_cycle IN ('monthly', 'quarterly', 'yearly')),
+  deposit_amount numeric NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'renewed', 'ended')),
+  previous_lease_id uuid REFERENCES leases(id) ON DELETE SET NULL,
+  notes text,
+  expiry_notified_at timestamptz,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS leases_tenant_id_idx
+  ON leases (tenant_id);
+
+-- A tenant has at most one running lease
+CREATE UNIQUE INDEX IF NOT EXISTS leases_one_active_per_tenant_idx
+  ON leases (tenant_id)
+  WHERE status = 'active';
+
+ALTER TABLE leases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage leases"
+  ON leases
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS lease_expiry_reminder_days integer NOT NULL DEFAULT 30
+  CHECK (lease_expiry_reminder_days BETWEEN 1 AND 180);
+
+-- Keep the tenant's stay dates in line with their lease history
+CREATE OR REPLACE FUNCTION sync_tenant_lease_dates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'active' THEN
+    UPDATE tenants
+       SET start_date = (SELECT MIN(start_date) FROM leases WHERE tenant_id = NEW.tenant_id),
+           end_date = NEW.end_date,
+           updated_at = now()
+     WHERE id = NEW.tenant_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leases_sync_tenant_dates ON leases;
+CREATE TRIGGER leases_sync_tenant_dates
+  AFTER INSERT OR UPDATE OF start_date, end_date, status ON leases
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_tenant_lease_dates();
+
+-- One lease per existing tenant from their current stay
+INSERT INTO leases (tenant_id, room_id, property_id, start_date, end_date, rent_amount, status)
+SELECT t.id,
+       t.room_id,
+       t.property_id,
+       t.start_date,
+       GREATEST(t.end_date, t.start_date),
+       COALESCE(r.price, 0),
+       CASE WHEN t.status = 'active' THEN 'active' ELSE 'ended' END
+  FROM tenants t
+  LEFT JOIN rooms r ON r.id = t.room_id
+ WHERE t.start_date IS NOT NULL
+   AND t.end_date IS NOT NULL
+   AND NOT EXISTS (SELECT 1 FROM leases l WHERE l.tenant_id = t.id);
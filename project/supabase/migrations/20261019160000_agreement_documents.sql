@@ -0,0 +1,88 @@
+/*
+  # Rental agreement templates and tenant documents
+
+  1. New Tables
+    - `agreement_templates`: per-property rental agreement (surat perjanjian
+      sewa) text with `{{placeholder}}` fields and the property's house rules.
+    - `tenant_documents`: documents generated for a tenant. Keeps the generated
+      PDF and, once uploaded, the signed copy.
+
+  2. Storage
+    - Private `tenant-documents` bucket. Files live under
+      `<property_id>/<tenant_id>/`, so access follows property ownership.
+
+  3. Security
+    - RLS: owners can manage templates, documents and files of their own
+      properties.
+*/
+
+CREATE TABLE IF NOT EXISTS agreement_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  body text NOT NULL,
+  house_rules text,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS agreement_templates_property_id_idx
+  ON agreement_templates (property_id);
+
+-- At most one default template per property
+CREATE UNIQUE INDEX IF NOT EXISTS agreement_templates_one_default_idx
+  ON agreement_templates (property_id)
+  WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS tenant_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE CASCADE,
+  template_id uuid REFERENCES agreement_templates(id) ON DELETE SET NULL,
+  lease_id uuid REFERENCES leases(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  file_path text NOT NULL,
+  signed_file_path text,
+  status text NOT NULL DEFAULT 'generated' CHECK (status IN ('generated', 'signed')),
+  signed_at timestamptz,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tenant_documents_tenant_id_idx
+  ON tenant_documents (tenant_id);
+
+ALTER TABLE agreement_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenant_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage agreement templates"
+  ON agreement_templates
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can manage tenant documents"
+  ON tenant_documents
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tenant-documents', 'tenant-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can manage tenant document files"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'tenant-documents'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    bucket_id = 'tenant-documents'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE owner_id = auth.uid())
+  );
@@ -0,0 +1,60 @@
+/*
+  # Property backups
+
+  1. New Tables
+    - `property_backups`: one row per JSON snapshot of a property's
+      properties, rooms, tenants, payments and maintenance_requests rows.
+      Snapshots are taken by the `backup-properties` job on the schedule of
+      the owner's plan (`features.data_backup`) or manually from Settings.
+      `property_id` has no foreign key so backups outlive a deleted property
+      and can bring it back.
+
+  2. Storage
+    - Private `property-backups` bucket. Archives live under
+      `<owner_id>/<property_id>/`, so access follows the backup owner.
+
+  3. Security
+    - RLS: owners can read, create and delete their own backups.
+*/
+
+CREATE TABLE IF NOT EXISTS property_backups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL,
+  property_name text NOT NULL,
+  format_version integer NOT NULL,
+  trigger text NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled')),
+  file_path text NOT NULL,
+  size_bytes integer NOT NULL DEFAULT 0,
+  row_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS property_backups_owner_property_idx
+  ON property_backups (owner_id, property_id, created_at DESC);
+
+ALTER TABLE property_backups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage their property backups"
+  ON property_backups
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('property-backups', 'property-backups', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can manage their property backup files"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'property-backups'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  )
+  WITH CHECK (
+    bucket_id = 'property-backups'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,125 @@
+/*
+  # Enforce plan quotas in the database
+
+  1. Functions
+    - `plan_limits(owner)`: `max_properties` and `max_rooms_per_property` of
+      the owner's active subscription plan. Owners without an active
+      subscription get one property with one room, as in the app.
+    - `enforce_property_quota()` / `enforce_room_quota()`: trigger functions
+      that reject inserts past the plan's quota.
+
+  2. Triggers
+    - BEFORE INSERT on `properties`.
+    - BEFORE INSERT on `rooms`, and BEFORE UPDATE when a room is moved to
+      another property.
+
+  3. Errors
+    - Rejected writes raise SQLSTATE `P0001` with the message
+      `plan_quota_exceeded` and a JSON detail
+      `{"resource": "properties" | "rooms", "limit": n, "current": n}`,
+      which PostgREST passes through as `error.message` / `error.details`.
+
+  4. Concurrency
+    - Each check takes a transaction-scoped advisory lock per owner, so two
+      concurrent inserts cannot both pass the count.
+*/
+
+CREATE OR REPLACE FUNCTION plan_limits(owner uuid)
+RETURNS TABLE (max_properties integer, max_rooms_per_property integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT sp.max_properties
+      FROM subscriptions s
+      JOIN subscription_plans sp ON sp.id = s.plan_id
+      WHERE s.user_id = owner AND s.status = 'active'
+      ORDER BY s.current_period_end DESC
+      LIMIT 1
+    ), 1),
+    COALESCE((
+      SELECT sp.max_rooms_per_property
+      FROM subscriptions s
+      JOIN subscription_plans sp ON sp.id = s.plan_id
+      WHERE s.user_id = owner AND s.status = 'active'
+      ORDER BY s.current_period_end DESC
+      LIMIT 1
+    ), 1);
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_property_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota integer;
+  current_count integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('plan_quota:' || NEW.owner_id::text));
+
+  SELECT max_properties INTO quota FROM plan_limits(NEW.owner_id);
+  SELECT count(*) INTO current_count FROM properties WHERE owner_id = NEW.owner_id;
+
+  IF current_count >= quota THEN
+    RAISE EXCEPTION 'plan_quota_exceeded'
+      USING ERRCODE = 'P0001',
+            DETAIL = json_build_object('resource', 'properties', 'limit', quota, 'current', current_count)::text,
+            HINT = 'Upgrade the subscription plan to add more properties';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_room_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner uuid;
+  quota integer;
+  current_count integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.property_id IS NOT DISTINCT FROM OLD.property_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT owner_id INTO owner FROM properties WHERE id = NEW.property_id;
+  IF owner IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('plan_quota:' || owner::text));
+
+  SELECT max_rooms_per_property INTO quota FROM plan_limits(owner);
+  SELECT count(*) INTO current_count FROM rooms WHERE property_id = NEW.property_id;
+
+  IF current_count >= quota THEN
+    RAISE EXCEPTION 'plan_quota_exceeded'
+      USING ERRCODE = 'P0001',
+            DETAIL = json_build_object('resource', 'rooms', 'limit', quota, 'current', current_count)::text,
+            HINT = 'Upgrade the subscription plan to add more rooms to this property';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_property_quota ON properties;
+CREATE TRIGGER enforce_property_quota
+  BEFORE INSERT ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_property_quota();
+
+DROP TRIGGER IF EXISTS enforce_room_quota ON rooms;
+CREATE TRIGGER enforce_room_quota
+  BEFORE INSERT OR UPDATE OF property_id ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_room_quota();
@@ -0,0 +1,60 @@
+/*
+  # Self-service plan changes
+
+  1. Changes
+    - `subscriptions.scheduled_plan_id`: plan a downgrade switches to at
+      `current_period_end`. Deliberately without a foreign key: a second
+      relationship to `subscription_plans` would make the existing
+      `subscription_plans ( ... )` embeds ambiguous for PostgREST.
+    - `subscriptions.current_period_start` / `current_period_end` default to a
+      one-month period from now, and existing subscriptions without period
+      dates get one starting at their creation.
+
+  2. New Tables
+    - `subscription_changes`: history of upgrades, scheduled downgrades,
+      renewals and cancellations, with the prorated amount charged for
+      upgrades and the plan price charged for renewals.
+
+  3. Security
+    - RLS: owners can read the history of their own subscriptions. Changes are
+      written by the `change-subscription` and `renew-subscriptions` edge
+      functions with the service role.
+*/
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS scheduled_plan_id uuid;
+
+ALTER TABLE subscriptions
+  ALTER COLUMN current_period_start SET DEFAULT now(),
+  ALTER COLUMN current_period_end SET DEFAULT now() + interval '1 month';
+
+UPDATE subscriptions
+   SET current_period_start = COALESCE(current_period_start, created_at),
+       current_period_end = COALESCE(current_period_end, COALESCE(current_period_start, created_at) + interval '1 month')
+ WHERE current_period_start IS NULL
+    OR current_period_end IS NULL;
+
+CREATE TABLE IF NOT EXISTS subscription_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  change_type text NOT NULL CHECK (change_type IN ('start', 'upgrade', 'downgrade', 'renewal', 'cancellation')),
+  -- No foreign keys to subscription_plans, for the same reason as scheduled_plan_id
+  -- (PostgREST would also treat this table as a subscriptions/plans junction)
+  from_plan_id uuid,
+  to_plan_id uuid,
+  amount numeric NOT NULL DEFAULT 0,
+  effective_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS subscription_changes_subscription_id_idx
+  ON subscription_changes (subscription_id, created_at DESC);
+
+ALTER TABLE subscription_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their subscription changes"
+  ON subscription_changes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,79 @@
+/*
+  # Subscription invoices and payment webhooks
+
+  1. New Tables
+    - `subscription_invoices`: what an owner is billed for a subscription
+      start, a prorated upgrade or a renewal. A plan change only takes effect
+      once its invoice is paid. `provider` / `provider_reference` /
+      `payment_url` come from the payment provider that collects it.
+    - `payment_webhook_events`: every webhook event received, keyed by
+      provider and event id, so a redelivered event is only applied once.
+
+  2. Numbering
+    - Invoice numbers `SUB-YYYYMM-00001` from a global sequence.
+
+  3. Security
+    - RLS: owners can read their own invoices; active backoffice users can
+      read all of them. Invoices and webhook events are written by edge
+      functions with the service role.
+    - `plan_id` and `subscription_id` have no foreign keys to
+      `subscription_plans` / `subscriptions`, as with `subscription_changes`,
+      to keep the `subscriptions -> subscription_plans` embed unambiguous.
+*/
+
+CREATE SEQUENCE IF NOT EXISTS subscription_invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS subscription_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text NOT NULL UNIQUE
+    DEFAULT 'SUB-' || to_char(now(), 'YYYYMM') || '-' || lpad(nextval('subscription_invoice_number_seq')::text, 5, '0'),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Empty for a first subscription until its invoice is paid
+  subscription_id uuid,
+  plan_id uuid NOT NULL,
+  plan_name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('start', 'upgrade', 'renewal')),
+  amount numeric NOT NULL CHECK (amount >= 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'expired', 'void')),
+  period_start timestamptz,
+  period_end timestamptz,
+  due_date timestamptz NOT NULL DEFAULT now() + interval '3 days',
+  provider text NOT NULL,
+  provider_reference text,
+  payment_url text,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS subscription_invoices_user_id_idx
+  ON subscription_invoices (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS subscription_invoices_subscription_id_idx
+  ON subscription_invoices (subscription_id);
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  invoice_number text,
+  status text,
+  payload jsonb NOT NULL,
+  received_at timestamptz DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+ALTER TABLE subscription_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their subscription invoices"
+  ON subscription_invoices
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Backoffice users can view subscription invoices"
+  ON subscription_invoices
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active'));
@@ -0,0 +1,147 @@
+/*
+  # Subscription trials, grace periods and read-only mode
+
+  1. Changes
+    - `subscription_plans.trial_days`: length of the free trial an owner gets
+      when their first subscription is on this plan (0 = no trial).
+    - `subscriptions.status` also allows `trialing` and `past_due`.
+    - `subscriptions.trial_end`: when the trial ended or will end.
+    - `subscriptions.grace_until`: for `past_due` subscriptions, until when the
+      owner keeps full access while the renewal invoice is unpaid.
+    - `plan_limits(owner)` counts trialing and past_due subscriptions as well.
+
+  2. Functions
+    - `subscription_read_only(owner)`: true once the owner's subscription is
+      past_due and its grace window has passed.
+    - `enforce_subscription_writable()`: trigger function that rejects writes
+      by a read-only owner. Writes without a user (service role, scheduled
+      jobs) are not checked.
+
+  3. Triggers
+    - BEFORE INSERT / UPDATE / DELETE on the owner's property data: properties,
+      rooms, tenants, payments, payment_transactions, tenant_adjustments,
+      leases, agreement_templates, tenant_documents, tenant_deposits,
+      deposit_settlements, deposit_deductions and maintenance_requests.
+
+  4. Errors
+    - Rejected writes raise SQLSTATE `P0001` with the message
+      `subscription_read_only` and a JSON detail `{"grace_until": "..."}`.
+*/
+
+ALTER TABLE subscription_plans
+  ADD COLUMN IF NOT EXISTS trial_days integer NOT NULL DEFAULT 0 CHECK (trial_days >= 0);
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS trial_end timestamptz,
+  ADD COLUMN IF NOT EXISTS grace_until timestamptz;
+
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_status_check;
+ALTER TABLE subscriptions
+  ADD CONSTRAINT subscriptions_status_check
+  CHECK (status IN ('trialing', 'active', 'past_due', 'cancelled', 'expired'));
+
+CREATE OR REPLACE FUNCTION plan_limits(owner uuid)
+RETURNS TABLE (max_properties integer, max_rooms_per_property integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT sp.max_properties
+      FROM subscriptions s
+      JOIN subscription_plans sp ON sp.id = s.plan_id
+      WHERE s.user_id = owner AND s.status IN ('trialing', 'active', 'past_due')
+      ORDER BY s.current_period_end DESC
+      LIMIT 1
+    ), 1),
+    COALESCE((
+      SELECT sp.max_rooms_per_property
+      FROM subscriptions s
+      JOIN subscription_plans sp ON sp.id = s.plan_id
+      WHERE s.user_id = owner AND s.status IN ('trialing', 'active', 'past_due')
+      ORDER BY s.current_period_end DESC
+      LIMIT 1
+    ), 1);
+$$;
+
+CREATE OR REPLACE FUNCTION subscription_read_only(owner uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM subscriptions s
+    WHERE s.user_id = owner
+      AND s.status = 'past_due'
+      AND s.grace_until <= now()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_subscription_writable()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  row_data jsonb;
+  owner uuid;
+  grace timestamptz;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  row_data := to_jsonb(COALESCE(NEW, OLD));
+
+  IF TG_TABLE_NAME = 'properties' THEN
+    owner := (row_data->>'owner_id')::uuid;
+  ELSE
+    SELECT p.owner_id INTO owner
+    FROM properties p
+    WHERE p.id = (row_data->>'property_id')::uuid;
+  END IF;
+
+  IF owner IS NOT NULL AND subscription_read_only(owner) THEN
+    SELECT s.grace_until INTO grace
+    FROM subscriptions s
+    WHERE s.user_id = owner AND s.status = 'past_due'
+    ORDER BY s.grace_until DESC
+    LIMIT 1;
+
+    RAISE EXCEPTION 'subscription_read_only'
+      USING ERRCODE = 'P0001',
+            DETAIL = json_build_object('grace_until', grace)::text,
+            HINT = 'Pay the outstanding subscription invoice to make changes again';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY[
+    'properties', 'rooms', 'tenants', 'payments', 'payment_transactions',
+    'tenant_adjustments', 'leases', 'agreement_templates', 'tenant_documents',
+    'tenant_deposits', 'deposit_settlements', 'deposit_deductions',
+    'maintenance_requests'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS enforce_subscription_writable ON %I', table_name);
+    EXECUTE format(
+      'CREATE TRIGGER enforce_subscription_writable
+         BEFORE INSERT OR UPDATE OR DELETE ON %I
+         FOR EACH ROW EXECUTE FUNCTION enforce_subscription_writable()',
+      table_name
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,161 @@
+/*
+  # Server-side feature entitlements
+
+  1. Functions
+    - `plan_features(owner)`: `features` of the owner's trialing, active or
+      past_due subscription plan; owners without one get the basic features,
+      as in `BASIC_FEATURES` in src/utils/entitlements.ts.
+    - `has_feature(owner, feature, min_level)`: whether the owner's plan
+      includes the feature, at `min_level` or above for tiered features such
+      as `financial_reports` ('basic' < 'advanced' < 'predictive').
+    - `require_feature(owner, feature, min_level)`: raises when `has_feature`
+      is false.
+    - `financial_report(property_id, start_date, end_date)`: the monthly
+      revenue, pending, overdue, late fee and occupancy figures behind the
+      Reports page, computed only for the property's owner and only when the
+      plan includes `financial_reports`.
+
+  2. Errors
+    - `require_feature` raises SQLSTATE `P0001` with the message
+      `feature_not_available` and a JSON detail `{"feature": "...", "level": "..."}`.
+*/
+
+CREATE OR REPLACE FUNCTION plan_features(owner uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT sp.features
+    FROM subscriptions s
+    JOIN subscription_plans sp ON sp.id = s.plan_id
+    WHERE s.user_id = owner AND s.status IN ('trialing', 'active', 'past_due')
+    ORDER BY s.current_period_end DESC
+    LIMIT 1
+  ), jsonb_build_object(
+    'tenant_data', true,
+    'auto_billing', false,
+    'billing_notifications', false,
+    'financial_reports', false,
+    'data_backup', false,
+    'multi_user', false,
+    'analytics', false,
+    'support', 'basic'
+  ));
+$$;
+
+-- Levels are kept in sync with FEATURE_LEVELS in src/utils/entitlements.ts
+CREATE OR REPLACE FUNCTION has_feature(owner uuid, feature text, min_level text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  value jsonb;
+  levels text[];
+BEGIN
+  value := plan_features(owner) -> feature;
+
+  IF value IS NULL OR value = 'false'::jsonb OR value = 'null'::jsonb THEN
+    RETURN false;
+  END IF;
+
+  IF min_level IS NULL THEN
+    RETURN true;
+  END IF;
+
+  levels := CASE feature
+    WHEN 'financial_reports' THEN ARRAY['basic', 'advanced', 'predictive']
+    WHEN 'data_backup' THEN ARRAY['weekly', 'daily', 'realtime']
+    WHEN 'analytics' THEN ARRAY['true', 'predictive']
+    WHEN 'support' THEN ARRAY['basic', 'priority', '24/7']
+  END;
+
+  RETURN COALESCE(
+    array_position(levels, value #>> '{}') >= array_position(levels, min_level),
+    false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION require_feature(owner uuid, feature text, min_level text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_feature(owner, feature, min_level) THEN
+    RAISE EXCEPTION 'feature_not_available'
+      USING ERRCODE = 'P0001',
+            DETAIL = json_build_object('feature', feature, 'level', min_level)::text,
+            HINT = 'Upgrade the subscription plan to use this feature';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION financial_report(p_property_id uuid, p_start date, p_end date)
+RETURNS TABLE (
+  month date,
+  revenue numeric,
+  pending numeric,
+  overdue numeric,
+  late_fees numeric,
+  occupancy_rate integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  owner uuid;
+  occupancy integer;
+BEGIN
+  SELECT p.owner_id INTO owner FROM properties p WHERE p.id = p_property_id;
+  IF owner IS NULL OR owner <> auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  PERFORM require_feature(owner, 'financial_reports', 'basic');
+
+  SELECT COALESCE(round(count(*) FILTER (WHERE r.status = 'occupied') * 100.0 / NULLIF(count(*), 0)), 0)::integer
+    INTO occupancy
+  FROM rooms r
+  WHERE r.property_id = p_property_id;
+
+  -- Paid payments count in the month they were paid, open ones in the month they are due
+  RETURN QUERY
+  WITH months AS (
+    SELECT generate_series(date_trunc('month', p_start), date_trunc('month', p_end), interval '1 month')::date AS month
+  ),
+  scoped AS (
+    SELECT
+      pay.amount,
+      pay.status,
+      pay.kind,
+      date_trunc('month', CASE WHEN pay.status = 'paid' THEN pay.date ELSE pay.due_date END)::date AS month
+    FROM payments pay
+    WHERE pay.property_id = p_property_id
+      AND pay.created_at >= p_start
+      AND pay.created_at < p_end + 1
+  )
+  SELECT
+    m.month,
+    COALESCE(sum(s.amount) FILTER (WHERE s.status = 'paid'), 0),
+    COALESCE(sum(s.amount) FILTER (WHERE s.status = 'pending'), 0),
+    COALESCE(sum(s.amount) FILTER (WHERE s.status = 'overdue'), 0),
+    COALESCE(sum(s.amount) FILTER (WHERE s.kind = 'late_fee'), 0),
+    occupancy
+  FROM months m
+  LEFT JOIN scoped s ON s.month = m.month
+  GROUP BY m.month
+  ORDER BY m.month;
+END;
+$$;
@@ -0,0 +1,222 @@
+/*
+  # Promo codes for subscription plans
+
+  1. New Tables
+    - `promo_codes`: a percentage or fixed IDR discount on the plan price,
+      optionally limited to a validity window (`valid_from` / `valid_until`),
+      a number of redemptions (`max_redemptions`), a set of plans
+      (`plan_ids`, empty for all plans) and the first `duration_months`
+      billed months of a subscription (empty for every month).
+    - `promo_redemptions`: a code applied to one subscription. The discount
+      terms are copied from the code so later edits do not change what was
+      promised. `months_applied`, `discount_total` and `revenue_total` are
+      updated for every discounted month that is paid, and feed the
+      backoffice report.
+
+  2. Changes
+    - `subscription_invoices.discount_amount` / `promo_redemption_id`: the
+      discount taken off a renewal invoice and the redemption it came from.
+
+  3. Functions
+    - `promo_discount(type, value, amount)`: the discount on an amount, in
+      whole rupiah and never more than the amount. Kept in sync with
+      `calculatePromoDiscount` in src/utils/promo.ts and
+      supabase/functions/_shared/promo-codes.ts.
+    - `validate_promo_code(code, user_id, plan_id)`: the code if it can be
+      redeemed by the owner on the plan; raises otherwise.
+    - `create_backoffice_subscription(user_id, plan_id, promo_code)`: starts
+      a subscription from the backoffice and redeems the promo code in the
+      same transaction, so `max_redemptions` cannot be overrun.
+    - `record_promo_period(redemption_id, amount, discount)`: counts a paid
+      discounted month against the redemption (service role only).
+
+  4. Errors
+    - `validate_promo_code` raises SQLSTATE `P0001` with the message
+      `promo_code_invalid` and a JSON detail `{"reason": "..."}`, where the
+      reason is one of not_found, inactive, not_started, expired, exhausted,
+      plan_not_eligible or already_redeemed.
+
+  5. Security
+    - RLS: active backoffice users manage promo codes and read redemptions.
+      Owners have no access; redemptions are written by the functions above.
+    - `promo_redemptions.plan_id` has no foreign key to `subscription_plans`
+      so PostgREST does not treat the table as a subscriptions/plans junction.
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]+$'),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric NOT NULL CHECK (discount_value > 0),
+  valid_from timestamptz,
+  valid_until timestamptz,
+  max_redemptions integer CHECK (max_redemptions > 0),
+  redemption_count integer NOT NULL DEFAULT 0,
+  plan_ids uuid[] NOT NULL DEFAULT '{}',
+  duration_months integer CHECK (duration_months > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id uuid NOT NULL REFERENCES promo_codes(id) ON DELETE RESTRICT,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subscription_id uuid NOT NULL UNIQUE REFERENCES subscriptions(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric NOT NULL,
+  plan_ids uuid[] NOT NULL DEFAULT '{}',
+  duration_months integer,
+  months_applied integer NOT NULL DEFAULT 0,
+  discount_total numeric NOT NULL DEFAULT 0,
+  revenue_total numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (promo_code_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_promo_code_id_idx
+  ON promo_redemptions (promo_code_id);
+
+ALTER TABLE subscription_invoices
+  ADD COLUMN IF NOT EXISTS discount_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS promo_redemption_id uuid REFERENCES promo_redemptions(id) ON DELETE SET NULL;
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Backoffice users can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active'))
+  WITH CHECK (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active'));
+
+CREATE POLICY "Backoffice users can view promo redemptions"
+  ON promo_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active'));
+
+CREATE OR REPLACE FUNCTION promo_discount(discount_type text, discount_value numeric, amount numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT GREATEST(LEAST(
+    amount,
+    CASE WHEN discount_type = 'percentage' THEN round(amount * discount_value / 100) ELSE discount_value END
+  ), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION validate_promo_code(p_code text, p_user_id uuid, p_plan_id uuid)
+RETURNS promo_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  promo promo_codes;
+  reason text;
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  -- Locked so concurrent redemptions see each other's redemption_count
+  SELECT * INTO promo FROM promo_codes WHERE code = upper(btrim(p_code)) FOR UPDATE;
+
+  reason := CASE
+    WHEN promo.id IS NULL THEN 'not_found'
+    WHEN NOT promo.is_active THEN 'inactive'
+    WHEN promo.valid_from IS NOT NULL AND now() < promo.valid_from THEN 'not_started'
+    WHEN promo.valid_until IS NOT NULL AND now() >= promo.valid_until THEN 'expired'
+    WHEN promo.max_redemptions IS NOT NULL AND promo.redemption_count >= promo.max_redemptions THEN 'exhausted'
+    WHEN cardinality(promo.plan_ids) > 0 AND NOT p_plan_id = ANY (promo.plan_ids) THEN 'plan_not_eligible'
+    WHEN EXISTS (SELECT 1 FROM promo_redemptions WHERE promo_code_id = promo.id AND user_id = p_user_id) THEN 'already_redeemed'
+  END;
+
+  IF reason IS NOT NULL THEN
+    RAISE EXCEPTION 'promo_code_invalid'
+      USING ERRCODE = 'P0001',
+            DETAIL = json_build_object('reason', reason)::text;
+  END IF;
+
+  RETURN promo;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_backoffice_subscription(p_user_id uuid, p_plan_id uuid, p_promo_code text DEFAULT NULL)
+RETURNS subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan subscription_plans;
+  promo promo_codes;
+  created subscriptions;
+  discount numeric := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  SELECT * INTO plan FROM subscription_plans WHERE id = p_plan_id;
+  IF plan.id IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF NULLIF(btrim(p_promo_code), '') IS NOT NULL THEN
+    promo := validate_promo_code(p_promo_code, p_user_id, p_plan_id);
+    discount := promo_discount(promo.discount_type, promo.discount_value, plan.price);
+  END IF;
+
+  INSERT INTO subscriptions (user_id, plan_id, status, current_period_start, current_period_end, cancel_at_period_end)
+  VALUES (p_user_id, p_plan_id, 'active', now(), now() + interval '1 month', false)
+  RETURNING * INTO created;
+
+  INSERT INTO subscription_changes (subscription_id, user_id, change_type, to_plan_id, amount, effective_at)
+  VALUES (created.id, p_user_id, 'start', p_plan_id, plan.price - discount, now());
+
+  IF promo.id IS NOT NULL THEN
+    -- The first month is billed here, so it counts against duration_months
+    INSERT INTO promo_redemptions (
+      promo_code_id, user_id, subscription_id, plan_id,
+      discount_type, discount_value, plan_ids, duration_months,
+      months_applied, discount_total, revenue_total
+    )
+    VALUES (
+      promo.id, p_user_id, created.id, p_plan_id,
+      promo.discount_type, promo.discount_value, promo.plan_ids, promo.duration_months,
+      1, discount, plan.price - discount
+    );
+
+    UPDATE promo_codes
+    SET redemption_count = redemption_count + 1, updated_at = now()
+    WHERE id = promo.id;
+  END IF;
+
+  RETURN created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_promo_period(p_redemption_id uuid, p_amount numeric, p_discount numeric)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE promo_redemptions
+  SET months_applied = months_applied + 1,
+      discount_total = discount_total + p_discount,
+      revenue_total = revenue_total + p_amount
+  WHERE id = p_redemption_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_promo_period(uuid, numeric, numeric) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,305 @@
+/*
+  # Enforce role permissions
+
+  1. New Tables
+    - `property_members`: users other than the owner who work on a property,
+      with their role ('admin', 'manager' or 'staff'). What a role may do is
+      configured in the backoffice in `role_permissions`.
+
+  2. Changes
+    - `role_permissions` gets a unique (role, resource, action) index. The
+      new `maintenance` resource covers maintenance requests.
+
+  3. Functions
+    - `property_role(property_id)`: 'owner' for the property's owner, the
+      member role for members, null otherwise.
+    - `has_permission(property_id, resource, action)`: true for the owner;
+      for members, whether `role_permissions` grants the action to their
+      role. Resources and actions are listed in `PERMISSION_RESOURCES` in
+      src/utils/permissions.ts.
+    - `financial_report` now serves members with `reports:view`; the plan
+      check stays on the owner's subscription.
+
+  4. Security
+    - Member policies on properties and every property-scoped table, next to
+      the existing owner policies. Reads need `view`, updates `edit` and
+      deletes `delete`. Inserts need `create` on the main record tables and
+      `edit` on the records kept under them (receipts, leases, deposits,
+      documents, templates).
+    - Subscriptions and backups belong to the signed-in account, so
+      `settings` (the Subscription and Backup tabs) is enforced in the app.
+    - Only the owner can change `properties.owner_id`.
+    - `role_permissions` is readable by every signed-in user and managed by
+      active backoffice users.
+*/
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  role text NOT NULL,
+  resource text NOT NULL,
+  action text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS role_permissions_role_resource_action_idx
+  ON role_permissions (role, resource, action);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view role permissions" ON role_permissions;
+CREATE POLICY "Authenticated users can view role permissions"
+  ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Backoffice users can manage role permissions" ON role_permissions;
+CREATE POLICY "Backoffice users can manage role permissions"
+  ON role_permissions
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active'))
+  WITH CHECK (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active'));
+
+CREATE TABLE IF NOT EXISTS property_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('admin', 'manager', 'staff')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (property_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS property_members_user_id_idx
+  ON property_members (user_id);
+
+CREATE OR REPLACE FUNCTION property_role(p_property_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM properties WHERE id = p_property_id AND owner_id = auth.uid()) THEN 'owner'
+    ELSE (SELECT role FROM property_members WHERE property_id = p_property_id AND user_id = auth.uid())
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_permission(p_property_id uuid, p_resource text, p_action text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM properties WHERE id = p_property_id AND owner_id = auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM property_members pm
+      JOIN role_permissions rp ON rp.role = pm.role
+      WHERE pm.property_id = p_property_id
+        AND pm.user_id = auth.uid()
+        AND rp.resource = p_resource
+        AND rp.action = p_action
+    );
+$$;
+
+ALTER TABLE property_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage property members"
+  ON property_members
+  FOR ALL
+  TO authenticated
+  USING (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()))
+  WITH CHECK (property_id IN (SELECT id FROM properties WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Members can view their own membership"
+  ON property_members
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_permission(property_id, 'users', 'view'));
+
+CREATE POLICY "Members can add property members"
+  ON property_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission(property_id, 'users', 'create'));
+
+CREATE POLICY "Members can edit property members"
+  ON property_members
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission(property_id, 'users', 'edit'))
+  WITH CHECK (has_permission(property_id, 'users', 'edit'));
+
+CREATE POLICY "Members can remove property members"
+  ON property_members
+  FOR DELETE
+  TO authenticated
+  USING (has_permission(property_id, 'users', 'delete'));
+
+CREATE POLICY "Members can view their properties"
+  ON properties
+  FOR SELECT
+  TO authenticated
+  USING (property_role(id) IS NOT NULL);
+
+CREATE POLICY "Members can edit properties"
+  ON properties
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission(id, 'properties', 'edit'))
+  WITH CHECK (has_permission(id, 'properties', 'edit'));
+
+CREATE POLICY "Members can delete properties"
+  ON properties
+  FOR DELETE
+  TO authenticated
+  USING (has_permission(id, 'properties', 'delete'));
+
+CREATE OR REPLACE FUNCTION protect_property_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.owner_id IS DISTINCT FROM OLD.owner_id AND OLD.owner_id <> auth.uid() THEN
+    RAISE EXCEPTION 'permission_denied'
+      USING ERRCODE = 'P0001',
+            HINT = 'Only the owner can transfer a property';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_property_owner ON properties;
+CREATE TRIGGER protect_property_owner
+  BEFORE UPDATE ON properties
+  FOR EACH ROW EXECUTE FUNCTION protect_property_owner();
+
+-- Member policies per property-scoped table: the resource it belongs to and
+-- the action an insert needs
+DO $$
+DECLARE
+  entry text[];
+  table_name text;
+  resource text;
+  insert_action text;
+BEGIN
+  FOREACH entry SLICE 1 IN ARRAY ARRAY[
+    ['rooms', 'rooms', 'create'],
+    ['tenants', 'tenants', 'create'],
+    ['payments', 'payments', 'create'],
+    ['maintenance_requests', 'maintenance', 'create'],
+    ['payment_transactions', 'payments', 'edit'],
+    ['tenant_adjustments', 'tenants', 'edit'],
+    ['leases', 'tenants', 'edit'],
+    ['tenant_documents', 'tenants', 'edit'],
+    ['tenant_deposits', 'tenants', 'edit'],
+    ['deposit_settlements', 'tenants', 'edit'],
+    ['deposit_deductions', 'tenants', 'edit'],
+    ['agreement_templates', 'properties', 'edit']
+  ]
+  LOOP
+    table_name := entry[1];
+    resource := entry[2];
+    insert_action := entry[3];
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (has_permission(property_id, %L, ''view''))',
+      'Members can view ' || table_name, table_name, resource
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (has_permission(property_id, %L, %L))',
+      'Members can add ' || table_name, table_name, resource, insert_action
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (has_permission(property_id, %L, ''edit'')) WITH CHECK (has_permission(property_id, %L, ''edit''))',
+      'Members can edit ' || table_name, table_name, resource, resource
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (has_permission(property_id, %L, ''delete''))',
+      'Members can delete ' || table_name, table_name, resource
+    );
+  END LOOP;
+END $$;
+
+CREATE POLICY "Members can view tenant document files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'tenant-documents'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE has_permission(id, 'tenants', 'view'))
+  );
+
+CREATE POLICY "Members can upload tenant document files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'tenant-documents'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE has_permission(id, 'tenants', 'edit'))
+  );
+
+CREATE OR REPLACE FUNCTION financial_report(p_property_id uuid, p_start date, p_end date)
+RETURNS TABLE (
+  month date,
+  revenue numeric,
+  pending numeric,
+  overdue numeric,
+  late_fees numeric,
+  occupancy_rate integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  owner uuid;
+  occupancy integer;
+BEGIN
+  SELECT p.owner_id INTO owner FROM properties p WHERE p.id = p_property_id;
+  IF owner IS NULL OR NOT has_permission(p_property_id, 'reports', 'view') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  PERFORM require_feature(owner, 'financial_reports', 'basic');
+
+  SELECT COALESCE(round(count(*) FILTER (WHERE r.status = 'occupied') * 100.0 / NULLIF(count(*), 0)), 0)::integer
+    INTO occupancy
+  FROM rooms r
+  WHERE r.property_id = p_property_id;
+
+  -- Paid payments count in the month they were paid, open ones in the month they are due
+  RETURN QUERY
+  WITH months AS (
+    SELECT generate_series(date_trunc('month', p_start), date_trunc('month', p_end), interval '1 month')::date AS month
+  ),
+  scoped AS (
+    SELECT
+      pay.amount,
+      pay.status,
+      pay.kind,
+      date_trunc('month', CASE WHEN pay.status = 'paid' THEN pay.date ELSE pay.due_date END)::date AS month
+    FROM payments pay
+    WHERE pay.property_id = p_property_id
+      AND pay.created_at >= p_start
+      AND pay.created_at < p_end + 1
+  )
+  SELECT
+    m.month,
+    COALESCE(sum(s.amount) FILTER (WHERE s.status = 'paid'), 0),
+    COALESCE(sum(s.amount) FILTER (WHERE s.status = 'pending'), 0),
+    COALESCE(sum(s.amount) FILTER (WHERE s.status = 'overdue'), 0),
+    COALESCE(sum(s.amount) FILTER (WHERE s.kind = 'late_fee'), 0),
+    occupancy
+  FROM months m
+  LEFT JOIN scoped s ON s.month = m.month
+  GROUP BY m.month
+  ORDER BY m.month;
+END;
+$$;
@@ -0,0 +1,287 @@
+/*
+  # Property teams and invitations
+
+  1. New Tables
+    - `property_invitations`: an invitation for an email address to join a
+      property with a role. Invitations start 'pending' and end 'accepted',
+      'declined' or 'revoked'; at most one is pending per property and
+      address.
+
+  2. Changes
+    - `property_members.email`: the address the member was invited with, so
+      the team list can show who is who.
+    - `property_role` and `has_permission` only grant members access while
+      the owner's plan includes `multi_user`. Owners are not affected.
+
+  3. Functions
+    - `accept_property_invitation(invitation_id)`: adds the signed-in user
+      to the property with the invited role.
+    - `decline_property_invitation(invitation_id)`: declines it.
+      Both only work on pending invitations sent to the signed-in user's
+      email address.
+    - `property_plan(property_id)`: features and room quota of the property
+      owner's plan, for members working on a shared property.
+
+  4. Errors
+    - Inviting or accepting while the owner's plan lacks `multi_user` raises
+      `feature_not_available` (see `require_feature`).
+    - Inviting the owner or an existing member raises `already_member`, and
+      an address that already has a pending invitation `invitation_pending`.
+    - Responding to an invitation that is not pending or was sent to another
+      address raises `invitation_not_found`.
+
+  5. Security
+    - Owners and members with `users:create` invite, `users:view` list and
+      `users:delete` revoke invitations. Invitees see their own invitations
+      and respond through the functions above; they can read the invited
+      property's details while the invitation is pending.
+    - Invitees who already have an account get a notification.
+*/
+
+ALTER TABLE property_members ADD COLUMN IF NOT EXISTS email text;
+
+CREATE TABLE IF NOT EXISTS property_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('admin', 'manager', 'staff')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS property_invitations_pending_idx
+  ON property_invitations (property_id, email)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS property_invitations_email_idx
+  ON property_invitations (email);
+
+CREATE OR REPLACE FUNCTION property_role(p_property_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM properties WHERE id = p_property_id AND owner_id = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT pm.role
+      FROM property_members pm
+      JOIN properties p ON p.id = pm.property_id
+      WHERE pm.property_id = p_property_id
+        AND pm.user_id = auth.uid()
+        AND has_feature(p.owner_id, 'multi_user')
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_permission(p_property_id uuid, p_resource text, p_action text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM properties WHERE id = p_property_id AND owner_id = auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM property_members pm
+      JOIN properties p ON p.id = pm.property_id
+      JOIN role_permissions rp ON rp.role = pm.role
+      WHERE pm.property_id = p_property_id
+        AND pm.user_id = auth.uid()
+        AND rp.resource = p_resource
+        AND rp.action = p_action
+        AND has_feature(p.owner_id, 'multi_user')
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION prepare_property_invitation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner uuid;
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  NEW.invited_by := auth.uid();
+
+  SELECT owner_id INTO owner FROM properties WHERE id = NEW.property_id;
+  PERFORM require_feature(owner, 'multi_user');
+
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = owner AND lower(email) = NEW.email)
+    OR EXISTS (SELECT 1 FROM property_members WHERE property_id = NEW.property_id AND lower(email) = NEW.email)
+  THEN
+    RAISE EXCEPTION 'already_member'
+      USING ERRCODE = 'P0001',
+            HINT = 'The address already has access to this property';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM property_invitations
+    WHERE property_id = NEW.property_id AND email = NEW.email AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'invitation_pending'
+      USING ERRCODE = 'P0001',
+            HINT = 'The address already has a pending invitation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_property_invitation ON property_invitations;
+CREATE TRIGGER prepare_property_invitation
+  BEFORE INSERT ON property_invitations
+  FOR EACH ROW EXECUTE FUNCTION prepare_property_invitation();
+
+CREATE OR REPLACE FUNCTION notify_property_invitation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id)
+  SELECT
+    'Undangan tim properti',
+    'Anda diundang bergabung ke ' || p.name || '. Buka halaman Properti untuk menerima atau menolak undangan.',
+    'property',
+    'unread',
+    u.id,
+    p.id
+  FROM auth.users u
+  JOIN properties p ON p.id = NEW.property_id
+  WHERE lower(u.email) = NEW.email;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_property_invitation ON property_invitations;
+CREATE TRIGGER notify_property_invitation
+  AFTER INSERT ON property_invitations
+  FOR EACH ROW EXECUTE FUNCTION notify_property_invitation();
+
+CREATE OR REPLACE FUNCTION accept_property_invitation(p_invitation_id uuid)
+RETURNS property_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation property_invitations;
+  owner uuid;
+  member property_members;
+BEGIN
+  SELECT * INTO invitation
+  FROM property_invitations
+  WHERE id = p_invitation_id
+    AND status = 'pending'
+    AND email = lower(auth.jwt() ->> 'email')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT owner_id INTO owner FROM properties WHERE id = invitation.property_id;
+  PERFORM require_feature(owner, 'multi_user');
+
+  INSERT INTO property_members (property_id, user_id, role, email)
+  VALUES (invitation.property_id, auth.uid(), invitation.role, invitation.email)
+  ON CONFLICT (property_id, user_id) DO UPDATE
+    SET role = EXCLUDED.role, email = EXCLUDED.email, updated_at = now()
+  RETURNING * INTO member;
+
+  UPDATE property_invitations
+  SET status = 'accepted', responded_at = now(), updated_at = now()
+  WHERE id = invitation.id;
+
+  RETURN member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_property_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE property_invitations
+  SET status = 'declined', responded_at = now(), updated_at = now()
+  WHERE id = p_invitation_id
+    AND status = 'pending'
+    AND email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION property_plan(p_property_id uuid)
+RETURNS TABLE (features jsonb, max_rooms_per_property integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner uuid;
+BEGIN
+  SELECT p.owner_id INTO owner FROM properties p WHERE p.id = p_property_id;
+  IF owner IS NULL OR property_role(p_property_id) IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT plan_features(owner), l.max_rooms_per_property
+  FROM plan_limits(owner) l;
+END;
+$$;
+
+ALTER TABLE property_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view property invitations"
+  ON property_invitations
+  FOR SELECT
+  TO authenticated
+  USING (has_permission(property_id, 'users', 'view'));
+
+CREATE POLICY "Invitees can view their invitations"
+  ON property_invitations
+  FOR SELECT
+  TO authenticated
+  USING (email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Members can invite to properties"
+  ON property_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (status = 'pending' AND has_permission(property_id, 'users', 'create'));
+
+CREATE POLICY "Members can revoke property invitations"
+  ON property_invitations
+  FOR UPDATE
+  TO authenticated
+  USING (status = 'pending' AND has_permission(property_id, 'users', 'delete'))
+  WITH CHECK (status = 'revoked' AND has_permission(property_id, 'users', 'delete'));
+
+CREATE POLICY "Invitees can view invited properties"
+  ON properties
+  FOR SELECT
+  TO authenticated
+  USING (
+    id IN (
+      SELECT property_id FROM property_invitations
+      WHERE email = lower(auth.jwt() ->> 'email') AND status = 'pending'
+    )
+  );
@@ -0,0 +1,115 @@
+/*
+  # Audit trail for property data
+
+  1. Changes
+    - `backoffice_audit_logs` is created when missing and gets
+      `property_id` and `actor_email`, so entries can be listed per property
+      and show who made the change after the account is gone.
+    - `changes` holds the diff: for updates, only the columns that changed as
+      `{"column": {"old": ..., "new": ...}}`; creates have only `new` and
+      deletes only `old` values. `updated_at` is left out.
+
+  2. Functions
+    - `audit_row_change()`: trigger function writing one entry per created,
+      updated or deleted row. The actor is the signed-in user; changes made
+      by edge functions and scheduled jobs have no actor.
+
+  3. Triggers
+    - AFTER INSERT, UPDATE and DELETE on `properties`, `rooms`, `tenants`,
+      `payments` and `maintenance_requests`. Updates that change nothing
+      besides `updated_at` are not logged.
+
+  4. Security
+    - Entries are only written by the trigger and cannot be changed or
+      removed.
+    - Active backoffice users read every entry; owners and members with
+      `audit:view` read the entries of their properties.
+*/
+
+CREATE TABLE IF NOT EXISTS backoffice_audit_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  action text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id uuid,
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+-- No foreign key: entries of a deleted property are kept for the backoffice
+ALTER TABLE backoffice_audit_logs ADD COLUMN IF NOT EXISTS property_id uuid;
+ALTER TABLE backoffice_audit_logs ADD COLUMN IF NOT EXISTS actor_email text;
+
+CREATE INDEX IF NOT EXISTS backoffice_audit_logs_property_created_idx
+  ON backoffice_audit_logs (property_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS backoffice_audit_logs_entity_idx
+  ON backoffice_audit_logs (entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS backoffice_audit_logs_created_idx
+  ON backoffice_audit_logs (created_at DESC);
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) - 'updated_at' ELSE '{}'::jsonb END;
+  new_row jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) - 'updated_at' ELSE '{}'::jsonb END;
+  row_data jsonb := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+  diff jsonb;
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(key, jsonb_strip_nulls(jsonb_build_object('old', old_row -> key, 'new', new_row -> key))), '{}'::jsonb)
+    INTO diff
+  FROM (SELECT jsonb_object_keys(old_row || new_row) AS key) keys
+  WHERE (old_row -> key) IS DISTINCT FROM (new_row -> key);
+
+  IF TG_OP = 'UPDATE' AND diff = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO backoffice_audit_logs (user_id, actor_email, action, entity_type, entity_id, property_id, changes)
+  VALUES (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    TG_TABLE_NAME,
+    (row_data ->> 'id')::uuid,
+    CASE WHEN TG_TABLE_NAME = 'properties' THEN row_data ->> 'id' ELSE row_data ->> 'property_id' END::uuid,
+    diff
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['properties', 'rooms', 'tenants', 'payments', 'maintenance_requests']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_row_change ON %I', table_name);
+    EXECUTE format(
+      'CREATE TRIGGER audit_row_change AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_row_change()',
+      table_name
+    );
+  END LOOP;
+END $$;
+
+ALTER TABLE backoffice_audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Backoffice users can view audit logs" ON backoffice_audit_logs;
+CREATE POLICY "Backoffice users can view audit logs"
+  ON backoffice_audit_logs
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active'));
+
+CREATE POLICY "Members can view property audit logs"
+  ON backoffice_audit_logs
+  FOR SELECT
+  TO authenticated
+  USING (property_id IS NOT NULL AND has_permission(property_id, 'audit', 'view'));
@@ -0,0 +1,156 @@
+/*
+  # Two-factor authentication
+
+  1. New Tables
+    - `mfa_recovery_codes`: SHA-256 hashes of the single-use recovery codes of
+      users who enrolled a TOTP factor with Supabase Auth MFA. Codes are
+      compared without dashes, spaces or case.
+
+  2. Functions
+    - `mfa_satisfied()`: true when the session completed the second factor
+      (aal2) or the user has no verified factor.
+    - `regenerate_mfa_recovery_codes()`: replaces the signed-in user's codes
+      with 10 new ones and returns them; they are not readable afterwards.
+      Needs an aal2 session.
+    - `mfa_recovery_codes_remaining()`: how many unused codes the signed-in
+      user has left.
+    - `consume_mfa_recovery_code(user_id, code)`: marks a matching unused
+      code as used and returns whether there was one. Only the service role
+      can call it; the mfa-recovery edge function removes the user's factors
+      afterwards so they can sign in with their password again.
+
+  3. Security
+    - Restrictive policies on properties and every property-scoped table
+      require `mfa_satisfied()`, so a password-only session of an enrolled
+      user cannot read or change data by calling the API directly.
+    - `mfa_recovery_codes` has no policies; it is only used through the
+      functions above.
+*/
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS mfa_recovery_codes_user_id_idx
+  ON mfa_recovery_codes (user_id);
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION mfa_satisfied()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid() AND status = 'verified'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION regenerate_mfa_recovery_codes()
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  codes text[] := ARRAY[]::text[];
+  code text;
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'mfa_required'
+      USING ERRCODE = 'P0001',
+            HINT = 'Verify the second factor before creating recovery codes';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    code := encode(gen_random_bytes(5), 'hex');
+    code := substr(code, 1, 5) || '-' || substr(code, 6, 5);
+    codes := codes || code;
+
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), encode(digest(replace(code, '-', ''), 'sha256'), 'hex'));
+  END LOOP;
+
+  RETURN codes;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mfa_recovery_codes_remaining()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM mfa_recovery_codes
+  WHERE user_id = auth.uid() AND used_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION consume_mfa_recovery_code(p_user_id uuid, p_code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  normalized text := lower(regexp_replace(p_code, '[\s-]', '', 'g'));
+BEGIN
+  UPDATE mfa_recovery_codes
+  SET used_at = now()
+  WHERE id = (
+    SELECT id FROM mfa_recovery_codes
+    WHERE user_id = p_user_id
+      AND used_at IS NULL
+      AND code_hash = encode(digest(normalized, 'sha256'), 'hex')
+    LIMIT 1
+    FOR UPDATE
+  );
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_mfa_recovery_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_mfa_recovery_code(uuid, text) TO service_role;
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY[
+    'properties',
+    'property_members',
+    'property_invitations',
+    'rooms',
+    'tenants',
+    'payments',
+    'payment_transactions',
+    'tenant_adjustments',
+    'leases',
+    'tenant_documents',
+    'tenant_deposits',
+    'deposit_settlements',
+    'deposit_deductions',
+    'agreement_templates',
+    'maintenance_requests',
+    'property_backups',
+    'backoffice_audit_logs'
+  ]
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON %I AS RESTRICTIVE FOR ALL TO authenticated USING (mfa_satisfied()) WITH CHECK (mfa_satisfied())',
+      'Require second factor when enrolled', table_name
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,76 @@
+/*
+  # Session management
+
+  1. Functions
+    - `list_my_sessions()`: the signed-in user's Supabase Auth sessions with
+      their device (user agent), IP address, last activity and whether it is
+      the session making the call. Other sessions are signed out from the
+      client with `auth.signOut({ scope: 'others' })`.
+    - `notify_new_login()`: trigger on `auth.sessions` that adds a
+      notification for the user on every new sign-in when their
+      `login_notifications` setting is on (users without settings get it, as
+      the setting defaults to on).
+
+  2. Security
+    - `list_my_sessions()` only returns sessions of `auth.uid()`.
+*/
+
+CREATE OR REPLACE FUNCTION list_my_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  last_active_at timestamptz,
+  user_agent text,
+  ip text,
+  is_current boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at),
+    s.user_agent,
+    host(s.ip),
+    s.id::text = auth.jwt() ->> 'session_id'
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at) DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_new_login()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(
+    (SELECT login_notifications FROM user_settings WHERE user_id = NEW.user_id),
+    true
+  ) THEN
+    INSERT INTO notifications (title, message, type, status, target_user_id)
+    VALUES (
+      'Login baru',
+      'Akun Anda baru saja masuk'
+        || COALESCE(' dari ' || host(NEW.ip), '')
+        || COALESCE(' (' || left(NEW.user_agent, 120) || ')', '')
+        || '. Jika ini bukan Anda, ubah kata sandi dan keluarkan sesi lain di Pengaturan > Keamanan.',
+      'user',
+      'unread',
+      NEW.user_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_new_login ON auth.sessions;
+CREATE TRIGGER notify_new_login
+  AFTER INSERT ON auth.sessions
+  FOR EACH ROW EXECUTE FUNCTION notify_new_login();
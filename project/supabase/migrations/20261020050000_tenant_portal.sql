@@ -0,0 +1,196 @@
+/*
+  # Tenant self-service portal
+
+  1. New Tables
+    - `payment_proofs`: transfer proof images a tenant uploads for one of
+      their payments. Staff review them from the Payments page.
+
+  2. Storage
+    - Private `payment-proofs` bucket. Files live under
+      `<property_id>/<payment_id>/`.
+
+  3. Functions
+    - `normalize_phone(phone)`: digits only, with a leading 0 replaced by the
+      Indonesian country code 62, the way Supabase Auth stores phone numbers.
+    - `portal_tenants()`: id, room, property and status of the tenant records of the
+      signed-in user. A tenant signs in with a magic link to their email or a
+      one-time code to their phone; the verified email or phone is matched
+      against `tenants.email` / `tenants.phone`. The policies below go through
+      this function so they do not recurse into each other's RLS.
+
+  4. Security
+    - Tenants can view their own tenant records, rooms, properties, leases,
+      payments and maintenance requests, and nothing else of the property.
+    - Tenants can submit maintenance requests for the room they rent, and
+      upload payment proofs for their own unpaid payments.
+    - Members with `payments` view permission can view payment proofs.
+*/
+
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN digits = '' THEN NULL
+    WHEN left(digits, 1) = '0' THEN '62' || substr(digits, 2)
+    ELSE digits
+  END
+  FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS digits) d;
+$$;
+
+CREATE OR REPLACE FUNCTION portal_tenants()
+RETURNS TABLE (id uuid, room_id uuid, property_id uuid, status text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.room_id, t.property_id, t.status
+  FROM tenants t
+  WHERE auth.uid() IS NOT NULL
+    AND (
+      (NULLIF(auth.jwt() ->> 'email', '') IS NOT NULL
+        AND lower(t.email) = lower(auth.jwt() ->> 'email'))
+      OR (NULLIF(auth.jwt() ->> 'phone', '') IS NOT NULL
+        AND normalize_phone(t.phone) = normalize_phone(auth.jwt() ->> 'phone'))
+    );
+$$;
+
+CREATE TABLE IF NOT EXISTS payment_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  file_path text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  note text,
+  uploaded_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_proofs_payment_id_idx
+  ON payment_proofs (payment_id);
+
+ALTER TABLE payment_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenants can view their tenant records"
+  ON tenants
+  FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT id FROM portal_tenants()));
+
+CREATE POLICY "Tenants can view their rooms"
+  ON rooms
+  FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT room_id FROM portal_tenants()));
+
+CREATE POLICY "Tenants can view their properties"
+  ON properties
+  FOR SELECT
+  TO authenticated
+  USING (id IN (SELECT property_id FROM portal_tenants()));
+
+CREATE POLICY "Tenants can view their leases"
+  ON leases
+  FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (SELECT id FROM portal_tenants()));
+
+CREATE POLICY "Tenants can view their payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (SELECT id FROM portal_tenants()));
+
+CREATE POLICY "Tenants can view their maintenance requests"
+  ON maintenance_requests
+  FOR SELECT
+  TO authenticated
+  USING (tenant_id IN (SELECT id FROM portal_tenants()));
+
+CREATE POLICY "Tenants can submit maintenance requests for their room"
+  ON maintenance_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM portal_tenants() t
+      WHERE t.id = maintenance_requests.tenant_id
+        AND t.status = 'active'
+        AND t.room_id = maintenance_requests.room_id
+        AND t.property_id = maintenance_requests.property_id
+    )
+  );
+
+CREATE POLICY "Tenants can view their payment proofs"
+  ON payment_proofs
+  FOR SELECT
+  TO authenticated
+  USING (payment_id IN (SELECT id FROM payments WHERE tenant_id IN (SELECT id FROM portal_tenants())));
+
+CREATE POLICY "Tenants can upload payment proofs"
+  ON payment_proofs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM payments p
+      WHERE p.id = payment_proofs.payment_id
+        AND p.property_id = payment_proofs.property_id
+        AND p.tenant_id IN (SELECT id FROM portal_tenants())
+        AND p.status <> 'paid'
+    )
+  );
+
+CREATE POLICY "Members can view payment proofs"
+  ON payment_proofs
+  FOR SELECT
+  TO authenticated
+  USING (has_permission(property_id, 'payments', 'view'));
+
+CREATE POLICY "Require second factor when enrolled"
+  ON payment_proofs
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (mfa_satisfied())
+  WITH CHECK (mfa_satisfied());
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-proofs', 'payment-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Tenants can view their payment proof files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'payment-proofs'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM payments WHERE tenant_id IN (SELECT id FROM portal_tenants())
+    )
+  );
+
+CREATE POLICY "Tenants can upload payment proof files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'payment-proofs'
+    AND (storage.foldername(name))[2] IN (
+      SELECT id::text FROM payments
+      WHERE tenant_id IN (SELECT id FROM portal_tenants()) AND status <> 'paid'
+    )
+  );
+
+CREATE POLICY "Members can view payment proof files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'payment-proofs'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE has_permission(id, 'payments', 'view'))
+  );
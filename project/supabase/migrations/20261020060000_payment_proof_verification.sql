@@ -0,0 +1,174 @@
+/*
+  # Payment proof verification
+
+  1. Changes
+    - `payment_proofs.reviewed_by`, `reviewed_at`: who approved or rejected a
+      proof, and when.
+    - `payment_proofs.rejection_reason`: shown to the tenant in the portal and
+      sent to them as a notification.
+    - Staff can attach proofs to a payment themselves, e.g. screenshots
+      received over WhatsApp. Every proof is kept, so a payment has its full
+      attachment history.
+
+  2. Functions
+    - `approve_payment_proof(proof_id, date, payment_method)`: marks the proof
+      approved and records the remaining balance of its payment as a receipt
+      on that date, which marks the payment paid.
+    - `reject_payment_proof(proof_id, reason)`: marks the proof rejected and
+      notifies the tenant's portal accounts.
+    - `notify_payment_proof()`: trigger that notifies the property owner when a
+      tenant uploads a proof from the portal.
+
+  3. Errors
+    - `permission_denied` when the caller cannot edit payments of the property.
+    - `proof_already_reviewed` when the proof is no longer pending.
+
+  4. Security
+    - Members with `payments` edit permission can attach proofs and upload
+      their files.
+*/
+
+ALTER TABLE payment_proofs
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+CREATE INDEX IF NOT EXISTS payment_proofs_pending_idx
+  ON payment_proofs (property_id)
+  WHERE status = 'pending';
+
+CREATE POLICY "Members can attach payment proofs"
+  ON payment_proofs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (status = 'pending' AND has_permission(property_id, 'payments', 'edit'));
+
+CREATE POLICY "Members can upload payment proof files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'payment-proofs'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM properties WHERE has_permission(id, 'payments', 'edit'))
+  );
+
+-- The pending proof, locked for review, or an error when it cannot be reviewed
+CREATE OR REPLACE FUNCTION lock_payment_proof_for_review(p_proof_id uuid)
+RETURNS payment_proofs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proof payment_proofs;
+BEGIN
+  SELECT * INTO proof FROM payment_proofs WHERE id = p_proof_id FOR UPDATE;
+
+  IF proof.id IS NULL OR NOT has_permission(proof.property_id, 'payments', 'edit') THEN
+    RAISE EXCEPTION 'permission_denied' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF proof.status <> 'pending' THEN
+    RAISE EXCEPTION 'proof_already_reviewed' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN proof;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_payment_proof_for_review(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION approve_payment_proof(p_proof_id uuid, p_date date, p_payment_method text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proof payment_proofs;
+  balance numeric;
+BEGIN
+  proof := lock_payment_proof_for_review(p_proof_id);
+
+  UPDATE payment_proofs
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now()
+  WHERE id = proof.id;
+
+  SELECT amount - amount_paid INTO balance
+  FROM payments
+  WHERE id = proof.payment_id AND status <> 'paid';
+
+  IF balance > 0 THEN
+    INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes)
+    VALUES (proof.payment_id, proof.property_id, balance, p_date, p_payment_method, 'Bukti transfer diverifikasi');
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_payment_proof(p_proof_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proof payment_proofs;
+BEGIN
+  proof := lock_payment_proof_for_review(p_proof_id);
+
+  UPDATE payment_proofs
+  SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), rejection_reason = p_reason
+  WHERE id = proof.id;
+
+  INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id)
+  SELECT DISTINCT ON (u.id)
+    'Bukti transfer ditolak',
+    'Bukti transfer untuk tagihan jatuh tempo ' || to_char(p.due_date, 'DD/MM/YYYY')
+      || ' ditolak: ' || p_reason || '. Silakan kirim ulang bukti yang benar di Portal Penyewa.',
+    'payment',
+    'unread',
+    u.id,
+    p.property_id
+  FROM payments p
+  JOIN tenants t ON t.id = p.tenant_id
+  JOIN auth.users u
+    ON lower(u.email) = lower(t.email)
+    OR (u.phone IS NOT NULL AND u.phone <> '' AND normalize_phone(u.phone) = normalize_phone(t.phone))
+  WHERE p.id = proof.payment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_payment_proof()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Proofs attached by staff do not need a notification
+  IF property_role(NEW.property_id) IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id)
+  SELECT
+    'Bukti transfer baru',
+    t.name || ' mengirim bukti transfer untuk tagihan jatuh tempo ' || to_char(p.due_date, 'DD/MM/YYYY')
+      || '. Periksa di halaman Pembayaran.',
+    'payment',
+    'unread',
+    pr.owner_id,
+    pr.id
+  FROM payments p
+  JOIN tenants t ON t.id = p.tenant_id
+  JOIN properties pr ON pr.id = p.property_id
+  WHERE p.id = NEW.payment_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_payment_proof ON payment_proofs;
+CREATE TRIGGER notify_payment_proof
+  AFTER INSERT ON payment_proofs
+  FOR EACH ROW EXECUTE FUNCTION notify_payment_proof();
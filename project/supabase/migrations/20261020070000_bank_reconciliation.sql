@@ -0,0 +1,20 @@
+/*
+  # Bank statement reconciliation
+
+  1. Changes
+    - `payment_transactions.bank_reference` (text): identifies the bank
+      statement line (BCA/Mandiri mutasi) a receipt was recorded from. Set
+      when staff confirm a match during reconciliation; receipts entered by
+      hand leave it empty.
+
+  2. Indexes
+    - Unique per property, so the same credit cannot be recorded twice when a
+      statement is imported again or overlaps an earlier one.
+*/
+
+ALTER TABLE payment_transactions
+  ADD COLUMN IF NOT EXISTS bank_reference text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payment_transactions_bank_reference_idx
+  ON payment_transactions (property_id, bank_reference)
+  WHERE bank_reference IS NOT NULL;
@@ -0,0 +1,83 @@
+/*
+  # Unique payment codes
+
+  1. Changes
+    - `payments.payment_code` (smallint, 1-999): the invoice's "kode unik".
+      Tenants transfer the outstanding balance plus this many rupiah, so
+      invoices with the same rent can still be told apart on a bank
+      statement. The code only identifies the transfer and is not part of
+      the amount owed.
+    - New invoices get a code on insert, from every source (payment form,
+      auto billing, late fees), that no other unpaid invoice of the property
+      uses. Codes stay on the invoice after it is paid.
+    - Existing unpaid invoices are given codes, oldest due date first.
+
+  2. Functions
+    - `next_payment_code(property_id)`: a random code not held by any unpaid
+      invoice of the property, or NULL once all 999 are taken.
+*/
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS payment_code smallint CHECK (payment_code BETWEEN 1 AND 999);
+
+CREATE OR REPLACE FUNCTION next_payment_code(p_property_id uuid)
+RETURNS smallint
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT code::smallint
+    FROM generate_series(1, 999) AS code
+   WHERE NOT EXISTS (
+     SELECT 1
+       FROM payments
+      WHERE property_id = p_property_id
+        AND status <> 'paid'
+        AND payment_code = code
+   )
+   ORDER BY random()
+   LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_payment_code(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION payments_assign_payment_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_code IS NULL AND NEW.status <> 'paid' AND NEW.property_id IS NOT NULL THEN
+    -- Row lock on the property serialises concurrent invoices
+    PERFORM 1 FROM properties WHERE id = NEW.property_id FOR UPDATE;
+    NEW.payment_code := next_payment_code(NEW.property_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payments_assign_payment_code
+  BEFORE INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION payments_assign_payment_code();
+
+-- Give the invoices that are still open a code, oldest first
+DO $$
+DECLARE
+  v_payment record;
+BEGIN
+  FOR v_payment IN
+    SELECT id, property_id
+      FROM payments
+     WHERE status <> 'paid'
+       AND payment_code IS NULL
+       AND property_id IS NOT NULL
+     ORDER BY due_date, created_at
+  LOOP
+    UPDATE payments
+       SET payment_code = next_payment_code(v_payment.property_id)
+     WHERE id = v_payment.id;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,93 @@
+/*
+  # Limit the roles members can grant
+
+  1. Functions
+    - `role_rank(role)`: owner > admin > manager > staff.
+    - `can_grant_role(property_id, role)`: only the owner grants `admin`;
+      members grant roles at or below their own `property_role()`.
+    - `update_property_member_role(member_id, role)`: the only way to change
+      a member's role. Needs `users:edit`, and both the member's current and
+      new role must be grantable by the caller.
+
+  2. Errors
+    - `permission_denied` when the caller lacks `users:edit`, may not grant
+      the current or the new role, or tries to change their own role.
+
+  3. Security
+    - "Members can add property members" also requires the added role to be
+      grantable by the caller.
+    - "Members can edit property members" is dropped; members change roles
+      through `update_property_member_role`. Owners keep their policy.
+*/
+
+CREATE OR REPLACE FUNCTION role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN 4
+    WHEN 'admin' THEN 3
+    WHEN 'manager' THEN 2
+    WHEN 'staff' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION can_grant_role(p_property_id uuid, p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN property_role(p_property_id) = 'owner' THEN true
+    WHEN p_role = 'admin' THEN false
+    ELSE role_rank(p_role) BETWEEN 1 AND role_rank(property_role(p_property_id))
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Members can add property members" ON property_members;
+CREATE POLICY "Members can add property members"
+  ON property_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission(property_id, 'users', 'create')
+    AND can_grant_role(property_id, role)
+    AND user_id <> auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Members can edit property members" ON property_members;
+
+CREATE OR REPLACE FUNCTION update_property_member_role(p_member_id uuid, p_role text)
+RETURNS property_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member property_members;
+BEGIN
+  SELECT * INTO member FROM property_members WHERE id = p_member_id FOR UPDATE;
+
+  IF member.id IS NULL
+    OR member.user_id = auth.uid()
+    OR NOT has_permission(member.property_id, 'users', 'edit')
+    OR NOT can_grant_role(member.property_id, member.role)
+    OR NOT can_grant_role(member.property_id, p_role)
+  THEN
+    RAISE EXCEPTION 'permission_denied' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE property_members
+  SET role = p_role, updated_at = now()
+  WHERE id = member.id
+  RETURNING * INTO member;
+
+  RETURN member;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_property_member_role(uuid, text) FROM PUBLIC, anon;
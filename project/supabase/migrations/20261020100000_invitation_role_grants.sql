@@ -0,0 +1,122 @@
+/*
+  # Limit the roles members can invite
+
+  1. Changes
+    - `prepare_property_invitation` also checks the invited role with
+      `can_grant_role`: only the owner invites `admin`, other members invite
+      roles at or below their own.
+    - `accept_property_invitation` checks the role again against the inviter,
+      so invitations sent before this change, or by a member who has since
+      been demoted or removed, cannot hand out more than the inviter may.
+
+  2. Errors
+    - Inviting a role the caller may not grant raises `permission_denied`.
+    - Accepting an invitation the inviter may no longer grant raises
+      `invitation_not_found`.
+
+  3. Security
+    - "Members can invite to properties" also requires the invited role to be
+      grantable by the caller.
+*/
+
+CREATE OR REPLACE FUNCTION prepare_property_invitation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner uuid;
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  NEW.invited_by := auth.uid();
+
+  SELECT owner_id INTO owner FROM properties WHERE id = NEW.property_id;
+  PERFORM require_feature(owner, 'multi_user');
+
+  IF NOT can_grant_role(NEW.property_id, NEW.role) THEN
+    RAISE EXCEPTION 'permission_denied' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = owner AND lower(email) = NEW.email)
+    OR EXISTS (SELECT 1 FROM property_members WHERE property_id = NEW.property_id AND lower(email) = NEW.email)
+  THEN
+    RAISE EXCEPTION 'already_member'
+      USING ERRCODE = 'P0001',
+            HINT = 'The address already has access to this property';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM property_invitations
+    WHERE property_id = NEW.property_id AND email = NEW.email AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'invitation_pending'
+      USING ERRCODE = 'P0001',
+            HINT = 'The address already has a pending invitation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Members can invite to properties" ON property_invitations;
+CREATE POLICY "Members can invite to properties"
+  ON property_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND has_permission(property_id, 'users', 'create')
+    AND can_grant_role(property_id, role)
+  );
+
+CREATE OR REPLACE FUNCTION accept_property_invitation(p_invitation_id uuid)
+RETURNS property_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation property_invitations;
+  owner uuid;
+  inviter_role text;
+  member property_members;
+BEGIN
+  SELECT * INTO invitation
+  FROM property_invitations
+  WHERE id = p_invitation_id
+    AND status = 'pending'
+    AND email = lower(auth.jwt() ->> 'email')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT owner_id INTO owner FROM properties WHERE id = invitation.property_id;
+  PERFORM require_feature(owner, 'multi_user');
+
+  -- Same rule as can_grant_role, applied to the inviter instead of the caller
+  IF invitation.invited_by IS DISTINCT FROM owner THEN
+    SELECT role INTO inviter_role
+    FROM property_members
+    WHERE property_id = invitation.property_id AND user_id = invitation.invited_by;
+
+    IF invitation.role = 'admin' OR role_rank(invitation.role) > role_rank(inviter_role) THEN
+      RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  INSERT INTO property_members (property_id, user_id, role, email)
+  VALUES (invitation.property_id, auth.uid(), invitation.role, invitation.email)
+  ON CONFLICT (property_id, user_id) DO UPDATE
+    SET role = EXCLUDED.role, email = EXCLUDED.email, updated_at = now()
+  RETURNING * INTO member;
+
+  UPDATE property_invitations
+  SET status = 'accepted', responded_at = now(), updated_at = now()
+  WHERE id = invitation.id;
+
+  RETURN member;
+END;
+$$;
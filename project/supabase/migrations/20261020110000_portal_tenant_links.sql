@@ -0,0 +1,93 @@
+/*
+  # Link portal users to tenant records
+
+  1. Changes
+    - `tenants.user_id`: the portal account of the tenant. Set the first time
+      the tenant opens the portal after signing in, and cleared when staff
+      change the tenant's email or phone so the new address has to sign in
+      again. Clients cannot set it themselves.
+
+  2. Functions
+    - `link_portal_tenants()`: links the signed-in user to the unlinked
+      tenant records whose email or phone matches an address the user has
+      confirmed (`auth.users.email_confirmed_at` / `phone_confirmed_at`).
+      Returns the number of records linked.
+    - `portal_tenants()` now only returns the tenant records linked to the
+      signed-in user, instead of matching the email or phone claims of the
+      JWT, which are not necessarily verified.
+*/
+
+ALTER TABLE tenants
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tenants_user_id_idx
+  ON tenants (user_id)
+  WHERE user_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION link_portal_tenants()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked integer;
+BEGIN
+  UPDATE tenants t
+  SET user_id = u.id
+  FROM auth.users u
+  WHERE u.id = auth.uid()
+    AND t.user_id IS NULL
+    AND (
+      (u.email_confirmed_at IS NOT NULL
+        AND NULLIF(u.email, '') IS NOT NULL
+        AND lower(t.email) = lower(u.email))
+      OR (u.phone_confirmed_at IS NOT NULL
+        AND NULLIF(u.phone, '') IS NOT NULL
+        AND normalize_phone(t.phone) = normalize_phone(u.phone))
+    );
+
+  GET DIAGNOSTICS linked = ROW_COUNT;
+  RETURN linked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION link_portal_tenants() FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION portal_tenants()
+RETURNS TABLE (id uuid, room_id uuid, property_id uuid, status text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.room_id, t.property_id, t.status
+  FROM tenants t
+  WHERE auth.uid() IS NOT NULL
+    AND t.user_id = auth.uid();
+$$;
+
+-- Only link_portal_tenants sets the link; clients cannot point a tenant at another account
+CREATE OR REPLACE FUNCTION protect_portal_tenant_link()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.user_id := CASE WHEN TG_OP = 'UPDATE' THEN OLD.user_id END;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    lower(NEW.email) IS DISTINCT FROM lower(OLD.email)
+    OR normalize_phone(NEW.phone) IS DISTINCT FROM normalize_phone(OLD.phone)
+  ) THEN
+    NEW.user_id := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_portal_tenant_link ON tenants;
+CREATE TRIGGER protect_portal_tenant_link
+  BEFORE INSERT OR UPDATE ON tenants
+  FOR EACH ROW EXECUTE FUNCTION protect_portal_tenant_link();
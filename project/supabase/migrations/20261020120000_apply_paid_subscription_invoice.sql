@@ -0,0 +1,122 @@
+/*
+  # Apply paid subscription invoices in one transaction
+
+  1. Functions
+    - `apply_paid_subscription_invoice(invoice_id, paid_at)`: applies what a
+      paid invoice bought and marks it paid, in one transaction, so a failure
+      halfway cannot leave a subscription changed for an unpaid invoice or
+      the other way round.
+      - `start`: creates the subscription for one month from payment.
+      - `upgrade`: switches the subscription to the invoiced plan.
+      - `renewal`: moves the subscription into the invoiced period, which
+        also ends a trial or a past_due grace window. A renewal paid after
+        that period already ended starts a fresh month from payment.
+      Each records a `subscription_changes` row and, for a discounted
+      invoice, counts the month against the promo redemption.
+    - The invoice row is locked first, and only a `pending` invoice is
+      applied: calling it again for a paid (or failed, expired, void)
+      invoice returns the invoice unchanged.
+
+  2. Security
+    - Service role only; called by the subscription-webhook function.
+*/
+
+CREATE OR REPLACE FUNCTION apply_paid_subscription_invoice(
+  p_invoice_id uuid,
+  p_paid_at timestamptz DEFAULT now()
+)
+RETURNS subscription_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice subscription_invoices;
+  subscription subscriptions;
+  new_period_start timestamptz;
+  new_period_end timestamptz;
+BEGIN
+  SELECT * INTO invoice FROM subscription_invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown invoice: %', p_invoice_id;
+  END IF;
+
+  IF invoice.status <> 'pending' THEN
+    RETURN invoice;
+  END IF;
+
+  IF invoice.kind = 'start' THEN
+    INSERT INTO subscriptions (
+      user_id, plan_id, status, current_period_start, current_period_end, cancel_at_period_end
+    )
+    VALUES (
+      invoice.user_id, invoice.plan_id, 'active', p_paid_at, p_paid_at + interval '1 month', false
+    )
+    RETURNING * INTO subscription;
+
+    INSERT INTO subscription_changes (subscription_id, user_id, change_type, to_plan_id, amount, effective_at)
+    VALUES (subscription.id, invoice.user_id, 'start', invoice.plan_id, invoice.amount, p_paid_at);
+  ELSE
+    SELECT * INTO subscription FROM subscriptions WHERE id = invoice.subscription_id FOR UPDATE;
+
+    IF subscription.id IS NULL THEN
+      RAISE EXCEPTION 'Unknown subscription for invoice %', invoice.invoice_number;
+    END IF;
+
+    new_period_start := invoice.period_start;
+    new_period_end := invoice.period_end;
+    IF invoice.kind = 'renewal' AND new_period_end IS NOT NULL AND new_period_end <= p_paid_at THEN
+      new_period_start := p_paid_at;
+      new_period_end := p_paid_at + interval '1 month';
+    END IF;
+
+    IF invoice.kind = 'renewal' THEN
+      UPDATE subscriptions
+      SET plan_id = invoice.plan_id,
+          scheduled_plan_id = NULL,
+          status = 'active',
+          grace_until = NULL,
+          current_period_start = new_period_start,
+          current_period_end = new_period_end,
+          updated_at = p_paid_at
+      WHERE id = subscription.id;
+    ELSE
+      UPDATE subscriptions
+      SET plan_id = invoice.plan_id,
+          scheduled_plan_id = NULL,
+          updated_at = p_paid_at
+      WHERE id = subscription.id;
+    END IF;
+
+    INSERT INTO subscription_changes (
+      subscription_id, user_id, change_type, from_plan_id, to_plan_id, amount, effective_at
+    )
+    VALUES (
+      subscription.id,
+      invoice.user_id,
+      invoice.kind,
+      subscription.plan_id,
+      invoice.plan_id,
+      invoice.amount,
+      CASE WHEN invoice.kind = 'renewal' THEN new_period_start ELSE p_paid_at END
+    );
+  END IF;
+
+  UPDATE subscription_invoices
+  SET status = 'paid',
+      paid_at = p_paid_at,
+      subscription_id = subscription.id,
+      updated_at = p_paid_at
+  WHERE id = invoice.id
+  RETURNING * INTO invoice;
+
+  IF invoice.promo_redemption_id IS NOT NULL THEN
+    PERFORM record_promo_period(invoice.promo_redemption_id, invoice.amount, invoice.discount_amount);
+  END IF;
+
+  RETURN invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_paid_subscription_invoice(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+/*
+  # Restrict validate_promo_code
+
+  1. Security
+    - `validate_promo_code` is no longer executable by `anon` or `PUBLIC`.
+    - Calls without a signed-in user are refused unless they come with the
+      service role (the subscription edge functions). Before, a request
+      without a user skipped the backoffice check, so the function could be
+      used to probe codes and see who redeemed them.
+*/
+
+CREATE OR REPLACE FUNCTION validate_promo_code(p_code text, p_user_id uuid, p_plan_id uuid)
+RETURNS promo_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  promo promo_codes;
+  reason text;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  -- Locked so concurrent redemptions see each other's redemption_count
+  SELECT * INTO promo FROM promo_codes WHERE code = upper(btrim(p_code)) FOR UPDATE;
+
+  reason := CASE
+    WHEN promo.id IS NULL THEN 'not_found'
+    WHEN NOT promo.is_active THEN 'inactive'
+    WHEN promo.valid_from IS NOT NULL AND now() < promo.valid_from THEN 'not_started'
+    WHEN promo.valid_until IS NOT NULL AND now() >= promo.valid_until THEN 'expired'
+    WHEN promo.max_redemptions IS NOT NULL AND promo.redemption_count >= promo.max_redemptions THEN 'exhausted'
+    WHEN cardinality(promo.plan_ids) > 0 AND NOT p_plan_id = ANY (promo.plan_ids) THEN 'plan_not_eligible'
+    WHEN EXISTS (SELECT 1 FROM promo_redemptions WHERE promo_code_id = promo.id AND user_id = p_user_id) THEN 'already_redeemed'
+  END;
+
+  IF reason IS NOT NULL THEN
+    RAISE EXCEPTION 'promo_code_invalid'
+      USING ERRCODE = 'P0001',
+            DETAIL = json_build_object('reason', reason)::text;
+  END IF;
+
+  RETURN promo;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION validate_promo_code(text, uuid, uuid) FROM PUBLIC, anon;
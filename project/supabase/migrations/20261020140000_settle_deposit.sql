@@ -0,0 +1,122 @@
+/*
+  # Settle deposits in one transaction
+
+  1. Functions
+    - `settle_deposit(tenant_id, room_id, date, refund_method, notes, deductions)`:
+      the move-out settlement of a tenant's held deposits, written in one
+      transaction: the settlement, its deductions, a `deposit` receipt for
+      each unpaid invoice covered, and the deposits marked settled. The held
+      deposits are locked first, so two settlements of the same tenant
+      cannot both use them. `deductions` is a JSON array of
+      `{type, description, amount, payment_id, maintenance_request_id}`.
+      Returns `{settlement, deductions}`.
+
+  2. Errors
+    - `permission_denied` when the caller cannot edit tenants of the property.
+    - `deductions_exceed_deposit` when the deductions add up to more than the
+      held deposits.
+    - `deduction_exceeds_balance` when an unpaid rent deduction is more than
+      the outstanding balance of its invoice, or the invoice is not one of
+      the tenant's unpaid invoices.
+*/
+
+CREATE OR REPLACE FUNCTION settle_deposit(
+  p_tenant_id uuid,
+  p_room_id uuid,
+  p_date date,
+  p_refund_method text,
+  p_notes text,
+  p_deductions jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tenant tenants;
+  settlement deposit_settlements;
+  deduction record;
+  held_ids uuid[];
+  held_amount numeric;
+  deducted_amount numeric;
+  balance numeric;
+BEGIN
+  SELECT * INTO tenant FROM tenants WHERE id = p_tenant_id;
+
+  IF tenant.id IS NULL OR NOT has_permission(tenant.property_id, 'tenants', 'edit') THEN
+    RAISE EXCEPTION 'permission_denied' USING ERRCODE = 'P0001';
+  END IF;
+
+  WITH held AS (
+    SELECT id, amount
+    FROM tenant_deposits
+    WHERE tenant_id = tenant.id AND status = 'held'
+    FOR UPDATE
+  )
+  SELECT COALESCE(array_agg(id), '{}'), COALESCE(sum(amount), 0)
+  INTO held_ids, held_amount
+  FROM held;
+
+  SELECT COALESCE(sum((d ->> 'amount')::numeric), 0) INTO deducted_amount
+  FROM jsonb_array_elements(COALESCE(p_deductions, '[]')) d;
+
+  IF deducted_amount > held_amount THEN
+    RAISE EXCEPTION 'deductions_exceed_deposit' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO deposit_settlements (
+    tenant_id, property_id, room_id, date,
+    deposit_amount, total_deductions, refund_amount, refund_method, notes
+  )
+  VALUES (
+    tenant.id, tenant.property_id, p_room_id, p_date,
+    held_amount, deducted_amount, held_amount - deducted_amount, p_refund_method, p_notes
+  )
+  RETURNING * INTO settlement;
+
+  FOR deduction IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(p_deductions, '[]')) AS d (
+      type text, description text, amount numeric, payment_id uuid, maintenance_request_id uuid
+    )
+  LOOP
+    INSERT INTO deposit_deductions (
+      settlement_id, property_id, type, description, amount, payment_id, maintenance_request_id
+    )
+    VALUES (
+      settlement.id, tenant.property_id, deduction.type, deduction.description,
+      deduction.amount, deduction.payment_id, deduction.maintenance_request_id
+    );
+
+    -- Unpaid rent covered by the deposit is received against the invoice itself
+    IF deduction.type = 'unpaid_rent' AND deduction.payment_id IS NOT NULL THEN
+      SELECT amount - amount_paid INTO balance
+      FROM payments
+      WHERE id = deduction.payment_id AND tenant_id = tenant.id AND status <> 'paid'
+      FOR UPDATE;
+
+      IF balance IS NULL OR deduction.amount > balance THEN
+        RAISE EXCEPTION 'deduction_exceeds_balance' USING ERRCODE = 'P0001';
+      END IF;
+
+      INSERT INTO payment_transactions (payment_id, property_id, amount, date, payment_method, notes)
+      VALUES (deduction.payment_id, tenant.property_id, deduction.amount, p_date, 'deposit', 'Potongan deposit');
+    END IF;
+  END LOOP;
+
+  UPDATE tenant_deposits
+  SET status = 'settled', settlement_id = settlement.id
+  WHERE id = ANY (held_ids);
+
+  RETURN jsonb_build_object(
+    'settlement', to_jsonb(settlement),
+    'deductions', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(dd) ORDER BY dd.created_at) FROM deposit_deductions dd WHERE dd.settlement_id = settlement.id),
+      '[]'
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION settle_deposit(uuid, uuid, date, text, text, jsonb) FROM PUBLIC, anon;
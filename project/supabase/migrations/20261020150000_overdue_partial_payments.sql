@@ -0,0 +1,54 @@
+/*
+  # Partially paid invoices become overdue
+
+  1. Changes
+    - `refresh_payment_balance` marks an invoice `overdue` when it is past
+      its due date and a balance remains, even if part of it was paid.
+      `partially_paid` now only means part paid and not yet due.
+    - Existing partially paid invoices past their due date are marked
+      overdue. The process-overdue-payments job does the same every day for
+      invoices that fall due with a balance remaining.
+*/
+
+CREATE OR REPLACE FUNCTION refresh_payment_balance(p_payment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_paid numeric;
+  v_last_date date;
+  v_last_method text;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0), MAX(date)
+    INTO v_paid, v_last_date
+    FROM payment_transactions
+   WHERE payment_id = p_payment_id;
+
+  SELECT payment_method
+    INTO v_last_method
+    FROM payment_transactions
+   WHERE payment_id = p_payment_id
+   ORDER BY date DESC, created_at DESC
+   LIMIT 1;
+
+  UPDATE payments
+     SET amount_paid = v_paid,
+         status = CASE
+           WHEN v_paid >= amount THEN 'paid'
+           WHEN due_date < CURRENT_DATE THEN 'overdue'
+           WHEN v_paid > 0 THEN 'partially_paid'
+           ELSE 'pending'
+         END,
+         date = CASE WHEN v_paid >= amount THEN v_last_date ELSE NULL END,
+         payment_method = COALESCE(v_last_method, payment_method),
+         updated_at = now()
+   WHERE id = p_payment_id;
+END;
+$$;
+
+UPDATE payments
+   SET status = 'overdue', updated_at = now()
+ WHERE status = 'partially_paid'
+   AND due_date < CURRENT_DATE;
@@ -0,0 +1,75 @@
+/*
+  # Financial report totals from receipts
+
+  1. Changes
+    - `financial_report` counts what was actually received and what is still
+      owed, instead of whole invoice amounts by status:
+      - `revenue`: the sum of `amount_paid` over all invoices, so receipts on
+        partially paid and overdue invoices are included.
+      - `pending` / `overdue`: the remaining balance (`amount - amount_paid`)
+        of invoices that are not paid, split on whether they are overdue.
+        Partially paid invoices count towards `pending` until they are
+        overdue.
+*/
+
+CREATE OR REPLACE FUNCTION financial_report(p_property_id uuid, p_start date, p_end date)
+RETURNS TABLE (
+  month date,
+  revenue numeric,
+  pending numeric,
+  overdue numeric,
+  late_fees numeric,
+  occupancy_rate integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  owner uuid;
+  occupancy integer;
+BEGIN
+  SELECT p.owner_id INTO owner FROM properties p WHERE p.id = p_property_id;
+  IF owner IS NULL OR NOT has_permission(p_property_id, 'reports', 'view') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  PERFORM require_feature(owner, 'financial_reports', 'basic');
+
+  SELECT COALESCE(round(count(*) FILTER (WHERE r.status = 'occupied') * 100.0 / NULLIF(count(*), 0)), 0)::integer
+    INTO occupancy
+  FROM rooms r
+  WHERE r.property_id = p_property_id;
+
+  -- Paid payments count in the month they were paid, open ones in the month they are due
+  RETURN QUERY
+  WITH months AS (
+    SELECT generate_series(date_trunc('month', p_start), date_trunc('month', p_end), interval '1 month')::date AS month
+  ),
+  scoped AS (
+    SELECT
+      pay.amount,
+      pay.amount_paid,
+      pay.status,
+      pay.kind,
+      date_trunc('month', CASE WHEN pay.status = 'paid' THEN pay.date ELSE pay.due_date END)::date AS month
+    FROM payments pay
+    WHERE pay.property_id = p_property_id
+      AND pay.created_at >= p_start
+      AND pay.created_at < p_end + 1
+  )
+  SELECT
+    m.month,
+    COALESCE(sum(s.amount_paid), 0),
+    COALESCE(sum(s.amount - s.amount_paid) FILTER (WHERE s.status NOT IN ('paid', 'overdue')), 0),
+    COALESCE(sum(s.amount - s.amount_paid) FILTER (WHERE s.status = 'overdue'), 0),
+    COALESCE(sum(s.amount) FILTER (WHERE s.kind = 'late_fee'), 0),
+    occupancy
+  FROM months m
+  LEFT JOIN scoped s ON s.month = m.month
+  GROUP BY m.month
+  ORDER BY m.month;
+END;
+$$;
@@ -0,0 +1,12 @@
+/*
+  # Retire subscription plans
+
+  1. Changes
+    - `subscription_plans.is_active`: whether owners can choose the plan.
+      Backoffice users turn it off to retire a plan; existing subscribers
+      keep it and renew on it, but nobody can start or switch to it. The
+      change-subscription function only accepts active plans.
+*/
+
+ALTER TABLE subscription_plans
+  ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
@@ -0,0 +1,82 @@
+/*
+  # Raise new-login notifications from the client
+
+  1. Changes
+    - Drops the `notify_new_login` trigger on `auth.sessions`. Auth owns that
+      schema, so triggers there can break sign-ins and are lost on Auth
+      upgrades.
+
+  2. New Tables
+    - `login_notices`: the sessions a new-login notification was raised
+      for, so each sign-in is notified once however often the client
+      reports it.
+
+  3. Functions
+    - `notify_login()`: called by the app after every sign-in. Adds the
+      notification for the calling session's device and IP address when the
+      user's `login_notifications` setting is on (users without settings get
+      it, as the setting defaults to on). Returns whether it notified.
+    - `list_my_sessions()` is unchanged.
+
+  4. Security
+    - `login_notices` has RLS on and no policies; only `notify_login()`
+      writes it.
+*/
+
+DROP TRIGGER IF EXISTS notify_new_login ON auth.sessions;
+DROP FUNCTION IF EXISTS notify_new_login();
+
+CREATE TABLE IF NOT EXISTS login_notices (
+  session_id uuid PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE login_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION notify_login()
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session auth.sessions;
+BEGIN
+  SELECT * INTO session
+  FROM auth.sessions s
+  WHERE s.id::text = auth.jwt() ->> 'session_id'
+    AND s.user_id = auth.uid();
+
+  IF session.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO login_notices (session_id, user_id)
+  VALUES (session.id, session.user_id)
+  ON CONFLICT (session_id) DO NOTHING;
+
+  IF NOT FOUND OR NOT COALESCE(
+    (SELECT login_notifications FROM user_settings WHERE user_id = session.user_id),
+    true
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO notifications (title, message, type, status, target_user_id)
+  VALUES (
+    'Login baru',
+    'Akun Anda baru saja masuk'
+      || COALESCE(' dari ' || host(session.ip), '')
+      || COALESCE(' (' || left(session.user_agent, 120) || ')', '')
+      || '. Jika ini bukan Anda, ubah kata sandi dan keluarkan sesi lain di Pengaturan > Keamanan.',
+    'user',
+    'unread',
+    session.user_id
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_login() FROM PUBLIC, anon;
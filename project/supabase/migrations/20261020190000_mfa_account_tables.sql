@@ -0,0 +1,29 @@
+/*
+  # Second factor on account tables
+
+  1. Security
+    - The restrictive "Require second factor when enrolled" policy also
+      covers `user_settings`, `notifications`, `subscriptions`,
+      `subscription_invoices` and `subscription_changes`, so a password-only
+      session of an enrolled user cannot read or change the account's
+      settings, notifications or billing either.
+*/
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY[
+    'user_settings',
+    'notifications',
+    'subscriptions',
+    'subscription_invoices',
+    'subscription_changes'
+  ]
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON %I AS RESTRICTIVE FOR ALL TO authenticated USING (mfa_satisfied()) WITH CHECK (mfa_satisfied())',
+      'Require second factor when enrolled', table_name
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,15 @@
+/*
+  # Auto billing setting
+
+  1. Changes
+    - `user_settings.auto_billing`: whether generate-invoices creates rent
+      invoices for the owner's properties. Before, billing followed
+      `payment_reminders`, so turning reminders off also stopped invoicing.
+      Existing owners keep their current behaviour: the new setting starts
+      out as their `payment_reminders` value.
+*/
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS auto_billing boolean NOT NULL DEFAULT true;
+
+UPDATE user_settings SET auto_billing = payment_reminders;
@@ -0,0 +1,41 @@
+/*
+  # Notify rejected payment proofs through the portal link
+
+  1. Changes
+    - `reject_payment_proof` notifies the tenant's linked portal account
+      (`tenants.user_id`, set by `link_portal_tenants`) instead of every
+      account whose email or phone matches the tenant's, which did not have
+      to be confirmed. Tenants who never opened the portal get no
+      notification.
+*/
+
+CREATE OR REPLACE FUNCTION reject_payment_proof(p_proof_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proof payment_proofs;
+BEGIN
+  proof := lock_payment_proof_for_review(p_proof_id);
+
+  UPDATE payment_proofs
+  SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), rejection_reason = p_reason
+  WHERE id = proof.id;
+
+  INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id)
+  SELECT
+    'Bukti transfer ditolak',
+    'Bukti transfer untuk tagihan jatuh tempo ' || to_char(p.due_date, 'DD/MM/YYYY')
+      || ' ditolak: ' || p_reason || '. Silakan kirim ulang bukti yang benar di Portal Penyewa.',
+    'payment',
+    'unread',
+    t.user_id,
+    p.property_id
+  FROM payments p
+  JOIN tenants t ON t.id = p.tenant_id
+  WHERE p.id = proof.payment_id
+    AND t.user_id IS NOT NULL;
+END;
+$$;
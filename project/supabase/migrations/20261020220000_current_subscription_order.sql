@@ -0,0 +1,61 @@
+/*
+  # One rule for the current subscription
+
+  1. Changes
+    - `plan_limits` and `plan_features` take the owner's newest trialing,
+      active or past_due subscription (`created_at DESC`), the same one the
+      app and the subscription edge functions treat as current. Ordering by
+      `current_period_end DESC` put subscriptions without a period end first.
+*/
+
+CREATE OR REPLACE FUNCTION plan_limits(owner uuid)
+RETURNS TABLE (max_properties integer, max_rooms_per_property integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT sp.max_properties
+      FROM subscriptions s
+      JOIN subscription_plans sp ON sp.id = s.plan_id
+      WHERE s.user_id = owner AND s.status IN ('trialing', 'active', 'past_due')
+      ORDER BY s.created_at DESC
+      LIMIT 1
+    ), 1),
+    COALESCE((
+      SELECT sp.max_rooms_per_property
+      FROM subscriptions s
+      JOIN subscription_plans sp ON sp.id = s.plan_id
+      WHERE s.user_id = owner AND s.status IN ('trialing', 'active', 'past_due')
+      ORDER BY s.created_at DESC
+      LIMIT 1
+    ), 1);
+$$;
+
+CREATE OR REPLACE FUNCTION plan_features(owner uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT sp.features
+    FROM subscriptions s
+    JOIN subscription_plans sp ON sp.id = s.plan_id
+    WHERE s.user_id = owner AND s.status IN ('trialing', 'active', 'past_due')
+    ORDER BY s.created_at DESC
+    LIMIT 1
+  ), jsonb_build_object(
+    'tenant_data', true,
+    'auto_billing', false,
+    'billing_notifications', false,
+    'financial_reports', false,
+    'data_backup', false,
+    'multi_user', false,
+    'analytics', false,
+    'support', 'basic'
+  ));
+$$;
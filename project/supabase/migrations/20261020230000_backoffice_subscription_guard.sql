@@ -0,0 +1,76 @@
+/*
+  # One live subscription per backoffice grant
+
+  1. Changes
+    - `create_backoffice_subscription` refuses users who already have a
+      trialing, active or past_due subscription, so backoffice users cannot
+      give an owner a second live subscription.
+
+  2. Errors
+    - `subscription_exists` when the user already has a live subscription.
+*/
+
+CREATE OR REPLACE FUNCTION create_backoffice_subscription(p_user_id uuid, p_plan_id uuid, p_promo_code text DEFAULT NULL)
+RETURNS subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan subscription_plans;
+  promo promo_codes;
+  created subscriptions;
+  discount numeric := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM backoffice_users WHERE user_id = auth.uid() AND status = 'active') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  -- Serialises backoffice subscriptions for the user, so two cannot both pass the check below
+  PERFORM pg_advisory_xact_lock(hashtext('subscriptions:' || p_user_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM subscriptions
+    WHERE user_id = p_user_id AND status IN ('trialing', 'active', 'past_due')
+  ) THEN
+    RAISE EXCEPTION 'subscription_exists' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO plan FROM subscription_plans WHERE id = p_plan_id;
+  IF plan.id IS NULL THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF NULLIF(btrim(p_promo_code), '') IS NOT NULL THEN
+    promo := validate_promo_code(p_promo_code, p_user_id, p_plan_id);
+    discount := promo_discount(promo.discount_type, promo.discount_value, plan.price);
+  END IF;
+
+  INSERT INTO subscriptions (user_id, plan_id, status, current_period_start, current_period_end, cancel_at_period_end)
+  VALUES (p_user_id, p_plan_id, 'active', now(), now() + interval '1 month', false)
+  RETURNING * INTO created;
+
+  INSERT INTO subscription_changes (subscription_id, user_id, change_type, to_plan_id, amount, effective_at)
+  VALUES (created.id, p_user_id, 'start', p_plan_id, plan.price - discount, now());
+
+  IF promo.id IS NOT NULL THEN
+    -- The first month is billed here, so it counts against duration_months
+    INSERT INTO promo_redemptions (
+      promo_code_id, user_id, subscription_id, plan_id,
+      discount_type, discount_value, plan_ids, duration_months,
+      months_applied, discount_total, revenue_total
+    )
+    VALUES (
+      promo.id, p_user_id, created.id, p_plan_id,
+      promo.discount_type, promo.discount_value, promo.plan_ids, promo.duration_months,
+      1, discount, plan.price - discount
+    );
+
+    UPDATE promo_codes
+    SET redemption_count = redemption_count + 1, updated_at = now()
+    WHERE id = promo.id;
+  END IF;
+
+  RETURN created;
+END;
+$$;
@@ -0,0 +1,146 @@
+/*
+  # Match invitations against confirmed email addresses
+
+  1. Functions
+    - `confirmed_email()`: the signed-in user's email address, lowercased,
+      once it has been confirmed (`auth.users.email_confirmed_at`); NULL
+      otherwise.
+    - `accept_property_invitation` and `decline_property_invitation` match
+      the invitation against `confirmed_email()` instead of the email claim
+      of the JWT, which is not necessarily verified.
+    - `notify_property_invitation` only notifies an account whose email is
+      confirmed.
+
+  2. Security
+    - "Invitees can view their invitations" and "Invitees can view invited
+      properties" match against `confirmed_email()` as well.
+*/
+
+CREATE OR REPLACE FUNCTION confirmed_email()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(u.email)
+  FROM auth.users u
+  WHERE u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL
+    AND NULLIF(u.email, '') IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION confirmed_email() FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION notify_property_invitation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (title, message, type, status, target_user_id, target_property_id)
+  SELECT
+    'Undangan tim properti',
+    'Anda diundang bergabung ke ' || p.name || '. Buka halaman Properti untuk menerima atau menolak undangan.',
+    'property',
+    'unread',
+    u.id,
+    p.id
+  FROM auth.users u
+  JOIN properties p ON p.id = NEW.property_id
+  WHERE lower(u.email) = NEW.email
+    AND u.email_confirmed_at IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_property_invitation(p_invitation_id uuid)
+RETURNS property_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation property_invitations;
+  owner uuid;
+  inviter_role text;
+  member property_members;
+BEGIN
+  SELECT * INTO invitation
+  FROM property_invitations
+  WHERE id = p_invitation_id
+    AND status = 'pending'
+    AND email = confirmed_email()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT owner_id INTO owner FROM properties WHERE id = invitation.property_id;
+  PERFORM require_feature(owner, 'multi_user');
+
+  -- Same rule as can_grant_role, applied to the inviter instead of the caller
+  IF invitation.invited_by IS DISTINCT FROM owner THEN
+    SELECT role INTO inviter_role
+    FROM property_members
+    WHERE property_id = invitation.property_id AND user_id = invitation.invited_by;
+
+    IF invitation.role = 'admin' OR role_rank(invitation.role) > role_rank(inviter_role) THEN
+      RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  INSERT INTO property_members (property_id, user_id, role, email)
+  VALUES (invitation.property_id, auth.uid(), invitation.role, invitation.email)
+  ON CONFLICT (property_id, user_id) DO UPDATE
+    SET role = EXCLUDED.role, email = EXCLUDED.email, updated_at = now()
+  RETURNING * INTO member;
+
+  UPDATE property_invitations
+  SET status = 'accepted', responded_at = now(), updated_at = now()
+  WHERE id = invitation.id;
+
+  RETURN member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_property_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE property_invitations
+  SET status = 'declined', responded_at = now(), updated_at = now()
+  WHERE id = p_invitation_id
+    AND status = 'pending'
+    AND email = confirmed_email();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invitation_not_found' USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Invitees can view their invitations" ON property_invitations;
+CREATE POLICY "Invitees can view their invitations"
+  ON property_invitations
+  FOR SELECT
+  TO authenticated
+  USING (email = confirmed_email());
+
+DROP POLICY IF EXISTS "Invitees can view invited properties" ON properties;
+CREATE POLICY "Invitees can view invited properties"
+  ON properties
+  FOR SELECT
+  TO authenticated
+  USING (
+    id IN (
+      SELECT property_id FROM property_invitations
+      WHERE email = confirmed_email() AND status = 'pending'
+    )
+  );
@@ -0,0 +1,10 @@
+/*
+  # Keep refresh_payment_balance internal
+
+  1. Security
+    - `refresh_payment_balance` is only called by the payment_transactions
+      trigger. Clients can no longer call it to rewrite the status and paid
+      date of any invoice by id.
+*/
+
+REVOKE EXECUTE ON FUNCTION refresh_payment_balance(uuid) FROM PUBLIC, anon, authenticated;
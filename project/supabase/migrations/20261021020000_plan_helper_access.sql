@@ -0,0 +1,16 @@
+/*
+  # Keep the plan helpers internal
+
+  1. Security
+    - `plan_limits`, `plan_features`, `has_feature`, `require_feature` and
+      `subscription_read_only` take any owner id and are only called from
+      SECURITY DEFINER functions and triggers. Clients can no longer call
+      them to read another owner's plan or billing state. The app reads the
+      signed-in owner's plan through `subscriptions` and `property_plan`.
+*/
+
+REVOKE EXECUTE ON FUNCTION plan_limits(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION plan_features(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION has_feature(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION require_feature(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION subscription_read_only(uuid) FROM PUBLIC, anon, authenticated;
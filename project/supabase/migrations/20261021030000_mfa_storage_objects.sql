@@ -0,0 +1,18 @@
+/*
+  # Second factor on property files
+
+  1. Security
+    - A restrictive policy on `storage.objects` requires `mfa_satisfied()`
+      for the `property-backups`, `tenant-documents` and `payment-proofs`
+      buckets, so a password-only session of an enrolled user cannot read
+      or upload backups, tenant documents or payment proofs through the
+      storage API either. Other buckets are not affected.
+*/
+
+CREATE POLICY "Require second factor for property files"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (bucket_id NOT IN ('property-backups', 'tenant-documents', 'payment-proofs') OR mfa_satisfied())
+  WITH CHECK (bucket_id NOT IN ('property-backups', 'tenant-documents', 'payment-proofs') OR mfa_satisfied());